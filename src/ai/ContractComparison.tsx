@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import { useContractComparison } from '../hooks/useContractComparison';
+import { CLAUSE_CATEGORY_LABELS, formatClauseNumber } from '../services/clause-analyzer';
+import { ClauseComparison, RiskShift, TextChange } from '../types/contract-comparison';
+
+const STATUS_STYLES: Record<ClauseComparison['status'], { label: string; className: string }> = {
+  unchanged: { label: '변경 없음', className: 'bg-gray-100 text-gray-600' },
+  modified: { label: '수정', className: 'bg-yellow-100 text-yellow-800' },
+  added: { label: '추가', className: 'bg-green-100 text-green-800' },
+  removed: { label: '삭제', className: 'bg-red-100 text-red-800' },
+};
+
+const SEVERITY_STYLES: Record<RiskShift['severity'], string> = {
+  critical: 'border-red-500 bg-red-50 text-red-800',
+  warning: 'border-yellow-500 bg-yellow-50 text-yellow-800',
+  info: 'border-blue-400 bg-blue-50 text-blue-800',
+};
+
+// 원본 쪽은 삭제분, 수정본 쪽은 추가분을 강조
+const renderChanges = (changes: TextChange[], side: 'original' | 'revised') => {
+  return changes
+    .filter(change => change.type === 'equal' || (side === 'original' ? change.type === 'delete' : change.type === 'insert'))
+    .map((change, i) => {
+      if (change.type === 'equal') return <span key={i}>{change.text}</span>;
+      return side === 'original'
+        ? <del key={i} className="bg-red-200 text-red-900">{change.text}</del>
+        : <ins key={i} className="bg-green-200 text-green-900 no-underline">{change.text}</ins>;
+    });
+};
+
+const ClauseRow = ({ item }: { item: ClauseComparison }) => {
+  const status = STATUS_STYLES[item.status];
+
+  return (
+    <div className="border rounded p-3 space-y-2">
+      <div className="flex items-center gap-2 text-sm">
+        <span className={`px-2 py-0.5 rounded ${status.className}`}>{status.label}</span>
+        {item.renumbered && <span className="text-gray-500">조항 번호 변경</span>}
+        <span className="text-gray-500">
+          {CLAUSE_CATEGORY_LABELS[(item.revised || item.original)!.category]}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="whitespace-pre-wrap text-sm">
+          {item.original && (
+            <>
+              <p className="font-semibold mb-1">{formatClauseNumber(item.original)} {item.original.title}</p>
+              {item.status === 'modified' ? renderChanges(item.changes, 'original') : item.original.text}
+            </>
+          )}
+        </div>
+        <div className="whitespace-pre-wrap text-sm">
+          {item.revised && (
+            <>
+              <p className="font-semibold mb-1">{formatClauseNumber(item.revised)} {item.revised.title}</p>
+              {item.status === 'modified' ? renderChanges(item.changes, 'revised') : item.revised.text}
+            </>
+          )}
+        </div>
+      </div>
+
+      {item.obligationChanges.length > 0 && (
+        <ul className="text-xs space-y-1">
+          {item.obligationChanges.map((change, i) => (
+            <li key={i} className={change.type === 'added' ? 'text-green-700' : 'text-red-700'}>
+              {change.type === 'added' ? '＋ 의무 추가' : '－ 의무 삭제'}: {change.sentence}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {item.riskShifts.map((shift, i) => (
+        <div key={i} className={`border-l-4 px-2 py-1 text-xs ${SEVERITY_STYLES[shift.severity]}`}>
+          {shift.direction === 'increased' ? '⚠️' : '✅'} {shift.message}
+          {(shift.before || shift.after) && shift.code.endsWith('_CHANGED') && (
+            <span className="ml-1">({shift.before || '없음'} → {shift.after || '없음'})</span>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export const ContractComparison = ({
+  originalDocumentId,
+  revisedDocumentId,
+}: {
+  originalDocumentId?: string;
+  revisedDocumentId?: string;
+}) => {
+  const { comparison, isComparing, error, compare } = useContractComparison();
+  const [originalText, setOriginalText] = useState('');
+  const [revisedText, setRevisedText] = useState('');
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const handleCompare = () => {
+    compare(
+      originalDocumentId ? { documentId: originalDocumentId } : { text: originalText },
+      revisedDocumentId ? { documentId: revisedDocumentId } : { text: revisedText }
+    );
+  };
+
+  const visibleClauses = comparison?.clauses.filter(item => showUnchanged || item.status !== 'unchanged') || [];
+  const documentRisks = comparison?.riskShifts.filter(shift => shift.code === 'CATEGORY_MISSING') || [];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        {!originalDocumentId && (
+          <textarea
+            value={originalText}
+            onChange={(e) => setOriginalText(e.target.value)}
+            placeholder="원본 계약서 (당사 작성본)"
+            className="w-full h-48 p-3 border rounded text-sm"
+          />
+        )}
+        {!revisedDocumentId && (
+          <textarea
+            value={revisedText}
+            onChange={(e) => setRevisedText(e.target.value)}
+            placeholder="상대방 수정본"
+            className="w-full h-48 p-3 border rounded text-sm"
+          />
+        )}
+      </div>
+
+      <button
+        onClick={handleCompare}
+        disabled={isComparing}
+        className="bg-blue-600 text-white py-2 px-4 rounded-md disabled:bg-gray-400"
+      >
+        {isComparing ? '🔍 비교 중...' : '🔀 조항별 비교'}
+      </button>
+
+      {error && (
+        <div className="bg-red-100 text-red-800 p-3 rounded text-sm">{error}</div>
+      )}
+
+      {comparison && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap gap-3 text-sm">
+            <span>수정 {comparison.summary.modified}</span>
+            <span>추가 {comparison.summary.added}</span>
+            <span>삭제 {comparison.summary.removed}</span>
+            <span>변경 없음 {comparison.summary.unchanged}</span>
+            <span className="text-red-700">위험 증가 {comparison.summary.riskIncreased}</span>
+            <span className="text-green-700">위험 감소 {comparison.summary.riskDecreased}</span>
+            <label className="ml-auto flex items-center gap-1">
+              <input type="checkbox" checked={showUnchanged} onChange={(e) => setShowUnchanged(e.target.checked)} />
+              변경 없는 조항 표시
+            </label>
+          </div>
+
+          {documentRisks.map((shift, i) => (
+            <div key={i} className={`border-l-4 px-2 py-1 text-sm ${SEVERITY_STYLES[shift.severity]}`}>
+              ⚠️ {shift.message}
+            </div>
+          ))}
+
+          <div className="grid grid-cols-2 gap-4 text-sm font-semibold text-gray-700">
+            <span>원본</span>
+            <span>수정본</span>
+          </div>
+
+          {visibleClauses.map(item => (
+            <ClauseRow key={item.id} item={item} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -6,6 +6,7 @@ export const FileAnalyzer = () => {
     fileInputRef,
     handleFileUpload,
     analysisResult,
+    document,
     isAnalyzing,
   } = useFileAnalysis();
 
@@ -21,6 +22,16 @@ export const FileAnalyzer = () => {
 
       {isAnalyzing && <p>🔍 분석 중입니다...</p>}
 
+      {document && (
+        <div className="text-sm text-gray-600">
+          📄 {document.fileName} · {document.pages.length}페이지 · 조항 {document.analysis.clauses.length}개
+          {document.tables.length > 0 && ` · 표 ${document.tables.length}개`}
+          {document.warnings.map(warning => (
+            <p key={warning} className="text-yellow-700">⚠️ {warning}</p>
+          ))}
+        </div>
+      )}
+
       {analysisResult?.type === 'error' && (
         <div className="bg-red-100 text-red-800 p-3 rounded text-sm">
           {analysisResult.message}
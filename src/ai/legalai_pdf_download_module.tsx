@@ -3,6 +3,8 @@ import DOMPurify from 'dompurify';
 import { useCallback } from 'react';
 // import { Button } from '@/components/ui/button'; // 예시 컴포넌트
 import { useState } from 'react';
+import { CLAUSE_CATEGORY_LABELS, formatClauseNumber } from '@/services/clause-analyzer';
+import { ContractAnalysis } from '@/types/contract-analysis';
 
 interface AnalysisResult {
   contractContent: string;
@@ -14,12 +16,27 @@ const sanitizeInput = (input: string) => {
   return DOMPurify.sanitize(input, { ALLOWED_TAGS: [], ALLOWED_ATTR: [] });
 };
 
+// 조항 분석 결과가 있으면 조항별 유형과 지적 사항을 함께 출력
+const formatAnalyzedContent = (analysis: ContractAnalysis) => {
+  return analysis.clauses.map(clause => {
+    const findings = analysis.findings
+      .filter(finding => finding.clauseId === clause.id)
+      .map(finding => `  ⚠ ${finding.message}`);
+
+    return [
+      `[${formatClauseNumber(clause)} · ${CLAUSE_CATEGORY_LABELS[clause.category]}]`,
+      clause.text,
+      ...findings
+    ].join('\n');
+  }).join('\n\n');
+};
+
 export const useDownloadContract = () => {
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult>({
     contractContent: '',
   });
 
-  const downloadContract = useCallback((content: string, fileName: string) => {
+  const downloadContract = useCallback((content: string, fileName: string, analysis?: ContractAnalysis) => {
     try {
       const doc = new jsPDF();
       doc.setFont('helvetica');
@@ -30,7 +47,7 @@ export const useDownloadContract = () => {
         생성일: ${new Date().toLocaleDateString('ko-KR')}
         생성 시간: ${new Date().toLocaleTimeString('ko-KR')}
 
-        ${content}
+        ${analysis ? formatAnalyzedContent(analysis) : content}
 
         * 본 계약서는 Legal AI Pro에서 생성되었습니다.
         * 정식 계약 체결 전 법무 전문가의 검토를 권장합니다.
@@ -67,13 +84,21 @@ export const useDownloadContract = () => {
 };
 
 // 예시 UI 컴포넌트
-export const ContractDownloadButton = ({ content, fileName }: { content: string; fileName: string }) => {
+export const ContractDownloadButton = ({
+  content,
+  fileName,
+  analysis,
+}: {
+  content: string;
+  fileName: string;
+  analysis?: ContractAnalysis;
+}) => {
   const { downloadContract, analysisResult } = useDownloadContract();
 
   return (
     <div>
       <button 
-        onClick={() => downloadContract(content, fileName)}
+        onClick={() => downloadContract(content, fileName, analysis)}
         className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700"
       >
         📥 계약서 PDF 다운로드
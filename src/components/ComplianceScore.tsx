@@ -1,12 +1,38 @@
+import { useMemo, useState } from 'react';
 import { useComplianceScore } from '../hooks/useComplianceScore';
+import { toComplianceChecks } from '../services/clause-analyzer';
+import { complianceRuleEngine } from '../services/compliance-rule-engine';
+import { ComplianceCheck, ComplianceSeverity } from '../types/compliance';
+import { ContractAnalysis } from '../types/contract-analysis';
 
-interface ComplianceCheck {
-  label: string;
-  status: 'pass' | 'warning' | 'fail';
+interface ComplianceScoreProps {
+  checks?: ComplianceCheck[];
+  analysis?: ContractAnalysis;
+  // region과 text가 주어지면 해당 지역 규칙으로 계약서를 직접 평가
+  region?: string;
+  text?: string;
 }
 
-export const ComplianceScore = ({ checks }: { checks: ComplianceCheck[] }) => {
-  const { score, grade } = useComplianceScore(checks);
+const SEVERITY_LABELS: Record<ComplianceSeverity, string> = {
+  critical: '치명',
+  major: '중요',
+  minor: '경미'
+};
+
+const STATUS_LABELS = { pass: '충족', warning: '보완 필요', fail: '미충족' };
+
+const barColor = (score: number) => (score >= 90 ? 'bg-green-500' : score >= 70 ? 'bg-yellow-500' : 'bg-red-500');
+
+export const ComplianceScore = ({ checks, analysis, region, text }: ComplianceScoreProps) => {
+  const [showDetails, setShowDetails] = useState(false);
+
+  const resolvedChecks = useMemo(() => {
+    if (checks) return checks;
+    if (region && text) return complianceRuleEngine.evaluate(region, text, analysis)?.checks ?? [];
+    return analysis ? toComplianceChecks(analysis) : [];
+  }, [checks, analysis, region, text]);
+
+  const { score, grade, nextGrade, categories, topContributors, totalChecks } = useComplianceScore(resolvedChecks);
 
   return (
     <div className="mt-4 p-4 border rounded bg-white shadow">
@@ -14,6 +40,71 @@ export const ComplianceScore = ({ checks }: { checks: ComplianceCheck[] }) => {
       <p className="text-xl font-semibold">
         {score}/100점 — <span className="text-blue-600">등급 {grade}</span>
       </p>
+
+      {totalChecks === 0 ? (
+        <p className="text-sm text-gray-500 mt-1">평가할 항목이 없습니다.</p>
+      ) : (
+        <>
+          <p className="text-sm text-gray-600 mt-1">
+            {nextGrade
+              ? `${nextGrade.grade}등급(${nextGrade.threshold}점)까지 ${nextGrade.pointsNeeded}점이 부족합니다.`
+              : '최고 등급입니다.'}
+          </p>
+          <button
+            type="button"
+            onClick={() => setShowDetails(prev => !prev)}
+            className="text-sm text-blue-600 underline mt-2"
+          >
+            {showDetails ? '상세 닫기' : '점수 근거 보기'}
+          </button>
+        </>
+      )}
+
+      {showDetails && totalChecks > 0 && (
+        <div className="mt-3 space-y-4">
+          {topContributors.length > 0 && (
+            <div>
+              <h4 className="font-semibold text-sm mb-1">감점 요인</h4>
+              <ul className="space-y-2">
+                {topContributors.map(contributor => (
+                  <li key={contributor.ruleId || contributor.label} className="text-sm border-l-4 border-red-300 pl-2">
+                    <div className="flex justify-between">
+                      <span>
+                        {contributor.label}{' '}
+                        <span className="text-xs text-gray-500">
+                          ({SEVERITY_LABELS[contributor.severity]} · {STATUS_LABELS[contributor.status]})
+                        </span>
+                      </span>
+                      <span className="text-red-600 font-medium">-{contributor.lostPoints}점</span>
+                    </div>
+                    {contributor.message && <p className="text-xs text-gray-600">{contributor.message}</p>}
+                    {contributor.remediation && (
+                      <p className="text-xs text-green-700">개선: {contributor.remediation}</p>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div>
+            <h4 className="font-semibold text-sm mb-1">분류별 점수</h4>
+            <ul className="space-y-1">
+              {categories.map(category => (
+                <li key={category.category} className="text-sm">
+                  <div className="flex justify-between">
+                    <span>{category.label} ({category.checks}건)</span>
+                    <span>{category.score}점</span>
+                  </div>
+                  <div className="w-full bg-gray-200 rounded h-2">
+                    <div className={`${barColor(category.score)} h-2 rounded`} style={{ width: `${category.score}%` }} />
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
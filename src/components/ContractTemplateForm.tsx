@@ -0,0 +1,103 @@
+import { useMemo } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { buildTemplateSchema } from '../services/contract-template-schema';
+import { ContractTemplateSummary, TemplateField, TemplateFieldValues } from '../types/contract-template';
+
+interface ContractTemplateFormProps {
+  template: ContractTemplateSummary;
+  isGenerating: boolean;
+  // 서버 검증에서 걸린 항목 오류를 돌려주면 폼에 표시한다
+  onSubmit: (values: TemplateFieldValues) => Promise<Record<string, string[]> | void>;
+}
+
+const INPUT_TYPES: Partial<Record<TemplateField['type'], string>> = {
+  date: 'date',
+  number: 'number',
+  email: 'email',
+  phone: 'tel'
+};
+
+const inputClassName = (hasError: boolean) =>
+  `w-full p-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${hasError ? 'border-red-500' : 'border-gray-300'}`;
+
+// 템플릿이 바뀌면 key로 다시 마운트해 스키마와 입력값을 초기화한다
+export const ContractTemplateForm = ({ template, isGenerating, onSubmit }: ContractTemplateFormProps) => {
+  const schema = useMemo(() => buildTemplateSchema(template), [template]);
+  const {
+    register,
+    handleSubmit,
+    setError,
+    formState: { errors }
+  } = useForm<TemplateFieldValues>({ resolver: zodResolver(schema), mode: 'onBlur' });
+
+  const submit = handleSubmit(async values => {
+    const serverErrors = await onSubmit(values);
+    if (!serverErrors) return;
+    Object.entries(serverErrors).forEach(([fieldId, messages]) => {
+      if (messages?.[0]) setError(fieldId, { type: 'server', message: messages[0] });
+    });
+  });
+
+  return (
+    <form onSubmit={submit} noValidate>
+      <div className="mb-6">
+        <h2 className="text-xl font-semibold text-gray-800 mb-4">
+          {template.name} 정보 입력
+        </h2>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {template.fields.map(field => {
+            const error = errors[field.id]?.message;
+            return (
+              <div key={field.id} className={field.type === 'textarea' ? 'md:col-span-2' : ''}>
+                <label htmlFor={field.id} className="block text-sm font-medium text-gray-700 mb-2">
+                  {field.label}
+                  {field.required && <span className="text-red-500">*</span>}
+                </label>
+                {field.type === 'textarea' ? (
+                  <textarea
+                    id={field.id}
+                    {...register(field.id)}
+                    placeholder={field.placeholder}
+                    maxLength={field.maxLength}
+                    className={inputClassName(Boolean(error))}
+                    rows={3}
+                  />
+                ) : field.type === 'select' ? (
+                  <select id={field.id} {...register(field.id)} defaultValue="" className={inputClassName(Boolean(error))}>
+                    <option value="">선택하세요</option>
+                    {field.options?.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <input
+                    id={field.id}
+                    type={INPUT_TYPES[field.type] || 'text'}
+                    inputMode={field.type === 'krw' ? 'numeric' : undefined}
+                    {...register(field.id)}
+                    placeholder={field.placeholder || (field.type === 'krw' ? '원' : undefined)}
+                    min={field.min}
+                    max={field.max}
+                    className={inputClassName(Boolean(error))}
+                  />
+                )}
+                {error && <p className="mt-1 text-sm text-red-600">{String(error)}</p>}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="mb-6">
+        <button
+          type="submit"
+          disabled={isGenerating}
+          className="w-full bg-blue-600 text-white py-3 px-6 rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+        >
+          {isGenerating ? '생성 중...' : 'AI 계약서 생성'}
+        </button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import { ConversationSummary } from '../types/chat';
+
+interface ConversationSidebarProps {
+  conversations: ConversationSummary[];
+  activeId: string | null;
+  disabled?: boolean;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export const ConversationSidebar = ({
+  conversations,
+  activeId,
+  disabled,
+  onSelect,
+  onNew,
+  onRename,
+  onDelete
+}: ConversationSidebarProps) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const startEditing = (conversation: ConversationSummary) => {
+    setEditingId(conversation.id);
+    setDraftTitle(conversation.title);
+  };
+
+  const submitRename = (id: string) => {
+    if (draftTitle.trim()) onRename(id, draftTitle.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <aside className="w-64 border-r flex flex-col">
+      <div className="p-3 border-b">
+        <button
+          onClick={onNew}
+          disabled={disabled}
+          className="w-full bg-blue-600 text-white py-2 rounded-lg hover:bg-blue-700 disabled:bg-gray-400 text-sm"
+        >
+          + 새 대화
+        </button>
+      </div>
+      <ul className="flex-1 overflow-y-auto">
+        {conversations.length === 0 && (
+          <li className="p-3 text-sm text-gray-500">저장된 대화가 없습니다.</li>
+        )}
+        {conversations.map(conversation => (
+          <li
+            key={conversation.id}
+            className={`group px-3 py-2 border-b cursor-pointer ${
+              conversation.id === activeId ? 'bg-blue-50' : 'hover:bg-gray-50'
+            }`}
+            onClick={() => !disabled && editingId !== conversation.id && onSelect(conversation.id)}
+          >
+            {editingId === conversation.id ? (
+              <input
+                autoFocus
+                value={draftTitle}
+                onChange={(e) => setDraftTitle(e.target.value)}
+                onBlur={() => submitRename(conversation.id)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') submitRename(conversation.id);
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+                className="w-full text-sm border rounded px-1 py-0.5"
+              />
+            ) : (
+              <div className="flex items-start justify-between gap-1">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate">{conversation.title}</p>
+                  <p className="text-xs text-gray-500 truncate">{conversation.lastMessagePreview}</p>
+                </div>
+                <div className="hidden group-hover:flex gap-1 shrink-0">
+                  <button
+                    title="이름 변경"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      startEditing(conversation);
+                    }}
+                    className="text-xs text-gray-500 hover:text-gray-800"
+                  >
+                    ✏️
+                  </button>
+                  <button
+                    title="삭제"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      if (window.confirm('이 대화를 삭제하시겠습니까?')) onDelete(conversation.id);
+                    }}
+                    className="text-xs text-gray-500 hover:text-red-600"
+                  >
+                    🗑️
+                  </button>
+                </div>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </aside>
+  );
+};
@@ -2,19 +2,26 @@ import React from 'react';
 import { useLegalChat } from '../hooks/useLegalChat';
 
 export const LegalChatBot = () => {
-  const { messages, input, setInput, isLoading, handleSendMessage } = useLegalChat();
+  const { messages, input, setInput, isLoading, isStreaming, handleSendMessage, cancel, conversationId, reset } = useLegalChat();
 
   return (
     <div className="p-4 space-y-4">
+      {conversationId && (
+        <div className="text-right">
+          <button onClick={reset} className="text-sm text-blue-600 underline">
+            새 대화
+          </button>
+        </div>
+      )}
       <div className="h-72 overflow-y-auto bg-gray-50 p-3 rounded shadow-inner">
         {messages.map((msg, i) => (
           <div key={i} className={msg.type === 'user' ? 'text-right mb-2' : 'text-left mb-2'}>
             <span className={msg.type === 'user' ? 'bg-blue-100 inline-block p-2 rounded' : 'bg-green-100 inline-block p-2 rounded'}>
-              {msg.text}
+              <span className="whitespace-pre-wrap">{msg.text}</span>
             </span>
           </div>
         ))}
-        {isLoading && <div className="text-gray-500">답변 생성 중...</div>}
+        {isLoading && !isStreaming && <div className="text-gray-500">답변 생성 중...</div>}
       </div>
 
       <div className="flex space-x-2">
@@ -25,12 +32,21 @@ export const LegalChatBot = () => {
           placeholder="법무 관련 질문을 입력하세요..."
           className="flex-1 px-3 py-2 border border-gray-300 rounded-md"
         />
-        <button
-          onClick={handleSendMessage}
-          className="bg-blue-600 text-white px-4 py-2 rounded-md"
-        >
-          전송
-        </button>
+        {isLoading ? (
+          <button
+            onClick={cancel}
+            className="bg-gray-600 text-white px-4 py-2 rounded-md"
+          >
+            중지
+          </button>
+        ) : (
+          <button
+            onClick={handleSendMessage}
+            className="bg-blue-600 text-white px-4 py-2 rounded-md"
+          >
+            전송
+          </button>
+        )}
       </div>
     </div>
   );
@@ -1,35 +1,165 @@
 import { useEffect, useState } from 'react';
+import { PlanChangeLog } from '../types/user';
+import { BillingProfile, InvoiceSummary } from '../types/invoice';
+import { formatPlanPrice } from '../lib/payment/plan-prices';
+
+const STATUS_LABELS: Record<PlanChangeLog['status'], string> = {
+  pending: '처리 중',
+  completed: '완료',
+  failed: '실패',
+  cancelled: '취소'
+};
+
+const DOCUMENT_LABELS: Record<InvoiceSummary['documentType'], string> = {
+  tax_invoice: '세금계산서',
+  receipt: '영수증'
+};
+
+const PROFILE_FIELDS: Array<{ key: keyof BillingProfile; label: string; required?: boolean }> = [
+  { key: 'companyName', label: '상호', required: true },
+  { key: 'businessNumber', label: '사업자등록번호', required: true },
+  { key: 'representative', label: '대표자', required: true },
+  { key: 'address', label: '사업장 주소', required: true },
+  { key: 'businessType', label: '업태' },
+  { key: 'businessItem', label: '종목' },
+  { key: 'taxEmail', label: '세금계산서 수신 이메일' }
+];
+
+const EMPTY_PROFILE: BillingProfile = { companyName: '', businessNumber: '', representative: '', address: '' };
+
+function InvoiceLinks({ invoice }: { invoice: InvoiceSummary }) {
+  return (
+    <span className="ml-2 text-sm">
+      <a href={`/api/user/invoices/${invoice.id}?format=pdf`} className="text-blue-600 hover:underline">PDF</a>
+      {invoice.xmlAvailable && (
+        <a href={`/api/user/invoices/${invoice.id}?format=xml`} className="ml-2 text-blue-600 hover:underline">전자세금계산서(XML)</a>
+      )}
+    </span>
+  );
+}
 
 export default function MyPlanHistory() {
-  const [logs, setLogs] = useState<Array<{ oldPlan: string; newPlan: string; changedAt: string }>>([]);
+  const [logs, setLogs] = useState<PlanChangeLog[]>([]);
+  const [invoices, setInvoices] = useState<InvoiceSummary[]>([]);
+  const [profile, setProfile] = useState<BillingProfile>(EMPTY_PROFILE);
+  const [profileMessage, setProfileMessage] = useState<string | null>(null);
+  const [error, setError] = useState(false);
 
   useEffect(() => {
-    // TODO: 실제 API 호출로 교체 가능
-    setLogs([
-      { oldPlan: 'basic', newPlan: 'premium', changedAt: '2025-07-09T09:30:00Z' },
-      { oldPlan: 'premium', newPlan: 'enterprise', changedAt: '2025-07-12T14:00:00Z' }
-    ]);
+    fetch('/api/user/plan-history')
+      .then(response => response.json())
+      .then(result => {
+        if (!result.success) throw new Error(result.error);
+        setLogs(result.data);
+      })
+      .catch(fetchError => {
+        console.error('Plan history load error:', fetchError);
+        setError(true);
+      });
+
+    fetch('/api/user/invoices')
+      .then(response => response.json())
+      .then(result => {
+        if (!result.success) throw new Error(result.error);
+        setInvoices(result.data);
+      })
+      .catch(fetchError => console.error('Invoice load error:', fetchError));
+
+    fetch('/api/user/billing-profile')
+      .then(response => response.json())
+      .then(result => {
+        if (result.success && result.data) setProfile(result.data);
+      })
+      .catch(fetchError => console.error('Billing profile load error:', fetchError));
   }, []);
 
+  const saveProfile = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setProfileMessage(null);
+    try {
+      const response = await fetch('/api/user/billing-profile', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(profile)
+      });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
+      setProfile(result.data);
+      setProfileMessage('저장했습니다. 다음 결제부터 세금계산서로 발행됩니다.');
+    } catch (saveError) {
+      setProfileMessage(saveError instanceof Error ? saveError.message : '사업자 정보를 저장하지 못했습니다.');
+    }
+  };
+
+  const invoiceForLog = (log: PlanChangeLog) => invoices.find(invoice => invoice.planChangeLogId === log.id);
+
   return (
     <div className="min-h-screen flex flex-col items-center justify-center bg-white text-gray-800 px-4">
       <h1 className="text-2xl font-bold mb-6">📜 플랜 변경 이력</h1>
       <div className="bg-gray-50 p-6 rounded shadow w-full max-w-xl">
-        {logs.length === 0 ? (
+        {error ? (
+          <p className="text-red-500">플랜 변경 이력을 불러오지 못했습니다.</p>
+        ) : logs.length === 0 ? (
           <p className="text-gray-500">플랜 변경 이력이 없습니다.</p>
         ) : (
           <ul className="space-y-4">
-            {logs.map((log, i) => (
-              <li key={i} className="border-b pb-2">
+            {logs.map(log => {
+              const invoice = invoiceForLog(log);
+              return (
+                <li key={log.id} className="border-b pb-2">
+                  <p>
+                    <strong>{log.fromPlan}</strong> → <strong>{log.toPlan}</strong>
+                    <span className="ml-2 text-sm text-gray-500">{STATUS_LABELS[log.status]}</span>
+                    {invoice && <InvoiceLinks invoice={invoice} />}
+                  </p>
+                  <p className="text-sm text-gray-500">{new Date(log.completedAt || log.createdAt).toLocaleString()}</p>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+
+      <h2 className="text-xl font-bold mt-10 mb-4">🧾 청구서</h2>
+      <div className="bg-gray-50 p-6 rounded shadow w-full max-w-xl">
+        {invoices.length === 0 ? (
+          <p className="text-gray-500">발행된 청구서가 없습니다.</p>
+        ) : (
+          <ul className="space-y-4">
+            {invoices.map(invoice => (
+              <li key={invoice.id} className="border-b pb-2">
                 <p>
-                  <strong>{log.oldPlan}</strong> → <strong>{log.newPlan}</strong>
+                  <strong>{invoice.number}</strong>
+                  <span className="ml-2 text-sm text-gray-500">{DOCUMENT_LABELS[invoice.documentType]}</span>
+                  <InvoiceLinks invoice={invoice} />
+                </p>
+                <p className="text-sm text-gray-500">
+                  {new Date(invoice.paidAt).toLocaleDateString()} · {invoice.plan} ·{' '}
+                  {formatPlanPrice(invoice.totalAmount, invoice.currency)} (부가세 {formatPlanPrice(invoice.vatAmount, invoice.currency)} 포함)
                 </p>
-                <p className="text-sm text-gray-500">{new Date(log.changedAt).toLocaleString()}</p>
               </li>
             ))}
           </ul>
         )}
       </div>
+
+      <h2 className="text-xl font-bold mt-10 mb-4">🏢 세금계산서 발행 정보</h2>
+      <form onSubmit={saveProfile} className="bg-gray-50 p-6 rounded shadow w-full max-w-xl space-y-3">
+        <p className="text-sm text-gray-500">사업자 정보를 저장하면 이후 원화 결제는 전자세금계산서로 발행됩니다.</p>
+        {PROFILE_FIELDS.map(field => (
+          <label key={field.key} className="block text-sm">
+            {field.label}
+            <input
+              className="mt-1 w-full border rounded px-3 py-2"
+              value={profile[field.key] || ''}
+              required={field.required}
+              onChange={event => setProfile({ ...profile, [field.key]: event.target.value })}
+            />
+          </label>
+        ))}
+        <button type="submit" className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700">저장</button>
+        {profileMessage && <p className="text-sm text-gray-600">{profileMessage}</p>}
+      </form>
     </div>
   );
 }
@@ -71,7 +71,6 @@ export const RecommendationWidget: React.FC<RecommendationWidgetProps> = ({
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          userId: userId || session.user.email,
           recentDocs: [],
           preferredTopics: [],
           interactionHistory: {
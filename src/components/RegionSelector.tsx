@@ -1,4 +1,7 @@
 import React from 'react';
+import { getComplianceRegions } from '../services/getComplianceRules';
+
+const regions = getComplianceRegions();
 
 export const RegionSelector = ({ selectedRegion, onChange }: { selectedRegion: string; onChange: (value: string) => void }) => {
   return (
@@ -7,9 +10,11 @@ export const RegionSelector = ({ selectedRegion, onChange }: { selectedRegion: s
       onChange={(e) => onChange(e.target.value)}
       className="border rounded px-2 py-1 text-sm"
     >
-      <option value="KR">🇰🇷 대한민국 (PIPA)</option>
-      <option value="EU">🇪🇺 유럽연합 (GDPR)</option>
-      <option value="US">🇺🇸 미국 (CCPA)</option>
+      {regions.map(region => (
+        <option key={region.code} value={region.code}>
+          {region.flag} {region.label}
+        </option>
+      ))}
     </select>
   );
 };
\ No newline at end of file
@@ -0,0 +1,74 @@
+import { useState } from 'react';
+import { StatuteCitation } from '../types/statute';
+
+interface StatuteCitationListProps {
+  citations: StatuteCitation[];
+}
+
+const ISSUE_LABELS: Record<NonNullable<StatuteCitation['issue']>, string> = {
+  statute_not_indexed: '색인에 없는 법령',
+  article_not_found: '색인에서 찾을 수 없는 조문'
+};
+
+const citationLabel = (citation: StatuteCitation) => {
+  const [main, branch] = citation.article.split('의');
+  const paragraph = citation.paragraph ? ` 제${citation.paragraph}항` : '';
+  return `${citation.statuteName} 제${main}조${branch ? `의${branch}` : ''}${paragraph}`;
+};
+
+export const StatuteCitationList = ({ citations }: StatuteCitationListProps) => {
+  const [openKey, setOpenKey] = useState<string | null>(null);
+
+  // 같은 조문을 여러 번 인용해도 한 번만 보여준다
+  const unique = citations.filter((citation, index) =>
+    citations.findIndex(other => citationLabel(other) === citationLabel(citation)) === index
+  );
+  if (unique.length === 0) return null;
+
+  return (
+    <div className="mt-2 pt-2 border-t border-gray-200 space-y-1">
+      <p className="text-xs font-medium text-gray-600">인용 법령</p>
+      {unique.map(citation => {
+        const key = citationLabel(citation);
+
+        if (citation.status === 'unverified') {
+          return (
+            <div key={key} className="text-xs text-amber-700">
+              ⚠️ {key} <span className="text-amber-600">({citation.issue ? ISSUE_LABELS[citation.issue] : '확인되지 않은 인용'})</span>
+            </div>
+          );
+        }
+
+        return (
+          <div key={key} className="text-xs">
+            <button
+              type="button"
+              onClick={() => setOpenKey(openKey === key ? null : key)}
+              className="text-blue-700 hover:underline"
+            >
+              ✓ {key}({citation.title})
+            </button>
+            {openKey === key && (
+              <div className="mt-1 p-2 bg-white border rounded text-gray-700 whitespace-pre-wrap">
+                {citation.text}
+                {citation.url && (
+                  <a
+                    href={citation.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="block mt-1 text-blue-600 hover:underline"
+                  >
+                    국가법령정보센터에서 보기
+                  </a>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+      {unique.some(citation => citation.status === 'unverified') && (
+        <p className="text-xs text-gray-500">⚠️ 표시된 조문은 색인으로 확인되지 않았습니다. 원문을 직접 확인하세요.</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,89 @@
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { BillingStatus } from '../types/billing';
+
+const INTERVAL_LABELS = { monthly: '월간', yearly: '연간' };
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString('ko-KR');
+
+export default function SubscriptionStatusCard() {
+  const [billing, setBilling] = useState<BillingStatus | null>(null);
+  const [error, setError] = useState(false);
+  const [opening, setOpening] = useState(false);
+
+  useEffect(() => {
+    fetch('/api/user/current-plan')
+      .then(response => response.json())
+      .then(result => {
+        if (result.error) throw new Error(result.error);
+        setBilling(result.billing || {
+          plan: result.plan,
+          status: null,
+          provider: null,
+          interval: null,
+          currentPeriodEnd: null,
+          cancelAtPeriodEnd: false,
+          graceUntil: null,
+          canManageBilling: false
+        });
+      })
+      .catch(fetchError => {
+        console.error('Billing status load error:', fetchError);
+        setError(true);
+      });
+  }, []);
+
+  const openPortal = async () => {
+    setOpening(true);
+    try {
+      const result = await (await fetch('/api/payment/portal', { method: 'POST' })).json();
+      if (!result.success) throw new Error(result.error);
+      window.location.href = result.data.url;
+    } catch (portalError) {
+      console.error('Billing portal error:', portalError);
+      alert('구독 관리 화면을 열지 못했습니다. 잠시 후 다시 시도해 주세요.');
+      setOpening(false);
+    }
+  };
+
+  if (error) {
+    return <p className="text-sm text-red-500">구독 정보를 불러오지 못했습니다.</p>;
+  }
+  if (!billing) {
+    return <p className="text-sm text-gray-500">구독 정보를 불러오는 중...</p>;
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 w-full max-w-md text-left mt-6">
+      <h2 className="text-xl font-semibold mb-4">💳 구독</h2>
+      <p className="mb-2">
+        <strong>요금제:</strong> {billing.plan}
+        {billing.interval && <span className="ml-2 text-sm text-gray-500">{INTERVAL_LABELS[billing.interval]} 결제</span>}
+      </p>
+      {billing.currentPeriodEnd && (
+        <p className="mb-2 text-sm text-gray-600">
+          {billing.cancelAtPeriodEnd ? '해지 예정일' : '다음 결제일'}: {formatDate(billing.currentPeriodEnd)}
+        </p>
+      )}
+      {billing.status === 'past_due' && billing.graceUntil && (
+        <p className="mb-4 p-3 rounded bg-orange-50 text-orange-700 text-sm">
+          정기 결제에 실패했습니다. {formatDate(billing.graceUntil)}까지 결제 수단을 업데이트하지 않으면 무료 플랜으로 바뀝니다.
+        </p>
+      )}
+      <div className="flex gap-2 mt-4">
+        {billing.canManageBilling && (
+          <button
+            onClick={openPortal}
+            disabled={opening}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            {opening ? '이동 중...' : '결제 수단·구독 관리'}
+          </button>
+        )}
+        <Link href="/pricing" className="px-4 py-2 rounded-lg border text-gray-700 hover:bg-gray-50">
+          {billing.plan === 'free' ? '요금제 업그레이드' : '플랜 변경'}
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { useEffect, useState } from 'react';
+import { UpgradeBanner } from './UpgradeBanner';
+import { UsageFeature, UsageQuota, UsageSummary } from '../types/usage';
+
+const FEATURE_LABELS: Record<UsageFeature, string> = {
+  chat: '법률 상담',
+  contract_generation: '계약서 생성',
+  strategic_report: '전략 리포트',
+  seo: 'SEO 생성',
+  analysis: '문서 분석',
+  recommendation: '콘텐츠 추천'
+};
+
+// 이 비율 이상 사용하면 업그레이드 안내를 띄운다
+const UPGRADE_PROMPT_RATIO = 0.8;
+
+const formatNumber = (value: number) => value.toLocaleString('ko-KR');
+
+function QuotaBar({ label, quota, unit }: { label: string; quota: UsageQuota; unit: string }) {
+  const unlimited = quota.limit < 0;
+  const percent = unlimited || quota.limit === 0 ? 0 : Math.min(100, (quota.used / quota.limit) * 100);
+
+  return (
+    <div className="mb-4">
+      <div className="flex justify-between text-sm mb-1">
+        <span className="font-medium">{label}</span>
+        <span className="text-gray-500">
+          {formatNumber(quota.used)}{unit} / {unlimited ? '무제한' : `${formatNumber(quota.limit)}${unit}`}
+        </span>
+      </div>
+      <div className="w-full h-2 bg-gray-200 rounded">
+        <div
+          className={`h-2 rounded ${percent >= 100 ? 'bg-red-500' : percent >= UPGRADE_PROMPT_RATIO * 100 ? 'bg-yellow-500' : 'bg-blue-500'}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+    </div>
+  );
+}
+
+export default function UsageSummaryCard() {
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    fetch('/api/user/usage')
+      .then(response => response.json())
+      .then(result => {
+        if (!result.success) throw new Error(result.error);
+        setUsage(result.data);
+      })
+      .catch(fetchError => {
+        console.error('Usage load error:', fetchError);
+        setError(true);
+      });
+  }, []);
+
+  if (error) {
+    return <p className="text-sm text-red-500">사용량을 불러오지 못했습니다.</p>;
+  }
+  if (!usage) {
+    return <p className="text-sm text-gray-500">사용량을 불러오는 중...</p>;
+  }
+
+  const nearLimit = usage.queries.limit > 0 && usage.queries.used >= usage.queries.limit * UPGRADE_PROMPT_RATIO;
+  const features = Object.keys(usage.byFeature) as UsageFeature[];
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 w-full max-w-md text-left mt-6">
+      <h2 className="text-xl font-semibold mb-4">📊 이번 달 AI 사용량 ({usage.period.month})</h2>
+      <QuotaBar label="질의 수" quota={usage.queries} unit="회" />
+      <QuotaBar label="토큰" quota={usage.tokens} unit="" />
+      <p className="text-sm text-gray-500 mb-4">예상 비용: ${usage.cost.toFixed(4)}</p>
+
+      {features.length > 0 && (
+        <ul className="text-sm space-y-1">
+          {features.map(feature => (
+            <li key={feature} className="flex justify-between">
+              <span>{FEATURE_LABELS[feature]}</span>
+              <span className="text-gray-500">
+                {formatNumber(usage.byFeature[feature]?.requests || 0)}회 · {formatNumber(usage.byFeature[feature]?.totalTokens || 0)} 토큰
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {nearLimit && (
+        <UpgradeBanner
+          trigger="usage_limit"
+          featureName="AI 질의"
+          currentUsage={usage.queries.used}
+          usageLimit={usage.queries.limit}
+          className="mt-4"
+        />
+      )}
+    </div>
+  );
+}
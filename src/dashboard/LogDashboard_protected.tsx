@@ -1,8 +1,10 @@
 import { useSession } from 'next-auth/react';
 import { useEffect, useState } from 'react';
+import { hasRole, STAFF_ROLES } from '@/lib/auth/roles';
 
 export default function LogDashboard() {
   const { data: session, status } = useSession();
+  const isStaff = hasRole(session?.user?.role, STAFF_ROLES);
   const [logs, setLogs] = useState<Array<{ email: string; oldPlan: string; newPlan: string; changedAt: string }>>([]);
   const [emailFilter, setEmailFilter] = useState('');
   const [startDate, setStartDate] = useState('');
@@ -26,16 +28,16 @@ export default function LogDashboard() {
   };
 
   useEffect(() => {
-    if (session?.user?.email === 'admin@example.com') {
+    if (isStaff) {
       fetchLogs();
     }
-  }, [session]);
+  }, [isStaff]);
 
   if (status === 'loading') {
     return <div className="p-6 text-center text-gray-500">로딩 중...</div>;
   }
 
-  if (!session || !session.user?.email || session.user.email !== 'admin@example.com') {
+  if (!isStaff) {
     return (
       <div className="min-h-screen flex items-center justify-center text-red-500 text-xl">
         관리자만 접근 가능한 페이지입니다.
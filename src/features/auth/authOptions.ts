@@ -1,5 +1,8 @@
 import { NextAuthOptions } from 'next-auth';
 import CredentialsProvider from 'next-auth/providers/credentials';
+import { credentialAuth } from '@/services/credential-auth';
+import { userRepository } from '@/services/user-repository';
+import { CredentialAuthError } from '@/lib/auth/credential-errors';
 // import GithubProvider from 'next-auth/providers/github'; // 예시: GitHub OAuth
 // import { PrismaAdapter } from '@next-auth/prisma-adapter';
 // import { prisma } from './prisma'; // DB 연결 시
@@ -17,14 +20,16 @@ export const authOptions: NextAuthOptions = {
         password: { label: 'Password', type: 'password' }
       },
       async authorize(credentials) {
-        // 🔐 여기에 사용자 인증 로직 추가
-        if (
-          credentials?.email === 'admin@example.com' &&
-          credentials?.password === '1234'
-        ) {
-          return { id: 'user_001', name: '관리자', email: 'admin@example.com' };
+        if (!credentials?.email || !credentials?.password) return null;
+
+        try {
+          const user = await credentialAuth.authenticate(credentials.email, credentials.password);
+          return { id: user.id, name: user.name || null, email: user.email, role: user.role || 'user' };
+        } catch (error) {
+          // 오류 코드를 그대로 넘기면 signIn() 결과의 error로 받아 로그인 화면에서 안내한다
+          if (error instanceof CredentialAuthError) throw new Error(error.code);
+          throw error;
         }
-        return null;
       }
     })
     // GithubProvider({ clientId: '...', clientSecret: '...' })
@@ -36,10 +41,14 @@ export const authOptions: NextAuthOptions = {
   callbacks: {
     async jwt({ token, user }) {
       if (user) token.id = user.id;
+      // 역할을 바꾸면 다시 로그인하지 않아도 반영되도록 매번 저장소에서 읽는다 (메모리 조회라 가볍다)
+      const account = token.id ? await userRepository.findUserById(token.id) : null;
+      token.role = account?.role || 'user';
       return token;
     },
     async session({ session, token }) {
-      session.user.id = token.id;
+      if (token.id) session.user.id = token.id;
+      session.user.role = token.role || 'user';
       return session;
     }
   }
@@ -2,14 +2,11 @@ import nodemailer from 'nodemailer';
 import fs from 'fs';
 import path from 'path';
 import { NextApiRequest, NextApiResponse } from 'next';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '../../auth/authOptions';
+import { requireRole } from '@/lib/auth/rbac';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
-  const session = await getServerSession(req, res, authOptions);
-  if (!session || session.user?.role !== 'admin') {
-    return res.status(403).json({ error: '관리자 권한 필요' });
-  }
+  const admin = await requireRole(req, res);
+  if (!admin) return;
 
   const chartPath = path.join(process.cwd(), 'public', 'charts', 'click_price_chart_admin_dashboard.png');
   if (!fs.existsSync(chartPath)) return res.status(404).json({ error: '차트 파일이 없습니다.' });
@@ -24,7 +21,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
   const mailOptions = {
     from: process.env.EMAIL_SENDER,
-    to: process.env.EMAIL_RECEIVER ?? session.user.email,
+    to: process.env.EMAIL_RECEIVER ?? admin.email,
     subject: '📊 추천가 클릭 차트 리포트 (자동 발송)',
     html: \`
       <h2>📊 Claude 추천가 클릭 분포</h2>
@@ -1,17 +1,21 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-// import { Resend } from 'resend'; // 또는 Postmark, SendGrid 등
+import { sendEmail } from '@/lib/email/send';
+import { formatInvoiceAmount } from '@/lib/payment/invoice-pdf';
+import { invoiceService } from '@/services/invoice-service';
+import { Invoice } from '@/types/invoice';
 
-// const resend = new Resend(process.env.RESEND_API_KEY);
-
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
-  if (req.method !== 'POST') return res.status(405).json({ error: '허용되지 않은 요청 방식입니다.' });
-
-  try {
-    const { email, plan } = req.body;
-    if (!email || !plan) return res.status(400).json({ error: 'email과 plan은 필수입니다.' });
-
-    const subject = '[Legal AI Pro] 프리미엄 결제 완료 안내';
-    const html = `
+/**
+ * 결제 완료 안내 메일. 청구서가 있으면 PDF(세금계산서 대상이면 전자세금계산서 XML도)를 첨부한다.
+ * 메일 발송이 실패해도 결제 처리는 그대로 두고 로그만 남긴다.
+ */
+export async function sendConfirmationEmail(email: string, plan: string, invoice?: Invoice | null): Promise<boolean> {
+  const subject = '[Legal AI Pro] 프리미엄 결제 완료 안내';
+  const invoiceHtml = invoice
+    ? `<p>청구서 번호 <strong>${invoice.number}</strong> · 결제 금액 ${formatInvoiceAmount(invoice.totalAmount, invoice.currency)}
+       (공급가액 ${formatInvoiceAmount(invoice.supplyAmount, invoice.currency)}, 부가세 ${formatInvoiceAmount(invoice.vatAmount, invoice.currency)})</p>
+      <p>청구서를 첨부했습니다. 마이페이지의 플랜 변경 이력에서도 내려받을 수 있습니다.</p>`
+    : '';
+  const html = `
       <h2>🎉 ${plan} 플랜 결제가 완료되었습니다!</h2>
       <p>안녕하세요, ${email}님!</p>
       <p>Legal AI Pro의 프리미엄 기능을 이제부터 모두 이용하실 수 있습니다.</p>
@@ -21,18 +25,35 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         <li>🌐 다국어 지원</li>
         <li>🔒 보안 기능 강화</li>
       </ul>
+      ${invoiceHtml}
       <p>언제든지 문의가 있으시면 support@legalai.pro 로 연락주세요!</p>
     `;
 
-    // 실제 전송 로직 (활성화 시)
-    // await resend.emails.send({
-    //   from: 'noreply@legalai.pro',
-    //   to: email,
-    //   subject,
-    //   html
-    // });
+  const result = await sendEmail({
+    from: process.env.SMTP_USER || 'noreply@legalai.pro',
+    to: email,
+    subject,
+    html,
+    attachments: invoice ? invoiceService.attachmentsFor(invoice) : undefined
+  });
+  if (!result.success) {
+    console.error(`❌ 결제 완료 이메일 발송 실패 → ${email}:`, result.error);
+    return false;
+  }
+  console.log(`✉️ 결제 완료 이메일 발송됨 → ${email}${invoice ? ` (${invoice.number})` : ''}`);
+  return true;
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') return res.status(405).json({ error: '허용되지 않은 요청 방식입니다.' });
+
+  try {
+    const { email, plan } = req.body;
+    if (!email || !plan) return res.status(400).json({ error: 'email과 plan은 필수입니다.' });
 
-    console.log(`✉️ [MOCK] 결제 완료 이메일 발송됨 → ${email}`);
+    if (!(await sendConfirmationEmail(email, plan))) {
+      return res.status(502).json({ error: '이메일 발송 실패' });
+    }
     return res.status(200).json({ message: '이메일 발송 완료' });
   } catch (err) {
     console.error('❌ 이메일 발송 실패:', err);
@@ -1,27 +1,35 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
-// import { getServerSession } from 'next-auth'; // If using NextAuth
-// import { prisma } from '../../lib/prisma'; // If using Prisma or your DB connector
+import { getServerSession } from 'next-auth';
+import { authOptions } from '../auth/authOptions';
+import { userRepository } from '@/services/user-repository';
+
+const PLANS = ['free', 'basic', 'pro', 'enterprise'];
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') return res.status(405).json({ error: '허용되지 않은 요청 방식입니다.' });
 
   try {
-    // const session = await getServerSession(req, res, authOptions);
-    // if (!session) return res.status(401).json({ error: '인증된 사용자만 접근 가능합니다.' });
+    const session = await getServerSession(req, res, authOptions);
+    if (!session?.user?.email) return res.status(401).json({ error: '인증된 사용자만 접근 가능합니다.' });
 
-    const { userId, plan } = req.body;
+    const { plan } = req.body;
 
-    if (!userId || !plan) return res.status(400).json({ error: 'userId와 plan은 필수입니다.' });
+    if (!plan) return res.status(400).json({ error: 'plan은 필수입니다.' });
+    if (!PLANS.includes(plan)) return res.status(400).json({ error: '알 수 없는 플랜입니다.' });
 
-    // 예: DB 저장 로직
-    // await prisma.user.update({
-    //   where: { id: userId },
-    //   data: { subscriptionPlan: plan }
-    // });
+    const user = await userRepository.findOrCreateUser(session.user.email);
 
-    console.log(`✅ [서버] 사용자 ${userId}의 플랜이 '${plan}'으로 저장되었습니다.`);
+    // 클라이언트 요청만으로 플랜을 바꾸지 않는다. 결제 웹훅이 확인하면 completed로 바뀌며 반영된다
+    const log = await userRepository.createPlanChangeLog({
+      userId: user.id,
+      userEmail: user.email,
+      fromPlan: await userRepository.getCurrentPlan(user.id),
+      toPlan: plan,
+      paymentMethod: 'manual',
+      reason: '사용자 플랜 저장 요청'
+    });
 
-    return res.status(200).json({ message: '플랜 저장 완료' });
+    return res.status(200).json({ message: '플랜 변경 요청 저장 완료', logId: log.id });
   } catch (error) {
     console.error('플랜 저장 오류:', error);
     return res.status(500).json({ error: '서버 오류' });
@@ -1,14 +1,11 @@
 import fs from 'fs';
 import path from 'path';
 import { NextApiRequest, NextApiResponse } from 'next';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '../../auth/authOptions';
+import { requireRole } from '@/lib/auth/rbac';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
-  const session = await getServerSession(req, res, authOptions);
-  if (!session || session.user?.role !== 'admin') {
-    return res.status(403).json({ error: '관리자 권한 필요' });
-  }
+  const admin = await requireRole(req, res);
+  if (!admin) return;
 
   const logPath = path.join(process.cwd(), 'logs', 'click-events.log');
 
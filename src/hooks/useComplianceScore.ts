@@ -1,17 +1,131 @@
-import { useCallback } from 'react';
-
-interface ComplianceCheck {
-  label: string;
-  status: 'pass' | 'warning' | 'fail';
-}
-
-export const useComplianceScore = (checks: ComplianceCheck[]) => {
-  const calculate = useCallback(() => {
-    const scores = { pass: 25, warning: 15, fail: 5 };
-    const total = checks.reduce((sum, check) => sum + scores[check.status], 0);
-    const grade = total >= 90 ? 'A' : total >= 70 ? 'B' : 'C';
-    return { score: total, grade };
-  }, [checks]);
-
-  return calculate();
-};
\ No newline at end of file
+import { useMemo } from 'react';
+import { CLAUSE_CATEGORY_LABELS } from '../services/clause-analyzer';
+import {
+  ComplianceCategoryScore,
+  ComplianceCheck,
+  ComplianceGrade,
+  ComplianceScoreContributor,
+  ComplianceScoreResult,
+  ComplianceSeverity,
+  ComplianceStatus
+} from '../types/compliance';
+
+// 심각도별 가중치: critical 위반 하나가 minor 위반 다섯 개와 같은 무게
+export const SEVERITY_WEIGHTS: Record<ComplianceSeverity, number> = {
+  critical: 5,
+  major: 3,
+  minor: 1
+};
+
+// 상태별 획득 비율: warning은 절반만 인정
+export const STATUS_CREDIT: Record<ComplianceStatus, number> = {
+  pass: 1,
+  warning: 0.5,
+  fail: 0
+};
+
+// 높은 등급부터 순서대로
+export const GRADE_THRESHOLDS: Array<{ grade: ComplianceGrade; threshold: number }> = [
+  { grade: 'A', threshold: 90 },
+  { grade: 'B', threshold: 70 },
+  { grade: 'C', threshold: 0 }
+];
+
+// 심각도가 없는 체크(기존 호출부)는 major로 취급
+const DEFAULT_SEVERITY: ComplianceSeverity = 'major';
+const UNCATEGORIZED = 'other';
+const TOP_CONTRIBUTOR_LIMIT = 5;
+
+export const COMPLIANCE_CATEGORY_LABELS: Record<string, string> = {
+  ...CLAUSE_CATEGORY_LABELS,
+  collection: '수집·이용',
+  retention: '보관·파기',
+  transfer: '제공·국외이전',
+  rights: '정보주체 권리',
+  security: '안전성 확보',
+  governance: '관리 체계',
+  [UNCATEGORIZED]: '기타'
+};
+
+const round = (value: number, digits = 1) => {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+};
+
+const gradeFor = (score: number): ComplianceGrade => {
+  const matched = GRADE_THRESHOLDS.find(({ threshold }) => score >= threshold);
+  return matched ? matched.grade : 'C';
+};
+
+/**
+ * 심각도 가중 평균으로 0-100점 점수를 계산하고, 분류별 점수와 감점 요인을 함께 반환한다.
+ * 체크 개수와 무관하게 항상 100점 만점으로 정규화된다.
+ */
+export const calculateComplianceScore = (checks: ComplianceCheck[]): ComplianceScoreResult => {
+  const possible = checks.reduce((sum, check) => sum + SEVERITY_WEIGHTS[check.severity || DEFAULT_SEVERITY], 0);
+  const earned = checks.reduce(
+    (sum, check) => sum + SEVERITY_WEIGHTS[check.severity || DEFAULT_SEVERITY] * STATUS_CREDIT[check.status],
+    0
+  );
+  // 평가 항목이 없으면 근거가 없으므로 최저 등급으로 둔다
+  const score = possible > 0 ? Math.round((earned / possible) * 100) : 0;
+  const grade = gradeFor(score);
+
+  const toPoints = (weight: number) => (possible > 0 ? (weight / possible) * 100 : 0);
+
+  const contributors: ComplianceScoreContributor[] = checks
+    .filter(check => check.status !== 'pass')
+    .map(check => {
+      const severity = check.severity || DEFAULT_SEVERITY;
+      return {
+        label: check.label,
+        status: check.status,
+        severity,
+        category: check.category || UNCATEGORIZED,
+        ruleId: check.ruleId,
+        message: check.message,
+        remediation: check.remediation,
+        lostPoints: round(toPoints(SEVERITY_WEIGHTS[severity] * (1 - STATUS_CREDIT[check.status])))
+      };
+    })
+    .sort((a, b) => b.lostPoints - a.lostPoints);
+
+  const byCategory = new Map<string, { earned: number; possible: number; checks: number }>();
+  checks.forEach(check => {
+    const category = check.category || UNCATEGORIZED;
+    const weight = SEVERITY_WEIGHTS[check.severity || DEFAULT_SEVERITY];
+    const entry = byCategory.get(category) || { earned: 0, possible: 0, checks: 0 };
+    entry.earned += weight * STATUS_CREDIT[check.status];
+    entry.possible += weight;
+    entry.checks += 1;
+    byCategory.set(category, entry);
+  });
+
+  const categories: ComplianceCategoryScore[] = Array.from(byCategory.entries())
+    .map(([category, entry]) => ({
+      category,
+      label: COMPLIANCE_CATEGORY_LABELS[category] || category,
+      score: Math.round((entry.earned / entry.possible) * 100),
+      earned: entry.earned,
+      possible: entry.possible,
+      checks: entry.checks,
+      lostPoints: round(toPoints(entry.possible - entry.earned))
+    }))
+    .sort((a, b) => b.lostPoints - a.lostPoints || a.label.localeCompare(b.label));
+
+  const gradeIndex = GRADE_THRESHOLDS.findIndex(entry => entry.grade === grade);
+  const next = gradeIndex > 0 ? GRADE_THRESHOLDS[gradeIndex - 1] : null;
+
+  return {
+    score,
+    grade,
+    nextGrade: next ? { ...next, pointsNeeded: next.threshold - score } : null,
+    categories,
+    topContributors: contributors.slice(0, TOP_CONTRIBUTOR_LIMIT),
+    totalChecks: checks.length
+  };
+};
+
+export const useComplianceScore = (checks: ComplianceCheck[]): ComplianceScoreResult => {
+  return useMemo(() => calculateComplianceScore(checks), [checks]);
+};
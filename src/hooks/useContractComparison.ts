@@ -0,0 +1,51 @@
+import { useState, useCallback } from 'react';
+import {
+  ContractComparison,
+  ContractCompareResponse,
+  ContractVersionInput
+} from '../types/contract-comparison';
+
+export const useContractComparison = () => {
+  const [comparison, setComparison] = useState<ContractComparison | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const compare = useCallback(async (original: ContractVersionInput, revised: ContractVersionInput) => {
+    setIsComparing(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/contract/compare', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ original, revised })
+      });
+      const result: ContractCompareResponse = await response.json();
+
+      if (!result.success || !result.data) {
+        setError(result.error || '계약서 비교에 실패했습니다.');
+        return;
+      }
+
+      setComparison(result.data.comparison);
+    } catch (err) {
+      console.error('Contract comparison error:', err);
+      setError('계약서 비교 중 오류가 발생했습니다.');
+    } finally {
+      setIsComparing(false);
+    }
+  }, []);
+
+  const reset = useCallback(() => {
+    setComparison(null);
+    setError(null);
+  }, []);
+
+  return {
+    comparison,
+    isComparing,
+    error,
+    compare,
+    reset,
+  };
+};
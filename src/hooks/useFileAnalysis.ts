@@ -1,11 +1,15 @@
 import { useState, useRef, useCallback } from 'react';
-import { callAI } from './callAI';
+import { callAI } from '../services/callAI';
+import { DocumentRecord, DocumentUploadResponse } from '../types/document';
 
 const cache = new Map<string, any>();
 
+const ALLOWED_EXTENSIONS = ['.pdf', '.docx', '.txt'];
+
 export const useFileAnalysis = () => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [analysisResult, setAnalysisResult] = useState<any>(null);
+  const [document, setDocument] = useState<DocumentRecord | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
 
   const handleFileUpload = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -17,32 +21,45 @@ export const useFileAnalysis = () => {
       return;
     }
 
-    const allowedTypes = ['application/pdf', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', 'text/plain'];
-    if (!allowedTypes.includes(file.type)) {
-      setAnalysisResult({ type: 'error', message: 'PDF, DOCX, TXT 파일만 지원됩니다.' });
+    const fileName = file.name.toLowerCase();
+    if (!ALLOWED_EXTENSIONS.some(extension => fileName.endsWith(extension))) {
+      setAnalysisResult({ type: 'error', message: 'PDF, DOCX, TXT(HWP 텍스트 포함) 파일만 지원됩니다.' });
       return;
     }
 
     setIsAnalyzing(true);
 
     try {
-      const reader = new FileReader();
-      reader.onload = async () => {
-        const content = reader.result as string;
-        const cacheKey = content.slice(0, 500); // 단순 캐시 키
-
-        if (cache.has(cacheKey)) {
-          setAnalysisResult(cache.get(cacheKey));
-        } else {
-          const prompt = `다음 문서를 분석하여 위험 요소와 개선 제안을 JSON으로 반환:
-${content}`;
-          const response = await callAI(prompt);
-          const result = JSON.parse(response);
-          setAnalysisResult(result);
-          cache.set(cacheKey, result);
-        }
-      };
-      reader.readAsText(file);
+      // 바이너리 문서는 서버에서 텍스트와 구조를 추출한다
+      const uploadResponse = await fetch('/api/documents/upload', {
+        method: 'POST',
+        headers: {
+          'Content-Type': file.type || 'application/octet-stream',
+          'X-File-Name': encodeURIComponent(file.name)
+        },
+        body: file
+      });
+      const upload: DocumentUploadResponse = await uploadResponse.json();
+      if (!upload.success || !upload.data) {
+        setAnalysisResult({ type: 'error', message: upload.error || '문서 업로드에 실패했습니다.' });
+        return;
+      }
+
+      const documentResponse = await fetch(`/api/documents/${upload.data.document.id}`);
+      const { data } = await documentResponse.json();
+      const record: DocumentRecord = data.document;
+      setDocument(record);
+
+      const cacheKey = record.text.slice(0, 500); // 단순 캐시 키
+
+      if (cache.has(cacheKey)) {
+        setAnalysisResult(cache.get(cacheKey));
+      } else {
+        const response = await callAI(record.id);
+        const result = { ...JSON.parse(response), documentId: record.id };
+        setAnalysisResult(result);
+        cache.set(cacheKey, result);
+      }
     } catch (error) {
       setAnalysisResult({ type: 'error', message: '문서 분석 중 오류 발생' });
     } finally {
@@ -54,6 +71,7 @@ ${content}`;
     fileInputRef,
     handleFileUpload,
     analysisResult,
+    document,
     isAnalyzing,
   };
-};
\ No newline at end of file
+};
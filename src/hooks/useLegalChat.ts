@@ -1,34 +1,72 @@
-import { useState } from 'react';
-import { callAI } from './callAI';
+import { useEffect, useRef, useState } from 'react';
+import { streamLegalChat } from '../services/legal-chat-stream';
 
 interface Message {
   type: 'user' | 'ai';
   text: string;
 }
 
+const GREETING: Message = { type: 'ai', text: '안녕하세요! 법무 관련 질문이 있으시면 언제든지 말씀해주세요.' };
+
 export const useLegalChat = () => {
-  const [messages, setMessages] = useState<Message[]>([
-    { type: 'ai', text: '안녕하세요! 법무 관련 질문이 있으시면 언제든지 말씀해주세요.' }
-  ]);
+  const [messages, setMessages] = useState<Message[]>([GREETING]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
+  // 서버에 저장된 대화 ID, 첫 질문을 보내면 정해진다
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
 
   const handleSendMessage = async () => {
-    if (!input.trim()) return;
+    if (!input.trim() || isLoading) return;
+
+    const question = input.trim();
+    const newMessages: Message[] = [...messages, { type: 'user', text: question }];
+    // 마지막 ai 메시지를 스트리밍 중인 답변으로 갱신
+    const showAnswer = (text: string) => setMessages([...newMessages, { type: 'ai', text }]);
 
-    const newMessages = [...messages, { type: 'user', text: input }];
     setMessages(newMessages);
+    setInput('');
     setIsLoading(true);
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+
     try {
-      const response = await callAI(`법무 질문: ${input}\n전문 변호사처럼 답변해줘`);
-      setMessages([...newMessages, { type: 'ai', text: response }]);
+      const result = await streamLegalChat(question, {
+        conversationId,
+        signal: controller.signal,
+        onConversation: setConversationId,
+        onDelta: (_, accumulated) => {
+          setIsStreaming(true);
+          showAnswer(accumulated);
+        }
+      });
+      if (result.cancelled) {
+        if (result.response) showAnswer(`${result.response}\n\n(답변이 중단되었습니다)`);
+      } else {
+        showAnswer(result.response);
+      }
     } catch (error) {
-      setMessages([...newMessages, { type: 'ai', text: '⚠️ 답변 생성 중 오류가 발생했습니다.' }]);
+      console.error('Legal chat error:', error);
+      showAnswer('⚠️ 답변 생성 중 오류가 발생했습니다.');
+    } finally {
+      abortRef.current = null;
+      setIsStreaming(false);
+      setIsLoading(false);
     }
+  };
 
-    setInput('');
-    setIsLoading(false);
+  const cancel = () => {
+    abortRef.current?.abort();
+  };
+
+  const reset = () => {
+    abortRef.current?.abort();
+    setConversationId(null);
+    setMessages([GREETING]);
   };
 
   return {
@@ -36,6 +74,10 @@ export const useLegalChat = () => {
     input,
     setInput,
     isLoading,
+    isStreaming,
     handleSendMessage,
+    cancel,
+    conversationId,
+    reset,
   };
-};
\ No newline at end of file
+};
@@ -1,7 +1,7 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { aiProviders } from '@/services/ai-provider-registry';
+import { AIUsageContext } from '@/types/ai-provider';
 
 interface GeminiConfig {
-  apiKey: string;
   model: string;
   temperature: number;
   maxTokens: number;
@@ -18,36 +18,16 @@ interface GeminiResponse {
 
 class GeminiService {
   private config: GeminiConfig;
-  private genAI: GoogleGenerativeAI | null = null;
 
   constructor() {
     this.config = {
-      apiKey: process.env.GEMINI_API_KEY || '',
       model: 'gemini-1.5-pro',
       temperature: 0.7,
       maxTokens: 4000
     };
-
-    if (this.config.apiKey) {
-      this.genAI = new GoogleGenerativeAI(this.config.apiKey);
-    } else {
-      console.warn('Gemini API key not configured');
-    }
   }
 
-  async generateSummary(contractText: string): Promise<any> {
-    if (!this.genAI) {
-      throw new Error('Gemini API not configured');
-    }
-
-    const model = this.genAI.getGenerativeModel({ 
-      model: this.config.model,
-      generationConfig: {
-        temperature: this.config.temperature,
-        maxOutputTokens: this.config.maxTokens
-      }
-    });
-
+  async generateSummary(contractText: string, usage?: AIUsageContext): Promise<any> {
     const prompt = `
 다음 계약서를 분석하여 종합적인 요약 보고서를 작성해주세요:
 
@@ -82,9 +62,14 @@ ${contractText}
 `;
 
     try {
-      const result = await model.generateContent(prompt);
-      const response = await result.response;
-      const text = response.text();
+      const result = await aiProviders.generate('gemini', {
+        prompt,
+        model: this.config.model,
+        temperature: this.config.temperature,
+        maxTokens: this.config.maxTokens,
+        usage
+      });
+      const text = result.text;
 
       if (!text) {
         throw new Error('No response from Gemini API');
@@ -225,33 +210,18 @@ ${contractText}
   }
 
   async healthCheck(): Promise<boolean> {
-    if (!this.genAI) {
-      return false;
-    }
-
-    try {
-      const model = this.genAI.getGenerativeModel({ 
-        model: this.config.model,
-        generationConfig: {
-          temperature: 0.1,
-          maxOutputTokens: 10
-        }
-      });
-
-      const result = await model.generateContent('Health check test');
-      const response = await result.response;
-      return !!response.text();
-    } catch (error) {
-      console.error('Gemini health check failed:', error);
-      return false;
+    const result = await aiProviders.healthCheck('gemini');
+    if (result.error) {
+      console.error('Gemini health check failed:', result.error);
     }
+    return result.healthy;
   }
 
   getProviderInfo(): any {
     return {
       name: 'Gemini',
       model: this.config.model,
-      configured: !!this.config.apiKey,
+      configured: aiProviders.get('gemini').isConfigured(),
       capabilities: [
         'Multimodal understanding',
         'Long context processing',
@@ -264,8 +234,8 @@ ${contractText}
 
 const geminiService = new GeminiService();
 
-export async function callGeminiSummary(contractText: string): Promise<any> {
-  return await geminiService.generateSummary(contractText);
+export async function callGeminiSummary(contractText: string, usage?: AIUsageContext): Promise<any> {
+  return await geminiService.generateSummary(contractText, usage);
 }
 
 export { geminiService };
\ No newline at end of file
@@ -1,7 +1,7 @@
-import { OpenAI } from 'openai';
+import { aiProviders } from '@/services/ai-provider-registry';
+import { AIUsageContext } from '@/types/ai-provider';
 
 interface OpenAIConfig {
-  apiKey: string;
   model: string;
   temperature: number;
   maxTokens: number;
@@ -23,23 +23,13 @@ interface OpenAIResponse {
 
 class OpenAIService {
   private config: OpenAIConfig;
-  private openai: OpenAI | null = null;
 
   constructor() {
     this.config = {
-      apiKey: process.env.OPENAI_API_KEY || '',
       model: 'gpt-4-turbo-preview',
       temperature: 0.7,
       maxTokens: 4000
     };
-
-    if (this.config.apiKey) {
-      this.openai = new OpenAI({
-        apiKey: this.config.apiKey
-      });
-    } else {
-      console.warn('OpenAI API key not configured');
-    }
   }
 
   async generateAnalysis(params: {
@@ -50,11 +40,7 @@ class OpenAIService {
     riskPoints: string[];
     language: string;
     jurisdiction?: string;
-  }): Promise<any> {
-    if (!this.openai) {
-      throw new Error('OpenAI API not configured');
-    }
-
+  }, usage?: AIUsageContext): Promise<any> {
     const systemPrompt = `
 You are a senior legal analyst specializing in contract review and risk assessment. 
 Your expertise covers multiple jurisdictions and contract types.
@@ -108,28 +94,16 @@ ${params.riskPoints.map((risk, index) => `${index + 1}. ${risk}`).join('\n')}
 `;
 
     try {
-      const completion = await this.openai.chat.completions.create({
+      const completion = await aiProviders.generate('openai', {
+        system: systemPrompt,
+        prompt: userPrompt,
         model: this.config.model,
-        messages: [
-          {
-            role: 'system',
-            content: systemPrompt
-          },
-          {
-            role: 'user',
-            content: userPrompt
-          }
-        ],
         temperature: this.config.temperature,
-        max_tokens: this.config.maxTokens
+        maxTokens: this.config.maxTokens,
+        usage
       });
 
-      const choice = completion.choices[0];
-      if (!choice || !choice.message) {
-        throw new Error('No response from OpenAI API');
-      }
-
-      const content = choice.message.content;
+      const content = completion.text;
       if (!content) {
         throw new Error('Empty response from OpenAI API');
       }
@@ -142,9 +116,9 @@ ${params.riskPoints.map((risk, index) => `${index + 1}. ${risk}`).join('\n')}
           provider: 'openai',
           model: completion.model,
           usage: {
-            promptTokens: completion.usage?.prompt_tokens || 0,
-            completionTokens: completion.usage?.completion_tokens || 0,
-            totalTokens: completion.usage?.total_tokens || 0
+            promptTokens: completion.usage.inputTokens,
+            completionTokens: completion.usage.outputTokens,
+            totalTokens: completion.usage.totalTokens
           },
           timestamp: new Date().toISOString()
         }
@@ -282,35 +256,18 @@ ${params.riskPoints.map((risk, index) => `${index + 1}. ${risk}`).join('\n')}
   }
 
   async healthCheck(): Promise<boolean> {
-    if (!this.openai) {
-      return false;
-    }
-
-    try {
-      const completion = await this.openai.chat.completions.create({
-        model: this.config.model,
-        messages: [
-          {
-            role: 'user',
-            content: 'Health check test'
-          }
-        ],
-        temperature: 0.1,
-        max_tokens: 10
-      });
-
-      return !!completion.choices[0]?.message?.content;
-    } catch (error) {
-      console.error('OpenAI health check failed:', error);
-      return false;
+    const result = await aiProviders.healthCheck('openai');
+    if (result.error) {
+      console.error('OpenAI health check failed:', result.error);
     }
+    return result.healthy;
   }
 
   getProviderInfo(): any {
     return {
       name: 'OpenAI',
       model: this.config.model,
-      configured: !!this.config.apiKey,
+      configured: aiProviders.get('openai').isConfigured(),
       capabilities: [
         'Advanced reasoning',
         'Legal analysis',
@@ -331,8 +288,8 @@ export async function callOpenAIAnalysis(params: {
   riskPoints: string[];
   language: string;
   jurisdiction?: string;
-}): Promise<any> {
-  return await openaiService.generateAnalysis(params);
+}, usage?: AIUsageContext): Promise<any> {
+  return await openaiService.generateAnalysis(params, usage);
 }
 
 export { openaiService };
\ No newline at end of file
@@ -1,50 +1,24 @@
+import { aiProviders } from '@/services/ai-provider-registry';
+import { AIUsageContext } from '@/types/ai-provider';
+
 interface PerplexityConfig {
-  apiKey: string;
-  baseUrl: string;
   model: string;
   maxTokens: number;
   temperature: number;
 }
 
-interface PerplexityResponse {
-  id: string;
-  model: string;
-  choices: Array<{
-    message: {
-      role: string;
-      content: string;
-    };
-    finish_reason: string;
-  }>;
-  usage: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
-}
-
 class PerplexityService {
   private config: PerplexityConfig;
 
   constructor() {
     this.config = {
-      apiKey: process.env.PERPLEXITY_API_KEY || '',
-      baseUrl: 'https://api.perplexity.ai',
       model: 'llama-3.1-sonar-large-128k-online',
       maxTokens: 4000,
       temperature: 0.7
     };
-
-    if (!this.config.apiKey) {
-      console.warn('Perplexity API key not configured');
-    }
   }
 
-  async generateReport(contractText: string): Promise<any> {
-    if (!this.config.apiKey) {
-      throw new Error('Perplexity API key not configured');
-    }
-
+  async generateReport(contractText: string, usage?: AIUsageContext): Promise<any> {
     const prompt = `
 다음 계약서 내용을 분석하여 포괄적인 법적 리스크 보고서를 작성해주세요:
 
@@ -62,40 +36,19 @@ ${contractText}
 `;
 
     try {
-      const response = await fetch(`${this.config.baseUrl}/chat/completions`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.config.apiKey}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          model: this.config.model,
-          messages: [
-            {
-              role: 'system',
-              content: 'You are a senior legal expert specializing in contract analysis and risk assessment. Provide comprehensive and actionable legal advice.'
-            },
-            {
-              role: 'user',
-              content: prompt
-            }
-          ],
-          max_tokens: this.config.maxTokens,
-          temperature: this.config.temperature
-        })
+      const data = await aiProviders.generate('perplexity', {
+        system: 'You are a senior legal expert specializing in contract analysis and risk assessment. Provide comprehensive and actionable legal advice.',
+        prompt,
+        model: this.config.model,
+        maxTokens: this.config.maxTokens,
+        temperature: this.config.temperature,
+        usage
       });
 
-      if (!response.ok) {
-        throw new Error(`Perplexity API error: ${response.status} ${response.statusText}`);
-      }
-
-      const data: PerplexityResponse = await response.json();
-      
-      if (!data.choices || data.choices.length === 0) {
+      const content = data.text;
+      if (!content) {
         throw new Error('No response from Perplexity API');
       }
-
-      const content = data.choices[0].message.content;
       
       // Parse the response into structured format
       const structuredResult = this.parsePerplexityResponse(content);
@@ -105,7 +58,11 @@ ${contractText}
         metadata: {
           provider: 'perplexity',
           model: data.model,
-          tokens: data.usage,
+          tokens: {
+            prompt_tokens: data.usage.inputTokens,
+            completion_tokens: data.usage.outputTokens,
+            total_tokens: data.usage.totalTokens
+          },
           timestamp: new Date().toISOString()
         }
       };
@@ -172,42 +129,18 @@ ${contractText}
   }
 
   async healthCheck(): Promise<boolean> {
-    if (!this.config.apiKey) {
-      return false;
-    }
-
-    try {
-      const response = await fetch(`${this.config.baseUrl}/chat/completions`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.config.apiKey}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          model: this.config.model,
-          messages: [
-            {
-              role: 'user',
-              content: 'Health check test'
-            }
-          ],
-          max_tokens: 10,
-          temperature: 0.1
-        })
-      });
-
-      return response.ok;
-    } catch (error) {
-      console.error('Perplexity health check failed:', error);
-      return false;
+    const result = await aiProviders.healthCheck('perplexity');
+    if (result.error) {
+      console.error('Perplexity health check failed:', result.error);
     }
+    return result.healthy;
   }
 
   getProviderInfo(): any {
     return {
       name: 'Perplexity',
       model: this.config.model,
-      configured: !!this.config.apiKey,
+      configured: aiProviders.get('perplexity').isConfigured(),
       capabilities: [
         'Real-time information',
         'Legal analysis',
@@ -220,8 +153,8 @@ ${contractText}
 
 const perplexityService = new PerplexityService();
 
-export async function callPerplexityReport(contractText: string): Promise<any> {
-  return await perplexityService.generateReport(contractText);
+export async function callPerplexityReport(contractText: string, usage?: AIUsageContext): Promise<any> {
+  return await perplexityService.generateReport(contractText, usage);
 }
 
 export { perplexityService };
\ No newline at end of file
@@ -0,0 +1,85 @@
+import { Anthropic } from '@anthropic-ai/sdk';
+import { AIGenerateRequest, AIProvider } from '../../../types/ai-provider';
+import { DEFAULT_MAX_TOKENS, DEFAULT_TEMPERATURE, toMessages, toUsage } from './request';
+
+class ClaudeProvider implements AIProvider {
+  readonly id = 'claude' as const;
+  readonly name = 'Claude (Anthropic)';
+  readonly defaultModel = process.env.CLAUDE_MODEL || 'claude-3-sonnet-20240229';
+  private client: Anthropic | null = null;
+
+  // 라우트마다 ANTHROPIC_API_KEY와 CLAUDE_API_KEY를 섞어 쓰고 있어 둘 다 받는다
+  private get apiKey(): string {
+    return process.env.ANTHROPIC_API_KEY || process.env.CLAUDE_API_KEY || '';
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  async generate(request: AIGenerateRequest) {
+    const model = request.model || this.defaultModel;
+    const response = await this.getClient().messages.create(this.buildRequest(request, model), { signal: request.signal });
+    const content = response.content[0];
+
+    return {
+      text: content && content.type === 'text' ? content.text : '',
+      provider: this.id,
+      model: response.model,
+      usage: toUsage(response.usage.input_tokens, response.usage.output_tokens)
+    };
+  }
+
+  async stream(request: AIGenerateRequest, onDelta: (text: string) => void) {
+    const model = request.model || this.defaultModel;
+    const stream = await this.getClient().messages.create(
+      { ...this.buildRequest(request, model), stream: true },
+      { signal: request.signal }
+    );
+
+    let text = '';
+    let inputTokens = 0;
+    let outputTokens = 0;
+    for await (const event of stream) {
+      if (event.type === 'message_start') {
+        inputTokens = event.message.usage.input_tokens;
+      } else if (event.type === 'message_delta') {
+        outputTokens = event.usage.output_tokens;
+      } else if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+        text += event.delta.text;
+        onDelta(event.delta.text);
+      }
+    }
+
+    return { text, provider: this.id, model, usage: toUsage(inputTokens, outputTokens) };
+  }
+
+  async healthCheck(): Promise<boolean> {
+    if (!this.isConfigured()) return false;
+    const result = await this.generate({ prompt: 'Health check test', maxTokens: 10, temperature: 0.1 });
+    return !!result.text;
+  }
+
+  private buildRequest(request: AIGenerateRequest, model: string) {
+    return {
+      model,
+      max_tokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+      temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+      system: request.system,
+      messages: toMessages(request)
+    };
+  }
+
+  private getClient(): Anthropic {
+    if (!this.isConfigured()) {
+      throw new Error('Claude API key not configured');
+    }
+    if (!this.client) {
+      this.client = new Anthropic({ apiKey: this.apiKey });
+    }
+    return this.client;
+  }
+}
+
+export const claudeProvider = new ClaudeProvider();
+export default ClaudeProvider;
@@ -0,0 +1,78 @@
+import { Content, GoogleGenerativeAI } from '@google/generative-ai';
+import { AIGenerateRequest, AIProvider } from '../../../types/ai-provider';
+import { DEFAULT_MAX_TOKENS, DEFAULT_TEMPERATURE, estimateUsage, toMessages } from './request';
+
+class GeminiProvider implements AIProvider {
+  readonly id = 'gemini' as const;
+  readonly name = 'Gemini (Google)';
+  readonly defaultModel = process.env.GEMINI_MODEL || 'gemini-1.5-pro';
+  private client: GoogleGenerativeAI | null = null;
+
+  isConfigured(): boolean {
+    return !!process.env.GEMINI_API_KEY;
+  }
+
+  async generate(request: AIGenerateRequest) {
+    const model = request.model || this.defaultModel;
+    const result = await this.getModel(request, model).generateContent({ contents: this.toContents(request) });
+    const text = result.response.text();
+
+    // 현재 SDK 버전은 토큰 사용량을 돌려주지 않는다
+    return { text, provider: this.id, model, usage: estimateUsage(request, text) };
+  }
+
+  async stream(request: AIGenerateRequest, onDelta: (text: string) => void) {
+    const model = request.model || this.defaultModel;
+    const result = await this.getModel(request, model).generateContentStream({ contents: this.toContents(request) });
+
+    let text = '';
+    for await (const chunk of result.stream) {
+      // SDK가 AbortSignal을 받지 않으므로 청크 사이에서 직접 확인한다
+      if (request.signal?.aborted) {
+        throw new Error('Gemini request aborted');
+      }
+      const delta = chunk.text();
+      if (delta) {
+        text += delta;
+        onDelta(delta);
+      }
+    }
+
+    return { text, provider: this.id, model, usage: estimateUsage(request, text) };
+  }
+
+  async healthCheck(): Promise<boolean> {
+    if (!this.isConfigured()) return false;
+    const result = await this.generate({ prompt: 'Health check test', maxTokens: 10, temperature: 0.1 });
+    return !!result.text;
+  }
+
+  // Gemini에는 system 역할이 없어 첫 사용자 메시지 앞에 붙인다
+  private toContents(request: AIGenerateRequest): Content[] {
+    return toMessages(request).map((message, index) => ({
+      role: message.role === 'assistant' ? 'model' : 'user',
+      parts: [{
+        text: index === 0 && request.system ? `${request.system}\n\n${message.content}` : message.content
+      }]
+    }));
+  }
+
+  private getModel(request: AIGenerateRequest, model: string) {
+    if (!this.isConfigured()) {
+      throw new Error('Gemini API key not configured');
+    }
+    if (!this.client) {
+      this.client = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
+    }
+    return this.client.getGenerativeModel({
+      model,
+      generationConfig: {
+        temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+        maxOutputTokens: request.maxTokens || DEFAULT_MAX_TOKENS
+      }
+    });
+  }
+}
+
+export const geminiProvider = new GeminiProvider();
+export default GeminiProvider;
@@ -0,0 +1,69 @@
+import crypto from 'crypto';
+import { AIGenerateRequest, AIProvider } from '../../../types/ai-provider';
+import { estimateUsage, toMessages } from './request';
+
+type MockResponder = (request: AIGenerateRequest) => string;
+
+// 스트리밍 시 한 번에 보내는 글자 수
+const MOCK_CHUNK_SIZE = 16;
+
+/**
+ * 네트워크 없이 입력에 대해 항상 같은 답을 돌려주는 테스트용 제공자.
+ * AI_PROVIDER_MODE=mock이면 레지스트리가 모든 호출을 이 제공자로 보낸다.
+ */
+class MockProvider implements AIProvider {
+  readonly id = 'mock' as const;
+  readonly name = 'Mock';
+  readonly defaultModel = 'mock-1';
+  private responder: MockResponder | null = null;
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  // 테스트에서 특정 형식(JSON 등)의 응답이 필요할 때 바꿔 끼운다
+  setResponder(responder: MockResponder | null): void {
+    this.responder = responder;
+  }
+
+  async generate(request: AIGenerateRequest) {
+    this.throwIfAborted(request);
+    const text = this.respond(request);
+    return { text, provider: this.id, model: request.model || this.defaultModel, usage: estimateUsage(request, text) };
+  }
+
+  async stream(request: AIGenerateRequest, onDelta: (text: string) => void) {
+    const text = this.respond(request);
+    for (let offset = 0; offset < text.length; offset += MOCK_CHUNK_SIZE) {
+      this.throwIfAborted(request);
+      onDelta(text.slice(offset, offset + MOCK_CHUNK_SIZE));
+    }
+    return { text, provider: this.id, model: request.model || this.defaultModel, usage: estimateUsage(request, text) };
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return true;
+  }
+
+  private respond(request: AIGenerateRequest): string {
+    if (this.responder) return this.responder(request);
+
+    const messages = toMessages(request);
+    const last = messages[messages.length - 1].content;
+    const digest = crypto
+      .createHash('sha1')
+      .update(JSON.stringify([request.system || '', messages]))
+      .digest('hex')
+      .slice(0, 8);
+    return `[mock:${digest}] ${last.length > 200 ? `${last.slice(0, 200)}...` : last}`;
+  }
+
+  private throwIfAborted(request: AIGenerateRequest): void {
+    if (request.signal?.aborted) {
+      throw new Error('Mock request aborted');
+    }
+  }
+}
+
+export const mockProvider = new MockProvider();
+export default MockProvider;
@@ -0,0 +1,82 @@
+import { OpenAI } from 'openai';
+import { AIGenerateRequest, AIProvider } from '../../../types/ai-provider';
+import { DEFAULT_MAX_TOKENS, DEFAULT_TEMPERATURE, estimateUsage, toMessages, toUsage } from './request';
+
+class OpenAIProvider implements AIProvider {
+  readonly id = 'openai' as const;
+  readonly name = 'OpenAI';
+  readonly defaultModel = process.env.OPENAI_MODEL || 'gpt-4';
+  private client: OpenAI | null = null;
+
+  isConfigured(): boolean {
+    return !!process.env.OPENAI_API_KEY;
+  }
+
+  async generate(request: AIGenerateRequest) {
+    const model = request.model || this.defaultModel;
+    const completion = await this.getClient().chat.completions.create(this.buildRequest(request, model), {
+      signal: request.signal
+    });
+    const text = completion.choices[0]?.message?.content || '';
+
+    return {
+      text,
+      provider: this.id,
+      model: completion.model,
+      usage: completion.usage
+        ? toUsage(completion.usage.prompt_tokens, completion.usage.completion_tokens)
+        : estimateUsage(request, text)
+    };
+  }
+
+  async stream(request: AIGenerateRequest, onDelta: (text: string) => void) {
+    const model = request.model || this.defaultModel;
+    const stream = await this.getClient().chat.completions.create(
+      { ...this.buildRequest(request, model), stream: true },
+      { signal: request.signal }
+    );
+
+    let text = '';
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        onDelta(delta);
+      }
+    }
+
+    // 스트리밍 응답에는 사용량이 포함되지 않는다
+    return { text, provider: this.id, model, usage: estimateUsage(request, text) };
+  }
+
+  async healthCheck(): Promise<boolean> {
+    if (!this.isConfigured()) return false;
+    const result = await this.generate({ prompt: 'Health check test', maxTokens: 10, temperature: 0.1 });
+    return !!result.text;
+  }
+
+  private buildRequest(request: AIGenerateRequest, model: string) {
+    const messages = toMessages(request);
+    return {
+      model,
+      messages: request.system
+        ? [{ role: 'system' as const, content: request.system }, ...messages]
+        : messages,
+      max_tokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+      temperature: request.temperature ?? DEFAULT_TEMPERATURE
+    };
+  }
+
+  private getClient(): OpenAI {
+    if (!this.isConfigured()) {
+      throw new Error('OpenAI API key not configured');
+    }
+    if (!this.client) {
+      this.client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    }
+    return this.client;
+  }
+}
+
+export const openaiProvider = new OpenAIProvider();
+export default OpenAIProvider;
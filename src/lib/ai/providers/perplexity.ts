@@ -0,0 +1,106 @@
+import { AIGenerateRequest, AIProvider } from '../../../types/ai-provider';
+import { readSSE } from '../../../utils/sse';
+import { DEFAULT_MAX_TOKENS, DEFAULT_TEMPERATURE, estimateUsage, toMessages, toUsage } from './request';
+
+const PERPLEXITY_BASE_URL = 'https://api.perplexity.ai';
+
+interface PerplexityCompletion {
+  model: string;
+  choices: Array<{
+    message?: { content: string };
+    delta?: { content?: string };
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+  };
+}
+
+class PerplexityProvider implements AIProvider {
+  readonly id = 'perplexity' as const;
+  readonly name = 'Perplexity';
+  readonly defaultModel = process.env.PERPLEXITY_MODEL || 'llama-3.1-sonar-large-128k-online';
+
+  isConfigured(): boolean {
+    return !!process.env.PERPLEXITY_API_KEY;
+  }
+
+  async generate(request: AIGenerateRequest) {
+    const model = request.model || this.defaultModel;
+    const response = await this.post(request, model, false);
+    const data: PerplexityCompletion = await response.json();
+    const text = data.choices[0]?.message?.content || '';
+
+    return {
+      text,
+      provider: this.id,
+      model: data.model,
+      usage: data.usage
+        ? toUsage(data.usage.prompt_tokens, data.usage.completion_tokens)
+        : estimateUsage(request, text)
+    };
+  }
+
+  async stream(request: AIGenerateRequest, onDelta: (text: string) => void) {
+    const model = request.model || this.defaultModel;
+    const response = await this.post(request, model, true);
+
+    let text = '';
+    let usage: PerplexityCompletion['usage'];
+    await readSSE(response, (_, data) => {
+      // 마지막 'data: [DONE]'은 JSON이 아니라 문자열로 들어온다
+      if (typeof data !== 'object' || data === null) return;
+      const chunk = data as PerplexityCompletion;
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        onDelta(delta);
+      }
+      if (chunk.usage) usage = chunk.usage;
+    });
+
+    return {
+      text,
+      provider: this.id,
+      model,
+      usage: usage ? toUsage(usage.prompt_tokens, usage.completion_tokens) : estimateUsage(request, text)
+    };
+  }
+
+  async healthCheck(): Promise<boolean> {
+    if (!this.isConfigured()) return false;
+    const result = await this.generate({ prompt: 'Health check test', maxTokens: 10, temperature: 0.1 });
+    return !!result.text;
+  }
+
+  private async post(request: AIGenerateRequest, model: string, stream: boolean): Promise<Response> {
+    if (!this.isConfigured()) {
+      throw new Error('Perplexity API key not configured');
+    }
+
+    const messages = toMessages(request);
+    const response = await fetch(`${PERPLEXITY_BASE_URL}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${process.env.PERPLEXITY_API_KEY}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        model,
+        messages: request.system ? [{ role: 'system', content: request.system }, ...messages] : messages,
+        max_tokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+        temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+        stream
+      }),
+      signal: request.signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`Perplexity API error: ${response.status} ${response.statusText}`);
+    }
+    return response;
+  }
+}
+
+export const perplexityProvider = new PerplexityProvider();
+export default PerplexityProvider;
@@ -0,0 +1,16 @@
+import { AIProviderId, AIUsage } from '../../../types/ai-provider';
+
+// 기본 모델 기준 1K 토큰당 공개 단가 (USD). 정산용이 아니라 사용량·라우팅 판단용 추정치다
+const PRICE_PER_1K_TOKENS: Record<AIProviderId, { input: number; output: number }> = {
+  claude: { input: 0.003, output: 0.015 },
+  openai: { input: 0.03, output: 0.06 },
+  gemini: { input: 0.00125, output: 0.005 },
+  perplexity: { input: 0.001, output: 0.001 },
+  mock: { input: 0, output: 0 }
+};
+
+export const estimateCost = (provider: AIProviderId, usage: AIUsage): number => {
+  const price = PRICE_PER_1K_TOKENS[provider];
+  const cost = (usage.inputTokens / 1000) * price.input + (usage.outputTokens / 1000) * price.output;
+  return Math.round(cost * 1000000) / 1000000;
+};
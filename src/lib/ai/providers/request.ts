@@ -0,0 +1,31 @@
+import { estimateTokens } from '../../../services/chat-context-builder';
+import { AIGenerateRequest, AIMessage, AIUsage } from '../../../types/ai-provider';
+
+export const DEFAULT_MAX_TOKENS = 2000;
+export const DEFAULT_TEMPERATURE = 0.7;
+
+/**
+ * prompt와 messages를 하나의 대화 배열로 합친다.
+ */
+export const toMessages = (request: AIGenerateRequest): AIMessage[] => {
+  const messages = [...(request.messages || [])];
+  if (request.prompt) messages.push({ role: 'user', content: request.prompt });
+  if (messages.length === 0) {
+    throw new Error('AI request requires a prompt or messages');
+  }
+  return messages;
+};
+
+// 제공자가 토큰 수를 돌려주지 않을 때 쓰는 추정치
+export const estimateUsage = (request: AIGenerateRequest, output: string): AIUsage => {
+  const input = [request.system || '', ...toMessages(request).map(message => message.content)].join('\n');
+  const inputTokens = estimateTokens(input);
+  const outputTokens = estimateTokens(output);
+  return { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens };
+};
+
+export const toUsage = (inputTokens = 0, outputTokens = 0): AIUsage => ({
+  inputTokens,
+  outputTokens,
+  totalTokens: inputTokens + outputTokens
+});
@@ -0,0 +1,35 @@
+import { CredentialAuthErrorCode } from '@/types/user';
+
+// 서버 응답과 로그인 화면이 같은 문구를 쓰도록 한곳에 둔다 (브라우저 번들에서도 import한다)
+export const CREDENTIAL_ERROR_MESSAGES: Record<CredentialAuthErrorCode, string> = {
+  INVALID_EMAIL: '올바른 이메일 주소를 입력해 주세요.',
+  WEAK_PASSWORD: '비밀번호 규칙을 확인해 주세요.',
+  EMAIL_TAKEN: '이미 가입된 이메일입니다.',
+  INVALID_CREDENTIALS: '이메일 또는 비밀번호가 올바르지 않습니다.',
+  EMAIL_NOT_VERIFIED: '이메일 인증을 마친 뒤 로그인할 수 있습니다. 받은 메일함을 확인해 주세요.',
+  ACCOUNT_LOCKED: '로그인 실패가 반복되어 계정이 잠시 잠겼습니다. 잠시 후 다시 시도하거나 비밀번호를 재설정해 주세요.',
+  INVALID_TOKEN: '링크가 만료되었거나 이미 사용되었습니다. 다시 요청해 주세요.'
+};
+
+// API 라우트에서 오류 코드별로 돌려줄 HTTP 상태
+export const CREDENTIAL_ERROR_STATUS: Record<CredentialAuthErrorCode, number> = {
+  INVALID_EMAIL: 400,
+  WEAK_PASSWORD: 400,
+  EMAIL_TAKEN: 409,
+  INVALID_CREDENTIALS: 401,
+  EMAIL_NOT_VERIFIED: 403,
+  ACCOUNT_LOCKED: 423,
+  INVALID_TOKEN: 400
+};
+
+export const isCredentialErrorCode = (code: unknown): code is CredentialAuthErrorCode =>
+  typeof code === 'string' && code in CREDENTIAL_ERROR_MESSAGES;
+
+export class CredentialAuthError extends Error {
+  constructor(readonly code: CredentialAuthErrorCode, message: string = CREDENTIAL_ERROR_MESSAGES[code]) {
+    super(message);
+    this.name = 'CredentialAuthError';
+    // ES5로 변환되면 instanceof가 깨지므로 프로토타입을 직접 지정한다
+    Object.setPrototypeOf(this, CredentialAuthError.prototype);
+  }
+}
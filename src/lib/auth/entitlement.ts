@@ -0,0 +1,98 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/features/auth/authOptions';
+import { getPlanFeatures, PLAN_ORDER, resolveUserPlan } from '@/services/user-plan';
+import { QUOTA_EXCEEDED_MESSAGES, usageMeter } from '@/services/usage-meter';
+import { EntitlementDenial, PlanFeatureKey, PlanId, UserPlan } from '@/types/plan';
+import { QuotaExceededReason, UsageSummary } from '@/types/usage';
+
+interface EntitlementOptions {
+  // 필요한 플랜 기능. 없으면 로그인과 월 사용 한도만 확인한다
+  feature?: PlanFeatureKey;
+  // 업셀 안내에 보여줄 기능 이름
+  featureName: string;
+  // AI를 호출하지 않는 라우트는 false로 둔다
+  checkQuota?: boolean;
+}
+
+export interface EntitlementContext {
+  email: string;
+  plan: UserPlan;
+  // checkQuota가 false면 null
+  usage: UsageSummary | null;
+}
+
+const findPlanWithFeature = (feature: PlanFeatureKey): PlanId | null =>
+  PLAN_ORDER.find(plan => getPlanFeatures(plan)[feature]) || null;
+
+// 현재 플랜보다 해당 한도가 큰 가장 낮은 플랜
+const findPlanWithHigherLimit = (current: PlanId, reason: QuotaExceededReason): PlanId | null => {
+  const limitOf = (plan: PlanId) => {
+    const features = getPlanFeatures(plan);
+    const limit = reason === 'queries' ? features.monthlyQueries : features.monthlyTokens;
+    return limit < 0 ? Infinity : limit;
+  };
+  return PLAN_ORDER.slice(PLAN_ORDER.indexOf(current) + 1).find(plan => limitOf(plan) > limitOf(current)) || null;
+};
+
+const deny = (res: NextApiResponse, status: 402 | 403, body: Omit<EntitlementDenial, 'success'>) => {
+  res.status(status).json({ success: false, ...body });
+};
+
+/**
+ * API 핸들러 앞단에서 로그인, 플랜 기능, 월 AI 사용 한도를 확인한다.
+ * 통과하지 못하면 응답을 보내고 null을 돌려주므로 호출한 쪽은 바로 return하면 된다.
+ * - 401: 로그인 필요
+ * - 403 FEATURE_NOT_IN_PLAN: 현재 플랜에 없는 기능
+ * - 402 QUOTA_EXCEEDED: 이번 달 한도 소진
+ */
+export async function requireEntitlement(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  { feature, featureName, checkQuota = true }: EntitlementOptions
+): Promise<EntitlementContext | null> {
+  const session = await getServerSession(req, res, authOptions);
+  const email = session?.user?.email;
+  if (!email) {
+    res.status(401).json({ success: false, error: 'Authentication required', message: '로그인이 필요합니다.' });
+    return null;
+  }
+
+  const plan = await resolveUserPlan(email);
+
+  if (feature && !getPlanFeatures(plan.plan)[feature]) {
+    const requiredPlan = findPlanWithFeature(feature);
+    deny(res, 403, {
+      error: 'Feature not included in plan',
+      message: `${featureName}은(는) ${requiredPlan || '상위'} 플랜부터 이용할 수 있습니다.`,
+      code: 'FEATURE_NOT_IN_PLAN',
+      upgrade: { trigger: 'feature_limit', featureName, currentPlan: plan.plan, requiredPlan }
+    });
+    return null;
+  }
+
+  if (!checkQuota) {
+    return { email, plan, usage: null };
+  }
+
+  const quota = await usageMeter.checkQuota(email);
+  if (!quota.allowed) {
+    const exceeded = quota.reason === 'queries' ? quota.summary.queries : quota.summary.tokens;
+    deny(res, 402, {
+      error: 'Monthly quota exceeded',
+      message: QUOTA_EXCEEDED_MESSAGES[quota.reason],
+      code: 'QUOTA_EXCEEDED',
+      upgrade: {
+        trigger: 'usage_limit',
+        featureName,
+        currentPlan: plan.plan,
+        requiredPlan: findPlanWithHigherLimit(plan.plan, quota.reason),
+        currentUsage: exceeded.used,
+        usageLimit: exceeded.limit
+      }
+    });
+    return null;
+  }
+
+  return { email, plan, usage: quota.summary };
+}
@@ -0,0 +1,34 @@
+import { OrganizationErrorCode } from '@/types/organization';
+
+// 서버 응답과 워크스페이스 화면이 같은 문구를 쓰도록 한곳에 둔다
+export const ORGANIZATION_ERROR_MESSAGES: Record<OrganizationErrorCode, string> = {
+  INVALID_INPUT: '입력값을 확인해 주세요.',
+  NOT_FOUND: '워크스페이스를 찾을 수 없습니다.',
+  FORBIDDEN: '이 작업을 할 권한이 없습니다.',
+  NO_SEATS: '남은 좌석이 없습니다. 구독 좌석을 늘리거나 멤버를 정리해 주세요.',
+  ALREADY_MEMBER: '이미 워크스페이스 멤버입니다.',
+  OWNER_IMMUTABLE: '소유자의 역할은 바꾸거나 내보낼 수 없습니다.',
+  INVALID_INVITE: '초대가 만료되었거나 이미 처리되었습니다. 관리자에게 다시 요청해 주세요.',
+  INVITE_EMAIL_MISMATCH: '초대받은 이메일 계정으로 로그인해야 합니다.'
+};
+
+// API 라우트에서 오류 코드별로 돌려줄 HTTP 상태
+export const ORGANIZATION_ERROR_STATUS: Record<OrganizationErrorCode, number> = {
+  INVALID_INPUT: 400,
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  NO_SEATS: 402,
+  ALREADY_MEMBER: 409,
+  OWNER_IMMUTABLE: 400,
+  INVALID_INVITE: 400,
+  INVITE_EMAIL_MISMATCH: 403
+};
+
+export class OrganizationError extends Error {
+  constructor(readonly code: OrganizationErrorCode, message: string = ORGANIZATION_ERROR_MESSAGES[code]) {
+    super(message);
+    this.name = 'OrganizationError';
+    // ES5로 변환되면 instanceof가 깨지므로 프로토타입을 직접 지정한다
+    Object.setPrototypeOf(this, OrganizationError.prototype);
+  }
+}
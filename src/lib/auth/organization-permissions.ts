@@ -0,0 +1,25 @@
+import { OrgMemberRole, OrgPermission } from '@/types/organization';
+
+// 워크스페이스 화면에서도 쓰므로 서버 전용 모듈을 import하지 않는다
+export const ORG_ROLE_PERMISSIONS: Record<OrgMemberRole, OrgPermission[]> = {
+  owner: ['resources:read', 'resources:share', 'resources:manage', 'members:manage', 'organization:manage'],
+  admin: ['resources:read', 'resources:share', 'resources:manage', 'members:manage'],
+  editor: ['resources:read', 'resources:share'],
+  viewer: ['resources:read']
+};
+
+// 초대하거나 바꿀 수 있는 역할. owner는 조직을 만든 사람 한 명뿐이다
+export const ASSIGNABLE_ORG_ROLES: Array<Exclude<OrgMemberRole, 'owner'>> = ['admin', 'editor', 'viewer'];
+
+export const ORG_ROLE_LABELS: Record<OrgMemberRole, string> = {
+  owner: '소유자',
+  admin: '관리자',
+  editor: '편집자',
+  viewer: '열람자'
+};
+
+export const isAssignableOrgRole = (role: unknown): role is Exclude<OrgMemberRole, 'owner'> =>
+  typeof role === 'string' && ASSIGNABLE_ORG_ROLES.indexOf(role as Exclude<OrgMemberRole, 'owner'>) >= 0;
+
+export const hasOrgPermission = (role: OrgMemberRole | null | undefined, permission: OrgPermission): boolean =>
+  !!role && ORG_ROLE_PERMISSIONS[role].indexOf(permission) >= 0;
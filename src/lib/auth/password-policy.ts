@@ -0,0 +1,18 @@
+// 해시 모듈(bcryptjs)과 분리해 두어 가입 화면에서도 같은 규칙을 import한다
+export const PASSWORD_MIN_LENGTH = 8;
+// bcrypt는 앞 72바이트만 해시하므로 그보다 긴 비밀번호는 받지 않는다
+export const PASSWORD_MAX_BYTES = 72;
+
+// 가입·재설정 시 비밀번호 규칙. 통과하면 null, 아니면 사용자에게 보여줄 안내 문구
+export function validatePassword(password: unknown): string | null {
+  if (typeof password !== 'string' || password.length < PASSWORD_MIN_LENGTH) {
+    return `비밀번호는 ${PASSWORD_MIN_LENGTH}자 이상이어야 합니다.`;
+  }
+  if (new TextEncoder().encode(password).length > PASSWORD_MAX_BYTES) {
+    return `비밀번호는 ${PASSWORD_MAX_BYTES}바이트(영문 기준 ${PASSWORD_MAX_BYTES}자) 이하여야 합니다.`;
+  }
+  if (!/[A-Za-z]/.test(password) || !/[0-9]/.test(password)) {
+    return '비밀번호에는 영문과 숫자가 모두 들어가야 합니다.';
+  }
+  return null;
+}
@@ -0,0 +1,19 @@
+import bcrypt from 'bcryptjs';
+
+// OWASP 권장 최소값(10)보다 한 단계 높인 bcrypt cost. 해시에 함께 저장되므로 나중에 올려도 기존 해시를 검증할 수 있다
+const BCRYPT_COST = 12;
+
+/**
+ * 비밀번호를 bcrypt로 해시한다. bcrypt는 앞 72바이트만 쓰므로 길이 제한은 password-policy에서 건다.
+ */
+export async function hashPassword(password: string): Promise<string> {
+  return bcrypt.hash(password, BCRYPT_COST);
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  try {
+    return await bcrypt.compare(password, stored);
+  } catch {
+    return false;
+  }
+}
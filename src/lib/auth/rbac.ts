@@ -0,0 +1,102 @@
+import { GetServerSideProps, NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/features/auth/authOptions';
+import { hasRole, STAFF_ROLES } from '@/lib/auth/roles';
+import { hasOrgPermission } from '@/lib/auth/organization-permissions';
+import { organizationRepository } from '@/services/organization-repository';
+import { Organization, OrganizationMember, OrgPermission } from '@/types/organization';
+import { UserRole } from '@/types/user';
+
+export interface RoleContext {
+  userId: string;
+  email: string;
+  role: UserRole;
+}
+
+export interface OrgAccessContext {
+  userId: string;
+  email: string;
+  organization: Organization;
+  member: OrganizationMember;
+}
+
+/**
+ * 관리자 API 앞단의 역할 검사. 통과하지 못하면 응답을 보내고 null을 돌려주므로 호출한 쪽은 바로 return하면 된다.
+ * - 401: 로그인 필요
+ * - 403: 허용된 역할이 아님
+ */
+export async function requireRole(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  allowed: UserRole[] = STAFF_ROLES
+): Promise<RoleContext | null> {
+  const session = await getServerSession(req, res, authOptions);
+  const email = session?.user?.email;
+  if (!session || !email) {
+    res.status(401).json({ success: false, error: 'Authentication required', message: '로그인이 필요합니다.' });
+    return null;
+  }
+
+  if (!hasRole(session.user.role, allowed)) {
+    res.status(403).json({ success: false, error: 'Forbidden', message: '이 작업을 할 권한이 없습니다.' });
+    return null;
+  }
+
+  return { userId: session.user.id, email, role: session.user.role };
+}
+
+/**
+ * 워크스페이스 API 앞단의 멤버 권한 검사. 통과하지 못하면 응답을 보내고 null을 돌려준다.
+ * - 401: 로그인 필요
+ * - 404: 조직이 없거나 멤버가 아님 (조직이 있는지 드러내지 않는다)
+ * - 403: 멤버 역할에 해당 권한이 없음
+ */
+export async function requireOrgPermission(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  organizationId: unknown,
+  permission: OrgPermission
+): Promise<OrgAccessContext | null> {
+  const session = await getServerSession(req, res, authOptions);
+  const email = session?.user?.email;
+  if (!session || !email) {
+    res.status(401).json({ success: false, error: 'Authentication required', message: '로그인이 필요합니다.' });
+    return null;
+  }
+
+  const organization = typeof organizationId === 'string' ? await organizationRepository.findOrganization(organizationId) : null;
+  const member = organization && await organizationRepository.findMember(organization.id, session.user.id);
+  if (!organization || !member) {
+    res.status(404).json({ success: false, error: 'Organization not found', message: '워크스페이스를 찾을 수 없습니다.' });
+    return null;
+  }
+
+  if (!hasOrgPermission(member.role, permission)) {
+    res.status(403).json({ success: false, error: 'Forbidden', message: '이 작업을 할 권한이 없습니다.' });
+    return null;
+  }
+
+  return { userId: session.user.id, email, organization, member };
+}
+
+/**
+ * 관리자 페이지용 getServerSideProps 래퍼. 데이터를 읽기 전에 서버에서 역할을 확인해
+ * 로그인하지 않았으면 로그인 화면, 권한이 없으면 /unauthorized로 보낸다.
+ */
+export function withRole<P extends Record<string, unknown> = Record<string, unknown>>(
+  allowed: UserRole[] = STAFF_ROLES,
+  getServerSideProps?: GetServerSideProps<P>
+): GetServerSideProps<P> {
+  return async context => {
+    const session = await getServerSession(context.req, context.res, authOptions);
+    if (!session?.user?.email) {
+      return {
+        redirect: { destination: `/auth/signin?callbackUrl=${encodeURIComponent(context.resolvedUrl)}`, permanent: false }
+      };
+    }
+    if (!hasRole(session.user.role, allowed)) {
+      return { redirect: { destination: '/unauthorized', permanent: false } };
+    }
+    return getServerSideProps ? getServerSideProps(context) : { props: {} as P };
+  };
+}
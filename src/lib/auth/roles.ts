@@ -0,0 +1,16 @@
+import { UserRole } from '@/types/user';
+
+// 관리자 화면과 /api/admin, /api/cache, /api/seo/registry에 들어갈 수 있는 역할
+export const STAFF_ROLES: UserRole[] = ['staff', 'super_admin'];
+
+// 역할 변경처럼 운영 권한 자체를 다루는 작업
+export const SUPER_ADMIN_ROLES: UserRole[] = ['super_admin'];
+
+export const USER_ROLES: UserRole[] = ['user', 'org_admin', 'staff', 'super_admin'];
+
+export const isUserRole = (role: unknown): role is UserRole =>
+  typeof role === 'string' && USER_ROLES.indexOf(role as UserRole) >= 0;
+
+// 브라우저에서도 쓰므로 서버 전용 모듈을 import하지 않는다
+export const hasRole = (role: UserRole | null | undefined, allowed: UserRole[]): boolean =>
+  !!role && allowed.indexOf(role) >= 0;
@@ -0,0 +1,60 @@
+import { EmailTemplate } from './growth-template';
+
+// 워크스페이스 이름은 사용자가 정하므로 HTML에 넣기 전에 이스케이프한다
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// 버튼 하나로 행동을 안내하는 계정·결제 메일 공통 레이아웃
+export const actionEmailLayout = (title: string, body: string, actionLabel: string, actionUrl: string, note: string) => `
+  <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+    <h1 style="color: #3b82f6;">${title}</h1>
+    <p>${body}</p>
+    <p style="margin: 24px 0;">
+      <a href="${actionUrl}" style="background: #2563eb; color: #ffffff; padding: 12px 20px; border-radius: 6px; text-decoration: none;">
+        ${actionLabel}
+      </a>
+    </p>
+    <p style="color: #6b7280; font-size: 14px;">${note}</p>
+    <hr style="margin: 20px 0;">
+    <p style="color: #6b7280; font-size: 14px;">Legal AI SaaS</p>
+  </div>
+`;
+
+export function generateVerificationEmail(verifyUrl: string): EmailTemplate {
+  const note = '본인이 가입하지 않았다면 이 메일을 무시하세요. 링크는 24시간 동안 유효합니다.';
+  return {
+    subject: '[Legal AI] 이메일 주소를 인증해 주세요',
+    html: actionEmailLayout('이메일 인증', 'Legal AI SaaS 가입을 완료하려면 아래 버튼을 눌러 이메일 주소를 인증해 주세요.', '이메일 인증하기', verifyUrl, note),
+    text: `Legal AI SaaS 가입을 완료하려면 아래 링크에서 이메일 주소를 인증해 주세요.\n\n${verifyUrl}\n\n${note}`
+  };
+}
+
+export function generatePasswordResetEmail(resetUrl: string): EmailTemplate {
+  const note = '본인이 요청하지 않았다면 이 메일을 무시하세요. 비밀번호는 바뀌지 않습니다. 링크는 1시간 동안 유효합니다.';
+  return {
+    subject: '[Legal AI] 비밀번호 재설정 안내',
+    html: actionEmailLayout('비밀번호 재설정', '아래 버튼을 눌러 새 비밀번호를 설정해 주세요.', '비밀번호 재설정하기', resetUrl, note),
+    text: `아래 링크에서 새 비밀번호를 설정해 주세요.\n\n${resetUrl}\n\n${note}`
+  };
+}
+
+// 결제로 먼저 만들어진(비밀번호 없는) 계정에 누군가 가입을 시도했을 때 메일함 주인에게 보낸다
+export function generateSetPasswordEmail(setPasswordUrl: string): EmailTemplate {
+  const note = '본인이 가입하지 않았다면 이 메일을 무시하세요. 계정은 바뀌지 않습니다. 링크는 1시간 동안 유효합니다.';
+  return {
+    subject: '[Legal AI] 비밀번호를 설정해 주세요',
+    html: actionEmailLayout('비밀번호 설정', '이 이메일로 이미 만들어진 계정이 있습니다. 아래 버튼을 눌러 비밀번호를 설정하면 로그인할 수 있습니다.', '비밀번호 설정하기', setPasswordUrl, note),
+    text: `이 이메일로 이미 만들어진 계정이 있습니다. 아래 링크에서 비밀번호를 설정하면 로그인할 수 있습니다.\n\n${setPasswordUrl}\n\n${note}`
+  };
+}
+
+export function generateOrganizationInviteEmail(organizationName: string, inviterEmail: string, acceptUrl: string): EmailTemplate {
+  const note = '초대받은 이메일 계정으로 로그인해야 참여할 수 있습니다. 링크는 7일 동안 유효합니다.';
+  const body = (name: string, inviter: string) =>
+    `${inviter}님이 "${name}" 워크스페이스에 초대했습니다. 팀원과 계약서, 전략 리포트, 북마크를 함께 볼 수 있습니다.`;
+  return {
+    subject: `[Legal AI] ${organizationName} 워크스페이스 초대`,
+    html: actionEmailLayout('워크스페이스 초대', body(escapeHtml(organizationName), escapeHtml(inviterEmail)), '초대 수락하기', acceptUrl, note),
+    text: `${body(organizationName, inviterEmail)}\n\n${acceptUrl}\n\n${note}`
+  };
+}
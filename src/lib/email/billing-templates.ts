@@ -0,0 +1,15 @@
+import { EmailTemplate } from './growth-template';
+import { actionEmailLayout } from './auth-templates';
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString('ko-KR');
+
+// 정기 결제 실패 안내 (더닝). 유예 기간이 끝나기 전에 결제 수단을 바꾸도록 안내한다
+export function generatePaymentFailedEmail(planName: string, graceUntil: string, manageUrl: string): EmailTemplate {
+  const note = `${formatDate(graceUntil)}까지는 지금 플랜을 그대로 이용할 수 있습니다. 그때까지 결제되지 않으면 무료 플랜으로 바뀝니다.`;
+  const body = `${planName} 플랜의 정기 결제가 실패했습니다. 카드 한도나 유효기간을 확인하고 결제 수단을 업데이트해 주세요.`;
+  return {
+    subject: '[Legal AI] 정기 결제에 실패했습니다',
+    html: actionEmailLayout('결제 실패 안내', body, '결제 수단 업데이트', manageUrl, note),
+    text: `${body}\n\n${manageUrl}\n\n${note}`
+  };
+}
@@ -2,7 +2,7 @@ import fs from 'fs';
 import path from 'path';
 
 export interface UserActionLog {
-  type: 'SEO_VISITOR' | 'CTA_CLICK' | 'UPGRADE_ATTEMPT' | 'DOCUMENT_GENERATED' | 'PAGE_VIEW';
+  type: 'SEO_VISITOR' | 'CTA_CLICK' | 'UPGRADE_ATTEMPT' | 'DOCUMENT_GENERATED' | 'PAGE_VIEW' | 'LEGAL_CHAT';
   page?: string;
   tag?: string;
   userId?: string;
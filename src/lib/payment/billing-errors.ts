@@ -0,0 +1,63 @@
+import { BillingErrorCode } from '@/types/billing';
+
+export const BILLING_ERROR_MESSAGES: Record<BillingErrorCode, string> = {
+  INVALID_PLAN: '선택한 플랜이나 결제 주기를 확인해 주세요.',
+  NOT_CONFIGURED: '결제 설정이 완료되지 않았습니다. 잠시 후 다시 시도해 주세요.',
+  NO_CUSTOMER: '결제 내역이 없어 구독 관리 화면을 열 수 없습니다.',
+  ALREADY_SUBSCRIBED: '이미 이용 중인 플랜입니다.',
+  ORDER_NOT_FOUND: '주문을 찾을 수 없습니다. 다시 결제해 주세요.',
+  AMOUNT_MISMATCH: '결제 금액이 주문 금액과 다릅니다.',
+  ORDER_EXPIRED: '결제 시간이 지난 주문입니다. 다시 결제해 주세요.',
+  PAYMENT_REJECTED: '결제 승인에 실패했습니다.',
+  EVENT_NOT_FOUND: '웹훅 이벤트를 찾을 수 없습니다.',
+  EVENT_NOT_REPLAYABLE: '처리에 실패한 이벤트만 다시 실행할 수 있습니다.',
+  PAYMENT_NOT_FOUND: '결제 내역을 찾을 수 없습니다.',
+  INVOICE_NOT_FOUND: '청구서를 찾을 수 없습니다.',
+  INVALID_BILLING_PROFILE: '상호, 대표자, 주소와 올바른 사업자등록번호를 입력해 주세요.',
+  TAX_INVOICE_UNAVAILABLE: '사업자 정보로 원화 결제한 건만 전자세금계산서를 받을 수 있습니다.',
+  PROMO_NOT_FOUND: '사용할 수 없는 프로모션 코드입니다.',
+  PROMO_EXPIRED: '사용 기간이 지났거나 아직 시작되지 않은 프로모션 코드입니다.',
+  PROMO_EXHAUSTED: '사용 한도가 모두 찬 프로모션 코드입니다.',
+  PROMO_ALREADY_USED: '이미 사용한 프로모션 코드입니다.',
+  PROMO_NOT_APPLICABLE: '선택한 플랜이나 결제 통화에는 쓸 수 없는 프로모션 코드입니다.',
+  PROMO_FIRST_PURCHASE_ONLY: '첫 결제에만 쓸 수 있는 프로모션 코드입니다.',
+  INVALID_PROMO: '코드, 할인 방식과 할인 값을 확인해 주세요.',
+  PROMO_CODE_TAKEN: '이미 있는 프로모션 코드입니다.',
+  PROMO_IN_CHECKOUT: '이 프로모션 코드로 진행 중인 결제가 있습니다. 그 결제를 마치거나 잠시 후 다시 시도해 주세요.'
+};
+
+// API 라우트에서 오류 코드별로 돌려줄 HTTP 상태
+export const BILLING_ERROR_STATUS: Record<BillingErrorCode, number> = {
+  INVALID_PLAN: 400,
+  NOT_CONFIGURED: 503,
+  NO_CUSTOMER: 404,
+  ALREADY_SUBSCRIBED: 409,
+  ORDER_NOT_FOUND: 404,
+  AMOUNT_MISMATCH: 400,
+  ORDER_EXPIRED: 409,
+  PAYMENT_REJECTED: 402,
+  EVENT_NOT_FOUND: 404,
+  EVENT_NOT_REPLAYABLE: 409,
+  PAYMENT_NOT_FOUND: 404,
+  INVOICE_NOT_FOUND: 404,
+  INVALID_BILLING_PROFILE: 400,
+  TAX_INVOICE_UNAVAILABLE: 409,
+  PROMO_NOT_FOUND: 404,
+  PROMO_EXPIRED: 400,
+  PROMO_EXHAUSTED: 409,
+  PROMO_ALREADY_USED: 409,
+  PROMO_NOT_APPLICABLE: 400,
+  PROMO_FIRST_PURCHASE_ONLY: 403,
+  INVALID_PROMO: 400,
+  PROMO_CODE_TAKEN: 409,
+  PROMO_IN_CHECKOUT: 409
+};
+
+export class BillingError extends Error {
+  constructor(readonly code: BillingErrorCode, message: string = BILLING_ERROR_MESSAGES[code]) {
+    super(message);
+    this.name = 'BillingError';
+    // ES5로 변환되면 instanceof가 깨지므로 프로토타입을 직접 지정한다
+    Object.setPrototypeOf(this, BillingError.prototype);
+  }
+}
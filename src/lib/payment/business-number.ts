@@ -0,0 +1,32 @@
+import { isValidBusinessNumber } from '@/services/contract-template-schema';
+import { BillingProfile } from '@/types/invoice';
+
+// 하이픈·공백을 뺀 10자리 숫자로 돌려준다. 검증번호가 틀리면 null
+export function normalizeBusinessNumber(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const digits = value.replace(/[\s-]/g, '');
+  return isValidBusinessNumber(digits) ? digits : null;
+}
+
+const text = (value: unknown, max: number) => (typeof value === 'string' ? value.trim().slice(0, max) : '');
+
+// 마이페이지에서 보낸 사업자 정보를 정리한다. 필수 항목이 비었거나 번호가 틀리면 null
+export function parseBillingProfile(input: unknown): BillingProfile | null {
+  if (!input || typeof input !== 'object') return null;
+  const body = input as Record<string, unknown>;
+
+  const businessNumber = normalizeBusinessNumber(body.businessNumber);
+  const profile: BillingProfile = {
+    companyName: text(body.companyName, 100),
+    businessNumber: businessNumber || '',
+    representative: text(body.representative, 50),
+    address: text(body.address, 200),
+    businessType: text(body.businessType, 50) || undefined,
+    businessItem: text(body.businessItem, 50) || undefined,
+    taxEmail: text(body.taxEmail, 100).toLowerCase() || undefined
+  };
+
+  if (!businessNumber || !profile.companyName || !profile.representative || !profile.address) return null;
+  if (profile.taxEmail && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(profile.taxEmail)) return null;
+  return profile;
+}
@@ -0,0 +1,65 @@
+import { CheckoutResult, PaidPlanId, TossCheckoutInfo } from '@/types/billing';
+import { PaymentCurrency } from '@/types/payment-provider';
+import { BillingInterval } from '@/types/user';
+
+const TOSS_SDK_URL = 'https://js.tosspayments.com/v1/payment';
+
+type TossPaymentsFactory = (clientKey: string) => {
+  requestPayment(method: string, params: Omit<TossCheckoutInfo, 'clientKey'>): Promise<void>;
+};
+
+let tossSdk: Promise<TossPaymentsFactory> | null = null;
+
+function loadTossSdk(): Promise<TossPaymentsFactory> {
+  if (!tossSdk) {
+    tossSdk = new Promise((resolve, reject) => {
+      const script = document.createElement('script');
+      script.src = TOSS_SDK_URL;
+      script.onload = () => resolve((window as unknown as { TossPayments: TossPaymentsFactory }).TossPayments);
+      script.onerror = () => {
+        tossSdk = null;
+        reject(new Error('Failed to load Toss Payments SDK'));
+      };
+      document.head.appendChild(script);
+    });
+  }
+  return tossSdk;
+}
+
+/**
+ * 요금제 결제를 시작한다. 서버가 통화에 맞는 결제사를 고르고, 그 결과에 따라
+ * 결제 화면으로 이동하거나(Stripe), Toss 결제창을 띄우거나, 바로 바뀐 플랜을 보러 마이페이지로 간다.
+ */
+export async function startCheckout(
+  plan: PaidPlanId | string,
+  interval: BillingInterval,
+  currency: PaymentCurrency,
+  promoCode?: string
+): Promise<void> {
+  const response = await fetch('/api/payment/create-checkout-session', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ plan, interval, currency, promoCode })
+  });
+  const result = await response.json();
+  if (!result.success) {
+    throw new Error(result.error || 'Failed to create checkout session');
+  }
+
+  const checkout: CheckoutResult = result.data;
+  switch (checkout.type) {
+    case 'updated':
+      window.location.href = '/mypage';
+      return;
+    case 'checkout':
+      window.location.href = checkout.url;
+      return;
+    case 'payment_window': {
+      const { clientKey, ...params } = checkout.params;
+      const TossPayments = await loadTossSdk();
+      // 인증이 끝나면 successUrl(/success?provider=toss)로 돌아와 서버에서 승인한다
+      await TossPayments(clientKey).requestPayment('카드', params);
+      return;
+    }
+  }
+}
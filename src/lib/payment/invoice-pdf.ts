@@ -0,0 +1,113 @@
+import fs from 'fs';
+import jsPDF from 'jspdf';
+import { formatBusinessNumber } from '@/services/contract-template-schema';
+import { Invoice, InvoiceParty } from '@/types/invoice';
+import { PaymentCurrency } from '@/types/payment-provider';
+
+const FONT_NAME = 'InvoiceFont';
+
+let fontData: string | null | undefined;
+
+// jsPDF 기본 글꼴은 한글을 그리지 못한다. INVOICE_PDF_FONT_PATH에 한글 TTF를 두면 그 글꼴로 상호·주소를 찍는다
+function loadFont(): string | null {
+  if (fontData === undefined) {
+    const fontPath = process.env.INVOICE_PDF_FONT_PATH;
+    try {
+      fontData = fontPath ? fs.readFileSync(fontPath).toString('base64') : null;
+    } catch (error) {
+      console.error('Failed to load invoice PDF font:', error);
+      fontData = null;
+    }
+  }
+  return fontData;
+}
+
+export function formatInvoiceAmount(amount: number, currency: PaymentCurrency): string {
+  const digits = currency === 'KRW' ? 0 : 2;
+  return `${currency} ${amount.toLocaleString('en-US', { minimumFractionDigits: digits, maximumFractionDigits: digits })}`;
+}
+
+const formatDate = (iso: string) => iso.slice(0, 10);
+
+function partyLines(party: InvoiceParty): string[] {
+  return [
+    party.name,
+    party.businessNumber ? `Business No. ${formatBusinessNumber(party.businessNumber)}` : '',
+    party.representative ? `Representative: ${party.representative}` : '',
+    party.address || '',
+    party.businessType || party.businessItem ? `${party.businessType || '-'} / ${party.businessItem || '-'}` : '',
+    party.email || ''
+  ].filter(Boolean);
+}
+
+/**
+ * 청구서 PDF. 마이페이지 내려받기와 결제 완료 메일 첨부에 같이 쓴다.
+ */
+export function renderInvoicePdf(invoice: Invoice): Buffer {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.width;
+  const font = loadFont();
+  if (font) {
+    doc.addFileToVFS(`${FONT_NAME}.ttf`, font);
+    doc.addFont(`${FONT_NAME}.ttf`, FONT_NAME, 'normal');
+    doc.setFont(FONT_NAME);
+  }
+
+  const title = invoice.documentType === 'tax_invoice' ? 'TAX INVOICE' : 'RECEIPT';
+  doc.setFontSize(20);
+  doc.text(font ? `${title} (${invoice.documentType === 'tax_invoice' ? '세금계산서' : '영수증'})` : title, pageWidth / 2, 25, { align: 'center' });
+
+  doc.setFontSize(10);
+  [
+    `Invoice No. ${invoice.number}`,
+    `Issued: ${formatDate(invoice.issuedAt)}    Paid: ${formatDate(invoice.paidAt)}`,
+    `Payment: ${invoice.provider} ${invoice.paymentId}`
+  ].forEach((line, index) => doc.text(line, 20, 40 + index * 6));
+
+  let yPos = 65;
+  doc.setFontSize(12);
+  doc.text('Supplier', 20, yPos);
+  doc.text('Buyer', pageWidth / 2 + 5, yPos);
+  doc.setFontSize(9);
+  const supplier = partyLines(invoice.supplier);
+  const buyer = partyLines(invoice.buyer);
+  const columnWidth = pageWidth / 2 - 25;
+  for (let index = 0; index < Math.max(supplier.length, buyer.length); index++) {
+    yPos += 6;
+    if (supplier[index]) doc.text(doc.splitTextToSize(supplier[index], columnWidth)[0], 20, yPos);
+    if (buyer[index]) doc.text(doc.splitTextToSize(buyer[index], columnWidth)[0], pageWidth / 2 + 5, yPos);
+  }
+
+  yPos += 15;
+  doc.setFontSize(10);
+  doc.line(20, yPos - 5, pageWidth - 20, yPos - 5);
+  doc.text('Item', 20, yPos);
+  doc.text('Supply amount', 110, yPos, { align: 'right' });
+  doc.text('VAT', 145, yPos, { align: 'right' });
+  doc.text('Total', pageWidth - 20, yPos, { align: 'right' });
+  yPos += 8;
+  doc.text(invoice.itemName, 20, yPos);
+  doc.text(formatInvoiceAmount(invoice.supplyAmount, invoice.currency), 110, yPos, { align: 'right' });
+  doc.text(formatInvoiceAmount(invoice.vatAmount, invoice.currency), 145, yPos, { align: 'right' });
+  doc.text(formatInvoiceAmount(invoice.totalAmount, invoice.currency), pageWidth - 20, yPos, { align: 'right' });
+  doc.line(20, yPos + 4, pageWidth - 20, yPos + 4);
+
+  yPos += 15;
+  [
+    ['Supply amount', invoice.supplyAmount],
+    ['VAT (10%)', invoice.vatAmount],
+    ['Total paid', invoice.totalAmount]
+  ].forEach(([label, amount]) => {
+    doc.text(String(label), 120, yPos);
+    doc.text(formatInvoiceAmount(Number(amount), invoice.currency), pageWidth - 20, yPos, { align: 'right' });
+    yPos += 7;
+  });
+
+  doc.setFontSize(8);
+  doc.text('Amounts include 10% VAT.', 20, yPos + 10);
+  if (invoice.documentType === 'tax_invoice') {
+    doc.text('The e-tax invoice (XML) can be downloaded from My Page.', 20, yPos + 15);
+  }
+
+  return Buffer.from(doc.output('arraybuffer'));
+}
@@ -0,0 +1,36 @@
+import { PaidPlanId } from '@/types/billing';
+import { PaymentCurrency } from '@/types/payment-provider';
+import { BillingInterval } from '@/types/user';
+
+// 결제 통화별 요금. 연간 결제는 두 달 치를 빼 준다. 요금제 화면과 결제사 어댑터가 같은 표를 쓴다
+export const PLAN_PRICES: Record<PaymentCurrency, Record<PaidPlanId, Record<BillingInterval, number>>> = {
+  USD: {
+    basic: { monthly: 29, yearly: 290 },
+    pro: { monthly: 99, yearly: 990 },
+    enterprise: { monthly: 299, yearly: 2990 }
+  },
+  KRW: {
+    basic: { monthly: 39000, yearly: 390000 },
+    pro: { monthly: 129000, yearly: 1290000 },
+    enterprise: { monthly: 390000, yearly: 3900000 }
+  }
+};
+
+export const CURRENCY_SYMBOLS: Record<PaymentCurrency, string> = { USD: '$', KRW: '₩' };
+
+export const isPaidPlanId = (plan: unknown): plan is PaidPlanId =>
+  typeof plan === 'string' && plan in PLAN_PRICES.USD;
+
+export const isBillingInterval = (interval: unknown): interval is BillingInterval =>
+  interval === 'monthly' || interval === 'yearly';
+
+export const isPaymentCurrency = (currency: unknown): currency is PaymentCurrency =>
+  currency === 'USD' || currency === 'KRW';
+
+// 한국어 사용자는 원화(Toss), 나머지는 달러(Stripe)로 결제한다
+export const currencyForLanguage = (language: string | null | undefined): PaymentCurrency =>
+  language && language.toLowerCase().indexOf('ko') === 0 ? 'KRW' : 'USD';
+
+export function formatPlanPrice(amount: number, currency: PaymentCurrency): string {
+  return `${CURRENCY_SYMBOLS[currency]}${amount.toLocaleString()}`;
+}
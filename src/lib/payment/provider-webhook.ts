@@ -0,0 +1,49 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { buffer } from 'micro';
+import { paymentProviders } from '@/services/payment-provider-registry';
+import { webhookEventStore } from '@/services/webhook-event-store';
+import { BillingError } from '@/lib/payment/billing-errors';
+import { PaymentProviderId } from '@/types/payment-provider';
+
+/**
+ * 결제사 웹훅 라우트. 원문을 그대로 받아 결제사 어댑터로 확인한 뒤 이벤트 ID로 기록해 재전송은 한 번만 반영한다.
+ * 라우트 파일에서 bodyParser를 꺼야 서명을 확인할 수 있다.
+ */
+export function createProviderWebhookHandler(providerId: PaymentProviderId) {
+  return async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'POST') {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const provider = paymentProviders.get(providerId);
+    const payload = (await buffer(req)).toString('utf8');
+
+    try {
+      if (!(await provider.verifyWebhook(payload, req.headers))) {
+        console.error(`${provider.name} webhook verification failed`);
+        return res.status(400).json({ error: 'Webhook verification failed' });
+      }
+    } catch (error) {
+      if (error instanceof BillingError) {
+        console.error(`${provider.name} webhook secret is not configured`);
+        return res.status(503).json({ error: error.message });
+      }
+      throw error;
+    }
+
+    let event: { eventId: string; eventType: string };
+    try {
+      event = provider.parseEvent(payload);
+    } catch {
+      return res.status(400).json({ error: 'Invalid webhook payload' });
+    }
+
+    try {
+      const { duplicate } = await webhookEventStore.process({ provider: providerId, ...event, payload });
+      res.status(200).json({ received: true, eventType: event.eventType, duplicate });
+    } catch (error) {
+      console.error(`${provider.name} webhook handler error:`, error);
+      res.status(500).json({ error: 'Webhook handler error' });
+    }
+  };
+}
@@ -0,0 +1,186 @@
+import crypto from 'crypto';
+import { userRepository } from '@/services/user-repository';
+import { invoiceService } from '@/services/invoice-service';
+import { promoCodes } from '@/services/promo-code-service';
+import { sendConfirmationEmail } from '@/features/email/send-confirmation-email';
+import { BillingError } from '@/lib/payment/billing-errors';
+import { PLAN_PRICES } from '@/lib/payment/plan-prices';
+import { PaidPlanId } from '@/types/billing';
+import { PaymentInvoice, PaymentProvider, PaymentRefund, WebhookHeaders } from '@/types/payment-provider';
+import { CheckoutDiscount } from '@/types/promotion';
+import { BillingInterval, User } from '@/types/user';
+
+interface FakePayment {
+  id: string;
+  userId: string;
+  email: string;
+  plan: PaidPlanId;
+  interval: BillingInterval;
+  amount: number;
+  refundedAmount: number;
+  paidAt: string;
+}
+
+// /api/webhooks/fake로 보내는 이벤트 형식. x-fake-signature 헤더에 원문의 HMAC-SHA256(hex)을 넣는다
+interface FakePaymentEvent {
+  id: string;
+  type: 'payment.succeeded' | 'payment.refunded';
+  data: { paymentId: string; userId: string; plan: PaidPlanId; interval: BillingInterval };
+}
+
+const webhookSecret = () => process.env.FAKE_PAYMENT_WEBHOOK_SECRET || 'fake_webhook_secret';
+
+const generateId = (prefix: string) => `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+/**
+ * 외부 결제 없이 결제 흐름 전체를 돌려 보는 로컬·QA용 결제사. 결제 내역은 메모리에만 둔다.
+ * PAYMENT_PROVIDER_MODE=fake이면 레지스트리가 모든 결제를 이 결제사로 보내고, 운영 환경에서는 쓸 수 없다.
+ */
+class FakePaymentProvider implements PaymentProvider {
+  readonly id = 'fake' as const;
+  readonly name = 'Fake';
+  readonly currency = 'USD' as const;
+  private payments: Map<string, FakePayment> = new Map();
+
+  isConfigured(): boolean {
+    return process.env.NODE_ENV !== 'production';
+  }
+
+  // 결제 화면 없이 바로 결제된 것으로 보고, 웹훅과 같은 경로(handleEvent)로 플랜을 바꾼다
+  async createCheckout(user: User, plan: PaidPlanId, interval: BillingInterval, discount?: CheckoutDiscount) {
+    if (!this.isConfigured()) {
+      throw new BillingError('NOT_CONFIGURED');
+    }
+
+    const payment: FakePayment = {
+      id: generateId('fake_pay'),
+      userId: user.id,
+      email: user.email,
+      plan,
+      interval,
+      amount: discount ? discount.finalAmount : PLAN_PRICES[this.currency][plan][interval],
+      refundedAmount: 0,
+      paidAt: new Date().toISOString()
+    };
+    this.payments.set(payment.id, payment);
+    await this.handleEvent(JSON.stringify(this.buildEvent('payment.succeeded', payment)));
+    if (discount) {
+      await promoCodes.redeem(discount.redemptionId, payment.id);
+    }
+    return { type: 'updated' as const, plan, interval };
+  }
+
+  async verifyWebhook(payload: string, headers: WebhookHeaders): Promise<boolean> {
+    if (!this.isConfigured()) return false;
+
+    const signature = headers['x-fake-signature'];
+    const expected = crypto.createHmac('sha256', webhookSecret()).update(payload).digest('hex');
+    return typeof signature === 'string' && signature.length === expected.length &&
+      crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+  }
+
+  parseEvent(payload: string) {
+    const event = JSON.parse(payload) as FakePaymentEvent;
+    return { eventId: event.id, eventType: event.type };
+  }
+
+  async handleEvent(payload: string): Promise<void> {
+    const event = JSON.parse(payload) as FakePaymentEvent;
+    const user = await userRepository.findUserById(event.data.userId);
+    if (!user) {
+      throw new Error(`User ${event.data.userId} for fake payment ${event.data.paymentId} not found`);
+    }
+
+    if (event.type === 'payment.succeeded') {
+      await this.completePlanChange(user, await userRepository.getCurrentPlan(user.id), event.data.plan, event.data.paymentId, 'Fake payment succeeded');
+      const subscription = await userRepository.findSubscriptionByExternalId(event.data.paymentId);
+      if (subscription) {
+        await userRepository.updateSubscription(subscription.id, { interval: event.data.interval });
+      }
+      // 웹훅으로 직접 보낸 결제는 메모리에 없으므로 요금표 금액으로 발행한다
+      const payment = this.payments.get(event.data.paymentId);
+      const invoice = await invoiceService.issueForPayment({
+        userId: user.id,
+        provider: this.id,
+        paymentId: event.data.paymentId,
+        plan: event.data.plan,
+        interval: event.data.interval,
+        currency: this.currency,
+        totalAmount: payment ? payment.amount : PLAN_PRICES[this.currency][event.data.plan][event.data.interval],
+        paidAt: payment ? payment.paidAt : new Date().toISOString()
+      });
+      await sendConfirmationEmail(user.email, event.data.plan, invoice);
+      return;
+    }
+
+    // 전액 환불이면 그 결제로 받은 플랜만 되돌린다
+    const subscription = await userRepository.findSubscriptionByExternalId(event.data.paymentId);
+    if (subscription && subscription.status !== 'canceled') {
+      await this.completePlanChange(user, subscription.plan, 'free', event.data.paymentId, 'Fake payment refunded');
+    }
+  }
+
+  async refund(paymentId: string, amount?: number): Promise<PaymentRefund> {
+    const payment = this.payments.get(paymentId);
+    if (!payment) {
+      throw new BillingError('PAYMENT_NOT_FOUND');
+    }
+
+    const remaining = payment.amount - payment.refundedAmount;
+    const refunded = Math.min(amount || remaining, remaining);
+    payment.refundedAmount += refunded;
+    if (payment.refundedAmount >= payment.amount) {
+      await this.handleEvent(JSON.stringify(this.buildEvent('payment.refunded', payment)));
+    }
+    return {
+      id: generateId('fake_refund'),
+      provider: this.id,
+      paymentId,
+      amount: refunded,
+      currency: this.currency,
+      status: 'succeeded'
+    };
+  }
+
+  async getInvoice(paymentId: string): Promise<PaymentInvoice | null> {
+    const payment = this.payments.get(paymentId);
+    if (!payment) return null;
+
+    return {
+      id: payment.id,
+      provider: this.id,
+      amount: payment.amount,
+      netAmount: payment.amount - payment.refundedAmount,
+      currency: this.currency,
+      status: payment.refundedAmount === 0 ? 'paid' : payment.refundedAmount >= payment.amount ? 'refunded' : 'partially_refunded',
+      description: `LegalAI ${payment.plan} (${payment.interval})`,
+      customerEmail: payment.email,
+      paidAt: payment.paidAt,
+      receiptUrl: null
+    };
+  }
+
+  private buildEvent(type: FakePaymentEvent['type'], payment: FakePayment): FakePaymentEvent {
+    return {
+      id: generateId('fake_evt'),
+      type,
+      data: { paymentId: payment.id, userId: payment.userId, plan: payment.plan, interval: payment.interval }
+    };
+  }
+
+  private async completePlanChange(user: User, fromPlan: string, toPlan: string, paymentId: string, reason: string): Promise<void> {
+    const log = await userRepository.createPlanChangeLog({
+      userId: user.id,
+      userEmail: user.email,
+      fromPlan,
+      toPlan,
+      paymentMethod: 'fake',
+      paymentId,
+      reason
+    });
+    await userRepository.updatePlanChangeLog(log.id, { status: 'completed', completedAt: new Date().toISOString() });
+  }
+}
+
+export const fakePaymentProvider = new FakePaymentProvider();
+export default FakePaymentProvider;
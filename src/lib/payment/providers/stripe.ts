@@ -0,0 +1,94 @@
+import Stripe from 'stripe';
+import { stripeBilling } from '@/services/stripe-billing';
+import { BillingError } from '@/lib/payment/billing-errors';
+import { handleStripeEvent } from '@/lib/payment/stripe-webhook-handler';
+import { PaidPlanId } from '@/types/billing';
+import { PaymentInvoice, PaymentProvider, PaymentRefund, WebhookHeaders } from '@/types/payment-provider';
+import { CheckoutDiscount } from '@/types/promotion';
+import { BillingInterval, User } from '@/types/user';
+
+const header = (headers: WebhookHeaders, name: string) => {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+const INVOICE_STATUS: Record<Stripe.Invoice.Status, PaymentInvoice['status']> = {
+  draft: 'open',
+  open: 'open',
+  paid: 'paid',
+  uncollectible: 'void',
+  void: 'void'
+};
+
+/**
+ * 달러 정기 구독. 실제 구독·청구서 처리는 stripeBilling이 맡고 여기서는 공통 인터페이스에 맞춘다.
+ */
+class StripePaymentProvider implements PaymentProvider {
+  readonly id = 'stripe' as const;
+  readonly name = 'Stripe';
+  readonly currency = 'USD' as const;
+
+  isConfigured(): boolean {
+    return !!process.env.STRIPE_SECRET_KEY;
+  }
+
+  createCheckout(user: User, plan: PaidPlanId, interval: BillingInterval, discount?: CheckoutDiscount) {
+    return stripeBilling.createCheckout(user, plan, interval, discount);
+  }
+
+  async verifyWebhook(payload: string, headers: WebhookHeaders): Promise<boolean> {
+    try {
+      stripeBilling.constructEvent(payload, header(headers, 'stripe-signature') || '');
+      return true;
+    } catch (error) {
+      if (error instanceof BillingError) throw error;
+      console.error('Stripe webhook signature verification failed:', error);
+      return false;
+    }
+  }
+
+  parseEvent(payload: string) {
+    const event = JSON.parse(payload) as Stripe.Event;
+    return { eventId: event.id, eventType: event.type };
+  }
+
+  handleEvent(payload: string): Promise<void> {
+    return handleStripeEvent(JSON.parse(payload));
+  }
+
+  async refund(paymentId: string, amount?: number, reason?: string): Promise<PaymentRefund> {
+    const refund = await stripeBilling.refund(paymentId, amount, reason);
+    return {
+      id: refund.id,
+      provider: this.id,
+      paymentId,
+      amount: refund.amount / 100,
+      currency: this.currency,
+      status: refund.status === 'succeeded' ? 'succeeded' : refund.status === 'failed' || refund.status === 'canceled' ? 'failed' : 'pending'
+    };
+  }
+
+  async getInvoice(invoiceId: string): Promise<PaymentInvoice | null> {
+    const invoice = await stripeBilling.getInvoice(invoiceId);
+    if (!invoice) return null;
+
+    const refunded = invoice.post_payment_credit_notes_amount || 0;
+    return {
+      id: invoice.id,
+      provider: this.id,
+      amount: invoice.amount_paid / 100,
+      netAmount: (invoice.amount_paid - refunded) / 100,
+      currency: this.currency,
+      status: refunded > 0 && invoice.status === 'paid'
+        ? (refunded >= invoice.amount_paid ? 'refunded' : 'partially_refunded')
+        : INVOICE_STATUS[invoice.status || 'draft'],
+      description: invoice.lines.data[0]?.description || `Stripe invoice ${invoice.number || invoice.id}`,
+      customerEmail: invoice.customer_email,
+      paidAt: invoice.status_transitions.paid_at ? new Date(invoice.status_transitions.paid_at * 1000).toISOString() : null,
+      receiptUrl: invoice.hosted_invoice_url || null
+    };
+  }
+}
+
+export const stripePaymentProvider = new StripePaymentProvider();
+export default StripePaymentProvider;
@@ -0,0 +1,106 @@
+import { tossPayments } from '@/services/toss-payments';
+import { userRepository } from '@/services/user-repository';
+import { getTossEventId, handleTossEvent } from '@/lib/payment/toss-webhook-handler';
+import { PaidPlanId, TossPaymentStatus, TossWebhookEvent } from '@/types/billing';
+import { PaymentInvoice, PaymentProvider, PaymentRefund, WebhookHeaders } from '@/types/payment-provider';
+import { CheckoutDiscount } from '@/types/promotion';
+import { BillingInterval, User } from '@/types/user';
+
+const header = (headers: WebhookHeaders, name: string) => {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+const INVOICE_STATUS: Record<TossPaymentStatus, PaymentInvoice['status']> = {
+  READY: 'open',
+  IN_PROGRESS: 'open',
+  WAITING_FOR_DEPOSIT: 'open',
+  DONE: 'paid',
+  CANCELED: 'refunded',
+  PARTIAL_CANCELED: 'partially_refunded',
+  ABORTED: 'void',
+  EXPIRED: 'void'
+};
+
+/**
+ * 원화 단건 결제. 결제창은 클라이언트가 띄우고, 주문·승인·웹훅 처리는 tossPayments가 맡는다.
+ */
+class TossPaymentProvider implements PaymentProvider {
+  readonly id = 'toss' as const;
+  readonly name = 'Toss Payments';
+  readonly currency = 'KRW' as const;
+
+  isConfigured(): boolean {
+    return !!process.env.TOSS_SECRET_KEY && !!process.env.NEXT_PUBLIC_TOSS_CLIENT_KEY;
+  }
+
+  async createCheckout(user: User, plan: PaidPlanId, interval: BillingInterval, discount?: CheckoutDiscount) {
+    return { type: 'payment_window' as const, provider: this.id, params: await tossPayments.createOrder(user, plan, interval, discount) };
+  }
+
+  // 입금 콜백은 서명 헤더 없이 오므로 주문에 저장한 secret으로 확인한다
+  async verifyWebhook(payload: string, headers: WebhookHeaders): Promise<boolean> {
+    let event: TossWebhookEvent;
+    try {
+      event = JSON.parse(payload);
+    } catch {
+      return false;
+    }
+    if (!event || !event.data) return false;
+
+    if (event.eventType === 'DEPOSIT_CALLBACK') {
+      return tossPayments.verifyDepositCallback(event.data.orderId, event.data.secret);
+    }
+    return tossPayments.verifyWebhookSignature(
+      payload,
+      header(headers, 'tosspayments-webhook-signature'),
+      header(headers, 'tosspayments-webhook-transmission-time')
+    );
+  }
+
+  parseEvent(payload: string) {
+    const event = JSON.parse(payload) as TossWebhookEvent;
+    return { eventId: getTossEventId(event), eventType: event.eventType };
+  }
+
+  handleEvent(payload: string): Promise<void> {
+    return handleTossEvent(JSON.parse(payload));
+  }
+
+  async refund(paymentKey: string, amount?: number, reason?: string): Promise<PaymentRefund> {
+    const { payment } = await tossPayments.refund(paymentKey, amount, reason);
+    const cancels = payment.cancels || [];
+    const latest = cancels[cancels.length - 1];
+    return {
+      id: latest ? latest.transactionKey : paymentKey,
+      provider: this.id,
+      paymentId: paymentKey,
+      amount: latest ? latest.cancelAmount : 0,
+      currency: this.currency,
+      status: latest ? 'succeeded' : 'failed'
+    };
+  }
+
+  async getInvoice(paymentKey: string): Promise<PaymentInvoice | null> {
+    const found = await tossPayments.getPayment(paymentKey);
+    if (!found) return null;
+
+    const { order, payment } = found;
+    const user = await userRepository.findUserById(order.userId);
+    return {
+      id: payment.paymentKey,
+      provider: this.id,
+      amount: payment.totalAmount,
+      netAmount: payment.balanceAmount,
+      currency: this.currency,
+      status: INVOICE_STATUS[payment.status],
+      description: payment.orderName,
+      customerEmail: user ? user.email : null,
+      paidAt: payment.approvedAt || null,
+      receiptUrl: payment.receipt?.url || null
+    };
+  }
+}
+
+export const tossPaymentProvider = new TossPaymentProvider();
+export default TossPaymentProvider;
@@ -0,0 +1,181 @@
+import Stripe from 'stripe';
+import { userRepository } from '@/services/user-repository';
+import { stripeBilling } from '@/services/stripe-billing';
+import { sendConfirmationEmail as sendPaymentCompletedEmail } from '@/features/email/send-confirmation-email';
+
+// 결제한 이메일이 아직 저장소에 없으면 새 사용자로 만든다
+async function findPayingUser(email: string | null | undefined): Promise<{ id: string; currentPlan: string } | null> {
+  if (!email) return null;
+  const user = await userRepository.findOrCreateUser(email);
+  return { id: user.id, currentPlan: await userRepository.getCurrentPlan(user.id) };
+}
+
+async function sendConfirmationEmail(userEmail: string, eventType: string, planName: string) {
+  // Mock email sending - replace with actual email service
+  console.log(`📧 Email sent to ${userEmail}:`, {
+    type: eventType,
+    plan: planName,
+    timestamp: new Date().toISOString()
+  });
+  
+  // In production, use nodemailer or your email service:
+  /*
+  const transporter = nodemailer.createTransporter({
+    host: process.env.SMTP_HOST,
+    port: parseInt(process.env.SMTP_PORT || '587'),
+    auth: {
+      user: process.env.SMTP_USER,
+      pass: process.env.SMTP_PASS,
+    },
+  });
+  
+  await transporter.sendMail({
+    from: process.env.SMTP_USER,
+    to: userEmail,
+    subject: `Payment ${eventType} - Legal AI SaaS`,
+    html: emailTemplate
+  });
+  */
+}
+
+/**
+ * 서명을 확인한 Stripe 이벤트 하나를 반영한다. 웹훅 라우트와 관리자 재처리가 같이 쓴다.
+ * 실패하면 예외를 그대로 던져 이벤트 기록에 남긴다.
+ */
+export async function handleStripeEvent(event: Stripe.Event): Promise<void> {
+  console.log('🔔 Stripe webhook received:', event.type);
+
+  switch (event.type) {
+    case 'payment_intent.succeeded': {
+      const paymentIntent = event.data.object as Stripe.PaymentIntent;
+      console.log('💰 Payment succeeded:', paymentIntent.id);
+      // 구독 청구서 결제는 invoice.*와 customer.subscription.* 이벤트에서 반영한다
+      if (paymentIntent.invoice) break;
+      
+      const userEmail = await stripeBilling.retrieveCustomerEmail(paymentIntent.customer as string);
+      if (!userEmail) break;
+      
+      // Find user
+      const user = await findPayingUser(userEmail);
+      if (!user) {
+        console.error('User not found for email:', userEmail);
+        break;
+      }
+      
+      // Create plan change log
+      const planChangeLog = await userRepository.createPlanChangeLog({
+        userId: user.id,
+        userEmail,
+        fromPlan: user.currentPlan,
+        toPlan: 'basic', // Default for one-time payments
+        paymentMethod: 'stripe',
+        paymentId: paymentIntent.id,
+        reason: 'Stripe payment succeeded',
+        metadata: {
+          amount: paymentIntent.amount,
+          currency: paymentIntent.currency,
+          paymentMethodId: paymentIntent.payment_method,
+        }
+      });
+      
+      // Update log to completed
+      await userRepository.updatePlanChangeLog(planChangeLog.id, {
+        status: 'completed',
+        completedAt: new Date().toISOString()
+      });
+      
+      // Send confirmation email
+      await sendConfirmationEmail(userEmail, 'succeeded', 'basic');
+      
+      break;
+    }
+
+    case 'payment_intent.payment_failed': {
+      const paymentIntent = event.data.object as Stripe.PaymentIntent;
+      console.log('❌ Payment failed:', paymentIntent.id);
+      if (paymentIntent.invoice) break;
+      
+      const userEmail = await stripeBilling.retrieveCustomerEmail(paymentIntent.customer as string);
+      if (!userEmail) break;
+      
+      const user = await findPayingUser(userEmail);
+      if (!user) break;
+      
+      const planChangeLog = await userRepository.createPlanChangeLog({
+        userId: user.id,
+        userEmail,
+        fromPlan: user.currentPlan,
+        toPlan: user.currentPlan, // No change on failure
+        paymentMethod: 'stripe',
+        paymentId: paymentIntent.id,
+        reason: 'Stripe payment failed',
+        metadata: {
+          error: paymentIntent.last_payment_error,
+          amount: paymentIntent.amount,
+          currency: paymentIntent.currency,
+        }
+      });
+      
+      await userRepository.updatePlanChangeLog(planChangeLog.id, {
+        status: 'failed',
+        reason: `Payment failed: ${paymentIntent.last_payment_error?.message || 'Unknown error'}`
+      });
+      
+      await sendConfirmationEmail(userEmail, 'failed', user.currentPlan);
+      
+      break;
+    }
+
+    case 'checkout.session.completed': {
+      const session = event.data.object as Stripe.Checkout.Session;
+      console.log('🛒 Checkout completed:', session.id);
+      await stripeBilling.handleCheckoutCompleted(session);
+      break;
+    }
+
+    case 'checkout.session.expired': {
+      const session = event.data.object as Stripe.Checkout.Session;
+      console.log('⌛ Checkout expired:', session.id);
+      await stripeBilling.handleCheckoutExpired(session);
+      break;
+    }
+
+    case 'customer.subscription.created':
+    case 'customer.subscription.updated': {
+      const subscription = event.data.object as Stripe.Subscription;
+      console.log('🔄 Subscription synced:', subscription.id, subscription.status);
+      await stripeBilling.syncSubscription(subscription);
+      break;
+    }
+
+    case 'customer.subscription.deleted': {
+      const subscription = event.data.object as Stripe.Subscription;
+      console.log('🗑️ Subscription cancelled:', subscription.id);
+      await stripeBilling.handleSubscriptionDeleted(subscription);
+      break;
+    }
+
+    case 'invoice.payment_succeeded': {
+      const invoice = event.data.object as Stripe.Invoice;
+      console.log('🧾 Invoice payment succeeded:', invoice.id);
+      const issued = await stripeBilling.handleInvoicePaid(invoice);
+      if (invoice.customer_email) {
+        await sendPaymentCompletedEmail(invoice.customer_email, issued?.plan || 'current_plan', issued);
+      }
+      break;
+    }
+
+    case 'invoice.payment_failed': {
+      const invoice = event.data.object as Stripe.Invoice;
+      console.log('❌ Invoice payment failed:', invoice.id);
+      const subscription = await stripeBilling.handleInvoicePaymentFailed(invoice);
+      if (subscription) {
+        console.log(`⏳ Grace period until ${subscription.graceUntil} for subscription ${subscription.id}`);
+      }
+      break;
+    }
+
+    default:
+      console.log(`Unhandled Stripe event type: ${event.type}`);
+  }
+}
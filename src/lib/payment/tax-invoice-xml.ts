@@ -0,0 +1,84 @@
+import { Invoice, InvoiceParty } from '@/types/invoice';
+
+const KEC_NAMESPACE = 'urn:kr:or:kec:standard:Tax:ReusableAggregateBusinessInformationEntitySchemaModule:1:0';
+
+// 일반 세금계산서, 영수(이미 결제 받음)
+const TYPE_CODE_GENERAL = '0101';
+const PURPOSE_CODE_RECEIPT = '01';
+// 공급받는자 등록번호 구분: 사업자등록번호
+const BUYER_ID_TYPE_BUSINESS = '01';
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+// 국세청 양식은 한국 시간 기준 YYYYMMDD(HHmmss)
+function kstTimestamp(iso: string, withTime: boolean): string {
+  const kst = new Date(new Date(iso).getTime() + 9 * 60 * 60 * 1000).toISOString().replace(/[-:T]/g, '');
+  return withTime ? kst.slice(0, 14) : kst.slice(0, 8);
+}
+
+function element(name: string, value: string | number | undefined, indent: string): string {
+  if (value === undefined || value === '') return '';
+  return `${indent}<${name}>${escapeXml(String(value))}</${name}>\n`;
+}
+
+// 안의 값이 하나도 없으면 감싸는 요소도 뺀다
+function group(name: string, inner: string, indent: string): string {
+  return inner ? `${indent}<${name}>\n${inner}${indent}</${name}>\n` : '';
+}
+
+function party(tag: 'InvoicerParty' | 'InvoiceeParty', info: InvoiceParty): string {
+  const indent = '      ';
+  const contactTag = tag === 'InvoicerParty' ? 'DefinedContact' : 'PrimaryDefinedContact';
+  return [
+    `    <${tag}>\n`,
+    element('ID', info.businessNumber, indent),
+    element('TypeCode', info.businessType, indent),
+    element('NameText', info.name, indent),
+    element('ClassificationCode', info.businessItem, indent),
+    tag === 'InvoiceeParty' ? group('SpecifiedOrganization', element('BusinessTypeCode', BUYER_ID_TYPE_BUSINESS, `${indent}  `), indent) : '',
+    group('SpecifiedPerson', element('NameText', info.representative, `${indent}  `), indent),
+    group(contactTag, element('URICommunication', info.email, `${indent}  `), indent),
+    group('SpecifiedAddress', element('LineOneText', info.address, `${indent}  `), indent),
+    `    </${tag}>\n`
+  ].join('');
+}
+
+/**
+ * 국세청 전자세금계산서 표준(KEC) 구조의 XML. 승인번호 자리에는 청구서 번호를 넣는다.
+ * 국세청 전송은 공인인증서 서명이 필요하므로 이 XML을 세금계산서 발행 대행 서비스에 넘겨 신고한다.
+ */
+export function renderTaxInvoiceXml(invoice: Invoice): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>\n',
+    `<TaxInvoice xmlns="${KEC_NAMESPACE}">\n`,
+    '  <ExchangedDocument>\n',
+    element('IssueDateTime', kstTimestamp(invoice.issuedAt, true), '    '),
+    '  </ExchangedDocument>\n',
+    '  <TaxInvoiceDocument>\n',
+    element('IssueID', invoice.number, '    '),
+    element('TypeCode', TYPE_CODE_GENERAL, '    '),
+    element('IssueDateTime', kstTimestamp(invoice.issuedAt, false), '    '),
+    element('PurposeCode', PURPOSE_CODE_RECEIPT, '    '),
+    '  </TaxInvoiceDocument>\n',
+    '  <TaxInvoiceTradeSettlement>\n',
+    party('InvoicerParty', invoice.supplier),
+    party('InvoiceeParty', invoice.buyer),
+    '    <SpecifiedMonetarySummation>\n',
+    element('ChargeTotalAmount', invoice.supplyAmount, '      '),
+    element('TaxTotalAmount', invoice.vatAmount, '      '),
+    element('GrandTotalAmount', invoice.totalAmount, '      '),
+    '    </SpecifiedMonetarySummation>\n',
+    '  </TaxInvoiceTradeSettlement>\n',
+    '  <TaxInvoiceTradeLineItem>\n',
+    element('SequenceNumber', 1, '    '),
+    element('PurchaseExpiryDateTime', kstTimestamp(invoice.paidAt, false), '    '),
+    element('NameText', invoice.itemName, '    '),
+    element('ChargeableUnitQuantity', 1, '    '),
+    group('UnitPrice', element('UnitAmount', invoice.supplyAmount, '      '), '    '),
+    element('InvoiceAmount', invoice.supplyAmount, '    '),
+    group('TotalTax', element('CalculatedAmount', invoice.vatAmount, '      '), '    '),
+    '  </TaxInvoiceTradeLineItem>\n',
+    '</TaxInvoice>\n'
+  ].join('');
+}
@@ -0,0 +1,66 @@
+import { userRepository } from '@/services/user-repository';
+import { tossPayments } from '@/services/toss-payments';
+import { invoiceService } from '@/services/invoice-service';
+import { sendConfirmationEmail } from '@/features/email/send-confirmation-email';
+import { TossOrder, TossWebhookEvent } from '@/types/billing';
+
+async function sendTossConfirmationEmail(userEmail: string, eventType: string, planName: string, amount?: number) {
+  console.log(`📧 Toss Email sent to ${userEmail}:`, {
+    type: eventType,
+    plan: planName,
+    amount: amount ? `₩${amount.toLocaleString()}` : undefined,
+    timestamp: new Date().toISOString()
+  });
+}
+
+const EMAIL_EVENTS: Partial<Record<TossOrder['status'], string>> = {
+  paid: 'payment_succeeded',
+  failed: 'payment_failed',
+  partial_canceled: 'payment_partial_cancel',
+  canceled: 'payment_canceled'
+};
+
+/**
+ * Toss 웹훅에는 이벤트 ID가 없어 결제 상태가 바뀔 때마다 달라지는 값으로 만든다.
+ * 부분 취소는 여러 번 올 수 있으므로 남은 금액까지 넣는다.
+ */
+export function getTossEventId(event: TossWebhookEvent): string {
+  if (event.eventType === 'DEPOSIT_CALLBACK') {
+    return `deposit:${event.data.transactionKey}:${event.data.status}`;
+  }
+  return `payment:${event.data.paymentKey}:${event.data.status}:${event.data.balanceAmount}`;
+}
+
+/**
+ * 확인을 마친 Toss 웹훅 하나를 반영한다. 웹훅 라우트와 관리자 재처리가 같이 쓴다.
+ * 실패하면 예외를 그대로 던져 이벤트 기록에 남긴다.
+ */
+export async function handleTossEvent(event: TossWebhookEvent): Promise<void> {
+  console.log('🔔 Toss webhook received:', event.eventType, event.data.status);
+
+  let order: TossOrder | null = null;
+  switch (event.eventType) {
+    case 'PAYMENT_STATUS_CHANGED':
+      order = await tossPayments.handlePaymentStatusChanged(event.data);
+      break;
+
+    case 'DEPOSIT_CALLBACK':
+      order = await tossPayments.handleDepositCallback(event.data.orderId);
+      break;
+
+    default:
+      console.log(`Unhandled Toss event type: ${(event as { eventType: string }).eventType}`);
+  }
+
+  const emailEvent = order && EMAIL_EVENTS[order.status];
+  if (order && emailEvent) {
+    const user = await userRepository.findUserById(order.userId);
+    if (user && order.status === 'paid') {
+      // 결제 승인 때 발행한 청구서를 첨부한다
+      const invoice = order.paymentKey ? await invoiceService.findByPayment('toss', order.paymentKey) : null;
+      await sendConfirmationEmail(user.email, order.plan, invoice);
+    } else if (user) {
+      await sendTossConfirmationEmail(user.email, emailEvent, order.plan, order.amount);
+    }
+  }
+}
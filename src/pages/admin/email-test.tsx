@@ -3,6 +3,8 @@ import Head from 'next/head';
 import Link from 'next/link';
 import { useState, useEffect } from 'react';
 import { useSession } from 'next-auth/react';
+import { hasRole, STAFF_ROLES } from '@/lib/auth/roles';
+import { withRole } from '@/lib/auth/rbac';
 import { useRouter } from 'next/router';
 import { 
   Mail, Send, CheckCircle, XCircle, ArrowLeft, Shield, 
@@ -35,8 +37,7 @@ const EmailTestDashboard: NextPage = () => {
       return;
     }
 
-    const isAdmin = session.user.email?.includes('admin') || 
-                   session.user.email === 'developer@legalaisaas.com';
+    const isAdmin = hasRole(session.user.role, STAFF_ROLES);
     
     if (!isAdmin) {
       router.push('/unauthorized');
@@ -327,4 +328,6 @@ const EmailTestDashboard: NextPage = () => {
   );
 };
 
+export const getServerSideProps = withRole();
+
 export default EmailTestDashboard;
\ No newline at end of file
@@ -3,6 +3,8 @@ import Head from 'next/head';
 import Link from 'next/link';
 import { useState, useEffect } from 'react';
 import { useSession } from 'next-auth/react';
+import { hasRole, STAFF_ROLES } from '@/lib/auth/roles';
+import { withRole } from '@/lib/auth/rbac';
 import { useRouter } from 'next/router';
 import { 
   TrendingUp, Users, DollarSign, BarChart, Globe, 
@@ -14,17 +16,32 @@ import {
   Tooltip, Legend, ResponsiveContainer, PieChart, Pie, Cell, AreaChart, Area
 } from 'recharts';
 import { GrowthData, getCachedGrowthStats, generateCSVReport } from '../../lib/logs/growthTracker';
+import { promoCodes } from '@/services/promo-code-service';
+import { formatPlanPrice } from '@/lib/payment/plan-prices';
+import { PaymentCurrency } from '@/types/payment-provider';
+import { PromoCodeStats, PromotionStats } from '@/types/promotion';
 
 interface GrowthDashboardProps {
   initialData: GrowthData;
+  initialPromotions: PromotionStats;
 }
 
+const EMPTY_PROMOTIONS: PromotionStats = { totalRedemptions: 0, activeCodes: 0, codes: [] };
+
+// 통화가 섞여 있으면 통화별 합계를 이어 붙인다
+const formatByCurrency = (amounts: Partial<Record<PaymentCurrency, number>>) =>
+  (Object.keys(amounts) as PaymentCurrency[]).map(currency => formatPlanPrice(amounts[currency] || 0, currency)).join(' + ') || '-';
+
+const formatPromoDiscount = (code: PromoCodeStats) =>
+  code.discountType === 'percentage' ? `${code.percentOff}%` : formatByCurrency(code.amountOff || {});
+
 const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884d8', '#82ca9d'];
 
-const GrowthDashboard: NextPage<GrowthDashboardProps> = ({ initialData }) => {
+const GrowthDashboard: NextPage<GrowthDashboardProps> = ({ initialData, initialPromotions }) => {
   const { data: session, status } = useSession();
   const router = useRouter();
   const [growthData, setGrowthData] = useState<GrowthData>(initialData);
+  const [promotions, setPromotions] = useState<PromotionStats>(initialPromotions);
   const [loading, setLoading] = useState(false);
   const [lastRefresh, setLastRefresh] = useState(new Date(initialData.lastUpdated));
 
@@ -37,9 +54,8 @@ const GrowthDashboard: NextPage<GrowthDashboardProps> = ({ initialData }) => {
       return;
     }
 
-    // Check if user is admin (you can implement your own admin check logic)
-    const isAdmin = session.user.email?.includes('admin') || 
-                   session.user.email === 'developer@legalaisaas.com';
+    // Check if user is admin
+    const isAdmin = hasRole(session.user.role, STAFF_ROLES);
     
     if (!isAdmin) {
       router.push('/unauthorized');
@@ -52,8 +68,9 @@ const GrowthDashboard: NextPage<GrowthDashboardProps> = ({ initialData }) => {
     try {
       const response = await fetch('/api/admin/growth-stats');
       if (response.ok) {
-        const data = await response.json();
+        const { promotions: promotionStats, ...data } = await response.json();
         setGrowthData(data);
+        setPromotions(promotionStats || EMPTY_PROMOTIONS);
         setLastRefresh(new Date());
       }
     } catch (error) {
@@ -372,6 +389,50 @@ const GrowthDashboard: NextPage<GrowthDashboardProps> = ({ initialData }) => {
             </div>
           </div>
 
+          {/* Promo Code Redemptions */}
+          <div className="bg-white rounded-lg shadow-sm p-6 mt-8">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-gray-900">Promo Code Redemptions</h3>
+              <span className="text-sm text-gray-600">
+                {promotions.totalRedemptions} redeemed · {promotions.activeCodes} active codes
+              </span>
+            </div>
+            {promotions.codes.length === 0 ? (
+              <p className="text-sm text-gray-500">No promo codes yet. Create one via /api/admin/promo-codes.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="text-left py-2 px-4 font-medium text-gray-600">Code</th>
+                      <th className="text-left py-2 px-4 font-medium text-gray-600">Discount</th>
+                      <th className="text-left py-2 px-4 font-medium text-gray-600">Redeemed</th>
+                      <th className="text-left py-2 px-4 font-medium text-gray-600">Pending</th>
+                      <th className="text-left py-2 px-4 font-medium text-gray-600">Discount Given</th>
+                      <th className="text-left py-2 px-4 font-medium text-gray-600">Revenue</th>
+                      <th className="text-left py-2 px-4 font-medium text-gray-600">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {promotions.codes.map(code => (
+                      <tr key={code.id} className="border-b">
+                        <td className="py-2 px-4 font-medium">{code.code}</td>
+                        <td className="py-2 px-4">{formatPromoDiscount(code)}</td>
+                        <td className="py-2 px-4">{code.redeemed}{code.maxRedemptions ? ` / ${code.maxRedemptions}` : ''}</td>
+                        <td className="py-2 px-4">{code.reserved}</td>
+                        <td className="py-2 px-4">{formatByCurrency(code.discountTotal)}</td>
+                        <td className="py-2 px-4">{formatByCurrency(code.revenue)}</td>
+                        <td className="py-2 px-4">
+                          {!code.active ? 'Inactive' : code.expiresAt && new Date(code.expiresAt) <= new Date() ? 'Expired' : 'Active'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
           {/* Alert Section */}
           <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mt-8">
             <div className="flex items-center">
@@ -391,15 +452,21 @@ const GrowthDashboard: NextPage<GrowthDashboardProps> = ({ initialData }) => {
   );
 };
 
-export const getServerSideProps: GetServerSideProps = async (context) => {
+// 관리자 데이터를 읽기 전에 서버에서 역할을 확인한다
+export const getServerSideProps: GetServerSideProps = withRole(STAFF_ROLES, async (context) => {
+  // 프로모션 코드 사용 현황은 성장 지표와 따로 읽어 한쪽이 실패해도 나머지는 보인다
+  const initialPromotions = await promoCodes.getStats().catch(error => {
+    console.error('Failed to fetch promo code stats:', error);
+    return EMPTY_PROMOTIONS;
+  });
+
   try {
-    // In production, you would check authentication here
-    // For now, we'll just return the initial data
     const initialData = await getCachedGrowthStats();
     
     return {
       props: {
-        initialData: JSON.parse(JSON.stringify(initialData)) // Ensure serializable
+        initialData: JSON.parse(JSON.stringify(initialData)), // Ensure serializable
+        initialPromotions: JSON.parse(JSON.stringify(initialPromotions))
       }
     };
   } catch (error) {
@@ -416,10 +483,11 @@ export const getServerSideProps: GetServerSideProps = async (context) => {
           churn: { sevenDayChurn: 0, thirtyDayChurn: 0, churnRate: 0, retentionRate: 0 },
           geographic: { countryDistribution: [], languagePreferences: [] },
           lastUpdated: new Date().toISOString()
-        }
+        },
+        initialPromotions: JSON.parse(JSON.stringify(initialPromotions))
       }
     };
   }
-};
+});
 
 export default GrowthDashboard;
\ No newline at end of file
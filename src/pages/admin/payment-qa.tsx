@@ -3,7 +3,10 @@ import Head from 'next/head';
 import Link from 'next/link';
 import { useState, useEffect } from 'react';
 import { useSession } from 'next-auth/react';
+import { hasRole, STAFF_ROLES } from '@/lib/auth/roles';
+import { withRole } from '@/lib/auth/rbac';
 import { useRouter } from 'next/router';
+import { WebhookEventSummary } from '@/types/billing';
 import { 
   CreditCard, Play, RefreshCw, CheckCircle, XCircle, Clock, 
   ArrowLeft, Shield, AlertTriangle, TrendingUp, Users, Download,
@@ -65,6 +68,8 @@ const PaymentQADashboard: NextPage = () => {
   const [recentLogs, setRecentLogs] = useState<PlanChangeLog[]>([]);
   const [lastReport, setLastReport] = useState<QAReport | null>(null);
   const [lastTestRun, setLastTestRun] = useState<string | null>(null);
+  const [webhookEvents, setWebhookEvents] = useState<WebhookEventSummary[]>([]);
+  const [replayingId, setReplayingId] = useState<string | null>(null);
 
   // Check admin access
   useEffect(() => {
@@ -75,8 +80,7 @@ const PaymentQADashboard: NextPage = () => {
       return;
     }
 
-    const isAdmin = session.user.email?.includes('admin') || 
-                   session.user.email === 'developer@legalaisaas.com';
+    const isAdmin = hasRole(session.user.role, STAFF_ROLES);
     
     if (!isAdmin) {
       router.push('/unauthorized');
@@ -96,6 +100,7 @@ const PaymentQADashboard: NextPage = () => {
         setRecentLogs(data.recentTestLogs);
         setLastTestRun(data.lastTestRun);
       }
+      await loadWebhookEvents();
     } catch (error) {
       console.error('Failed to load QA data:', error);
     } finally {
@@ -103,6 +108,37 @@ const PaymentQADashboard: NextPage = () => {
     }
   };
 
+  const loadWebhookEvents = async () => {
+    const response = await fetch('/api/admin/webhook-events?limit=20');
+    if (response.ok) {
+      const result = await response.json();
+      setWebhookEvents(result.data);
+    }
+  };
+
+  // 실패한 웹훅을 저장된 원문으로 다시 처리한다
+  const replayWebhookEvent = async (id: string) => {
+    setReplayingId(id);
+    try {
+      const response = await fetch('/api/admin/webhook-events/replay', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id })
+      });
+      const result = await response.json();
+      if (!result.success) {
+        alert(result.error || '재처리 실패');
+      } else if (result.data.status === 'failed') {
+        alert(`재처리 후에도 실패했습니다: ${result.data.error}`);
+      }
+      await loadWebhookEvents();
+    } catch (error) {
+      console.error('Failed to replay webhook event:', error);
+    } finally {
+      setReplayingId(null);
+    }
+  };
+
   const runAllTests = async () => {
     setRunningTest(true);
     try {
@@ -134,9 +170,11 @@ const PaymentQADashboard: NextPage = () => {
 
   const getStatusIcon = (status: string) => {
     switch (status) {
-      case 'completed': return <CheckCircle className="h-5 w-5 text-green-600" />;
+      case 'completed':
+      case 'processed': return <CheckCircle className="h-5 w-5 text-green-600" />;
       case 'failed': return <XCircle className="h-5 w-5 text-red-600" />;
-      case 'pending': return <Clock className="h-5 w-5 text-yellow-600" />;
+      case 'pending':
+      case 'processing': return <Clock className="h-5 w-5 text-yellow-600" />;
       default: return <AlertTriangle className="h-5 w-5 text-gray-600" />;
     }
   };
@@ -315,6 +353,67 @@ const PaymentQADashboard: NextPage = () => {
             </div>
           </div>
 
+          {/* Webhook Events */}
+          <div className="bg-white rounded-lg shadow-sm p-6 mb-8">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">Webhook Events</h2>
+            <div className="overflow-x-auto">
+              <table className="min-w-full">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left py-2 px-3 font-medium text-gray-600">Status</th>
+                    <th className="text-left py-2 px-3 font-medium text-gray-600">Provider</th>
+                    <th className="text-left py-2 px-3 font-medium text-gray-600">Event</th>
+                    <th className="text-left py-2 px-3 font-medium text-gray-600">Attempts</th>
+                    <th className="text-left py-2 px-3 font-medium text-gray-600">Error</th>
+                    <th className="text-left py-2 px-3 font-medium text-gray-600">Received</th>
+                    <th className="py-2 px-3"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {webhookEvents.map((event) => (
+                    <tr key={event.id} className="border-b">
+                      <td className="py-2 px-3">
+                        <div className="flex items-center">
+                          {getStatusIcon(event.status)}
+                        </div>
+                      </td>
+                      <td className="py-2 px-3 text-sm capitalize">{event.provider}</td>
+                      <td className="py-2 px-3 text-sm">
+                        <div>{event.eventType}</div>
+                        <div className="text-xs text-gray-500 font-mono">{event.eventId}</div>
+                      </td>
+                      <td className="py-2 px-3 text-sm">
+                        {event.attempts} / {event.deliveries} deliveries
+                      </td>
+                      <td className="py-2 px-3 text-sm text-red-600">{event.error}</td>
+                      <td className="py-2 px-3 text-sm">
+                        {new Date(event.receivedAt).toLocaleString()}
+                      </td>
+                      <td className="py-2 px-3 text-right">
+                        {event.status === 'failed' && (
+                          <button
+                            onClick={() => replayWebhookEvent(event.id)}
+                            disabled={replayingId === event.id}
+                            className="bg-purple-600 hover:bg-purple-700 text-white text-xs px-3 py-1 rounded-md transition-colors inline-flex items-center disabled:opacity-50"
+                          >
+                            <RefreshCw className={`h-3 w-3 mr-1 ${replayingId === event.id ? 'animate-spin' : ''}`} />
+                            Replay
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {webhookEvents.length === 0 && (
+              <div className="text-center py-8 text-gray-500">
+                No webhook events received yet.
+              </div>
+            )}
+          </div>
+
           {/* Recent Payment Logs */}
           <div className="bg-white rounded-lg shadow-sm p-6">
             <h2 className="text-xl font-semibold text-gray-900 mb-4">Recent Test Logs</h2>
@@ -383,4 +482,6 @@ const PaymentQADashboard: NextPage = () => {
   );
 };
 
+export const getServerSideProps = withRole();
+
 export default PaymentQADashboard;
\ No newline at end of file
@@ -3,6 +3,8 @@ import Head from 'next/head';
 import Link from 'next/link';
 import { useState, useEffect } from 'react';
 import { useSession } from 'next-auth/react';
+import { hasRole, STAFF_ROLES } from '@/lib/auth/roles';
+import { withRole } from '@/lib/auth/rbac';
 import { useRouter } from 'next/router';
 import { 
   Search, TrendingUp, Users, MousePointer, Globe, 
@@ -49,8 +51,7 @@ const SeoReports: NextPage<SeoReportsProps> = ({ initialData }) => {
       return;
     }
 
-    const isAdmin = session.user.email?.includes('admin') || 
-                   session.user.email === 'developer@legalaisaas.com';
+    const isAdmin = hasRole(session.user.role, STAFF_ROLES);
     
     if (!isAdmin) {
       router.push('/unauthorized');
@@ -316,7 +317,8 @@ const SeoReports: NextPage<SeoReportsProps> = ({ initialData }) => {
   );
 };
 
-export const getServerSideProps: GetServerSideProps = async (context) => {
+// 관리자 데이터를 읽기 전에 서버에서 역할을 확인한다
+export const getServerSideProps: GetServerSideProps = withRole(STAFF_ROLES, async (context) => {
   try {
     const seoStats = await getSeoStats();
     
@@ -360,6 +362,6 @@ export const getServerSideProps: GetServerSideProps = async (context) => {
       }
     };
   }
-};
+});
 
 export default SeoReports;
\ No newline at end of file
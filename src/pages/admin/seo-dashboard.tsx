@@ -3,6 +3,7 @@ import Head from 'next/head';
 import Link from 'next/link';
 import { useState, useEffect } from 'react';
 import { useSession } from 'next-auth/react';
+import { withRole } from '@/lib/auth/rbac';
 import { 
   ArrowLeft, TrendingUp, Users, Target, BarChart, RefreshCw,
   AlertCircle, CheckCircle, ArrowUp, ArrowDown, Eye, MousePointer
@@ -381,4 +382,6 @@ const SeoAdminDashboard: NextPage = () => {
   );
 };
 
+export const getServerSideProps = withRole();
+
 export default SeoAdminDashboard;
\ No newline at end of file
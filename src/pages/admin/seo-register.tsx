@@ -3,6 +3,8 @@ import Head from 'next/head';
 import Link from 'next/link';
 import { useState, useEffect } from 'react';
 import { useSession } from 'next-auth/react';
+import { hasRole, STAFF_ROLES } from '@/lib/auth/roles';
+import { withRole } from '@/lib/auth/rbac';
 import { useRouter } from 'next/router';
 import { 
   Globe, Plus, Search, Save, Download, Copy, RefreshCw, 
@@ -79,8 +81,7 @@ const SeoRegister: NextPage = () => {
       return;
     }
 
-    const isAdmin = session.user.email?.includes('admin') || 
-                   session.user.email === 'developer@legalaisaas.com';
+    const isAdmin = hasRole(session.user.role, STAFF_ROLES);
     
     if (!isAdmin) {
       router.push('/unauthorized');
@@ -700,4 +701,6 @@ const SeoRegister: NextPage = () => {
   );
 };
 
+export const getServerSideProps = withRole();
+
 export default SeoRegister;
\ No newline at end of file
@@ -1,36 +1,25 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '../../features/auth/authOptions';
+import { requireRole } from '@/lib/auth/rbac';
 import { getCachedGrowthStats, invalidateCache } from '../../../lib/logs/growthTracker';
+import { promoCodes } from '@/services/promo-code-service';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   try {
-    // Check authentication
-    const session = await getServerSession(req, res, authOptions);
-    
-    if (!session?.user?.email) {
-      return res.status(401).json({ error: 'Authentication required' });
-    }
-
-    // Check if user is admin
-    const isAdmin = session.user.email.includes('admin') || 
-                   session.user.email === 'developer@legalaisaas.com';
-    
-    if (!isAdmin) {
-      return res.status(403).json({ error: 'Admin access required' });
-    }
+    const admin = await requireRole(req, res);
+    if (!admin) return;
 
     switch (req.method) {
       case 'GET':
         const growthData = await getCachedGrowthStats();
-        res.status(200).json(growthData);
+        // 프로모션 코드 사용 현황은 캐시하지 않고 매번 저장소에서 읽는다
+        res.status(200).json({ ...growthData, promotions: await promoCodes.getStats() });
         break;
 
       case 'POST':
         // Force refresh cache
         invalidateCache();
         const refreshedData = await getCachedGrowthStats();
-        res.status(200).json(refreshedData);
+        res.status(200).json({ ...refreshedData, promotions: await promoCodes.getStats() });
         break;
 
       default:
@@ -0,0 +1,50 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireRole } from '@/lib/auth/rbac';
+import { BILLING_ERROR_STATUS, BillingError } from '@/lib/payment/billing-errors';
+import { promoCodes } from '@/services/promo-code-service';
+import { PromoCode } from '@/types/promotion';
+
+interface PromoCodesResponse {
+  success: boolean;
+  data?: PromoCode | PromoCode[];
+  error?: string;
+  code?: string;
+}
+
+/**
+ * 프로모션 코드 관리 (운영팀 전용).
+ * GET 목록, POST 생성 { code, discountType: 'percentage' | 'fixed', percentOff | amountOff: { USD, KRW }, plans?, firstPurchaseOnly?, maxRedemptions?, startsAt?, expiresAt? },
+ * PATCH 수정 { id, active?, description?, maxRedemptions?, expiresAt? }. 할인 값은 바꿀 수 없으니 새 코드를 만든다.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<PromoCodesResponse>) {
+  try {
+    const admin = await requireRole(req, res);
+    if (!admin) return;
+
+    switch (req.method) {
+      case 'GET':
+        return res.status(200).json({ success: true, data: await promoCodes.listCodes() });
+
+      case 'POST':
+        return res.status(201).json({ success: true, data: await promoCodes.createCode(req.body, admin.email) });
+
+      case 'PATCH': {
+        const { id } = req.body || {};
+        if (!id || typeof id !== 'string') {
+          return res.status(400).json({ success: false, error: 'id is required' });
+        }
+        return res.status(200).json({ success: true, data: await promoCodes.updateCode(id, req.body) });
+      }
+
+      default:
+        res.setHeader('Allow', ['GET', 'POST', 'PATCH']);
+        return res.status(405).json({ success: false, error: 'Method not allowed' });
+    }
+  } catch (error) {
+    if (error instanceof BillingError) {
+      return res.status(BILLING_ERROR_STATUS[error.code]).json({ success: false, error: error.message, code: error.code });
+    }
+    console.error('Promo code admin error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to manage promo codes' });
+  }
+}
@@ -1,6 +1,5 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '../auth/authOptions';
+import { requireRole } from '@/lib/auth/rbac';
 import { getSeoStats } from '../../../lib/logUserAction';
 import fs from 'fs';
 import path from 'path';
@@ -10,17 +9,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  const session = await getServerSession(req, res, authOptions);
-  if (!session?.user) {
-    return res.status(401).json({ error: 'Unauthorized' });
-  }
-
-  const isAdmin = session.user.email?.includes('admin') || 
-                 session.user.email === 'developer@legalaisaas.com';
-  
-  if (!isAdmin) {
-    return res.status(403).json({ error: 'Admin access required' });
-  }
+  const admin = await requireRole(req, res);
+  if (!admin) return;
 
   try {
     const period = req.query.period as string || '7d';
@@ -0,0 +1,47 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireRole } from '@/lib/auth/rbac';
+import { isUserRole, SUPER_ADMIN_ROLES } from '@/lib/auth/roles';
+import { userRepository } from '@/services/user-repository';
+import { UserRole } from '@/types/user';
+
+interface RoleResponse {
+  success: boolean;
+  data?: { email: string; role: UserRole };
+  error?: string;
+}
+
+/**
+ * 사용자 역할 변경 (super_admin 전용). 바뀐 역할은 대상 사용자의 다음 요청부터 세션에 반영된다.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<RoleResponse>) {
+  if (req.method !== 'PUT') {
+    res.setHeader('Allow', ['PUT']);
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const admin = await requireRole(req, res, SUPER_ADMIN_ROLES);
+    if (!admin) return;
+
+    const { email, role } = req.body || {};
+    if (!email || typeof email !== 'string' || !isUserRole(role)) {
+      return res.status(400).json({ success: false, error: 'email and a valid role are required' });
+    }
+
+    const user = await userRepository.findUserByEmail(email);
+    if (!user) {
+      return res.status(404).json({ success: false, error: 'User not found' });
+    }
+    // 마지막 super_admin이 스스로 권한을 내려 아무도 관리할 수 없게 되는 일을 막는다
+    if (user.id === admin.userId) {
+      return res.status(400).json({ success: false, error: 'Cannot change your own role' });
+    }
+
+    const updated = await userRepository.updateUser(user.id, { role });
+    console.log(`🛡️ Role changed by ${admin.email}: ${user.email} ${user.role || 'user'} → ${role}`);
+    return res.status(200).json({ success: true, data: { email: user.email, role: updated?.role || role } });
+  } catch (error) {
+    console.error('Role update error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to update role' });
+  }
+}
@@ -0,0 +1,40 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireRole } from '@/lib/auth/rbac';
+import { webhookEventStore } from '@/services/webhook-event-store';
+import { WebhookEventStatus, WebhookEventSummary, WebhookProvider } from '@/types/billing';
+
+interface WebhookEventsResponse {
+  success: boolean;
+  data?: WebhookEventSummary[];
+  error?: string;
+}
+
+const PROVIDERS: WebhookProvider[] = ['stripe', 'toss', 'fake'];
+const STATUSES: WebhookEventStatus[] = ['processing', 'processed', 'failed'];
+
+/**
+ * 최근 결제 웹훅 이벤트 목록 (운영팀 전용). ?provider=stripe|toss|fake&status=failed 로 거를 수 있다.
+ * 원문(payload)은 돌려주지 않는다.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<WebhookEventsResponse>) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const admin = await requireRole(req, res);
+    if (!admin) return;
+
+    const { provider, status, limit } = req.query;
+    const events = await webhookEventStore.list({
+      provider: PROVIDERS.indexOf(provider as WebhookProvider) >= 0 ? (provider as WebhookProvider) : undefined,
+      status: STATUSES.indexOf(status as WebhookEventStatus) >= 0 ? (status as WebhookEventStatus) : undefined,
+      limit: Math.min(parseInt(limit as string, 10) || 50, 200)
+    });
+    return res.status(200).json({ success: true, data: events });
+  } catch (error) {
+    console.error('Webhook event list error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to load webhook events' });
+  }
+}
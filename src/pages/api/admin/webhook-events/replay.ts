@@ -0,0 +1,43 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireRole } from '@/lib/auth/rbac';
+import { BILLING_ERROR_STATUS, BillingError } from '@/lib/payment/billing-errors';
+import { webhookEventStore } from '@/services/webhook-event-store';
+import { WebhookEventSummary } from '@/types/billing';
+
+interface ReplayResponse {
+  success: boolean;
+  data?: WebhookEventSummary;
+  error?: string;
+  code?: string;
+}
+
+/**
+ * 처리에 실패한 웹훅 이벤트 재실행(POST { id }, 운영팀 전용). 저장한 원문을 처음과 같은 경로로 다시 처리하고,
+ * 다시 실패해도 200으로 갱신된 기록(status: failed, error)을 돌려준다.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ReplayResponse>) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const admin = await requireRole(req, res);
+    if (!admin) return;
+
+    const { id } = req.body || {};
+    if (!id || typeof id !== 'string') {
+      return res.status(400).json({ success: false, error: 'id is required' });
+    }
+
+    const record = await webhookEventStore.replay(id);
+    console.log(`🔁 Webhook ${record.provider}:${record.eventId} replayed by ${admin.email} → ${record.status}`);
+    return res.status(200).json({ success: true, data: record });
+  } catch (error) {
+    if (error instanceof BillingError) {
+      return res.status(BILLING_ERROR_STATUS[error.code]).json({ success: false, error: error.message, code: error.code });
+    }
+    console.error('Webhook replay error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to replay webhook event' });
+  }
+}
@@ -1,5 +1,6 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { aiProviderMonitor } from '@/services/ai-provider-monitor';
+import { aiProviders } from '@/services/ai-provider-registry';
 
 interface APIResponse {
   success: boolean;
@@ -108,6 +109,17 @@ async function handleGetStatus(
         timestamp
       });
 
+    case 'usage':
+      return res.status(200).json({
+        success: true,
+        data: {
+          mockMode: aiProviders.isMockMode(),
+          providers: aiProviders.list(),
+          usage: aiProviders.getUsage()
+        },
+        timestamp
+      });
+
     case 'report':
       if (!providerId || typeof providerId !== 'string') {
         return res.status(400).json({
@@ -0,0 +1,65 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { aiProviders } from '@/services/ai-provider-registry';
+import { requireEntitlement } from '@/lib/auth/entitlement';
+import { documentStore } from '@/services/document-store';
+import { summarizeAnalysis } from '@/services/clause-analyzer';
+import { AIProviderId } from '@/types/ai-provider';
+import { DocumentRecord } from '@/types/document';
+
+// 업로드 문서 원문을 그대로 담으므로 넉넉하게 둔다
+const MAX_PROMPT_LENGTH = 200000;
+const CLIENT_PROVIDERS: AIProviderId[] = ['claude', 'openai', 'gemini'];
+
+interface AIGenerateResponse {
+  success: boolean;
+  data?: {
+    text: string;
+    provider: AIProviderId;
+  };
+  error?: string;
+}
+
+const buildAnalysisPrompt = (document: DocumentRecord) => `다음 문서를 분석하여 위험 요소와 개선 제안을 JSON으로 반환:
+${summarizeAnalysis(document.analysis)}
+
+원문:
+${document.text}`;
+
+/**
+ * 업로드한 문서를 AI로 분석한다. 프롬프트는 서버에서 만들고 클라이언트는 문서 ID만 보낸다.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<AIGenerateResponse>) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const entitlement = await requireEntitlement(req, res, { featureName: 'AI 문서 분석' });
+    if (!entitlement) return;
+
+    const { documentId } = req.body;
+    if (!documentId || typeof documentId !== 'string') {
+      return res.status(400).json({ success: false, error: 'documentId is required' });
+    }
+
+    const document = await documentStore.get(documentId, entitlement.email);
+    if (!document) {
+      return res.status(404).json({ success: false, error: 'Document not found' });
+    }
+
+    const prompt = buildAnalysisPrompt(document);
+    if (prompt.length > MAX_PROMPT_LENGTH) {
+      return res.status(413).json({ success: false, error: 'Document too long' });
+    }
+
+    const result = await aiProviders.generateWithFallback(CLIENT_PROVIDERS, {
+      prompt,
+      maxTokens: 4000,
+      usage: { userId: entitlement.email, feature: 'analysis' }
+    });
+    return res.status(200).json({ success: true, data: { text: result.text, provider: result.provider } });
+  } catch (error) {
+    console.error('AI generate error:', error);
+    return res.status(502).json({ success: false, error: 'AI service unavailable' });
+  }
+}
@@ -0,0 +1,4 @@
+import NextAuth from 'next-auth';
+import { authOptions } from '../../../features/auth/authOptions';
+
+export default NextAuth(authOptions);
@@ -0,0 +1,23 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { credentialAuth } from '@/services/credential-auth';
+
+/**
+ * 비밀번호 재설정 메일 요청. 가입 여부가 드러나지 않도록 결과와 상관없이 같은 응답을 돌려준다.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const { email } = req.body || {};
+  if (!email || typeof email !== 'string') {
+    return res.status(400).json({ success: false, error: 'Email is required' });
+  }
+
+  try {
+    await credentialAuth.requestPasswordReset(email);
+  } catch (error) {
+    console.error('Password reset request error:', error);
+  }
+  return res.status(200).json({ success: true });
+}
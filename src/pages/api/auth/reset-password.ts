@@ -0,0 +1,27 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { credentialAuth } from '@/services/credential-auth';
+import { CREDENTIAL_ERROR_STATUS, CredentialAuthError } from '@/lib/auth/credential-errors';
+
+/**
+ * 재설정 메일의 토큰으로 새 비밀번호를 저장한다. 토큰은 한 번만 쓸 수 있다.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const { token, password } = req.body || {};
+    if (!token || typeof token !== 'string') {
+      throw new CredentialAuthError('INVALID_TOKEN');
+    }
+    await credentialAuth.resetPassword(token, password);
+    return res.status(200).json({ success: true });
+  } catch (error) {
+    if (error instanceof CredentialAuthError) {
+      return res.status(CREDENTIAL_ERROR_STATUS[error.code]).json({ success: false, error: error.message, code: error.code });
+    }
+    console.error('Password reset error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to reset password' });
+  }
+}
@@ -0,0 +1,31 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { credentialAuth } from '@/services/credential-auth';
+import { CREDENTIAL_ERROR_STATUS, CredentialAuthError } from '@/lib/auth/credential-errors';
+
+interface SignUpResponse {
+  success: boolean;
+  data?: { email: string };
+  error?: string;
+  code?: string;
+}
+
+/**
+ * 이메일·비밀번호 가입. 인증 메일을 보낸 뒤 인증을 마쳐야 로그인할 수 있다.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<SignUpResponse>) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const { email, password, name } = req.body || {};
+    const user = await credentialAuth.signUp({ email, password, name });
+    return res.status(201).json({ success: true, data: { email: user.email } });
+  } catch (error) {
+    if (error instanceof CredentialAuthError) {
+      return res.status(CREDENTIAL_ERROR_STATUS[error.code]).json({ success: false, error: error.message, code: error.code });
+    }
+    console.error('Sign up error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to sign up' });
+  }
+}
@@ -0,0 +1,26 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { credentialAuth } from '@/services/credential-auth';
+import { CredentialAuthError } from '@/lib/auth/credential-errors';
+
+/**
+ * 인증 메일의 링크가 가리키는 주소. 결과를 쿼리로 붙여 로그인 화면으로 보낸다.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const { token } = req.query;
+  try {
+    if (typeof token !== 'string' || !token) {
+      throw new CredentialAuthError('INVALID_TOKEN');
+    }
+    await credentialAuth.verifyEmail(token);
+    return res.redirect(302, '/auth/signin?verified=1');
+  } catch (error) {
+    if (!(error instanceof CredentialAuthError)) {
+      console.error('Email verification error:', error);
+    }
+    return res.redirect(302, '/auth/signin?error=INVALID_TOKEN');
+  }
+}
@@ -3,6 +3,7 @@ import { claudeCache } from '@/services/claude-cache';
 import { cacheAnalytics } from '@/services/cache-analytics';
 import { cacheWarmingService } from '@/services/cache-warming';
 import { cacheInvalidationService } from '@/services/cache-invalidation-triggers';
+import { requireRole } from '@/lib/auth/rbac';
 
 interface CacheManagementResponse {
   success: boolean;
@@ -18,6 +19,9 @@ export default async function handler(
   const timestamp = new Date().toISOString();
 
   try {
+    const admin = await requireRole(req, res);
+    if (!admin) return;
+
     switch (req.method) {
       case 'GET':
         return await handleGetCacheInfo(req, res, timestamp);
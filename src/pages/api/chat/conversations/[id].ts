@@ -0,0 +1,55 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '../../../../features/auth/authOptions';
+import { conversationStore } from '@/services/conversation-store';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { id } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ success: false, error: 'Conversation ID is required' });
+  }
+
+  try {
+    const session = await getServerSession(req, res, authOptions);
+    if (!session?.user?.email) {
+      return res.status(401).json({ success: false, error: 'Unauthorized' });
+    }
+
+    switch (req.method) {
+      case 'GET': {
+        const conversation = await conversationStore.get(id, session.user.email);
+        if (!conversation) {
+          return res.status(404).json({ success: false, error: 'Conversation not found' });
+        }
+        return res.status(200).json({ success: true, data: { conversation } });
+      }
+
+      case 'PATCH': {
+        const { title } = req.body || {};
+        if (!title || typeof title !== 'string' || !title.trim()) {
+          return res.status(400).json({ success: false, error: 'Title is required' });
+        }
+        const conversation = await conversationStore.rename(id, session.user.email, title);
+        if (!conversation) {
+          return res.status(404).json({ success: false, error: 'Conversation not found' });
+        }
+        return res.status(200).json({ success: true, data: { conversation } });
+      }
+
+      case 'DELETE': {
+        const deleted = await conversationStore.delete(id, session.user.email);
+        if (!deleted) {
+          return res.status(404).json({ success: false, error: 'Conversation not found' });
+        }
+        return res.status(200).json({ success: true });
+      }
+
+      default:
+        return res.status(405).json({ success: false, error: 'Method not allowed' });
+    }
+  } catch (error) {
+    console.error('Conversation API error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
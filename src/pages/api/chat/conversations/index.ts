@@ -0,0 +1,35 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '../../../../features/auth/authOptions';
+import { conversationStore } from '@/services/conversation-store';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    const session = await getServerSession(req, res, authOptions);
+    if (!session?.user?.email) {
+      return res.status(401).json({ success: false, error: 'Unauthorized' });
+    }
+
+    switch (req.method) {
+      case 'GET': {
+        const conversations = await conversationStore.listByUser(session.user.email);
+        return res.status(200).json({ success: true, data: { conversations } });
+      }
+
+      case 'POST': {
+        const { title } = req.body || {};
+        if (title !== undefined && typeof title !== 'string') {
+          return res.status(400).json({ success: false, error: 'Title must be a string' });
+        }
+        const conversation = await conversationStore.create(session.user.email, title?.trim() || undefined);
+        return res.status(201).json({ success: true, data: { conversation } });
+      }
+
+      default:
+        return res.status(405).json({ success: false, error: 'Method not allowed' });
+    }
+  } catch (error) {
+    console.error('Conversation API error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
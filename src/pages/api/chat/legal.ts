@@ -1,12 +1,22 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '../../../features/auth/authOptions';
+import { initSSE, sendSSE } from '../../../utils/sse';
+import { conversationStore } from '../../../services/conversation-store';
+import { chatContextBuilder } from '../../../services/chat-context-builder';
+import { aiProviders } from '../../../services/ai-provider-registry';
+import { statuteCitationChecker } from '../../../services/statute-citation-checker';
+import { requireEntitlement } from '../../../lib/auth/entitlement';
+import { ConversationMessage } from '../../../types/chat';
+import { AIProviderId } from '../../../types/ai-provider';
 
-interface ChatMessage {
-  role: 'user' | 'assistant';
-  content: string;
-  timestamp: Date;
-}
+type ChatMessage = Pick<ConversationMessage, 'role' | 'content'>;
+
+// 앞에서부터 시도하는 제공자 순서
+const CHAT_PROVIDERS: AIProviderId[] = ['claude', 'openai'];
+
+// 입력 토큰 상한. 두 제공자가 같은 컨텍스트를 쓰므로 작은 쪽(gpt-4 8K)에서 출력 2000 토큰을 뺀 값
+const CONTEXT_TOKEN_LIMIT = 6000;
+
+const summaryPrompt = `다음은 법률 상담 대화의 앞부분입니다. 이후 상담에 필요한 사실관계, 질문 요지, 이미 안내한 법령과 결론만 한국어로 간결하게 요약하세요. 새로운 조언은 추가하지 마세요.`;
 
 const systemPrompt = `당신은 한국 법률 전문 AI 상담사입니다. 다음 규칙을 준수해주세요:
 
@@ -28,7 +38,7 @@ const systemPrompt = `당신은 한국 법률 전문 AI 상담사입니다. 다
 
 응답 형식:
 - 핵심 답변을 먼저 제시
-- 필요시 관련 법령 조항 언급
+- 필요시 관련 법령 조항 언급 ("근로기준법 제17조"처럼 법령명과 조 번호를 함께 표기)
 - 실무적 조언 포함
 - 추가 주의사항 안내`;
 
@@ -38,12 +48,12 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 
   try {
-    const session = await getServerSession(req, res, authOptions);
-    if (!session) {
-      return res.status(401).json({ message: 'Unauthorized' });
-    }
+    // 이번 달 한도를 다 쓴 사용자는 AI를 호출하지 않는다
+    const entitlement = await requireEntitlement(req, res, { featureName: 'AI 법률 상담' });
+    if (!entitlement) return;
+    const { email } = entitlement;
 
-    const { message, history } = req.body;
+    const { message, conversationId, stream } = req.body;
 
     if (!message || typeof message !== 'string') {
       return res.status(400).json({ message: 'Message is required' });
@@ -54,91 +64,182 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       return res.status(400).json({ message: 'Message too long' });
     }
 
+    // 이전 대화는 서버에 저장된 것만 사용한다 (클라이언트가 보낸 history는 받지 않음)
+    const conversation = typeof conversationId === 'string'
+      ? await conversationStore.get(conversationId, email)
+      : await conversationStore.create(email);
+    if (!conversation) {
+      return res.status(404).json({ message: 'Conversation not found' });
+    }
+
+    const history: ChatMessage[] = conversation.messages.map(({ role, content }) => ({ role, content }));
+    await conversationStore.appendMessage(conversation.id, email, { role: 'user', content: message });
+
+    if (stream) {
+      return streamLegalChat(res, email, conversation.id, message, history);
+    }
+
     // AI 응답 생성
-    const response = await generateLegalResponse(message, history || []);
+    const { text: response, provider } = await generateLegalResponse(email, message, history);
+    const { citations } = statuteCitationChecker.check(response);
+    await conversationStore.appendMessage(conversation.id, email, { role: 'assistant', content: response, provider, citations });
 
     // 사용자 액션 로깅
-    await logUserAction(session.user?.email || 'unknown', 'legal_chat', {
+    await logUserAction(email, {
+      conversationId: conversation.id,
       messageLength: message.length,
-      timestamp: new Date().toISOString()
+      response,
+      provider,
+      streamed: false
     });
 
     res.status(200).json({
       response,
+      citations,
+      conversationId: conversation.id,
       timestamp: new Date().toISOString()
     });
 
   } catch (error) {
     console.error('Legal chat error:', error);
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
     res.status(500).json({ message: 'Internal server error' });
   }
 }
 
-async function generateLegalResponse(message: string, history: ChatMessage[]): Promise<string> {
+/**
+ * SSE로 토큰을 전달한다. 클라이언트가 연결을 끊으면 AI 요청도 중단하고 받은 부분까지만 기록한다.
+ */
+async function streamLegalChat(
+  res: NextApiResponse,
+  email: string,
+  conversationId: string,
+  message: string,
+  history: ChatMessage[]
+) {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  initSSE(res);
+  sendSSE(res, 'conversation', { conversationId });
+
+  let response = '';
+  let provider = '';
   try {
-    // 대화 컨텍스트 구성
-    const messages = [
-      { role: 'system', content: systemPrompt },
-      ...history.map(msg => ({
-        role: msg.role,
-        content: msg.content
-      })),
-      { role: 'user', content: message }
-    ];
-
-    // Claude API 사용
-    const { Anthropic } = await import('@anthropic-ai/sdk');
-    const anthropic = new Anthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY,
+    const result = await generateLegalResponse(email, message, history, {
+      signal: controller.signal,
+      onDelta: text => {
+        response += text;
+        sendSSE(res, 'delta', { text });
+      }
     });
-
-    const response = await anthropic.messages.create({
-      model: "claude-3-sonnet-20240229",
-      max_tokens: 2000,
-      temperature: 0.7,
-      messages: messages.map(msg => ({
-        role: msg.role === 'system' ? 'user' : msg.role,
-        content: msg.role === 'system' ? 
-          `시스템 지시사항: ${msg.content}\n\n사용자 질문: ${message}` : 
-          msg.content
-      })).slice(-6) // 최근 6개 메시지만 사용
+    response = result.text;
+    provider = result.provider;
+    const { citations } = statuteCitationChecker.check(response);
+    sendSSE(res, 'done', { response, provider, citations, conversationId, timestamp: new Date().toISOString() });
+  } catch (error) {
+    if (!controller.signal.aborted) {
+      console.error('Legal chat stream error:', error);
+      sendSSE(res, 'error', { message: '답변 생성 중 오류가 발생했습니다.' });
+    }
+  } finally {
+    if (response) {
+      await conversationStore.appendMessage(conversationId, email, {
+        role: 'assistant',
+        content: response,
+        provider,
+        // 중단된 답변도 받은 부분까지는 인용을 확인해 둔다
+        citations: statuteCitationChecker.check(response).citations,
+        cancelled: controller.signal.aborted || undefined
+      });
+    }
+    await logUserAction(email, {
+      conversationId,
+      messageLength: message.length,
+      response,
+      provider,
+      streamed: true,
+      cancelled: controller.signal.aborted
     });
+    res.end();
+  }
+}
+
+interface GenerateOptions {
+  signal?: AbortSignal;
+  // 지정하면 제공자의 스트리밍 API를 사용하고 토큰이 도착할 때마다 호출된다
+  onDelta?: (text: string) => void;
+}
+
+async function generateLegalResponse(
+  email: string,
+  message: string,
+  history: ChatMessage[],
+  { signal, onDelta }: GenerateOptions = {}
+): Promise<{ text: string; provider: string }> {
+  // 두 제공자가 같은 컨텍스트를 쓴다: system은 네이티브 파라미터로, 한도를 넘는 이전 대화는 요약으로
+  const context = await chatContextBuilder.build({
+    systemPrompt,
+    history,
+    message,
+    maxInputTokens: CONTEXT_TOKEN_LIMIT,
+    summarize: messages => summarizeConversation(email, messages)
+  });
+
+  // 이미 일부 토큰을 보낸 뒤 실패하면 다른 제공자로 처음부터 다시 보낼 수 없다
+  let emitted = false;
+  const emit = onDelta && ((text: string) => {
+    emitted = true;
+    onDelta(text);
+  });
 
-    return response.content[0].type === 'text' ? response.content[0].text : '';
+  const request = {
+    system: context.system,
+    messages: context.messages,
+    maxTokens: 2000,
+    temperature: 0.7,
+    signal,
+    usage: { userId: email, feature: 'chat' as const }
+  };
 
+  try {
+    const result = emit
+      ? await aiProviders.streamWithFallback(CHAT_PROVIDERS, request, emit)
+      : await aiProviders.generateWithFallback(CHAT_PROVIDERS, request);
+    return { text: result.text, provider: result.provider };
   } catch (error) {
-    console.error('Claude API error:', error);
-    
-    // Fallback to OpenAI
-    try {
-      const { OpenAI } = await import('openai');
-      const openai = new OpenAI({
-        apiKey: process.env.OPENAI_API_KEY,
-      });
+    if (signal?.aborted || emitted) throw error;
+    console.error('AI provider error:', error);
 
-      const messages = [
-        { role: 'system', content: systemPrompt },
-        ...history.map(msg => ({
-          role: msg.role,
-          content: msg.content
-        })),
-        { role: 'user', content: message }
-      ];
-
-      const response = await openai.chat.completions.create({
-        model: "gpt-4",
-        messages: messages.slice(-8), // 최근 8개 메시지만 사용
-        max_tokens: 2000,
-        temperature: 0.7
-      });
+    // 기본 응답 반환
+    const text = fallbackResponse(message);
+    onDelta?.(text);
+    return { text, provider: 'fallback' };
+  }
+}
 
-      return response.choices[0].message.content || '';
+async function summarizeConversation(email: string, messages: ChatMessage[]): Promise<string> {
+  const transcript = messages
+    .map(msg => `${msg.role === 'user' ? '사용자' : '상담사'}: ${msg.content}`)
+    .join('\n\n');
+  const result = await aiProviders.generateWithFallback(CHAT_PROVIDERS, {
+    system: summaryPrompt,
+    prompt: transcript,
+    maxTokens: 2000,
+    temperature: 0.7,
+    // 요약은 답변에 딸린 호출이라 토큰만 집계하고 질의 수에는 넣지 않는다
+    usage: { userId: email, feature: 'chat', countsAsQuery: false }
+  });
+  return result.text;
+}
 
-    } catch (openaiError) {
-      console.error('OpenAI fallback error:', openaiError);
-      
-      // 기본 응답 반환
-      return `죄송합니다. 현재 AI 서비스에 일시적인 문제가 발생했습니다. 
+function fallbackResponse(message: string): string {
+  return `죄송합니다. 현재 AI 서비스에 일시적인 문제가 발생했습니다. 
 
 다음과 같은 방법으로 도움을 받으실 수 있습니다:
 1. 잠시 후 다시 시도해주세요
@@ -146,15 +247,13 @@ async function generateLegalResponse(message: string, history: ChatMessage[]): P
 3. 법률구조공단(국번없이 132)에서 무료 법률 상담을 받으실 수 있습니다
 
 문의하신 내용: "${message.length > 50 ? message.substring(0, 50) + '...' : message}"`;
-    }
-  }
 }
 
-async function logUserAction(email: string, action: string, data: any) {
+async function logUserAction(email: string, metadata: Record<string, unknown>) {
   try {
     const { logUserAction } = await import('../../../lib/logUserAction');
-    await logUserAction(email, action, data);
+    await logUserAction({ type: 'LEGAL_CHAT', userId: email, metadata });
   } catch (error) {
     console.error('Logging error:', error);
   }
-}
\ No newline at end of file
+}
@@ -2,10 +2,17 @@ import { NextApiRequest, NextApiResponse } from 'next';
 import { claudeAPI } from '@/services/claude-api';
 import { claudeCache } from '@/services/claude-cache';
 import { sanitizeInput } from '@/utils/sanitizeInput';
+import { clauseAnalyzer, summarizeAnalysis } from '@/services/clause-analyzer';
+import { documentStore } from '@/services/document-store';
+import { requireEntitlement } from '@/lib/auth/entitlement';
+import { ContractAnalysis } from '@/types/contract-analysis';
 
 interface StrategicReportRequest {
   contractSummary: string;
-  analysisResults: string;
+  analysisResults?: string;
+  contractAnalysis?: ContractAnalysis;
+  contractText?: string;
+  documentId?: string;
   userSelectedRisks: string[];
   contractType: string;
   userPlan: string;
@@ -100,18 +107,43 @@ export default async function handler(
 
   try {
     const startTime = Date.now();
+
+    const entitlement = await requireEntitlement(req, res, {
+      feature: 'advancedAnalysis',
+      featureName: 'AI 전략 리포트'
+    });
+    if (!entitlement) return;
     
     // Validate and sanitize input
     const {
       contractSummary,
       analysisResults,
+      contractAnalysis,
+      contractText,
+      documentId,
       userSelectedRisks,
       contractType,
       userPlan,
       language = 'ko'
     }: StrategicReportRequest = req.body;
 
-    if (!contractSummary || !analysisResults || !userSelectedRisks || !contractType) {
+    // 업로드된 문서를 참조하는 경우 저장된 조항 분석 결과를 사용
+    let documentAnalysis: ContractAnalysis | null = null;
+    if (documentId) {
+      const document = await documentStore.get(documentId, entitlement.email);
+      if (!document) {
+        return res.status(404).json({
+          success: false,
+          error: 'Document not found'
+        });
+      }
+      documentAnalysis = document.analysis;
+    }
+
+    // 조항 분석 결과가 있으면 원문 대신 구조화된 결과를 사용
+    const structuredAnalysis = documentAnalysis || contractAnalysis || (contractText ? clauseAnalyzer.analyze(contractText) : null);
+
+    if (!contractSummary || (!analysisResults && !structuredAnalysis) || !userSelectedRisks || !contractType) {
       return res.status(400).json({
         success: false,
         error: 'Missing required fields'
@@ -120,7 +152,9 @@ export default async function handler(
 
     // Sanitize inputs
     const sanitizedSummary = sanitizeInput(contractSummary);
-    const sanitizedAnalysis = sanitizeInput(analysisResults);
+    const sanitizedAnalysis = structuredAnalysis
+      ? sanitizeInput(summarizeAnalysis(structuredAnalysis))
+      : sanitizeInput(analysisResults as string);
     const sanitizedContractType = sanitizeInput(contractType);
     const sanitizedRisks = userSelectedRisks.map(risk => sanitizeInput(risk));
 
@@ -152,12 +186,13 @@ ${sanitizedRisks.join(', ')}
         requestType: 'strategic-report',
         contractType: sanitizedContractType,
         language,
-        userId: req.body.userId
+        userId: entitlement.email
       },
       {
         temperature: 0.7,
         maxTokens: 4000,
-        customTTL: 24 * 60 * 60 * 1000 // 24 hours cache
+        customTTL: 24 * 60 * 60 * 1000, // 24 hours cache
+        usage: { userId: entitlement.email, feature: 'strategic_report' }
       }
     );
 
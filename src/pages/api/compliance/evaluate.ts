@@ -0,0 +1,66 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '../../../features/auth/authOptions';
+import { complianceRuleEngine } from '@/services/compliance-rule-engine';
+import { clauseAnalyzer } from '@/services/clause-analyzer';
+import { documentStore } from '@/services/document-store';
+import { ComplianceEvaluation } from '@/types/compliance';
+
+interface ComplianceEvaluateRequest {
+  region: string;
+  text?: string;
+  documentId?: string;
+}
+
+interface ComplianceEvaluateResponse {
+  success: boolean;
+  data?: {
+    evaluation: ComplianceEvaluation;
+  };
+  error?: string;
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ComplianceEvaluateResponse>) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const session = await getServerSession(req, res, authOptions);
+    if (!session?.user?.email) {
+      return res.status(401).json({ success: false, error: 'Unauthorized' });
+    }
+
+    const { region, text, documentId }: ComplianceEvaluateRequest = req.body;
+
+    if (!region || typeof region !== 'string') {
+      return res.status(400).json({ success: false, error: 'Region is required' });
+    }
+
+    let contractText = text;
+    let analysis;
+    if (documentId) {
+      const document = await documentStore.get(documentId, session.user.email);
+      if (!document) {
+        return res.status(404).json({ success: false, error: 'Document not found' });
+      }
+      contractText = document.text;
+      analysis = document.analysis;
+    }
+
+    if (!contractText || typeof contractText !== 'string') {
+      return res.status(400).json({ success: false, error: 'text or documentId is required' });
+    }
+
+    const evaluation = complianceRuleEngine.evaluate(region, contractText, analysis || clauseAnalyzer.analyze(contractText));
+    if (!evaluation) {
+      return res.status(400).json({ success: false, error: `Unsupported region: ${region}` });
+    }
+
+    return res.status(200).json({ success: true, data: { evaluation } });
+
+  } catch (error) {
+    console.error('Compliance evaluation error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
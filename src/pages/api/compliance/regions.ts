@@ -0,0 +1,13 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { complianceRuleEngine } from '@/services/compliance-rule-engine';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  return res.status(200).json({
+    success: true,
+    data: { regions: complianceRuleEngine.listRegions() }
+  });
+}
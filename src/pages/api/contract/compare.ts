@@ -0,0 +1,73 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '../../../features/auth/authOptions';
+import { contractComparison } from '@/services/contract-comparison';
+import { documentStore } from '@/services/document-store';
+import { ContractAnalysis } from '@/types/contract-analysis';
+import {
+  ContractCompareRequest,
+  ContractCompareResponse,
+  ContractVersionInput
+} from '@/types/contract-comparison';
+
+const MAX_TEXT_LENGTH = 200000;
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ContractCompareResponse>) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const session = await getServerSession(req, res, authOptions);
+    if (!session?.user?.email) {
+      return res.status(401).json({ success: false, error: 'Unauthorized' });
+    }
+
+    const { original, revised }: ContractCompareRequest = req.body;
+
+    if (!original || !revised) {
+      return res.status(400).json({ success: false, error: 'Both original and revised versions are required' });
+    }
+
+    const originalVersion = await resolveVersion(original, session.user.email);
+    const revisedVersion = await resolveVersion(revised, session.user.email);
+
+    if (typeof originalVersion === 'object' && 'error' in originalVersion) {
+      return res.status(originalVersion.status).json({ success: false, error: `original: ${originalVersion.error}` });
+    }
+    if (typeof revisedVersion === 'object' && 'error' in revisedVersion) {
+      return res.status(revisedVersion.status).json({ success: false, error: `revised: ${revisedVersion.error}` });
+    }
+
+    const comparison = contractComparison.compare(originalVersion, revisedVersion);
+
+    return res.status(200).json({
+      success: true,
+      data: { comparison }
+    });
+
+  } catch (error) {
+    console.error('Contract comparison error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
+
+async function resolveVersion(
+  input: ContractVersionInput,
+  userId: string
+): Promise<string | ContractAnalysis | { error: string; status: number }> {
+  if (input.documentId) {
+    const document = await documentStore.get(input.documentId, userId);
+    return document ? document.analysis : { error: 'Document not found', status: 404 };
+  }
+
+  if (typeof input.text !== 'string' || !input.text.trim()) {
+    return { error: 'documentId or text is required', status: 400 };
+  }
+
+  if (input.text.length > MAX_TEXT_LENGTH) {
+    return { error: 'Text too long', status: 400 };
+  }
+
+  return input.text;
+}
@@ -1,89 +1,9 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '../../../features/auth/authOptions';
-
-interface ContractTemplate {
-  id: string;
-  name: string;
-  prompt: string;
-}
-
-const contractTemplates: ContractTemplate[] = [
-  {
-    id: 'freelancer',
-    name: '프리랜서 계약서',
-    prompt: `다음 정보를 바탕으로 프리랜서 계약서를 작성해주세요:
-
-클라이언트: {clientName}
-프리랜서: {freelancerName}
-프로젝트 내용: {projectDescription}
-계약 금액: {amount}원
-계약 기간: {startDate} ~ {endDate}
-지급 조건: {paymentTerms}
-
-이 계약서는 한국 법률에 따라 작성되어야 하며, 다음 항목들을 포함해야 합니다:
-- 계약 당사자 정보
-- 업무 내용 및 범위
-- 계약 기간
-- 대가 및 지급 조건
-- 지적재산권 귀속
-- 비밀유지 조항
-- 계약 해지 조건
-- 분쟁 해결 방법
-
-전문적이고 법적 구속력이 있는 계약서 형태로 작성해주세요.`
-  },
-  {
-    id: 'employment',
-    name: '근로 계약서',
-    prompt: `다음 정보를 바탕으로 근로 계약서를 작성해주세요:
-
-회사명: {companyName}
-근로자명: {employeeName}
-직위: {position}
-급여: {salary}원
-근무 시작일: {startDate}
-근무지: {workLocation}
-근무시간: {workHours}
-
-이 계약서는 근로기준법에 따라 작성되어야 하며, 다음 항목들을 포함해야 합니다:
-- 계약 당사자 정보
-- 근무 장소 및 업무 내용
-- 근무 시간
-- 임금 및 지급 방법
-- 휴게 시간
-- 휴일 및 휴가
-- 사회보험 가입
-- 계약 해지 조건
-- 기타 근로 조건
-
-근로기준법에 부합하는 전문적인 근로 계약서 형태로 작성해주세요.`
-  },
-  {
-    id: 'nda',
-    name: '비밀유지 계약서',
-    prompt: `다음 정보를 바탕으로 비밀유지 계약서를 작성해주세요:
-
-정보 제공자: {disclosingParty}
-정보 수신자: {receivingParty}
-정보 제공 목적: {purposeOfDisclosure}
-비밀유지 기간: {confidentialityPeriod}
-위약금: {penaltyAmount}원
-
-이 계약서는 다음 항목들을 포함해야 합니다:
-- 계약 당사자 정보
-- 기밀 정보의 정의
-- 비밀유지 의무
-- 기밀 정보 사용 제한
-- 기밀 정보 반환 의무
-- 비밀유지 기간
-- 위반 시 손해배상
-- 계약 해지 조건
-- 분쟁 해결 방법
-
-법적 구속력이 있는 전문적인 비밀유지 계약서 형태로 작성해주세요.`
-  }
-];
+import { contractTemplateRegistry } from '../../../services/contract-template-registry';
+import { aiProviders } from '../../../services/ai-provider-registry';
+import { requireEntitlement } from '../../../lib/auth/entitlement';
+import { requireOrgPermission } from '../../../lib/auth/rbac';
+import { organizationService } from '../../../services/organization-service';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
@@ -91,40 +11,72 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 
   try {
-    const session = await getServerSession(req, res, authOptions);
-    if (!session) {
-      return res.status(401).json({ message: 'Unauthorized' });
-    }
+    const entitlement = await requireEntitlement(req, res, {
+      feature: 'contractGeneration',
+      featureName: '계약서 생성'
+    });
+    if (!entitlement) return;
+    const { email } = entitlement;
 
-    const { templateId, formData } = req.body;
+    const { templateId, formData, version, jurisdiction, language, organizationId } = req.body;
 
     if (!templateId || !formData) {
       return res.status(400).json({ message: 'Template ID and form data are required' });
     }
 
-    const template = contractTemplates.find(t => t.id === templateId);
+    // 워크스페이스에 공유하려면 AI를 호출하기 전에 공유 권한부터 확인한다
+    const workspace = organizationId ? await requireOrgPermission(req, res, organizationId, 'resources:share') : null;
+    if (organizationId && !workspace) return;
+
+    const template = contractTemplateRegistry.resolve(templateId, { version, jurisdiction, language });
     if (!template) {
       return res.status(400).json({ message: 'Invalid template ID' });
     }
 
-    // 템플릿 프롬프트에 사용자 데이터 삽입
-    let prompt = template.prompt;
-    Object.entries(formData).forEach(([key, value]) => {
-      prompt = prompt.replace(new RegExp(`{${key}}`, 'g'), value as string);
-    });
+    const parsed = contractTemplateRegistry.buildSchema(template).safeParse(formData);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: 'Invalid form data',
+        fieldErrors: parsed.error.flatten().fieldErrors
+      });
+    }
+
+    // 템플릿 프롬프트에 검증된 입력값 삽입
+    const prompt = contractTemplateRegistry.render(template, parsed.data);
 
     // AI 모델을 사용하여 계약서 생성
-    const aiResponse = await generateContractWithAI(prompt);
+    const aiResponse = await generateContractWithAI(prompt, email);
 
     // 사용자 액션 로깅
-    await logUserAction(session.user?.email || 'unknown', 'contract_generated', {
+    await logUserAction(email, 'contract_generated', {
       templateId,
+      templateVersion: template.version,
+      jurisdiction: template.jurisdiction,
+      language: template.language,
       timestamp: new Date().toISOString()
     });
 
+    const shared = workspace
+      ? await organizationService.shareResource(workspace.organization.id, workspace.member, {
+        type: 'contract',
+        title: template.name,
+        content: {
+          contract: aiResponse,
+          templateId,
+          templateVersion: template.version,
+          jurisdiction: template.jurisdiction,
+          language: template.language
+        }
+      })
+      : null;
+
     res.status(200).json({
       contract: aiResponse,
-      templateName: template.name
+      templateName: template.name,
+      templateVersion: template.version,
+      jurisdiction: template.jurisdiction,
+      language: template.language,
+      sharedResourceId: shared?.id
     });
 
   } catch (error) {
@@ -133,56 +85,19 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 }
 
-async function generateContractWithAI(prompt: string): Promise<string> {
+async function generateContractWithAI(prompt: string, email: string): Promise<string> {
   try {
-    // Claude API 사용
-    const { Anthropic } = await import('@anthropic-ai/sdk');
-    const anthropic = new Anthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY,
-    });
-
-    const response = await anthropic.messages.create({
-      model: "claude-3-sonnet-20240229",
-      max_tokens: 4000,
+    // Claude 실패 시 OpenAI로 전환
+    const result = await aiProviders.generateWithFallback(['claude', 'openai'], {
+      prompt,
+      maxTokens: 4000,
       temperature: 0.3,
-      messages: [
-        {
-          role: "user",
-          content: prompt
-        }
-      ]
+      usage: { userId: email, feature: 'contract_generation' }
     });
-
-    return response.content[0].type === 'text' ? response.content[0].text : '';
-
+    return result.text;
   } catch (error) {
     console.error('AI generation error:', error);
-    
-    // Fallback to OpenAI if Claude fails
-    try {
-      const { OpenAI } = await import('openai');
-      const openai = new OpenAI({
-        apiKey: process.env.OPENAI_API_KEY,
-      });
-
-      const response = await openai.chat.completions.create({
-        model: "gpt-4",
-        messages: [
-          {
-            role: "user",
-            content: prompt
-          }
-        ],
-        max_tokens: 4000,
-        temperature: 0.3
-      });
-
-      return response.choices[0].message.content || '';
-
-    } catch (openaiError) {
-      console.error('OpenAI fallback error:', openaiError);
-      throw new Error('AI service unavailable');
-    }
+    throw new Error('AI service unavailable');
   }
 }
 
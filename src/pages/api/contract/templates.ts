@@ -0,0 +1,21 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { contractTemplateRegistry } from '@/services/contract-template-registry';
+import { ContractTemplatesResponse } from '@/types/contract-template';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ContractTemplatesResponse>) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const { jurisdiction, language } = req.query;
+
+  return res.status(200).json({
+    success: true,
+    data: {
+      templates: contractTemplateRegistry.list({
+        jurisdiction: typeof jurisdiction === 'string' ? jurisdiction : undefined,
+        language: typeof language === 'string' ? language : undefined
+      })
+    }
+  });
+}
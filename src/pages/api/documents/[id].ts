@@ -0,0 +1,43 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '../../../features/auth/authOptions';
+import { documentStore } from '@/services/document-store';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { id } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ success: false, error: 'Document ID is required' });
+  }
+
+  try {
+    const session = await getServerSession(req, res, authOptions);
+    if (!session?.user?.email) {
+      return res.status(401).json({ success: false, error: 'Unauthorized' });
+    }
+
+    switch (req.method) {
+      case 'GET': {
+        const document = await documentStore.get(id, session.user.email);
+        if (!document) {
+          return res.status(404).json({ success: false, error: 'Document not found' });
+        }
+        return res.status(200).json({ success: true, data: { document } });
+      }
+
+      case 'DELETE': {
+        const deleted = await documentStore.delete(id, session.user.email);
+        if (!deleted) {
+          return res.status(404).json({ success: false, error: 'Document not found' });
+        }
+        return res.status(200).json({ success: true });
+      }
+
+      default:
+        return res.status(405).json({ success: false, error: 'Method not allowed' });
+    }
+  } catch (error) {
+    console.error('Document API error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
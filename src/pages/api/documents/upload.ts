@@ -0,0 +1,80 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '../../../features/auth/authOptions';
+import { documentIngestion, MAX_DOCUMENT_SIZE } from '@/services/document-ingestion';
+import { toDocumentSummary } from '@/services/document-store';
+import { DocumentUploadResponse } from '@/types/document';
+import { readRawBody } from '@/utils/readRawBody';
+
+// 파일은 multipart가 아닌 원본 바이너리로 전송한다 (파일명은 X-File-Name 헤더)
+export const config = {
+  api: {
+    bodyParser: false,
+  },
+};
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse<DocumentUploadResponse>) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const session = await getServerSession(req, res, authOptions);
+    if (!session?.user?.email) {
+      return res.status(401).json({ success: false, error: 'Unauthorized' });
+    }
+
+    const rawFileName = req.headers['x-file-name'];
+    let fileName = '';
+    try {
+      fileName = typeof rawFileName === 'string' ? decodeURIComponent(rawFileName) : '';
+    } catch {
+      // 퍼센트 인코딩이 깨진 헤더(예: %E0%A4%A)는 서버 오류가 아니라 잘못된 요청이다
+      return res.status(400).json({ success: false, error: 'Invalid file name' });
+    }
+    const mimeType = (req.headers['content-type'] || '').split(';')[0].trim();
+
+    if (!fileName) {
+      return res.status(400).json({ success: false, error: 'X-File-Name header is required' });
+    }
+
+    if (!documentIngestion.detectFormat(fileName, mimeType)) {
+      return res.status(415).json({ success: false, error: 'PDF, DOCX, HWP 텍스트, TXT 파일만 지원됩니다.' });
+    }
+
+    const buffer = await readRawBody(req, MAX_DOCUMENT_SIZE);
+    if (!buffer) {
+      return res.status(413).json({ success: false, error: '파일 크기는 10MB 이하로 제한됩니다.' });
+    }
+    if (buffer.length === 0) {
+      return res.status(400).json({ success: false, error: 'Empty file' });
+    }
+
+    let document;
+    try {
+      document = await documentIngestion.ingest({
+        buffer,
+        fileName,
+        mimeType,
+        userId: session.user.email
+      });
+    } catch (extractionError) {
+      console.error('Document extraction error:', extractionError);
+      return res.status(422).json({
+        success: false,
+        error: extractionError instanceof Error ? extractionError.message : 'Failed to extract document'
+      });
+    }
+
+    return res.status(201).json({
+      success: true,
+      data: {
+        document: toDocumentSummary(document)
+      }
+    });
+
+  } catch (error) {
+    console.error('Document upload error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
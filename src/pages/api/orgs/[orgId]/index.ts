@@ -0,0 +1,44 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireOrgPermission } from '@/lib/auth/rbac';
+import { ORGANIZATION_ERROR_STATUS, OrganizationError } from '@/lib/auth/organization-errors';
+import { organizationService } from '@/services/organization-service';
+import { Organization, OrganizationDetail } from '@/types/organization';
+
+interface OrganizationResponse {
+  success: boolean;
+  data?: OrganizationDetail | Organization;
+  error?: string;
+  code?: string;
+}
+
+/**
+ * 워크스페이스 상세(GET: 멤버, 좌석, 관리자에게는 대기 중인 초대까지)와 이름 변경(PATCH, 소유자만).
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<OrganizationResponse>) {
+  try {
+    switch (req.method) {
+      case 'GET': {
+        const access = await requireOrgPermission(req, res, req.query.orgId, 'resources:read');
+        if (!access) return;
+        return res.status(200).json({
+          success: true,
+          data: await organizationService.getDetail(access.organization, access.member)
+        });
+      }
+      case 'PATCH': {
+        const access = await requireOrgPermission(req, res, req.query.orgId, 'organization:manage');
+        if (!access) return;
+        const organization = await organizationService.renameOrganization(access.organization.id, req.body?.name);
+        return res.status(200).json({ success: true, data: organization });
+      }
+      default:
+        return res.status(405).json({ success: false, error: 'Method not allowed' });
+    }
+  } catch (error) {
+    if (error instanceof OrganizationError) {
+      return res.status(ORGANIZATION_ERROR_STATUS[error.code]).json({ success: false, error: error.message, code: error.code });
+    }
+    console.error('Organization API error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to process organization request' });
+  }
+}
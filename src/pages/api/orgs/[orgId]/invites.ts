@@ -0,0 +1,47 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireOrgPermission } from '@/lib/auth/rbac';
+import { ORGANIZATION_ERROR_STATUS, OrganizationError } from '@/lib/auth/organization-errors';
+import { organizationService } from '@/services/organization-service';
+import { OrganizationInvite } from '@/types/organization';
+
+interface InvitesResponse {
+  success: boolean;
+  data?: Omit<OrganizationInvite, 'tokenHash'>;
+  error?: string;
+  code?: string;
+}
+
+/**
+ * 이메일 초대(POST { email, role })와 초대 취소(DELETE ?inviteId=). 멤버 관리 권한이 필요하다.
+ * 남은 좌석이 없으면 402 NO_SEATS를 돌려준다.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<InvitesResponse>) {
+  try {
+    const access = await requireOrgPermission(req, res, req.query.orgId, 'members:manage');
+    if (!access) return;
+
+    switch (req.method) {
+      case 'POST': {
+        const { email, role } = req.body || {};
+        const invite = await organizationService.invite(access.organization, access.member, email, role);
+        return res.status(201).json({ success: true, data: invite });
+      }
+      case 'DELETE': {
+        const { inviteId } = req.query;
+        if (typeof inviteId !== 'string' || !inviteId) {
+          return res.status(400).json({ success: false, error: 'inviteId is required' });
+        }
+        await organizationService.revokeInvite(access.organization.id, inviteId);
+        return res.status(200).json({ success: true });
+      }
+      default:
+        return res.status(405).json({ success: false, error: 'Method not allowed' });
+    }
+  } catch (error) {
+    if (error instanceof OrganizationError) {
+      return res.status(ORGANIZATION_ERROR_STATUS[error.code]).json({ success: false, error: error.message, code: error.code });
+    }
+    console.error('Organization invites API error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to process invite' });
+  }
+}
@@ -0,0 +1,53 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireOrgPermission } from '@/lib/auth/rbac';
+import { ORGANIZATION_ERROR_STATUS, OrganizationError } from '@/lib/auth/organization-errors';
+import { organizationService } from '@/services/organization-service';
+import { OrganizationMember } from '@/types/organization';
+
+interface MembersResponse {
+  success: boolean;
+  data?: OrganizationMember;
+  error?: string;
+  code?: string;
+}
+
+/**
+ * 멤버 역할 변경(PUT { userId, role })과 내보내기(DELETE ?userId=).
+ * 역할 변경은 멤버 관리 권한이 필요하고, 내보내기는 자기 자신이면 누구나 할 수 있다(워크스페이스 나가기).
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<MembersResponse>) {
+  try {
+    switch (req.method) {
+      case 'PUT': {
+        const access = await requireOrgPermission(req, res, req.query.orgId, 'members:manage');
+        if (!access) return;
+
+        const { userId, role } = req.body || {};
+        if (typeof userId !== 'string' || !userId) {
+          return res.status(400).json({ success: false, error: 'userId is required' });
+        }
+        const member = await organizationService.changeMemberRole(access.organization.id, userId, role);
+        return res.status(200).json({ success: true, data: member });
+      }
+      case 'DELETE': {
+        const access = await requireOrgPermission(req, res, req.query.orgId, 'resources:read');
+        if (!access) return;
+
+        const { userId } = req.query;
+        if (typeof userId !== 'string' || !userId) {
+          return res.status(400).json({ success: false, error: 'userId is required' });
+        }
+        await organizationService.removeMember(access.organization.id, access.member, userId);
+        return res.status(200).json({ success: true });
+      }
+      default:
+        return res.status(405).json({ success: false, error: 'Method not allowed' });
+    }
+  } catch (error) {
+    if (error instanceof OrganizationError) {
+      return res.status(ORGANIZATION_ERROR_STATUS[error.code]).json({ success: false, error: error.message, code: error.code });
+    }
+    console.error('Organization members API error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to update organization members' });
+  }
+}
@@ -0,0 +1,58 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireOrgPermission } from '@/lib/auth/rbac';
+import { ORGANIZATION_ERROR_STATUS, OrganizationError } from '@/lib/auth/organization-errors';
+import { organizationService } from '@/services/organization-service';
+import { SharedResource } from '@/types/organization';
+
+interface ResourcesResponse {
+  success: boolean;
+  data?: SharedResource[] | SharedResource;
+  error?: string;
+  code?: string;
+}
+
+/**
+ * 워크스페이스 공유 자료(계약서, 전략 로그, 북마크).
+ * - GET ?type=: 멤버 누구나 본다
+ * - POST { type, title, content, sourceId }: 편집자 이상이 공유한다
+ * - DELETE ?id=: 자기가 공유한 자료, 또는 관리자 이상이면 모든 자료를 지운다
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ResourcesResponse>) {
+  try {
+    switch (req.method) {
+      case 'GET': {
+        const access = await requireOrgPermission(req, res, req.query.orgId, 'resources:read');
+        if (!access) return;
+        return res.status(200).json({
+          success: true,
+          data: await organizationService.listResources(access.organization.id, req.query.type)
+        });
+      }
+      case 'POST': {
+        const access = await requireOrgPermission(req, res, req.query.orgId, 'resources:share');
+        if (!access) return;
+        const resource = await organizationService.shareResource(access.organization.id, access.member, req.body || {});
+        return res.status(201).json({ success: true, data: resource });
+      }
+      case 'DELETE': {
+        const access = await requireOrgPermission(req, res, req.query.orgId, 'resources:share');
+        if (!access) return;
+
+        const { id } = req.query;
+        if (typeof id !== 'string' || !id) {
+          return res.status(400).json({ success: false, error: 'id is required' });
+        }
+        await organizationService.deleteResource(access.organization.id, access.member, id);
+        return res.status(200).json({ success: true });
+      }
+      default:
+        return res.status(405).json({ success: false, error: 'Method not allowed' });
+    }
+  } catch (error) {
+    if (error instanceof OrganizationError) {
+      return res.status(ORGANIZATION_ERROR_STATUS[error.code]).json({ success: false, error: error.message, code: error.code });
+    }
+    console.error('Organization resources API error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to process shared resources' });
+  }
+}
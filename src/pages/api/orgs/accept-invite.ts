@@ -0,0 +1,35 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireRole } from '@/lib/auth/rbac';
+import { USER_ROLES } from '@/lib/auth/roles';
+import { ORGANIZATION_ERROR_STATUS, OrganizationError } from '@/lib/auth/organization-errors';
+import { organizationService } from '@/services/organization-service';
+
+interface AcceptInviteResponse {
+  success: boolean;
+  data?: { organizationId: string; name: string };
+  error?: string;
+  code?: string;
+}
+
+/**
+ * 초대 수락(POST { token }). 초대 메일의 링크는 /workspace?invite=<token>으로 열리고, 로그인한 뒤 화면에서 이 API를 부른다.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<AcceptInviteResponse>) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const user = await requireRole(req, res, USER_ROLES);
+    if (!user) return;
+
+    const organization = await organizationService.acceptInvite(req.body?.token, { id: user.userId, email: user.email });
+    return res.status(200).json({ success: true, data: { organizationId: organization.id, name: organization.name } });
+  } catch (error) {
+    if (error instanceof OrganizationError) {
+      return res.status(ORGANIZATION_ERROR_STATUS[error.code]).json({ success: false, error: error.message, code: error.code });
+    }
+    console.error('Accept invite error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to accept invite' });
+  }
+}
@@ -0,0 +1,52 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireRole } from '@/lib/auth/rbac';
+import { USER_ROLES } from '@/lib/auth/roles';
+import { requireEntitlement } from '@/lib/auth/entitlement';
+import { ORGANIZATION_ERROR_STATUS, OrganizationError } from '@/lib/auth/organization-errors';
+import { organizationService } from '@/services/organization-service';
+import { Organization, OrganizationSummary } from '@/types/organization';
+
+interface OrganizationsResponse {
+  success: boolean;
+  data?: OrganizationSummary[] | Organization;
+  error?: string;
+  code?: string;
+}
+
+/**
+ * 내 워크스페이스 목록(GET)과 새 워크스페이스 만들기(POST).
+ * 만들기는 팀 워크스페이스가 포함된 플랜에서만 되고, 아니면 업셀 안내와 함께 403을 돌려준다.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<OrganizationsResponse>) {
+  try {
+    switch (req.method) {
+      case 'GET': {
+        const user = await requireRole(req, res, USER_ROLES);
+        if (!user) return;
+        return res.status(200).json({ success: true, data: await organizationService.listForUser(user.userId) });
+      }
+      case 'POST': {
+        const entitlement = await requireEntitlement(req, res, {
+          feature: 'teamWorkspace',
+          featureName: '팀 워크스페이스',
+          checkQuota: false
+        });
+        if (!entitlement) return;
+
+        const organization = await organizationService.createOrganization(
+          { id: entitlement.plan.userId, email: entitlement.email },
+          req.body?.name
+        );
+        return res.status(201).json({ success: true, data: organization });
+      }
+      default:
+        return res.status(405).json({ success: false, error: 'Method not allowed' });
+    }
+  } catch (error) {
+    if (error instanceof OrganizationError) {
+      return res.status(ORGANIZATION_ERROR_STATUS[error.code]).json({ success: false, error: error.message, code: error.code });
+    }
+    console.error('Organizations API error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to process organization request' });
+  }
+}
@@ -1,26 +1,61 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import Stripe from 'stripe';
+import { requireRole } from '@/lib/auth/rbac';
+import { USER_ROLES } from '@/lib/auth/roles';
+import { BILLING_ERROR_STATUS, BillingError } from '@/lib/payment/billing-errors';
+import { isBillingInterval, isPaidPlanId } from '@/lib/payment/plan-prices';
+import { paymentProviders } from '@/services/payment-provider-registry';
+import { promoCodes } from '@/services/promo-code-service';
+import { userRepository } from '@/services/user-repository';
+import { CheckoutResult } from '@/types/billing';
 
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
-  apiVersion: '2022-11-15'
-});
-
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
-  const { contractType } = req.body;
+interface CheckoutResponse {
+  success: boolean;
+  data?: CheckoutResult;
+  error?: string;
+  code?: string;
+}
 
-  if (!contractType?.stripePriceId) {
-    return res.status(400).json({ error: 'stripePriceId 누락' });
+/**
+ * 구독 결제 시작(POST { plan: 'basic' | 'pro' | 'enterprise', interval: 'monthly' | 'yearly', currency?: 'USD' | 'KRW', provider?, promoCode? }).
+ * 결제사는 paymentProviders가 통화로 고른다. 달러는 Stripe 결제 화면 URL(이미 구독 중이면 일할 계산한 변경 결과)을,
+ * 원화는 클라이언트가 Toss 결제창에 넘길 값을 돌려준다. promoCode가 있으면 결제사 통화로 할인을 계산해 사용 한도를 잡아 둔다.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<CheckoutResponse>) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
   }
 
-  const session = await stripe.checkout.sessions.create({
-    mode: 'payment',
-    line_items: [{
-      price: contractType.stripePriceId,
-      quantity: 1
-    }],
-    success_url: \`\${req.headers.origin}/success\`,
-    cancel_url: \`\${req.headers.origin}/cancel\`
-  });
+  try {
+    const account = await requireRole(req, res, USER_ROLES);
+    if (!account) return;
+
+    const user = await userRepository.findUserById(account.userId);
+    if (!user) {
+      return res.status(404).json({ success: false, error: 'User not found' });
+    }
 
-  res.status(200).json({ id: session.id });
+    const { plan, interval = 'monthly', currency, provider, promoCode } = req.body || {};
+    if (!isPaidPlanId(plan) || !isBillingInterval(interval)) {
+      throw new BillingError('INVALID_PLAN');
+    }
+
+    const paymentProvider = await paymentProviders.resolveForCheckout(user, { provider, currency });
+    const discount = promoCode
+      ? await promoCodes.reserve(user, paymentProvider.id, promoCode, plan, interval, paymentProvider.currency)
+      : undefined;
+    try {
+      const result = await paymentProvider.createCheckout(user, plan, interval, discount);
+      return res.status(200).json({ success: true, data: result });
+    } catch (error) {
+      // 결제 화면을 만들지 못했으면 잡아 둔 사용 한도를 돌려준다
+      if (discount) await promoCodes.release(discount.redemptionId);
+      throw error;
+    }
+  } catch (error) {
+    if (error instanceof BillingError) {
+      return res.status(BILLING_ERROR_STATUS[error.code]).json({ success: false, error: error.message, code: error.code });
+    }
+    console.error('Checkout session error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to create checkout session' });
+  }
 }
@@ -0,0 +1,41 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireRole } from '@/lib/auth/rbac';
+import { USER_ROLES } from '@/lib/auth/roles';
+import { BILLING_ERROR_STATUS, BillingError } from '@/lib/payment/billing-errors';
+import { stripeBilling } from '@/services/stripe-billing';
+import { userRepository } from '@/services/user-repository';
+
+interface PortalResponse {
+  success: boolean;
+  data?: { url: string };
+  error?: string;
+  code?: string;
+}
+
+/**
+ * Stripe 고객 포털 링크(POST). 결제 수단 변경, 청구서 내려받기, 구독 해지를 포털에서 한다.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<PortalResponse>) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const account = await requireRole(req, res, USER_ROLES);
+    if (!account) return;
+
+    const user = await userRepository.findUserById(account.userId);
+    if (!user) {
+      return res.status(404).json({ success: false, error: 'User not found' });
+    }
+
+    const url = await stripeBilling.createPortalSession(user);
+    return res.status(200).json({ success: true, data: { url } });
+  } catch (error) {
+    if (error instanceof BillingError) {
+      return res.status(BILLING_ERROR_STATUS[error.code]).json({ success: false, error: error.message, code: error.code });
+    }
+    console.error('Billing portal error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to open billing portal' });
+  }
+}
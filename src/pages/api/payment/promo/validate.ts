@@ -0,0 +1,46 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireRole } from '@/lib/auth/rbac';
+import { USER_ROLES } from '@/lib/auth/roles';
+import { BILLING_ERROR_STATUS, BillingError } from '@/lib/payment/billing-errors';
+import { paymentProviders } from '@/services/payment-provider-registry';
+import { promoCodes } from '@/services/promo-code-service';
+import { userRepository } from '@/services/user-repository';
+import { AppliedDiscount } from '@/types/promotion';
+
+interface ValidatePromoResponse {
+  success: boolean;
+  data?: AppliedDiscount;
+  error?: string;
+  code?: string;
+}
+
+/**
+ * 프로모션 코드 미리보기(POST { code, plan, interval, currency?, provider? }). 결제할 결제사의 통화로 할인 금액을 계산한다.
+ * 사용 한도는 잡지 않고, 결제를 시작할 때(create-checkout-session) 다시 확인한다.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ValidatePromoResponse>) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const account = await requireRole(req, res, USER_ROLES);
+    if (!account) return;
+
+    const user = await userRepository.findUserById(account.userId);
+    if (!user) {
+      return res.status(404).json({ success: false, error: 'User not found' });
+    }
+
+    const { code, plan, interval = 'monthly', currency, provider } = req.body || {};
+    const paymentProvider = await paymentProviders.resolveForCheckout(user, { provider, currency });
+    const discount = await promoCodes.quote(user, code, plan, interval, paymentProvider.currency);
+    return res.status(200).json({ success: true, data: discount });
+  } catch (error) {
+    if (error instanceof BillingError) {
+      return res.status(BILLING_ERROR_STATUS[error.code]).json({ success: false, error: error.message, code: error.code });
+    }
+    console.error('Promo validation error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to validate promo code' });
+  }
+}
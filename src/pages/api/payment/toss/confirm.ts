@@ -0,0 +1,44 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireRole } from '@/lib/auth/rbac';
+import { USER_ROLES } from '@/lib/auth/roles';
+import { BILLING_ERROR_STATUS, BillingError } from '@/lib/payment/billing-errors';
+import { tossPayments } from '@/services/toss-payments';
+import { userRepository } from '@/services/user-repository';
+import { TossConfirmResult } from '@/types/billing';
+
+interface TossConfirmResponse {
+  success: boolean;
+  data?: TossConfirmResult;
+  error?: string;
+  code?: string;
+}
+
+/**
+ * Toss 결제 승인(POST { paymentKey, orderId, amount }). 결제창 successUrl로 돌아온 쿼리를 그대로 넘긴다.
+ * 가상계좌는 status가 waiting_for_deposit이고, 입금되면 웹훅으로 플랜이 바뀐다.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<TossConfirmResponse>) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const account = await requireRole(req, res, USER_ROLES);
+    if (!account) return;
+
+    const user = await userRepository.findUserById(account.userId);
+    if (!user) {
+      return res.status(404).json({ success: false, error: 'User not found' });
+    }
+
+    const { paymentKey, orderId, amount } = req.body || {};
+    const result = await tossPayments.confirmPayment(user, paymentKey, orderId, amount);
+    return res.status(200).json({ success: true, data: result });
+  } catch (error) {
+    if (error instanceof BillingError) {
+      return res.status(BILLING_ERROR_STATUS[error.code]).json({ success: false, error: error.message, code: error.code });
+    }
+    console.error('Toss confirm error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to confirm Toss payment' });
+  }
+}
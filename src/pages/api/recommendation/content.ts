@@ -1,12 +1,9 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '../auth/authOptions';
+import { requireEntitlement } from '../../../lib/auth/entitlement';
 import { logUserAction } from '../../../lib/logUserAction';
-import callOpenAI from '../../../lib/ai/callOpenAI';
-import callGemini from '../../../lib/ai/callGemini';
+import { aiProviders } from '../../../services/ai-provider-registry';
 
 interface ContentRecommendationRequest {
-  userId: string;
   recentDocs: string[];
   preferredTopics: string[];
   interactionHistory?: {
@@ -46,14 +43,13 @@ export default async function handler(
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
+  let userId = 'anonymous';
   try {
-    const session = await getServerSession(req, res, authOptions);
-    if (!session?.user) {
-      return res.status(401).json({ error: 'Authentication required' });
-    }
+    const entitlement = await requireEntitlement(req, res, { featureName: '맞춤 콘텐츠 추천' });
+    if (!entitlement) return;
+    userId = entitlement.email;
 
     const {
-      userId,
       recentDocs,
       preferredTopics,
       interactionHistory
@@ -62,7 +58,7 @@ export default async function handler(
     await logUserAction({
       type: 'PAGE_VIEW',
       page: 'recommendation-api',
-      userId: session.user.email || userId,
+      userId,
       metadata: { 
         recentDocsCount: recentDocs?.length || 0,
         topicsCount: preferredTopics?.length || 0 
@@ -114,13 +110,11 @@ export default async function handler(
 5-8개의 고품질 추천을 제공하되, 관련성과 다양성의 균형을 맞춰주세요.
 `;
 
-    let aiResponse;
-    try {
-      aiResponse = await callOpenAI(aiPrompt);
-    } catch (openaiError) {
-      console.log('OpenAI 실패, Gemini로 전환:', openaiError);
-      aiResponse = await callGemini(aiPrompt);
-    }
+    // OpenAI 실패 시 Gemini로 전환
+    const { text: aiResponse } = await aiProviders.generateWithFallback(['openai', 'gemini'], {
+      prompt: aiPrompt,
+      usage: { userId, feature: 'recommendation' }
+    });
 
     let parsedResponse: ContentRecommendationResponse;
     try {
@@ -166,7 +160,7 @@ export default async function handler(
     await logUserAction({
       type: 'DOCUMENT_GENERATED',
       page: 'content-recommendation',
-      userId: session.user.email || userId,
+      userId,
       metadata: { 
         recommendationCount: parsedResponse.recommendations.length,
         avgRelevanceScore: parsedResponse.recommendations.reduce((acc, rec) => acc + rec.relevanceScore, 0) / parsedResponse.recommendations.length
@@ -181,7 +175,7 @@ export default async function handler(
     await logUserAction({
       type: 'CTA_CLICK',
       page: 'recommendation-error',
-      userId: req.body?.userId || 'anonymous',
+      userId,
       metadata: { error: error instanceof Error ? error.message : 'Unknown error' }
     });
 
@@ -1,30 +1,11 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '../../features/auth/authOptions';
+import { requireRole } from '@/lib/auth/rbac';
 import { getSeoCacheStats, clearSeoCache, cleanupCache } from '../../../lib/cache/seoCache';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   try {
-    // Check authentication for admin-only endpoint
-    const session = await getServerSession(req, res, authOptions);
-    
-    if (!session?.user?.email) {
-      return res.status(401).json({ 
-        error: 'Authentication required',
-        message: 'Please sign in to access cache statistics'
-      });
-    }
-
-    // Check if user is admin
-    const isAdmin = session.user.email.includes('admin') || 
-                   session.user.email === 'developer@legalaisaas.com';
-    
-    if (!isAdmin) {
-      return res.status(403).json({ 
-        error: 'Admin access required',
-        message: 'Only administrators can access cache statistics'
-      });
-    }
+    const admin = await requireRole(req, res);
+    if (!admin) return;
 
     switch (req.method) {
       case 'GET':
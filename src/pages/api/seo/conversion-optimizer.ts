@@ -1,7 +1,6 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '../../features/auth/authOptions';
-import { callClaudeAI } from '../../../services/claude-api';
+import { aiProviders } from '../../../services/ai-provider-registry';
+import { requireEntitlement } from '../../../lib/auth/entitlement';
 import fs from 'fs';
 import path from 'path';
 
@@ -237,16 +236,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 
   try {
-    const session = await getServerSession(req, res, authOptions);
-    
-    if (!session?.user?.email) {
-      return res.status(401).json({ 
-        error: 'Authentication required',
-        message: 'Please sign in to access conversion optimization'
-      });
-    }
+    const entitlement = await requireEntitlement(req, res, { featureName: '전환 최적화 제안' });
+    if (!entitlement) return;
 
-    console.log('🎯 Conversion optimization request from:', session.user.email);
+    console.log('🎯 Conversion optimization request from:', entitlement.email);
 
     // Analyze current conversion data
     const analysisData = await analyzeConversionData();
@@ -254,18 +247,15 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     // Generate AI recommendations
     const prompt = generateOptimizationPrompt(analysisData);
     
-    const aiResponse = await callClaudeAI({
+    const aiResponse = await aiProviders.generate('claude', {
       prompt,
       model: process.env.CLAUDE_MODEL || 'claude-3-sonnet-20240229',
       maxTokens: parseInt(process.env.CLAUDE_MAX_TOKENS || '4000'),
       temperature: parseFloat(process.env.CLAUDE_TEMPERATURE || '0.3'),
+      usage: { userId: entitlement.email, feature: 'seo' },
     });
 
-    if (!aiResponse.success || !aiResponse.data) {
-      throw new Error(aiResponse.error || 'AI response failed');
-    }
-
-    const optimization = parseOptimizationResponse(aiResponse.data);
+    const optimization = parseOptimizationResponse(aiResponse.text);
 
     console.log('✅ Conversion optimization completed:', {
       overallScore: optimization.overallScore,
@@ -282,7 +272,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           totalVisitors: analysisData.totalVisitors,
           overallConversionRate: analysisData.overallConversionRate
         } : null,
-        generatedBy: session.user.email,
+        generatedBy: entitlement.email,
       }
     });
 
@@ -1,6 +1,5 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '../../features/auth/authOptions';
+import { requireRole } from '@/lib/auth/rbac';
 import { crawlPage, isUrlCrawlable } from '../../../lib/seo/crawler';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
@@ -11,28 +10,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   const startTime = Date.now();
 
   try {
-    // Check authentication
-    const session = await getServerSession(req, res, authOptions);
-    
-    if (!session?.user?.email) {
-      return res.status(401).json({ 
-        error: 'Authentication required',
-        message: 'Please sign in to use the crawling service'
-      });
-    }
-
-    // Check if user is admin (for now, restrict to admins)
-    const isAdmin = session.user.email.includes('admin') || 
-                   session.user.email === 'developer@legalaisaas.com';
-    
-    if (!isAdmin) {
-      return res.status(403).json({ 
-        error: 'Admin access required',
-        message: 'Only administrators can use the crawling service'
-      });
-    }
+    const admin = await requireRole(req, res);
+    if (!admin) return;
 
-    console.log('🕷️ Crawl request from:', session.user.email);
+    console.log('🕷️ Crawl request from:', admin.email);
 
     const { url, options = {} } = req.body;
 
@@ -88,7 +69,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         meta: {
           executionTime,
           timestamp: new Date().toISOString(),
-          crawledBy: session.user.email,
+          crawledBy: admin.email,
         }
       });
     } else {
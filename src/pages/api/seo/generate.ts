@@ -1,7 +1,6 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '../../features/auth/authOptions';
-import { callClaudeAI } from '../../../services/claude-api';
+import { aiProviders } from '../../../services/ai-provider-registry';
+import { requireEntitlement } from '../../../lib/auth/entitlement';
 import { getSeoFromCache, saveSeoToCache } from '../../../lib/cache/seoCache';
 
 // SEO generation request interface
@@ -171,16 +170,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
   try {
     // Validate authentication for non-public endpoints
-    const session = await getServerSession(req, res, authOptions);
-    
-    if (!session?.user?.email) {
-      return res.status(401).json({ 
-        error: 'Authentication required',
-        message: 'Please sign in to use SEO generation'
-      });
-    }
+    const entitlement = await requireEntitlement(req, res, { featureName: 'AI SEO 생성' });
+    if (!entitlement) return;
 
-    console.log('🎯 SEO generation request from:', session.user.email);
+    console.log('🎯 SEO generation request from:', entitlement.email);
 
     // Validate and parse request data
     const requestData = validateSeoRequest(req.body);
@@ -221,19 +214,16 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       
       const prompt = generateSeoPrompt(requestData);
       
-      const aiResponse = await callClaudeAI({
+      const aiResponse = await aiProviders.generate('claude', {
         prompt,
         model: process.env.CLAUDE_MODEL || 'claude-3-sonnet-20240229',
         maxTokens: parseInt(process.env.CLAUDE_MAX_TOKENS || '4000'),
         temperature: parseFloat(process.env.CLAUDE_TEMPERATURE || '0.3'), // Lower temperature for more consistent SEO
+        usage: { userId: entitlement.email, feature: 'seo' },
       });
 
-      if (!aiResponse.success || !aiResponse.data) {
-        throw new Error(aiResponse.error || 'AI response failed');
-      }
-
       console.log('🔄 Parsing AI response...');
-      seoResult = parseSeoResponse(aiResponse.data);
+      seoResult = parseSeoResponse(aiResponse.text);
 
       // Save to cache if enabled
       if (requestData.useCache) {
@@ -1,5 +1,5 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { callClaudeAI } from '../../../services/claude-api';
+import { aiProviders } from '../../../services/ai-provider-registry';
 
 // Input interface as specified
 interface MetaGeneratorRequest {
@@ -110,18 +110,14 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
     const prompt = generateMetaPrompt({ title, content, locale });
     
-    const aiResponse = await callClaudeAI({
+    const aiResponse = await aiProviders.generate('claude', {
       prompt,
       model: process.env.CLAUDE_MODEL || 'claude-3-sonnet-20240229',
       maxTokens: parseInt(process.env.CLAUDE_MAX_TOKENS || '2000'),
       temperature: parseFloat(process.env.CLAUDE_TEMPERATURE || '0.3'),
     });
 
-    if (!aiResponse.success || !aiResponse.data) {
-      throw new Error(aiResponse.error || 'AI response failed');
-    }
-
-    const metaTags = parseMetaResponse(aiResponse.data);
+    const metaTags = parseMetaResponse(aiResponse.text);
 
     console.log('✅ Meta tag generation completed:', {
       titleLength: metaTags.metaTitle.length,
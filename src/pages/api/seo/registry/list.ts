@@ -1,6 +1,5 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '../../../features/auth/authOptions';
+import { requireRole } from '@/lib/auth/rbac';
 import { loadRegistryEntries, getRegistryStats, SeoRegistryFilter } from '../../../../lib/seo/registry';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
@@ -9,28 +8,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 
   try {
-    // Check authentication
-    const session = await getServerSession(req, res, authOptions);
-    
-    if (!session?.user?.email) {
-      return res.status(401).json({ 
-        error: 'Authentication required',
-        message: 'Please sign in to access SEO registry'
-      });
-    }
-
-    // Check if user is admin (for now, restrict to admins)
-    const isAdmin = session.user.email.includes('admin') || 
-                   session.user.email === 'developer@legalaisaas.com';
-    
-    if (!isAdmin) {
-      return res.status(403).json({ 
-        error: 'Admin access required',
-        message: 'Only administrators can access SEO registry'
-      });
-    }
+    const admin = await requireRole(req, res);
+    if (!admin) return;
 
-    console.log('📋 Registry list request from:', session.user.email);
+    console.log('📋 Registry list request from:', admin.email);
 
     // Parse query parameters for filtering
     const filter: SeoRegistryFilter = {};
@@ -78,7 +59,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         totalResults: entries.length,
         filter,
         timestamp: new Date().toISOString(),
-        requestedBy: session.user.email,
+        requestedBy: admin.email,
       }
     });
 
@@ -1,7 +1,7 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '../../../features/auth/authOptions';
-import { callClaudeAI } from '../../../../services/claude-api';
+import { aiProviders } from '../../../../services/ai-provider-registry';
+import { requireEntitlement } from '../../../../lib/auth/entitlement';
+import { requireRole } from '../../../../lib/auth/rbac';
 import { getSeoFromCache, saveSeoToCache } from '../../../../lib/cache/seoCache';
 import { 
   saveSeoMeta, 
@@ -161,28 +161,13 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   const startTime = Date.now();
 
   try {
-    // Check authentication
-    const session = await getServerSession(req, res, authOptions);
-    
-    if (!session?.user?.email) {
-      return res.status(401).json({ 
-        error: 'Authentication required',
-        message: 'Please sign in to register SEO content'
-      });
-    }
+    const admin = await requireRole(req, res);
+    if (!admin) return;
 
-    // Check if user is admin (for now, restrict to admins)
-    const isAdmin = session.user.email.includes('admin') || 
-                   session.user.email === 'developer@legalaisaas.com';
-    
-    if (!isAdmin) {
-      return res.status(403).json({ 
-        error: 'Admin access required',
-        message: 'Only administrators can register SEO content'
-      });
-    }
+    const entitlement = await requireEntitlement(req, res, { featureName: 'AI SEO 등록' });
+    if (!entitlement) return;
 
-    console.log('📝 SEO registration request from:', session.user.email);
+    console.log('📝 SEO registration request from:', entitlement.email);
 
     // Validate and parse request data
     const requestData: SeoRegistrationRequest = req.body;
@@ -221,19 +206,16 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       
       const prompt = generateSeoPrompt(requestData);
       
-      const aiResponse = await callClaudeAI({
+      const aiResponse = await aiProviders.generate('claude', {
         prompt,
         model: process.env.CLAUDE_MODEL || 'claude-3-sonnet-20240229',
         maxTokens: parseInt(process.env.CLAUDE_MAX_TOKENS || '4000'),
         temperature: parseFloat(process.env.CLAUDE_TEMPERATURE || '0.3'),
+        usage: { userId: entitlement.email, feature: 'seo' },
       });
 
-      if (!aiResponse.success || !aiResponse.data) {
-        throw new Error(aiResponse.error || 'AI response failed');
-      }
-
       console.log('🔄 Parsing AI response...');
-      seoData = parseSeoResponse(aiResponse.data);
+      seoData = parseSeoResponse(aiResponse.text);
 
       // Save to cache
       console.log('💾 Saving SEO data to cache...');
@@ -313,7 +295,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         savedFiles,
         registryId: registryEntry.id,
         timestamp: new Date().toISOString(),
-        generatedBy: session.user.email,
+        generatedBy: entitlement.email,
       }
     });
 
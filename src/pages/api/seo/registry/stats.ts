@@ -1,35 +1,16 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '../../../features/auth/authOptions';
+import { requireRole } from '@/lib/auth/rbac';
 import { getRegistryStats, exportRegistryData, cleanupOldEntries, SeoRegistryFilter } from '../../../../lib/seo/registry';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   try {
-    // Check authentication
-    const session = await getServerSession(req, res, authOptions);
-    
-    if (!session?.user?.email) {
-      return res.status(401).json({ 
-        error: 'Authentication required',
-        message: 'Please sign in to access SEO registry statistics'
-      });
-    }
-
-    // Check if user is admin
-    const isAdmin = session.user.email.includes('admin') || 
-                   session.user.email === 'developer@legalaisaas.com';
-    
-    if (!isAdmin) {
-      return res.status(403).json({ 
-        error: 'Admin access required',
-        message: 'Only administrators can access SEO registry statistics'
-      });
-    }
+    const admin = await requireRole(req, res);
+    if (!admin) return;
 
     switch (req.method) {
       case 'GET':
         // Get registry statistics
-        console.log('📊 Registry stats request from:', session.user.email);
+        console.log('📊 Registry stats request from:', admin.email);
         
         const stats = await getRegistryStats();
         
@@ -38,7 +19,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           data: stats,
           meta: {
             timestamp: new Date().toISOString(),
-            requestedBy: session.user.email,
+            requestedBy: admin.email,
           }
         });
         break;
@@ -49,7 +30,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         
         switch (action) {
           case 'export':
-            console.log('📤 Registry export request from:', session.user.email);
+            console.log('📤 Registry export request from:', admin.email);
             
             const { format = 'json', filter } = req.body;
             
@@ -68,7 +49,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             break;
 
           case 'cleanup':
-            console.log('🧹 Registry cleanup request from:', session.user.email);
+            console.log('🧹 Registry cleanup request from:', admin.email);
             
             const { olderThanDays = 90 } = req.body;
             const deletedCount = await cleanupOldEntries(olderThanDays);
@@ -82,7 +63,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
               },
               meta: {
                 timestamp: new Date().toISOString(),
-                performedBy: session.user.email,
+                performedBy: admin.email,
               }
             });
             break;
@@ -3,24 +3,24 @@ import { claudeCache } from '@/services/claude-cache';
 import { cacheAnalytics } from '@/services/cache-analytics';
 import { strategyLogService } from '@/services/strategy-log-service';
 import { sanitizeInput } from '@/utils/sanitizeInput';
+import { aiProviderMonitor, LoadBalancingDecision } from '@/services/ai-provider-monitor';
+import { requireEntitlement } from '@/lib/auth/entitlement';
+import { AIUsageContext } from '@/types/ai-provider';
 
-interface AIProvider {
-  name: 'claude' | 'perplexity' | 'gemini' | 'openai';
-  endpoint: string;
-  status: 'healthy' | 'degraded' | 'failed';
-  lastHealthCheck: Date;
-  responseTime: number;
-  errorRate: number;
-  priority: number;
+type ProviderName = 'claude' | 'perplexity' | 'gemini' | 'openai';
+
+// 서버에서 자기 자신의 API를 호출할 때 필요한 절대 주소와 로그인 쿠키
+interface InternalRequest {
+  baseUrl: string;
+  cookie?: string;
 }
 
 interface StrategyRequest {
-  userId: string;
   contractId: string;
   contractText: string;
   summary: string;
   riskPoints: string[];
-  mode?: 'auto' | 'claude' | 'perplexity' | 'gemini' | 'openai';
+  mode?: 'auto' | ProviderName;
   priority?: 'low' | 'medium' | 'high';
   useCache?: boolean;
   fallbackEnabled?: boolean;
@@ -38,154 +38,12 @@ interface StrategyResponse {
     confidence: number;
     fallbackUsed?: boolean;
     alternatives?: string[];
+    decision: LoadBalancingDecision;
   };
   error?: string;
   timestamp: string;
 }
 
-class AIProviderManager {
-  private providers: Map<string, AIProvider> = new Map();
-  private healthCheckInterval = 5 * 60 * 1000; // 5 minutes
-
-  constructor() {
-    this.initializeProviders();
-    this.startHealthMonitoring();
-  }
-
-  private initializeProviders(): void {
-    const defaultProviders: AIProvider[] = [
-      {
-        name: 'claude',
-        endpoint: '/api/claude/strategic-report',
-        status: 'healthy',
-        lastHealthCheck: new Date(),
-        responseTime: 1500,
-        errorRate: 0,
-        priority: 1
-      },
-      {
-        name: 'perplexity',
-        endpoint: '/lib/ai/callPerplexity',
-        status: 'healthy',
-        lastHealthCheck: new Date(),
-        responseTime: 2000,
-        errorRate: 0,
-        priority: 2
-      },
-      {
-        name: 'gemini',
-        endpoint: '/lib/ai/callGemini',
-        status: 'healthy',
-        lastHealthCheck: new Date(),
-        responseTime: 1800,
-        errorRate: 0,
-        priority: 3
-      },
-      {
-        name: 'openai',
-        endpoint: '/lib/ai/callOpenAI',
-        status: 'healthy',
-        lastHealthCheck: new Date(),
-        responseTime: 2200,
-        errorRate: 0,
-        priority: 4
-      }
-    ];
-
-    defaultProviders.forEach(provider => {
-      this.providers.set(provider.name, provider);
-    });
-  }
-
-  private startHealthMonitoring(): void {
-    setInterval(async () => {
-      await this.performHealthChecks();
-    }, this.healthCheckInterval);
-  }
-
-  private async performHealthChecks(): Promise<void> {
-    for (const [name, provider] of this.providers.entries()) {
-      try {
-        const startTime = Date.now();
-        
-        // Perform lightweight health check
-        const isHealthy = await this.checkProviderHealth(provider);
-        const responseTime = Date.now() - startTime;
-
-        provider.responseTime = responseTime;
-        provider.lastHealthCheck = new Date();
-        provider.status = isHealthy ? 'healthy' : 'degraded';
-        
-        if (responseTime > 5000) {
-          provider.status = 'degraded';
-        }
-
-        console.log(`Health check ${name}: ${provider.status} (${responseTime}ms)`);
-      } catch (error) {
-        provider.status = 'failed';
-        provider.errorRate = Math.min(provider.errorRate + 0.1, 1.0);
-        console.error(`Health check failed for ${name}:`, error);
-      }
-    }
-  }
-
-  private async checkProviderHealth(provider: AIProvider): Promise<boolean> {
-    // Implement actual health check logic here
-    // For now, simulate health check
-    return Math.random() > 0.1; // 90% uptime simulation
-  }
-
-  getBestProvider(excludeProviders: string[] = []): AIProvider | null {
-    const availableProviders = Array.from(this.providers.values())
-      .filter(provider => 
-        provider.status === 'healthy' && 
-        !excludeProviders.includes(provider.name)
-      )
-      .sort((a, b) => {
-        // Sort by priority first, then by response time
-        if (a.priority !== b.priority) {
-          return a.priority - b.priority;
-        }
-        return a.responseTime - b.responseTime;
-      });
-
-    return availableProviders[0] || null;
-  }
-
-  getProviderByName(name: string): AIProvider | null {
-    return this.providers.get(name) || null;
-  }
-
-  updateProviderStatus(name: string, status: AIProvider['status'], responseTime?: number): void {
-    const provider = this.providers.get(name);
-    if (provider) {
-      provider.status = status;
-      if (responseTime !== undefined) {
-        provider.responseTime = responseTime;
-      }
-      provider.lastHealthCheck = new Date();
-    }
-  }
-
-  getProviderStats(): Record<string, any> {
-    const stats: Record<string, any> = {};
-    
-    for (const [name, provider] of this.providers.entries()) {
-      stats[name] = {
-        status: provider.status,
-        responseTime: provider.responseTime,
-        errorRate: provider.errorRate,
-        lastCheck: provider.lastHealthCheck,
-        priority: provider.priority
-      };
-    }
-
-    return stats;
-  }
-}
-
-const aiProviderManager = new AIProviderManager();
-
 export default async function handler(
   req: NextApiRequest,
   res: NextApiResponse<StrategyResponse>
@@ -201,8 +59,13 @@ export default async function handler(
   }
 
   try {
+    const entitlement = await requireEntitlement(req, res, {
+      feature: 'advancedAnalysis',
+      featureName: 'AI 전략 리포트'
+    });
+    if (!entitlement) return;
+
     const {
-      userId,
       contractId,
       contractText,
       summary,
@@ -216,7 +79,7 @@ export default async function handler(
     }: StrategyRequest = req.body;
 
     // Validate required fields
-    if (!userId || !contractId || !contractText || !summary || !riskPoints) {
+    if (!contractId || !contractText || !summary || !riskPoints) {
       return res.status(400).json({
         success: false,
         error: 'Missing required fields',
@@ -225,7 +88,8 @@ export default async function handler(
     }
 
     // Sanitize inputs
-    const sanitizedUserId = sanitizeInput(userId);
+    // 소유자는 본문이 아니라 로그인 세션으로 정한다
+    const userId = entitlement.email;
     const sanitizedContractId = sanitizeInput(contractId);
     const sanitizedSummary = sanitizeInput(summary);
     const sanitizedRiskPoints = riskPoints.map(risk => sanitizeInput(risk));
@@ -238,43 +102,31 @@ export default async function handler(
     let confidence = 0;
     let alternatives: string[] = [];
 
-    // Determine AI provider to use
-    let targetProvider: AIProvider | null;
-    
-    if (mode === 'auto') {
-      targetProvider = aiProviderManager.getBestProvider();
-      if (!targetProvider) {
-        return res.status(503).json({
-          success: false,
-          error: 'No healthy AI providers available',
-          timestamp
-        });
-      }
-    } else {
-      targetProvider = aiProviderManager.getProviderByName(mode);
-      if (!targetProvider || targetProvider.status === 'failed') {
-        if (fallbackEnabled) {
-          targetProvider = aiProviderManager.getBestProvider([mode]);
-          fallbackUsed = true;
-        } else {
-          return res.status(503).json({
-            success: false,
-            error: `Selected AI provider '${mode}' is not available`,
-            timestamp
-          });
-        }
-      }
-    }
+    // 모니터의 실측 지표와 회로 차단 상태로 제공자를 고른다
+    const decision = aiProviderMonitor.selectBestProvider(
+      mode === 'auto' ? {} : { preferredProvider: mode }
+    );
 
-    if (!targetProvider) {
+    if (decision.selectedProvider === 'none') {
       return res.status(503).json({
         success: false,
-        error: 'No available AI providers',
+        error: 'No healthy AI providers available',
         timestamp
       });
     }
 
-    providerUsed = targetProvider.name;
+    if (mode !== 'auto' && decision.selectedProvider !== mode) {
+      if (!fallbackEnabled) {
+        return res.status(503).json({
+          success: false,
+          error: `Selected AI provider '${mode}' is not available`,
+          timestamp
+        });
+      }
+      fallbackUsed = true;
+    }
+
+    providerUsed = decision.selectedProvider;
 
     // Try to get cached result first
     if (useCache) {
@@ -288,7 +140,7 @@ export default async function handler(
             contractType: 'general',
             language,
             jurisdiction,
-            userId: sanitizedUserId
+            userId
           }
         );
 
@@ -304,90 +156,75 @@ export default async function handler(
 
     // If not cached, call AI provider
     if (!cached) {
-      try {
-        const providerResult = await callAIProvider(targetProvider, {
-          userId: sanitizedUserId,
-          contractId: sanitizedContractId,
-          contractText,
-          summary: sanitizedSummary,
-          riskPoints: sanitizedRiskPoints,
-          language,
-          jurisdiction
-        });
-
-        result = providerResult.result;
-        confidence = providerResult.confidence || 85;
-
-        // Update provider performance metrics
-        const responseTime = Date.now() - startTime;
-        aiProviderManager.updateProviderStatus(
-          targetProvider.name,
-          'healthy',
-          responseTime
-        );
+      const candidates = fallbackEnabled
+        ? [decision.selectedProvider, ...decision.alternatives]
+        : [decision.selectedProvider];
+      const params = {
+        userId,
+        contractId: sanitizedContractId,
+        contractText,
+        summary: sanitizedSummary,
+        riskPoints: sanitizedRiskPoints,
+        language,
+        jurisdiction
+      };
+      let lastError: unknown;
+      let succeeded = false;
+
+      // 호출 결과는 AI 제공자 레지스트리를 거쳐 모니터에 자동으로 기록된다
+      for (let index = 0; index < candidates.length; index++) {
+        const candidate = candidates[index] as ProviderName;
+        if (index > 0 && !aiProviderMonitor.isAvailable(candidate)) continue;
+
+        try {
+          aiProviderMonitor.beginRequest(candidate);
+          const providerResult = await callAIProvider(candidate, params, getInternalRequest(req), {
+            userId: entitlement.email,
+            feature: 'strategic_report'
+          });
 
-        // Cache the result if successful
-        if (useCache && result) {
-          try {
-            const cacheKey = generateCacheKey(sanitizedSummary, sanitizedRiskPoints, language, jurisdiction);
-            await claudeCache.set(
-              cacheKey,
-              {
-                content: JSON.stringify(result),
-                model: targetProvider.name,
-                usage: { input_tokens: 0, output_tokens: 0 }
-              },
-              `You are a legal strategist analyzing ${language} contracts for ${jurisdiction || 'general'} jurisdiction.`,
-              {
-                requestType: 'strategic-report',
-                contractType: 'general',
-                language,
-                jurisdiction,
-                userId: sanitizedUserId
-              },
-              24 * 60 * 60 * 1000 // 24 hours TTL
-            );
-          } catch (cacheError) {
-            console.warn('Failed to cache result:', cacheError);
+          result = providerResult.result;
+          confidence = providerResult.confidence || 85;
+          if (index > 0) {
+            confidence *= 0.9; // Slightly lower confidence for fallback
+            fallbackUsed = true;
           }
+          providerUsed = candidate;
+          succeeded = true;
+          break;
+        } catch (providerError) {
+          console.error(`Provider ${candidate} failed:`, providerError);
+          lastError = providerError;
         }
+      }
 
-      } catch (providerError) {
-        console.error(`Provider ${targetProvider.name} failed:`, providerError);
-        
-        // Update provider status
-        aiProviderManager.updateProviderStatus(targetProvider.name, 'failed');
-
-        // Try fallback if enabled
-        if (fallbackEnabled && !fallbackUsed) {
-          const fallbackProvider = aiProviderManager.getBestProvider([targetProvider.name]);
-          
-          if (fallbackProvider) {
-            try {
-              const fallbackResult = await callAIProvider(fallbackProvider, {
-                userId: sanitizedUserId,
-                contractId: sanitizedContractId,
-                contractText,
-                summary: sanitizedSummary,
-                riskPoints: sanitizedRiskPoints,
-                language,
-                jurisdiction
-              });
-
-              result = fallbackResult.result;
-              confidence = (fallbackResult.confidence || 85) * 0.9; // Slightly lower confidence for fallback
-              providerUsed = fallbackProvider.name;
-              fallbackUsed = true;
-
-            } catch (fallbackError) {
-              console.error('Fallback provider also failed:', fallbackError);
-              throw new Error('All AI providers failed');
-            }
-          } else {
-            throw new Error('No fallback providers available');
-          }
-        } else {
-          throw providerError;
+      if (!succeeded) {
+        throw candidates.length > 1 ? new Error('All AI providers failed') : lastError;
+      }
+
+      // Cache the result if successful
+      if (useCache && result) {
+        try {
+          const cacheKey = generateCacheKey(sanitizedSummary, sanitizedRiskPoints, language, jurisdiction);
+          await claudeCache.set(
+            cacheKey,
+            {
+              content: JSON.stringify(result),
+              model: providerUsed,
+              usage: { input_tokens: 0, output_tokens: 0 }
+            },
+            `You are a legal strategist analyzing ${language} contracts for ${jurisdiction || 'general'} jurisdiction.`,
+            {
+              requestType: 'strategic-report',
+              contractType: 'general',
+              language,
+              jurisdiction,
+              userId
+            },
+            24 * 60 * 60 * 1000 // 24 hours TTL
+          );
+        } catch (cacheError) {
+          console.warn('Failed to cache result:', cacheError);
         }
       }
     }
@@ -395,7 +232,7 @@ export default async function handler(
     // Log the strategy generation
     try {
       await strategyLogService.createLog({
-        userId: sanitizedUserId,
+        userId,
         analysisRequestId: sanitizedContractId,
         strategyType: 'strategic-report',
         strategySummary: typeof result === 'object' ? result.summary || 'Strategic analysis completed' : 'Strategic analysis completed',
@@ -417,9 +254,8 @@ export default async function handler(
     }
 
     // Get alternative providers for recommendation
-    const availableProviders = Array.from(aiProviderManager.getProviderStats().keys())
+    alternatives = [decision.selectedProvider, ...decision.alternatives]
       .filter(name => name !== providerUsed);
-    alternatives = availableProviders.slice(0, 2);
 
     const responseTime = Date.now() - startTime;
 
@@ -432,7 +268,8 @@ export default async function handler(
         responseTime,
         confidence,
         fallbackUsed,
-        alternatives
+        alternatives,
+        decision
       },
       timestamp
     });
@@ -452,7 +289,7 @@ export default async function handler(
 }
 
 async function callAIProvider(
-  provider: AIProvider,
+  provider: ProviderName,
   params: {
     userId: string;
     contractId: string;
@@ -461,29 +298,31 @@ async function callAIProvider(
     riskPoints: string[];
     language: string;
     jurisdiction?: string;
-  }
+  },
+  internal: InternalRequest,
+  usage: AIUsageContext
 ): Promise<{ result: any; confidence?: number }> {
-  switch (provider.name) {
+  switch (provider) {
     case 'claude':
-      return await callClaudeStrategicReport(params);
+      return await callClaudeStrategicReport(params, internal);
     
     case 'perplexity':
       const { callPerplexityReport } = await import('@/lib/ai/callPerplexity');
-      const perplexityResult = await callPerplexityReport(params.contractText);
+      const perplexityResult = await callPerplexityReport(params.contractText, usage);
       return { result: perplexityResult, confidence: 80 };
     
     case 'gemini':
       const { callGeminiSummary } = await import('@/lib/ai/callGemini');
-      const geminiResult = await callGeminiSummary(params.contractText);
+      const geminiResult = await callGeminiSummary(params.contractText, usage);
       return { result: geminiResult, confidence: 75 };
     
     case 'openai':
       const { callOpenAIAnalysis } = await import('@/lib/ai/callOpenAI');
-      const openaiResult = await callOpenAIAnalysis(params);
+      const openaiResult = await callOpenAIAnalysis(params, usage);
       return { result: openaiResult, confidence: 82 };
     
     default:
-      throw new Error(`Unknown AI provider: ${provider.name}`);
+      throw new Error(`Unknown AI provider: ${provider}`);
   }
 }
 
@@ -494,12 +333,14 @@ async function callClaudeStrategicReport(params: {
   riskPoints: string[];
   language: string;
   jurisdiction?: string;
-}): Promise<{ result: any; confidence: number }> {
+}, internal: InternalRequest): Promise<{ result: any; confidence: number }> {
   // Use the existing Claude strategic report endpoint
-  const response = await fetch('/api/claude/strategic-report', {
+  const response = await fetch(`${internal.baseUrl}/api/claude/strategic-report`, {
     method: 'POST',
     headers: {
-      'Content-Type': 'application/json'
+      'Content-Type': 'application/json',
+      // 전략 리포트도 플랜과 사용 한도를 확인하므로 로그인 세션을 그대로 넘긴다
+      ...(internal.cookie ? { Cookie: internal.cookie } : {})
     },
     body: JSON.stringify({
       contractSummary: params.summary,
@@ -507,8 +348,7 @@ async function callClaudeStrategicReport(params: {
       userSelectedRisks: params.riskPoints,
       contractType: 'general',
       userPlan: 'Professional',
-      language: params.language,
-      userId: params.userId
+      language: params.language
     })
   });
 
@@ -524,6 +364,13 @@ async function callClaudeStrategicReport(params: {
   };
 }
 
+function getInternalRequest(req: NextApiRequest): InternalRequest {
+  return {
+    baseUrl: process.env.NEXTAUTH_URL || `http://${req.headers.host}`,
+    cookie: req.headers.cookie
+  };
+}
+
 function generateCacheKey(summary: string, riskPoints: string[], language: string, jurisdiction?: string): string {
   const content = {
     summary: summary.toLowerCase().trim(),
@@ -534,6 +381,3 @@ function generateCacheKey(summary: string, riskPoints: string[], language: strin
   
   return JSON.stringify(content);
 }
-
-// Export provider manager for external use
-export { aiProviderManager };
\ No newline at end of file
@@ -1,6 +1,5 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '../../features/auth/authOptions';
+import { requireRole } from '@/lib/auth/rbac';
 import { sendTemplateEmail, generateTestEmail, testEmailConnection, getAdminEmails } from '../../../lib/email/send';
 import { generateGrowthEmailTemplate, GrowthEmailData } from '../../../lib/email/growth-template';
 import { getCachedGrowthStats } from '../../../lib/logs/growthTracker';
@@ -13,19 +12,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   try {
     // Check authentication for non-cron requests
     if (req.headers.authorization !== `Bearer ${process.env.CRON_SECRET}`) {
-      const session = await getServerSession(req, res, authOptions);
-      
-      if (!session?.user?.email) {
-        return res.status(401).json({ error: 'Authentication required' });
-      }
-
-      // Check if user is admin
-      const isAdmin = session.user.email.includes('admin') || 
-                     session.user.email === 'developer@legalaisaas.com';
-      
-      if (!isAdmin) {
-        return res.status(403).json({ error: 'Admin access required' });
-      }
+      const admin = await requireRole(req, res);
+      if (!admin) return;
     }
 
     const { type, recipients, language } = req.body;
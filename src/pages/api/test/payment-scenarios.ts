@@ -1,5 +1,6 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { createPlanChangeLog, updatePlanChangeLog, getAllPlanChangeLogs } from '../plan/change-log';
+import { requireRole } from '@/lib/auth/rbac';
+import { userRepository } from '@/services/user-repository';
 
 interface TestScenario {
   id: string;
@@ -182,7 +183,7 @@ async function executeScenario(scenario: TestScenario): Promise<TestResult> {
 
     // Simulate payment processing
     if (scenario.expectedOutcome.logCreated) {
-      const planChangeLog = await createPlanChangeLog({
+      const planChangeLog = await userRepository.createPlanChangeLog({
         userId: scenario.testUser.userId,
         userEmail: scenario.testUser.email,
         fromPlan: scenario.testUser.currentPlan,
@@ -202,13 +203,13 @@ async function executeScenario(scenario: TestScenario): Promise<TestResult> {
 
       // Simulate payment completion or failure
       if (scenario.payment.shouldFail) {
-        await updatePlanChangeLog(planChangeLog.id, {
+        await userRepository.updatePlanChangeLog(planChangeLog.id, {
           status: 'failed',
           reason: 'Test payment failure simulation'
         });
         result.logs.push(`❌ Payment failed (simulated)`);
       } else {
-        await updatePlanChangeLog(planChangeLog.id, {
+        await userRepository.updatePlanChangeLog(planChangeLog.id, {
           status: 'completed',
           completedAt: new Date().toISOString()
         });
@@ -270,9 +271,11 @@ async function runAllScenarios(): Promise<TestResult[]> {
 }
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
-  // Admin only
-  if (req.headers.authorization !== `Bearer ${process.env.CRON_SECRET}`) {
-    return res.status(401).json({ error: 'Unauthorized' });
+  // 자동화 테스트는 CRON_SECRET, 관리자 화면(payment-qa)은 staff 역할로 들어온다
+  const isCron = !!process.env.CRON_SECRET && req.headers.authorization === `Bearer ${process.env.CRON_SECRET}`;
+  if (!isCron) {
+    const admin = await requireRole(req, res);
+    if (!admin) return;
   }
 
   try {
@@ -302,7 +305,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
       case 'GET': {
         // Get scenario status and recent logs
-        const recentLogs = await getAllPlanChangeLogs();
+        const recentLogs = await userRepository.listPlanChangeLogs();
         const testLogs = recentLogs.filter(log => 
           log.metadata?.testScenario === true
         ).slice(0, 20);
@@ -0,0 +1,57 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireRole } from '@/lib/auth/rbac';
+import { USER_ROLES } from '@/lib/auth/roles';
+import { BILLING_ERROR_STATUS, BillingError } from '@/lib/payment/billing-errors';
+import { parseBillingProfile } from '@/lib/payment/business-number';
+import { userRepository } from '@/services/user-repository';
+import { BillingProfile } from '@/types/invoice';
+
+interface BillingProfileResponse {
+  success: boolean;
+  data?: BillingProfile | null;
+  error?: string;
+  code?: string;
+}
+
+/**
+ * 세금계산서 발행용 사업자 정보. GET으로 읽고 PUT으로 저장하며, DELETE하면 이후 결제는 일반 영수증으로 발행한다.
+ * 이미 발행한 청구서에는 영향이 없다.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<BillingProfileResponse>) {
+  try {
+    const account = await requireRole(req, res, USER_ROLES);
+    if (!account) return;
+
+    switch (req.method) {
+      case 'GET': {
+        const user = await userRepository.findUserById(account.userId);
+        return res.status(200).json({ success: true, data: user?.billingProfile || null });
+      }
+
+      case 'PUT': {
+        const profile = parseBillingProfile(req.body);
+        if (!profile) {
+          throw new BillingError('INVALID_BILLING_PROFILE');
+        }
+        const user = await userRepository.updateUser(account.userId, { billingProfile: profile });
+        if (!user) {
+          return res.status(404).json({ success: false, error: 'User not found' });
+        }
+        return res.status(200).json({ success: true, data: profile });
+      }
+
+      case 'DELETE':
+        await userRepository.updateUser(account.userId, { billingProfile: null });
+        return res.status(200).json({ success: true, data: null });
+
+      default:
+        return res.status(405).json({ success: false, error: 'Method not allowed' });
+    }
+  } catch (error) {
+    if (error instanceof BillingError) {
+      return res.status(BILLING_ERROR_STATUS[error.code]).json({ success: false, error: error.message, code: error.code });
+    }
+    console.error('Billing profile API error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to update billing profile' });
+  }
+}
@@ -0,0 +1,39 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireRole } from '@/lib/auth/rbac';
+import { USER_ROLES } from '@/lib/auth/roles';
+import { BILLING_ERROR_STATUS, BillingError } from '@/lib/payment/billing-errors';
+import { invoiceService } from '@/services/invoice-service';
+
+/**
+ * 청구서 내려받기(GET). format=pdf(기본)이면 PDF, format=xml이면 전자세금계산서 XML.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const { id, format = 'pdf' } = req.query;
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ success: false, error: 'Invoice ID is required' });
+  }
+  if (format !== 'pdf' && format !== 'xml') {
+    return res.status(400).json({ success: false, error: 'Invalid format. Use pdf or xml' });
+  }
+
+  try {
+    const account = await requireRole(req, res, USER_ROLES);
+    if (!account) return;
+
+    const invoice = await invoiceService.getForUser(account.userId, id);
+    const document = invoiceService.render(invoice, format);
+    res.setHeader('Content-Type', document.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${document.filename}"`);
+    return res.status(200).send(document.content);
+  } catch (error) {
+    if (error instanceof BillingError) {
+      return res.status(BILLING_ERROR_STATUS[error.code]).json({ success: false, error: error.message, code: error.code });
+    }
+    console.error('Invoice download error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to generate invoice' });
+  }
+}
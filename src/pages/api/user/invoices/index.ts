@@ -0,0 +1,30 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireRole } from '@/lib/auth/rbac';
+import { USER_ROLES } from '@/lib/auth/roles';
+import { invoiceService } from '@/services/invoice-service';
+import { InvoiceSummary } from '@/types/invoice';
+
+interface InvoiceListResponse {
+  success: boolean;
+  data?: InvoiceSummary[];
+  error?: string;
+}
+
+/**
+ * 로그인한 사용자의 청구서 목록(GET). 최신순이다.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<InvoiceListResponse>) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const account = await requireRole(req, res, USER_ROLES);
+    if (!account) return;
+
+    return res.status(200).json({ success: true, data: await invoiceService.listForUser(account.userId) });
+  } catch (error) {
+    console.error('Invoice list API error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to fetch invoices' });
+  }
+}
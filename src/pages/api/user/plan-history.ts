@@ -0,0 +1,34 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '../../../features/auth/authOptions';
+import { userRepository } from '@/services/user-repository';
+import { PlanChangeLog } from '@/types/user';
+
+interface PlanHistoryResponse {
+  success: boolean;
+  data?: PlanChangeLog[];
+  error?: string;
+}
+
+/**
+ * 로그인한 사용자의 플랜 변경 이력. 결제 웹훅이 남긴 기록이 최신순으로 나온다.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<PlanHistoryResponse>) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const session = await getServerSession(req, res, authOptions);
+    if (!session?.user?.email) {
+      return res.status(401).json({ success: false, error: 'Authentication required' });
+    }
+
+    const user = await userRepository.findUserByEmail(session.user.email);
+    const logs = user ? await userRepository.listPlanChangeLogs(user.id) : [];
+    return res.status(200).json({ success: true, data: logs });
+  } catch (error) {
+    console.error('Plan history API error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to fetch plan history' });
+  }
+}
@@ -0,0 +1,38 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '../../../features/auth/authOptions';
+import { usageMeter } from '@/services/usage-meter';
+import { UsageSummary } from '@/types/usage';
+
+interface UsageResponse {
+  success: boolean;
+  data?: UsageSummary;
+  error?: string;
+}
+
+/**
+ * 로그인한 사용자의 월별 AI 사용량과 플랜 한도. ?month=YYYY-MM으로 지난달을 조회할 수 있다.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<UsageResponse>) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const session = await getServerSession(req, res, authOptions);
+    if (!session?.user?.email) {
+      return res.status(401).json({ success: false, error: 'Authentication required' });
+    }
+
+    const { month } = req.query;
+    if (month !== undefined && (typeof month !== 'string' || !/^\d{4}-(0[1-9]|1[0-2])$/.test(month))) {
+      return res.status(400).json({ success: false, error: 'month must be in YYYY-MM format' });
+    }
+
+    const summary = await usageMeter.getSummary(session.user.email, month);
+    return res.status(200).json({ success: true, data: summary });
+  } catch (error) {
+    console.error('Usage API error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to fetch usage' });
+  }
+}
@@ -0,0 +1,10 @@
+import { createProviderWebhookHandler } from '@/lib/payment/provider-webhook';
+
+export const config = {
+  api: {
+    bodyParser: false,
+  },
+};
+
+// 로컬·QA에서 결제사 웹훅을 흉내 낼 때 쓴다. 운영 환경에서는 항상 400
+export default createProviderWebhookHandler('fake');
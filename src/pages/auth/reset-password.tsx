@@ -0,0 +1,105 @@
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { FormEvent, useState } from 'react';
+import { PASSWORD_MIN_LENGTH } from '@/lib/auth/password-policy';
+
+// 토큰 없이 열면 재설정 메일 요청, 메일의 링크(?token=)로 열면 새 비밀번호 입력 화면
+export default function ResetPassword() {
+  const router = useRouter();
+  const token = typeof router.query.token === 'string' ? router.query.token : null;
+  const [error, setError] = useState<string | null>(null);
+  const [requested, setRequested] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  const post = async (url: string, body: Record<string, string>) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      const result = await response.json();
+      if (!result.success) {
+        setError(result.error || '요청을 처리하지 못했습니다.');
+      }
+      return !!result.success;
+    } catch (submitError) {
+      console.error('Password reset error:', submitError);
+      setError('요청을 처리하지 못했습니다. 잠시 후 다시 시도해 주세요.');
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRequest = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (await post('/api/auth/forgot-password', { email: e.currentTarget.email.value })) {
+      setRequested(true);
+    }
+  };
+
+  const handleReset = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    if (form.password.value !== form.passwordConfirm.value) {
+      setError('비밀번호가 서로 다릅니다.');
+      return;
+    }
+    if (token && await post('/api/auth/reset-password', { token, password: form.password.value })) {
+      router.push('/auth/signin?reset=1');
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center bg-gray-50 text-gray-800 p-6">
+      <h1 className="text-2xl font-bold mb-6">🔑 비밀번호 재설정</h1>
+      <div className="bg-white p-6 rounded-lg shadow-md w-full max-w-sm">
+        {error && <p className="mb-4 text-sm text-red-700 bg-red-50 p-3 rounded">{error}</p>}
+        {token ? (
+          <form onSubmit={handleReset}>
+            <label className="block mb-2 font-semibold">새 비밀번호</label>
+            <input
+              name="password"
+              type="password"
+              required
+              minLength={PASSWORD_MIN_LENGTH}
+              className="w-full p-2 border border-gray-300 rounded mb-1"
+            />
+            <p className="mb-4 text-xs text-gray-500">영문과 숫자를 섞어 {PASSWORD_MIN_LENGTH}자 이상</p>
+            <label className="block mb-2 font-semibold">새 비밀번호 확인</label>
+            <input name="passwordConfirm" type="password" required className="w-full p-2 border border-gray-300 rounded mb-4" />
+            <button
+              type="submit"
+              disabled={loading}
+              className="w-full bg-blue-600 text-white py-2 rounded hover:bg-blue-700 transition disabled:opacity-50"
+            >
+              비밀번호 변경
+            </button>
+          </form>
+        ) : requested ? (
+          <p className="text-sm">
+            가입된 이메일이라면 재설정 링크를 보냈습니다. 메일함을 확인해 주세요.
+          </p>
+        ) : (
+          <form onSubmit={handleRequest}>
+            <label className="block mb-2 font-semibold">가입한 이메일</label>
+            <input name="email" type="email" required className="w-full p-2 border border-gray-300 rounded mb-4" />
+            <button
+              type="submit"
+              disabled={loading}
+              className="w-full bg-blue-600 text-white py-2 rounded hover:bg-blue-700 transition disabled:opacity-50"
+            >
+              재설정 링크 받기
+            </button>
+          </form>
+        )}
+        <p className="mt-4 text-sm text-center">
+          <Link href="/auth/signin" className="text-blue-600 hover:underline">로그인 화면으로</Link>
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import { signIn } from 'next-auth/react';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { FormEvent, useState } from 'react';
+import { CREDENTIAL_ERROR_MESSAGES, isCredentialErrorCode } from '@/lib/auth/credential-errors';
+
+export default function SignIn() {
+  const router = useRouter();
+  const [email, setEmail] = useState('');
+  const [errorCode, setErrorCode] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [resent, setResent] = useState(false);
+
+  const queryError = typeof router.query.error === 'string' ? router.query.error : null;
+  const shownError = errorCode || queryError;
+  const callbackUrl = typeof router.query.callbackUrl === 'string' ? router.query.callbackUrl : '/';
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const password = e.currentTarget.password.value;
+    setLoading(true);
+    setErrorCode(null);
+    setResent(false);
+
+    const result = await signIn('credentials', { email, password, redirect: false });
+    setLoading(false);
+
+    if (result?.error) {
+      setErrorCode(result.error);
+      return;
+    }
+    router.push(callbackUrl);
+  };
+
+  const handleResend = async () => {
+    await fetch('/api/auth/resend-verification', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email })
+    });
+    setResent(true);
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center bg-gray-50 text-gray-800 p-6">
+      <h1 className="text-2xl font-bold mb-6">🔐 로그인</h1>
+      <div className="bg-white p-6 rounded-lg shadow-md w-full max-w-sm">
+        {router.query.verified && !shownError && (
+          <p className="mb-4 text-sm text-green-700 bg-green-50 p-3 rounded">이메일 인증이 완료되었습니다. 로그인해 주세요.</p>
+        )}
+        {router.query.reset && !shownError && (
+          <p className="mb-4 text-sm text-green-700 bg-green-50 p-3 rounded">비밀번호가 변경되었습니다. 새 비밀번호로 로그인해 주세요.</p>
+        )}
+        {shownError && (
+          <div className="mb-4 text-sm text-red-700 bg-red-50 p-3 rounded">
+            <p>{isCredentialErrorCode(shownError) ? CREDENTIAL_ERROR_MESSAGES[shownError] : CREDENTIAL_ERROR_MESSAGES.INVALID_CREDENTIALS}</p>
+            {shownError === 'EMAIL_NOT_VERIFIED' && (
+              resent ? (
+                <p className="mt-2 text-gray-600">인증 메일을 다시 보냈습니다.</p>
+              ) : (
+                <button type="button" onClick={handleResend} className="mt-2 underline">인증 메일 다시 보내기</button>
+              )
+            )}
+          </div>
+        )}
+        <form onSubmit={handleSubmit}>
+          <label className="block mb-2 font-semibold">이메일</label>
+          <input
+            name="email"
+            type="email"
+            required
+            value={email}
+            onChange={e => setEmail(e.target.value)}
+            className="w-full p-2 border border-gray-300 rounded mb-4"
+          />
+          <label className="block mb-2 font-semibold">비밀번호</label>
+          <input name="password" type="password" required className="w-full p-2 border border-gray-300 rounded mb-4" />
+          <button
+            type="submit"
+            disabled={loading}
+            className="w-full bg-blue-600 text-white py-2 rounded hover:bg-blue-700 transition disabled:opacity-50"
+          >
+            {loading ? '로그인 중...' : '로그인'}
+          </button>
+        </form>
+        <div className="mt-4 flex justify-between text-sm text-gray-500">
+          <Link href="/auth/signup" className="hover:underline">회원가입</Link>
+          <Link href="/auth/reset-password" className="hover:underline">비밀번호를 잊으셨나요?</Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import Link from 'next/link';
+import { FormEvent, useState } from 'react';
+import { PASSWORD_MIN_LENGTH } from '@/lib/auth/password-policy';
+
+export default function SignUp() {
+  const [error, setError] = useState<string | null>(null);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    if (form.password.value !== form.passwordConfirm.value) {
+      setError('비밀번호가 서로 다릅니다.');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/auth/signup', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: form.displayName.value, email: form.email.value, password: form.password.value })
+      });
+      const result = await response.json();
+      if (!result.success) {
+        setError(result.error || '가입에 실패했습니다.');
+        return;
+      }
+      setSentTo(result.data.email);
+    } catch (submitError) {
+      console.error('Sign up error:', submitError);
+      setError('가입에 실패했습니다. 잠시 후 다시 시도해 주세요.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center bg-gray-50 text-gray-800 p-6">
+      <h1 className="text-2xl font-bold mb-6">📝 회원가입</h1>
+      <div className="bg-white p-6 rounded-lg shadow-md w-full max-w-sm">
+        {sentTo ? (
+          <div className="text-sm">
+            <p className="mb-4">
+              <strong>{sentTo}</strong>(으)로 안내 메일을 보냈습니다. 메일의 링크를 눌러 가입을 완료해 주세요.
+            </p>
+            <Link href="/auth/signin" className="text-blue-600 hover:underline">로그인 화면으로</Link>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit}>
+            {error && <p className="mb-4 text-sm text-red-700 bg-red-50 p-3 rounded">{error}</p>}
+            <label className="block mb-2 font-semibold">이름</label>
+            <input name="displayName" type="text" className="w-full p-2 border border-gray-300 rounded mb-4" />
+            <label className="block mb-2 font-semibold">이메일</label>
+            <input name="email" type="email" required className="w-full p-2 border border-gray-300 rounded mb-4" />
+            <label className="block mb-2 font-semibold">비밀번호</label>
+            <input
+              name="password"
+              type="password"
+              required
+              minLength={PASSWORD_MIN_LENGTH}
+              className="w-full p-2 border border-gray-300 rounded mb-1"
+            />
+            <p className="mb-4 text-xs text-gray-500">영문과 숫자를 섞어 {PASSWORD_MIN_LENGTH}자 이상</p>
+            <label className="block mb-2 font-semibold">비밀번호 확인</label>
+            <input name="passwordConfirm" type="password" required className="w-full p-2 border border-gray-300 rounded mb-4" />
+            <button
+              type="submit"
+              disabled={loading}
+              className="w-full bg-blue-600 text-white py-2 rounded hover:bg-blue-700 transition disabled:opacity-50"
+            >
+              {loading ? '가입 중...' : '가입하기'}
+            </button>
+            <p className="mt-4 text-sm text-center text-gray-500">
+              이미 계정이 있나요? <Link href="/auth/signin" className="text-blue-600 hover:underline">로그인</Link>
+            </p>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
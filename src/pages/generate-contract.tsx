@@ -1,101 +1,65 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useRouter } from 'next/router';
 import { useTranslation } from 'react-i18next';
 import axios from 'axios';
 import { toast } from 'react-hot-toast';
 import jsPDF from 'jspdf';
-
-interface ContractTemplate {
-  id: string;
-  name: string;
-  fields: ContractField[];
-}
-
-interface ContractField {
-  id: string;
-  label: string;
-  type: 'text' | 'textarea' | 'date' | 'number' | 'select';
-  required: boolean;
-  options?: string[];
-  placeholder?: string;
-}
-
-const contractTemplates: ContractTemplate[] = [
-  {
-    id: 'freelancer',
-    name: '프리랜서 계약서',
-    fields: [
-      { id: 'clientName', label: '클라이언트명', type: 'text', required: true, placeholder: '회사명 또는 개인명' },
-      { id: 'freelancerName', label: '프리랜서명', type: 'text', required: true, placeholder: '본인 이름' },
-      { id: 'projectDescription', label: '프로젝트 설명', type: 'textarea', required: true, placeholder: '수행할 업무 내용' },
-      { id: 'amount', label: '계약 금액', type: 'number', required: true, placeholder: '원' },
-      { id: 'startDate', label: '시작일', type: 'date', required: true },
-      { id: 'endDate', label: '종료일', type: 'date', required: true },
-      { id: 'paymentTerms', label: '지급 조건', type: 'select', required: true, options: ['선불', '후불', '분할 지급'] }
-    ]
-  },
-  {
-    id: 'employment',
-    name: '근로 계약서',
-    fields: [
-      { id: 'companyName', label: '회사명', type: 'text', required: true },
-      { id: 'employeeName', label: '근로자명', type: 'text', required: true },
-      { id: 'position', label: '직위', type: 'text', required: true },
-      { id: 'salary', label: '급여', type: 'number', required: true, placeholder: '월급 (원)' },
-      { id: 'startDate', label: '근무 시작일', type: 'date', required: true },
-      { id: 'workLocation', label: '근무지', type: 'text', required: true },
-      { id: 'workHours', label: '근무시간', type: 'text', required: true, placeholder: '09:00~18:00' }
-    ]
-  },
-  {
-    id: 'nda',
-    name: '비밀유지 계약서',
-    fields: [
-      { id: 'disclosingParty', label: '정보 제공자', type: 'text', required: true },
-      { id: 'receivingParty', label: '정보 수신자', type: 'text', required: true },
-      { id: 'purposeOfDisclosure', label: '정보 제공 목적', type: 'textarea', required: true },
-      { id: 'confidentialityPeriod', label: '비밀유지 기간', type: 'select', required: true, options: ['1년', '2년', '3년', '5년', '영구'] },
-      { id: 'penaltyAmount', label: '위약금', type: 'number', required: false, placeholder: '원 (선택사항)' }
-    ]
-  }
-];
+import { ContractTemplateForm } from '../components/ContractTemplateForm';
+import { UpgradeBanner } from '../components/UpgradeBanner';
+import { ContractTemplateSummary, ContractTemplatesResponse, TemplateFieldValues } from '../types/contract-template';
+import { EntitlementDenial, UpgradePrompt } from '../types/plan';
+import { OrganizationSummary } from '../types/organization';
+import { hasOrgPermission } from '../lib/auth/organization-permissions';
 
 export default function GenerateContract() {
-  const { t } = useTranslation();
+  const { t, i18n } = useTranslation();
   const router = useRouter();
+  const [contractTemplates, setContractTemplates] = useState<ContractTemplateSummary[]>([]);
+  const [language, setLanguage] = useState<string>(i18n.language?.startsWith('en') ? 'en' : 'ko');
+  const [jurisdiction, setJurisdiction] = useState<string>('KR');
+  const [jurisdictions, setJurisdictions] = useState<string[]>(['KR']);
   const [selectedTemplate, setSelectedTemplate] = useState<string>('');
-  const [formData, setFormData] = useState<Record<string, string>>({});
   const [generatedContract, setGeneratedContract] = useState<string>('');
   const [isGenerating, setIsGenerating] = useState(false);
+  const [upgradePrompt, setUpgradePrompt] = useState<UpgradePrompt | null>(null);
+  const [workspaces, setWorkspaces] = useState<OrganizationSummary[]>([]);
+  const [shareTo, setShareTo] = useState<string>('');
+
+  // 공유 권한이 있는 워크스페이스만 고를 수 있다. 로그인 전이거나 워크스페이스가 없으면 선택지를 숨긴다
+  useEffect(() => {
+    axios.get<{ data?: OrganizationSummary[] }>('/api/orgs')
+      .then(response => setWorkspaces((response.data.data || []).filter(org => hasOrgPermission(org.myRole, 'resources:share'))))
+      .catch(() => setWorkspaces([]));
+  }, []);
+
+  // 템플릿 목록과 입력 항목은 서버 레지스트리에서 받아온다
+  useEffect(() => {
+    axios.get<ContractTemplatesResponse>('/api/contract/templates', { params: { language, jurisdiction } })
+      .then(response => {
+        const templates = response.data.data?.templates || [];
+        setContractTemplates(templates);
+        setJurisdictions(prev => {
+          const available = templates.reduce((all, template) => all.concat(template.jurisdictions), prev);
+          return available.filter((code, index) => available.indexOf(code) === index);
+        });
+        // 언어·관할을 바꿔 목록에서 빠진 템플릿은 선택을 해제한다
+        setSelectedTemplate(current => (templates.some(template => template.id === current) ? current : ''));
+      })
+      .catch(error => {
+        console.error('Template load error:', error);
+        toast.error('계약서 템플릿을 불러오지 못했습니다.');
+      });
+  }, [language, jurisdiction]);
 
   const handleTemplateChange = (templateId: string) => {
     setSelectedTemplate(templateId);
-    setFormData({});
     setGeneratedContract('');
   };
 
-  const handleInputChange = (fieldId: string, value: string) => {
-    setFormData(prev => ({
-      ...prev,
-      [fieldId]: value
-    }));
-  };
-
-  const generateContract = async () => {
-    if (!selectedTemplate) {
-      toast.error('계약서 템플릿을 선택해주세요.');
-      return;
-    }
-
+  const generateContract = async (formData: TemplateFieldValues): Promise<Record<string, string[]> | void> => {
     const template = contractTemplates.find(t => t.id === selectedTemplate);
-    if (!template) return;
-
-    // 필수 필드 검증
-    const requiredFields = template.fields.filter(field => field.required);
-    const missingFields = requiredFields.filter(field => !formData[field.id]);
-    
-    if (missingFields.length > 0) {
-      toast.error(`필수 항목을 모두 입력해주세요: ${missingFields.map(f => f.label).join(', ')}`);
+    if (!template) {
+      toast.error('계약서 템플릿을 선택해주세요.');
       return;
     }
 
@@ -104,13 +68,28 @@ export default function GenerateContract() {
     try {
       const response = await axios.post('/api/contract/generate', {
         templateId: selectedTemplate,
-        formData
+        version: template.version,
+        jurisdiction: template.jurisdiction,
+        language: template.language,
+        formData,
+        organizationId: shareTo || undefined
       });
 
       setGeneratedContract(response.data.contract);
-      toast.success('계약서가 생성되었습니다!');
+      toast.success(response.data.sharedResourceId ? '계약서가 생성되어 워크스페이스에 공유되었습니다!' : '계약서가 생성되었습니다!');
     } catch (error) {
       console.error('Contract generation error:', error);
+      if (axios.isAxiosError(error) && error.response?.data?.fieldErrors) {
+        toast.error('입력값을 확인해주세요.');
+        return error.response.data.fieldErrors;
+      }
+      // 플랜에 없는 기능(403)이거나 이번 달 한도를 다 쓴 경우(402)
+      if (axios.isAxiosError(error) && error.response?.data?.upgrade) {
+        const denial = error.response.data as EntitlementDenial;
+        toast.error(denial.message);
+        setUpgradePrompt(denial.upgrade);
+        return;
+      }
       toast.error('계약서 생성 중 오류가 발생했습니다.');
     } finally {
       setIsGenerating(false);
@@ -157,7 +136,49 @@ export default function GenerateContract() {
       <div className="max-w-4xl mx-auto px-4">
         <div className="bg-white rounded-lg shadow-md p-6">
           <h1 className="text-3xl font-bold text-gray-900 mb-6">계약서 생성기</h1>
+
+          {upgradePrompt && (
+            <UpgradeBanner
+              trigger={upgradePrompt.trigger}
+              featureName={upgradePrompt.featureName}
+              currentUsage={upgradePrompt.currentUsage}
+              usageLimit={upgradePrompt.usageLimit}
+              className="mb-6"
+              onClose={() => setUpgradePrompt(null)}
+            />
+          )}
           
+          {/* 관할 */}
+          <div className="mb-6">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              준거법 관할
+            </label>
+            <select
+              value={jurisdiction}
+              onChange={(e) => setJurisdiction(e.target.value)}
+              className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {jurisdictions.map(code => (
+                <option key={code} value={code}>{code}</option>
+              ))}
+            </select>
+          </div>
+
+          {/* 작성 언어 */}
+          <div className="mb-6">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              계약서 언어
+            </label>
+            <select
+              value={language}
+              onChange={(e) => setLanguage(e.target.value)}
+              className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="ko">한국어</option>
+              <option value="en">English</option>
+            </select>
+          </div>
+
           {/* 템플릿 선택 */}
           <div className="mb-6">
             <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -171,70 +192,39 @@ export default function GenerateContract() {
               <option value="">템플릿을 선택하세요</option>
               {contractTemplates.map(template => (
                 <option key={template.id} value={template.id}>
-                  {template.name}
+                  {template.name} (v{template.version}{template.language !== language ? `, ${template.language}` : ''})
                 </option>
               ))}
             </select>
           </div>
 
-          {/* 입력 폼 */}
-          {currentTemplate && (
+          {/* 워크스페이스 공유 */}
+          {workspaces.length > 0 && (
             <div className="mb-6">
-              <h2 className="text-xl font-semibold text-gray-800 mb-4">
-                {currentTemplate.name} 정보 입력
-              </h2>
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {currentTemplate.fields.map(field => (
-                  <div key={field.id} className={field.type === 'textarea' ? 'md:col-span-2' : ''}>
-                    <label className="block text-sm font-medium text-gray-700 mb-2">
-                      {field.label}
-                      {field.required && <span className="text-red-500">*</span>}
-                    </label>
-                    {field.type === 'textarea' ? (
-                      <textarea
-                        value={formData[field.id] || ''}
-                        onChange={(e) => handleInputChange(field.id, e.target.value)}
-                        placeholder={field.placeholder}
-                        className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                        rows={3}
-                      />
-                    ) : field.type === 'select' ? (
-                      <select
-                        value={formData[field.id] || ''}
-                        onChange={(e) => handleInputChange(field.id, e.target.value)}
-                        className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                      >
-                        <option value="">선택하세요</option>
-                        {field.options?.map(option => (
-                          <option key={option} value={option}>{option}</option>
-                        ))}
-                      </select>
-                    ) : (
-                      <input
-                        type={field.type}
-                        value={formData[field.id] || ''}
-                        onChange={(e) => handleInputChange(field.id, e.target.value)}
-                        placeholder={field.placeholder}
-                        className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                      />
-                    )}
-                  </div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                워크스페이스에 공유
+              </label>
+              <select
+                value={shareTo}
+                onChange={(e) => setShareTo(e.target.value)}
+                className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">공유하지 않음</option>
+                {workspaces.map(org => (
+                  <option key={org.id} value={org.id}>{org.name}</option>
                 ))}
-              </div>
+              </select>
             </div>
           )}
 
-          {/* 생성 버튼 */}
+          {/* 입력 폼 */}
           {currentTemplate && (
-            <div className="mb-6">
-              <button
-                onClick={generateContract}
-                disabled={isGenerating}
-                className="w-full bg-blue-600 text-white py-3 px-6 rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
-              >
-                {isGenerating ? '생성 중...' : 'AI 계약서 생성'}
-              </button>
-            </div>
+            <ContractTemplateForm
+              key={`${currentTemplate.id}-${currentTemplate.version}-${currentTemplate.language}-${currentTemplate.jurisdiction}`}
+              template={currentTemplate}
+              isGenerating={isGenerating}
+              onSubmit={generateContract}
+            />
           )}
 
           {/* 생성된 계약서 */}
@@ -1,15 +1,23 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { useSession } from 'next-auth/react';
 import { useRouter } from 'next/router';
 import { useTranslation } from 'react-i18next';
 import axios from 'axios';
 import { toast } from 'react-hot-toast';
+import { ConversationSidebar } from '../components/ConversationSidebar';
+import { StatuteCitationList } from '../components/StatuteCitationList';
+import { UpgradeBanner } from '../components/UpgradeBanner';
+import { LegalChatRequestError, streamLegalChat } from '../services/legal-chat-stream';
+import { ConversationListResponse, ConversationResponse, ConversationSummary } from '../types/chat';
+import { StatuteCitation } from '../types/statute';
+import { UpgradePrompt } from '../types/plan';
 
 interface ChatMessage {
   id: string;
   role: 'user' | 'assistant';
   content: string;
   timestamp: Date;
+  citations?: StatuteCitation[];
 }
 
 const predefinedQuestions = [
@@ -30,7 +38,15 @@ export default function LegalChat() {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [inputValue, setInputValue] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [streamingId, setStreamingId] = useState<string | null>(null);
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [upgradePrompt, setUpgradePrompt] = useState<UpgradePrompt | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // 페이지를 떠나면 진행 중인 스트림을 끊는다
+  useEffect(() => () => abortRef.current?.abort(), []);
 
   useEffect(() => {
     if (!session) {
@@ -42,6 +58,64 @@ export default function LegalChat() {
     scrollToBottom();
   }, [messages]);
 
+  const loadConversations = useCallback(async () => {
+    try {
+      const response = await axios.get<ConversationListResponse>('/api/chat/conversations');
+      setConversations(response.data.data?.conversations || []);
+    } catch (error) {
+      console.error('Conversation list error:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (session) loadConversations();
+  }, [session, loadConversations]);
+
+  const openConversation = async (id: string) => {
+    try {
+      const response = await axios.get<ConversationResponse>(`/api/chat/conversations/${id}`);
+      const conversation = response.data.data?.conversation;
+      if (!conversation) return;
+      setConversationId(conversation.id);
+      setMessages(conversation.messages.map(message => ({
+        id: message.id,
+        role: message.role,
+        content: message.cancelled ? `${message.content}\n\n(답변이 중단되었습니다)` : message.content,
+        timestamp: new Date(message.createdAt),
+        citations: message.citations
+      })));
+    } catch (error) {
+      console.error('Conversation load error:', error);
+      toast.error('대화를 불러오지 못했습니다.');
+    }
+  };
+
+  const startNewConversation = () => {
+    setConversationId(null);
+    setMessages([]);
+  };
+
+  const renameConversation = async (id: string, title: string) => {
+    try {
+      await axios.patch(`/api/chat/conversations/${id}`, { title });
+      await loadConversations();
+    } catch (error) {
+      console.error('Conversation rename error:', error);
+      toast.error('대화 이름을 변경하지 못했습니다.');
+    }
+  };
+
+  const deleteConversation = async (id: string) => {
+    try {
+      await axios.delete(`/api/chat/conversations/${id}`);
+      if (id === conversationId) startNewConversation();
+      await loadConversations();
+    } catch (error) {
+      console.error('Conversation delete error:', error);
+      toast.error('대화를 삭제하지 못했습니다.');
+    }
+  };
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
@@ -56,42 +130,63 @@ export default function LegalChat() {
       timestamp: new Date()
     };
 
-    setMessages(prev => [...prev, userMessage]);
+    const assistantId = (Date.now() + 1).toString();
+    const updateAssistant = (text: string) => {
+      setMessages(prev => prev.map(msg => (msg.id === assistantId ? { ...msg, content: text } : msg)));
+    };
+
+    setMessages(prev => [...prev, userMessage, { id: assistantId, role: 'assistant', content: '', timestamp: new Date() }]);
     setInputValue('');
     setIsLoading(true);
+    setStreamingId(assistantId);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
 
     try {
-      const response = await axios.post('/api/chat/legal', {
-        message: content.trim(),
-        history: messages.slice(-5) // 최근 5개 메시지만 컨텍스트로 전송
+      // 이전 대화 내용은 서버가 conversationId로 불러온다
+      const result = await streamLegalChat(content.trim(), {
+        conversationId,
+        signal: controller.signal,
+        onDelta: (_, accumulated) => updateAssistant(accumulated),
+        onConversation: setConversationId
       });
 
-      const assistantMessage: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: response.data.response,
-        timestamp: new Date()
-      };
-
-      setMessages(prev => [...prev, assistantMessage]);
+      if (result.cancelled) {
+        if (result.response) {
+          updateAssistant(`${result.response}\n\n(답변이 중단되었습니다)`);
+        } else {
+          setMessages(prev => prev.filter(msg => msg.id !== assistantId));
+        }
+      } else {
+        setMessages(prev => prev.map(msg => (
+          msg.id === assistantId ? { ...msg, content: result.response, citations: result.citations } : msg
+        )));
+      }
 
     } catch (error) {
       console.error('Chat error:', error);
+      // 플랜 한도에 걸린 경우 업그레이드 안내를 띄운다
+      if (error instanceof LegalChatRequestError && error.upgrade) {
+        toast.error(error.message);
+        updateAssistant(error.message);
+        setUpgradePrompt(error.upgrade);
+        return;
+      }
       toast.error('답변 생성 중 오류가 발생했습니다.');
-      
-      const errorMessage: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: '죄송합니다. 일시적인 오류가 발생했습니다. 잠시 후 다시 시도해주세요.',
-        timestamp: new Date()
-      };
-
-      setMessages(prev => [...prev, errorMessage]);
+      updateAssistant('죄송합니다. 일시적인 오류가 발생했습니다. 잠시 후 다시 시도해주세요.');
     } finally {
+      abortRef.current = null;
+      setStreamingId(null);
       setIsLoading(false);
+      loadConversations();
     }
   };
 
+  const stopStreaming = () => {
+    abortRef.current?.abort();
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     sendMessage(inputValue);
@@ -107,97 +202,130 @@ export default function LegalChat() {
 
   return (
     <div className="min-h-screen bg-gray-50">
-      <div className="max-w-4xl mx-auto py-8 px-4">
-        <div className="bg-white rounded-lg shadow-md h-[600px] flex flex-col">
-          {/* Header */}
-          <div className="border-b p-4">
-            <h1 className="text-2xl font-bold text-gray-900">법률 AI 상담</h1>
-            <p className="text-sm text-gray-600 mt-1">
-              법률 관련 질문을 자유롭게 물어보세요. AI가 도움을 드립니다.
-            </p>
-          </div>
+      <div className="max-w-6xl mx-auto py-8 px-4">
+        <div className="bg-white rounded-lg shadow-md h-[600px] flex">
+          <ConversationSidebar
+            conversations={conversations}
+            activeId={conversationId}
+            disabled={isLoading}
+            onSelect={openConversation}
+            onNew={startNewConversation}
+            onRename={renameConversation}
+            onDelete={deleteConversation}
+          />
 
-          {/* Messages */}
-          <div className="flex-1 overflow-y-auto p-4 space-y-4">
-            {messages.length === 0 && (
-              <div className="text-center text-gray-500">
-                <div className="mb-4">
-                  <p className="text-lg font-medium">안녕하세요! 법률 AI 상담입니다.</p>
-                  <p className="text-sm mt-2">아래 자주 묻는 질문을 클릭하거나 직접 질문해보세요.</p>
-                </div>
+          <div className="flex-1 flex flex-col min-w-0">
+            {/* Header */}
+            <div className="border-b p-4">
+              <h1 className="text-2xl font-bold text-gray-900">법률 AI 상담</h1>
+              <p className="text-sm text-gray-600 mt-1">
+                법률 관련 질문을 자유롭게 물어보세요. AI가 도움을 드립니다.
+              </p>
+            </div>
+
+            {/* Messages */}
+            <div className="flex-1 overflow-y-auto p-4 space-y-4">
+              {messages.length === 0 && (
+                <div className="text-center text-gray-500">
+                  <div className="mb-4">
+                    <p className="text-lg font-medium">안녕하세요! 법률 AI 상담입니다.</p>
+                    <p className="text-sm mt-2">아래 자주 묻는 질문을 클릭하거나 직접 질문해보세요.</p>
+                  </div>
                 
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-2 max-w-3xl mx-auto">
-                  {predefinedQuestions.map((question, index) => (
-                    <button
-                      key={index}
-                      onClick={() => handlePredefinedQuestion(question)}
-                      className="p-3 text-left bg-blue-50 hover:bg-blue-100 rounded-lg transition-colors text-sm"
-                    >
-                      {question}
-                    </button>
-                  ))}
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-2 max-w-3xl mx-auto">
+                    {predefinedQuestions.map((question, index) => (
+                      <button
+                        key={index}
+                        onClick={() => handlePredefinedQuestion(question)}
+                        className="p-3 text-left bg-blue-50 hover:bg-blue-100 rounded-lg transition-colors text-sm"
+                      >
+                        {question}
+                      </button>
+                    ))}
+                  </div>
                 </div>
-              </div>
-            )}
-
-            {messages.map((message) => (
-              <div
-                key={message.id}
-                className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
-              >
+              )}
+
+              {messages.filter(message => message.content || message.id !== streamingId).map((message) => (
                 <div
-                  className={`max-w-[70%] p-3 rounded-lg ${
-                    message.role === 'user'
-                      ? 'bg-blue-600 text-white'
-                      : 'bg-gray-100 text-gray-900'
-                  }`}
+                  key={message.id}
+                  className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
                 >
-                  <p className="whitespace-pre-wrap">{message.content}</p>
-                  <p className={`text-xs mt-1 ${
-                    message.role === 'user' ? 'text-blue-200' : 'text-gray-500'
-                  }`}>
-                    {message.timestamp.toLocaleTimeString()}
-                  </p>
+                  <div
+                    className={`max-w-[70%] p-3 rounded-lg ${
+                      message.role === 'user'
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-100 text-gray-900'
+                    }`}
+                  >
+                    <p className="whitespace-pre-wrap">{message.content}</p>
+                    {message.citations && <StatuteCitationList citations={message.citations} />}
+                    <p className={`text-xs mt-1 ${
+                      message.role === 'user' ? 'text-blue-200' : 'text-gray-500'
+                    }`}>
+                      {message.timestamp.toLocaleTimeString()}
+                    </p>
+                  </div>
                 </div>
-              </div>
-            ))}
-
-            {isLoading && (
-              <div className="flex justify-start">
-                <div className="bg-gray-100 text-gray-900 p-3 rounded-lg">
-                  <div className="flex items-center space-x-2">
-                    <div className="animate-spin h-4 w-4 border-2 border-blue-600 border-t-transparent rounded-full"></div>
-                    <span>답변 생성 중...</span>
+              ))}
+
+              {isLoading && !messages.some(message => message.id === streamingId && message.content) && (
+                <div className="flex justify-start">
+                  <div className="bg-gray-100 text-gray-900 p-3 rounded-lg">
+                    <div className="flex items-center space-x-2">
+                      <div className="animate-spin h-4 w-4 border-2 border-blue-600 border-t-transparent rounded-full"></div>
+                      <span>답변 생성 중...</span>
+                    </div>
                   </div>
                 </div>
-              </div>
-            )}
+              )}
 
-            <div ref={messagesEndRef} />
-          </div>
+              <div ref={messagesEndRef} />
+            </div>
 
-          {/* Input */}
-          <div className="border-t p-4">
-            <form onSubmit={handleSubmit} className="flex space-x-2">
-              <input
-                type="text"
-                value={inputValue}
-                onChange={(e) => setInputValue(e.target.value)}
-                placeholder="법률 관련 질문을 입력하세요..."
-                className="flex-1 p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                disabled={isLoading}
-              />
-              <button
-                type="submit"
-                disabled={isLoading || !inputValue.trim()}
-                className="bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
-              >
-                전송
-              </button>
-            </form>
-            <p className="text-xs text-gray-500 mt-2">
-              ⚠️ 이 서비스는 일반적인 법률 정보를 제공하며, 전문적인 법률 조언을 대체하지 않습니다.
-            </p>
+            {/* Input */}
+            <div className="border-t p-4">
+              {upgradePrompt && (
+                <UpgradeBanner
+                  trigger={upgradePrompt.trigger}
+                  featureName={upgradePrompt.featureName}
+                  currentUsage={upgradePrompt.currentUsage}
+                  usageLimit={upgradePrompt.usageLimit}
+                  className="mb-4"
+                  onClose={() => setUpgradePrompt(null)}
+                />
+              )}
+              <form onSubmit={handleSubmit} className="flex space-x-2">
+                <input
+                  type="text"
+                  value={inputValue}
+                  onChange={(e) => setInputValue(e.target.value)}
+                  placeholder="법률 관련 질문을 입력하세요..."
+                  className="flex-1 p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  disabled={isLoading}
+                />
+                {isLoading ? (
+                  <button
+                    type="button"
+                    onClick={stopStreaming}
+                    className="bg-gray-600 text-white px-6 py-3 rounded-lg hover:bg-gray-700 transition-colors"
+                  >
+                    중지
+                  </button>
+                ) : (
+                  <button
+                    type="submit"
+                    disabled={!inputValue.trim()}
+                    className="bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+                  >
+                    전송
+                  </button>
+                )}
+              </form>
+              <p className="text-xs text-gray-500 mt-2">
+                ⚠️ 이 서비스는 일반적인 법률 정보를 제공하며, 전문적인 법률 조언을 대체하지 않습니다.
+              </p>
+            </div>
           </div>
         </div>
       </div>
@@ -1,4 +1,6 @@
 import { useSession } from 'next-auth/react';
+import UsageSummaryCard from '../components/UsageSummaryCard';
+import SubscriptionStatusCard from '../components/SubscriptionStatusCard';
 
 export default function MyPage() {
   const { data: session, status } = useSession();
@@ -22,9 +24,9 @@ export default function MyPage() {
       <h1 className="text-3xl font-bold mb-4">🙋 마이페이지</h1>
       <div className="bg-white rounded-lg shadow-md p-6 w-full max-w-md text-left">
         <p className="mb-2"><strong>이메일:</strong> {user.email}</p>
-        <p className="mb-2"><strong>요금제:</strong> {user.plan ? user.plan : 'basic (무료)'}</p>
-        <p className="text-sm text-gray-500 mt-4">프리미엄 기능을 이용하려면 요금제를 업그레이드하세요.</p>
       </div>
+      <SubscriptionStatusCard />
+      <UsageSummaryCard />
     </div>
   );
 }
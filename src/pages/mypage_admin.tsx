@@ -1,5 +1,7 @@
 import { useSession } from 'next-auth/react';
 import { useState } from 'react';
+import { hasRole, STAFF_ROLES } from '@/lib/auth/roles';
+import { withRole } from '@/lib/auth/rbac';
 
 export default function MyPageAdmin() {
   const { data: session, status } = useSession();
@@ -10,7 +12,7 @@ export default function MyPageAdmin() {
     return <div className="p-6 text-center text-gray-500">로딩 중...</div>;
   }
 
-  if (!session || session.user.email !== 'admin@example.com') {
+  if (!session || !hasRole(session.user.role, STAFF_ROLES)) {
     return (
       <div className="p-6 text-center text-red-500">
         관리자만 접근 가능한 페이지입니다.
@@ -59,3 +61,5 @@ export default function MyPageAdmin() {
     </div>
   );
 }
+
+export const getServerSideProps = withRole();
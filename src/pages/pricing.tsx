@@ -6,6 +6,10 @@ import { useSession } from 'next-auth/react';
 import { useTranslation } from 'react-i18next';
 import { Check, X, Star, Zap, Bot, ArrowRight, TrendingUp, Shield, Target, Gift } from 'lucide-react';
 import { logUserAction } from '../lib/logUserAction';
+import { BillingInterval } from '../types/user';
+import { CURRENCY_SYMBOLS, PLAN_PRICES, currencyForLanguage, formatPlanPrice } from '../lib/payment/plan-prices';
+import { startCheckout } from '../lib/payment/checkout-client';
+import { AppliedDiscount } from '../types/promotion';
 
 interface PlanRecommendation {
   recommended_plan: string;
@@ -43,14 +47,26 @@ const PricingPage: NextPage = () => {
   const [recommendation, setRecommendation] = useState<PlanRecommendation | null>(null);
   const [selectedPlan, setSelectedPlan] = useState<string>('pro');
   const [seoSource, setSeoSource] = useState<string | null>(null);
+  const [billingInterval, setBillingInterval] = useState<BillingInterval>('monthly');
+  // 한국어 화면은 원화로 Toss 결제, 나머지는 달러로 Stripe 결제
+  const currency = currencyForLanguage(i18n.language);
+  const [promoCode, setPromoCode] = useState('');
+  const [promoDiscounts, setPromoDiscounts] = useState<Record<string, AppliedDiscount>>({});
+  const [promoMessage, setPromoMessage] = useState<string | null>(null);
+
+  // 할인 금액은 결제 주기마다 다르므로 주기를 바꾸면 다시 적용한다
+  useEffect(() => {
+    setPromoDiscounts({});
+    setPromoMessage(null);
+  }, [billingInterval]);
 
   const plans: Plan[] = [
     {
       id: 'basic',
       name: t('basic_plan', 'Basic Plan'),
-      price: 29,
-      currency: '$',
-      period: '/month',
+      price: PLAN_PRICES[currency].basic[billingInterval],
+      currency: CURRENCY_SYMBOLS[currency],
+      period: billingInterval === 'monthly' ? '/month' : '/year',
       description: i18n.language === 'ko' ? '개인 및 소규모 팀을 위한 기본 플랜' :
                   i18n.language === 'ja' ? '個人・小規模チーム向けベーシックプラン' :
                   i18n.language === 'zh' ? '个人和小团队基础套餐' :
@@ -68,9 +84,9 @@ const PricingPage: NextPage = () => {
     {
       id: 'pro',
       name: t('premium_plan', 'Pro Plan'),
-      price: 99,
-      currency: '$',
-      period: '/month',
+      price: PLAN_PRICES[currency].pro[billingInterval],
+      currency: CURRENCY_SYMBOLS[currency],
+      period: billingInterval === 'monthly' ? '/month' : '/year',
       description: i18n.language === 'ko' ? '성장하는 기업과 전문가를 위한 프로 플랜' :
                   i18n.language === 'ja' ? '成長企業・専門家向けプロプラン' :
                   i18n.language === 'zh' ? '成长企业和专业人士专业套餐' :
@@ -89,9 +105,9 @@ const PricingPage: NextPage = () => {
     {
       id: 'enterprise',
       name: 'Enterprise',
-      price: 299,
-      currency: '$',
-      period: '/month',
+      price: PLAN_PRICES[currency].enterprise[billingInterval],
+      currency: CURRENCY_SYMBOLS[currency],
+      period: billingInterval === 'monthly' ? '/month' : '/year',
       description: i18n.language === 'ko' ? '대기업과 법무팀을 위한 엔터프라이즈 플랜' :
                   i18n.language === 'ja' ? '大企業・法務チーム向けエンタープライズプラン' :
                   i18n.language === 'zh' ? '大企业和法务团队企业套餐' :
@@ -156,6 +172,33 @@ const PricingPage: NextPage = () => {
     }
   };
 
+  // 플랜마다 할인을 미리 계산해 카드에 보여 준다. 쓸 수 없는 플랜은 원래 가격 그대로 둔다
+  const applyPromoCode = async () => {
+    if (!session?.user) {
+      window.location.href = '/auth/signin';
+      return;
+    }
+    if (!promoCode.trim()) return;
+
+    const results = await Promise.all(plans.map(async plan => {
+      const response = await fetch('/api/payment/promo/validate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code: promoCode, plan: plan.id, interval: billingInterval, currency })
+      });
+      return { planId: plan.id, result: await response.json() };
+    }));
+
+    const discounts: Record<string, AppliedDiscount> = {};
+    results.forEach(({ planId, result }) => {
+      if (result.success) discounts[planId] = result.data;
+    });
+    setPromoDiscounts(discounts);
+    setPromoMessage(Object.keys(discounts).length
+      ? (i18n.language === 'ko' ? '프로모션 코드가 적용되었습니다.' : 'Promo code applied.')
+      : results[0]?.result.error || 'Invalid promo code');
+  };
+
   const handleSelectPlan = async (planId: string) => {
     if (!session?.user) {
       window.location.href = '/auth/signin';
@@ -175,23 +218,7 @@ const PricingPage: NextPage = () => {
     }
 
     try {
-      const response = await fetch('/api/payment/create-checkout-session', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          priceId: planId,
-          plan: planId,
-        }),
-      });
-
-      if (response.ok) {
-        const { url } = await response.json();
-        window.location.href = url;
-      } else {
-        throw new Error('Failed to create checkout session');
-      }
+      await startCheckout(planId, billingInterval, currency, promoDiscounts[planId] ? promoCode : undefined);
     } catch (error) {
       console.error('Payment error:', error);
       alert('Payment processing failed. Please try again.');
@@ -289,6 +316,44 @@ const PricingPage: NextPage = () => {
             </p>
           </div>
 
+          {/* Billing interval */}
+          <div className="flex justify-center mb-12">
+            <div className="inline-flex bg-white rounded-lg shadow p-1">
+              {(['monthly', 'yearly'] as BillingInterval[]).map(interval => (
+                <button
+                  key={interval}
+                  onClick={() => setBillingInterval(interval)}
+                  className={`px-6 py-2 rounded-md text-sm font-medium transition-colors ${
+                    billingInterval === interval ? 'bg-blue-600 text-white' : 'text-gray-700 hover:text-blue-600'
+                  }`}
+                >
+                  {interval === 'monthly'
+                    ? (i18n.language === 'ko' ? '월간 결제' : 'Monthly')
+                    : (i18n.language === 'ko' ? '연간 결제' : 'Yearly')}
+                </button>
+              ))}
+            </div>
+
+            {/* Promo Code */}
+            <div className="mt-6 flex flex-col items-center">
+              <div className="flex">
+                <input
+                  value={promoCode}
+                  onChange={event => setPromoCode(event.target.value.toUpperCase())}
+                  placeholder={i18n.language === 'ko' ? '프로모션 코드' : 'Promo code'}
+                  className="border border-gray-300 rounded-l-md px-4 py-2 text-sm"
+                />
+                <button
+                  onClick={applyPromoCode}
+                  className="bg-gray-900 text-white rounded-r-md px-4 py-2 text-sm font-medium hover:bg-gray-700"
+                >
+                  {i18n.language === 'ko' ? '적용' : 'Apply'}
+                </button>
+              </div>
+              {promoMessage && <p className="mt-2 text-sm text-gray-600">{promoMessage}</p>}
+            </div>
+          </div>
+
           {/* AI Recommendation Section */}
           {session?.user && recommendation && (
             <div className="mb-12">
@@ -412,7 +477,18 @@ const PricingPage: NextPage = () => {
                   <p className="text-gray-600 mb-6">{plan.description}</p>
                   
                   <div className="mb-8">
-                    <span className="text-4xl font-bold text-gray-900">{plan.currency}{plan.price}</span>
+                    {promoDiscounts[plan.id] ? (
+                      <>
+                        <span className="text-lg text-gray-400 line-through mr-2">
+                          {formatPlanPrice(promoDiscounts[plan.id].originalAmount, promoDiscounts[plan.id].currency)}
+                        </span>
+                        <span className="text-4xl font-bold text-green-600">
+                          {formatPlanPrice(promoDiscounts[plan.id].finalAmount, promoDiscounts[plan.id].currency)}
+                        </span>
+                      </>
+                    ) : (
+                      <span className="text-4xl font-bold text-gray-900">{plan.currency}{plan.price.toLocaleString()}</span>
+                    )}
                     <span className="text-gray-600">{plan.period}</span>
                   </div>
                   
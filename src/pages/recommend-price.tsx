@@ -4,6 +4,8 @@ import { useRouter } from 'next/router';
 import { useTranslation } from 'react-i18next';
 import axios from 'axios';
 import { toast } from 'react-hot-toast';
+import { currencyForLanguage } from '@/lib/payment/plan-prices';
+import { startCheckout } from '@/lib/payment/checkout-client';
 
 interface PlanRecommendation {
   recommendedPlan: string;
@@ -55,7 +57,7 @@ const planOptions: PlanOption[] = [
 export default function RecommendPrice() {
   const { data: session } = useSession();
   const router = useRouter();
-  const { t } = useTranslation();
+  const { t, i18n } = useTranslation();
   const [recommendation, setRecommendation] = useState<PlanRecommendation | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isUpgrading, setIsUpgrading] = useState(false);
@@ -85,15 +87,7 @@ export default function RecommendPrice() {
   const handleUpgrade = async (planId: string) => {
     setIsUpgrading(true);
     try {
-      const response = await axios.post('/api/payment/create-checkout-session', {
-        planId,
-        successUrl: `${window.location.origin}/success`,
-        cancelUrl: `${window.location.origin}/recommend-price`
-      });
-
-      if (response.data.url) {
-        window.location.href = response.data.url;
-      }
+      await startCheckout(planId, 'monthly', currencyForLanguage(i18n.language));
     } catch (error) {
       console.error('Upgrade error:', error);
       toast.error('업그레이드 중 오류가 발생했습니다.');
@@ -1,10 +1,18 @@
-import { useEffect } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useRouter } from 'next/router';
 import { savePurchase } from '../utils/savePurchase';
+import { TossConfirmResult } from '@/types/billing';
+
+type TossConfirmState =
+  | { state: 'confirming' }
+  | { state: 'done'; result: TossConfirmResult }
+  | { state: 'error'; message: string };
 
 const Success = () => {
   const router = useRouter();
-  const { session_id } = router.query;
+  const { session_id, provider, paymentKey, orderId, amount } = router.query;
+  const [toss, setToss] = useState<TossConfirmState | null>(null);
+  const confirming = useRef(false);
 
   useEffect(() => {
     if (session_id) {
@@ -12,6 +20,63 @@ const Success = () => {
     }
   }, [session_id]);
 
+  // Toss는 결제창 인증만 끝난 상태로 돌아오므로 서버에서 승인해야 결제가 완료된다
+  useEffect(() => {
+    if (provider !== 'toss' || !paymentKey || !orderId || confirming.current) return;
+    confirming.current = true;
+    setToss({ state: 'confirming' });
+
+    fetch('/api/payment/toss/confirm', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ paymentKey, orderId, amount: Number(amount) })
+    })
+      .then(response => response.json())
+      .then(result => {
+        if (!result.success) {
+          setToss({ state: 'error', message: result.error || '결제 승인에 실패했습니다.' });
+          return;
+        }
+        savePurchase(orderId as string);
+        setToss({ state: 'done', result: result.data });
+      })
+      .catch(() => setToss({ state: 'error', message: '결제 승인 중 오류가 발생했습니다.' }));
+  }, [provider, paymentKey, orderId, amount]);
+
+  if (toss?.state === 'confirming') {
+    return (
+      <div className="p-6 text-center">
+        <h1 className="text-2xl font-bold text-gray-700">결제를 승인하는 중입니다...</h1>
+      </div>
+    );
+  }
+
+  if (toss?.state === 'error') {
+    return (
+      <div className="p-6 text-center">
+        <h1 className="text-2xl font-bold text-red-600">❌ 결제 승인에 실패했습니다</h1>
+        <p className="mt-4">{toss.message}</p>
+      </div>
+    );
+  }
+
+  if (toss?.state === 'done' && toss.result.status === 'waiting_for_deposit' && toss.result.virtualAccount) {
+    const account = toss.result.virtualAccount;
+    return (
+      <div className="p-6 text-center">
+        <h1 className="text-2xl font-bold text-blue-600">🏦 가상계좌가 발급되었습니다</h1>
+        <p className="mt-4">아래 계좌로 입금하시면 플랜이 적용됩니다.</p>
+        <div className="mt-4 inline-block text-left bg-gray-50 rounded-lg p-4">
+          <p>은행 코드: {account.bankCode}</p>
+          <p>계좌번호: {account.accountNumber}</p>
+          <p>예금주: {account.customerName}</p>
+          <p>입금 금액: ₩{toss.result.amount.toLocaleString()}</p>
+          <p>입금 기한: {new Date(account.dueDate).toLocaleString('ko-KR')}</p>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="p-6 text-center">
       <h1 className="text-2xl font-bold text-green-600">✅ 결제가 완료되었습니다!</h1>
@@ -20,4 +85,4 @@ const Success = () => {
   );
 };
 
-export default Success;
\ No newline at end of file
+export default Success;
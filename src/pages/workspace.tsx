@@ -0,0 +1,312 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/router';
+import { useSession } from 'next-auth/react';
+import { UpgradeBanner } from '../components/UpgradeBanner';
+import { withRole } from '../lib/auth/rbac';
+import { USER_ROLES } from '../lib/auth/roles';
+import { ASSIGNABLE_ORG_ROLES, hasOrgPermission, ORG_ROLE_LABELS } from '../lib/auth/organization-permissions';
+import { OrganizationDetail, OrganizationSummary, SharedResource, SharedResourceType } from '../types/organization';
+import { UpgradePrompt } from '../types/plan';
+
+const RESOURCE_LABELS: Record<SharedResourceType, string> = {
+  contract: '계약서',
+  strategy_log: '전략 리포트',
+  bookmark: '북마크'
+};
+
+interface ApiResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  message?: string;
+  upgrade?: UpgradePrompt;
+}
+
+async function api<T>(url: string, method = 'GET', body?: unknown): Promise<ApiResult<T>> {
+  const response = await fetch(url, {
+    method,
+    headers: body ? { 'Content-Type': 'application/json' } : undefined,
+    body: body ? JSON.stringify(body) : undefined
+  });
+  return response.json();
+}
+
+function contentField(content: unknown, key: string): string {
+  if (!content || typeof content !== 'object') return '';
+  const value = (content as Record<string, unknown>)[key];
+  return typeof value === 'string' ? value : '';
+}
+
+// 계약서는 본문, 전략 리포트는 요약, 북마크는 메모를 미리보기로 보여준다
+function resourcePreview(resource: SharedResource): string {
+  if (resource.type === 'contract') return contentField(resource.content, 'contract');
+  if (resource.type === 'strategy_log') return contentField(resource.content, 'strategySummary');
+  return contentField(resource.content, 'notes') || resource.sourceId || '';
+}
+
+export default function Workspace() {
+  const router = useRouter();
+  const { data: session } = useSession();
+  const [organizations, setOrganizations] = useState<OrganizationSummary[]>([]);
+  const [detail, setDetail] = useState<OrganizationDetail | null>(null);
+  const [resources, setResources] = useState<SharedResource[]>([]);
+  const [resourceType, setResourceType] = useState<SharedResourceType | ''>('');
+  const [newName, setNewName] = useState('');
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<string>('editor');
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [upgradePrompt, setUpgradePrompt] = useState<UpgradePrompt | null>(null);
+
+  const selectedId = typeof router.query.org === 'string' ? router.query.org : organizations[0]?.id;
+  const inviteToken = router.query.invite;
+  const { replace } = router;
+
+  const report = useCallback((result: ApiResult<unknown>, success: string) => {
+    if (result.success) {
+      setNotice(success);
+      setError(null);
+    } else {
+      setError(result.message || result.error || '요청을 처리하지 못했습니다.');
+      setNotice(null);
+      if (result.upgrade) setUpgradePrompt(result.upgrade);
+    }
+    return result.success;
+  }, []);
+
+  const loadOrganizations = useCallback(async () => {
+    const result = await api<OrganizationSummary[]>('/api/orgs');
+    setOrganizations(result.data || []);
+  }, []);
+
+  const loadDetail = useCallback(async () => {
+    if (!selectedId) {
+      setDetail(null);
+      setResources([]);
+      return;
+    }
+    const [detailResult, resourceResult] = await Promise.all([
+      api<OrganizationDetail>(`/api/orgs/${selectedId}`),
+      api<SharedResource[]>(`/api/orgs/${selectedId}/resources${resourceType ? `?type=${resourceType}` : ''}`)
+    ]);
+    setDetail(detailResult.data || null);
+    setResources(resourceResult.data || []);
+  }, [selectedId, resourceType]);
+
+  // 초대 메일의 링크로 들어오면 먼저 초대를 수락한다
+  useEffect(() => {
+    if (typeof inviteToken !== 'string') {
+      loadOrganizations();
+      return;
+    }
+    api<{ organizationId: string; name: string }>('/api/orgs/accept-invite', 'POST', { token: inviteToken })
+      .then(result => {
+        report(result, `${result.data?.name} 워크스페이스에 참여했습니다.`);
+        replace(result.data ? `/workspace?org=${result.data.organizationId}` : '/workspace');
+      });
+  }, [inviteToken, loadOrganizations, replace, report]);
+
+  useEffect(() => {
+    loadDetail();
+  }, [loadDetail]);
+
+  const createOrganization = async () => {
+    const result = await api<OrganizationSummary>('/api/orgs', 'POST', { name: newName });
+    if (report(result, '워크스페이스를 만들었습니다.') && result.data) {
+      setNewName('');
+      await loadOrganizations();
+      router.replace(`/workspace?org=${result.data.id}`);
+    }
+  };
+
+  const invite = async () => {
+    const result = await api(`/api/orgs/${selectedId}/invites`, 'POST', { email: inviteEmail, role: inviteRole });
+    if (report(result, `${inviteEmail}에게 초대 메일을 보냈습니다.`)) {
+      setInviteEmail('');
+      await loadDetail();
+    }
+  };
+
+  const revokeInvite = async (inviteId: string) => {
+    report(await api(`/api/orgs/${selectedId}/invites?inviteId=${inviteId}`, 'DELETE'), '초대를 취소했습니다.');
+    await loadDetail();
+  };
+
+  const changeRole = async (userId: string, role: string) => {
+    report(await api(`/api/orgs/${selectedId}/members`, 'PUT', { userId, role }), '역할을 바꿨습니다.');
+    await loadDetail();
+  };
+
+  const removeMember = async (userId: string) => {
+    const leaving = userId === session?.user?.id;
+    if (!confirm(leaving ? '워크스페이스에서 나가시겠습니까?' : '이 멤버를 내보내시겠습니까?')) return;
+
+    const result = await api(`/api/orgs/${selectedId}/members?userId=${userId}`, 'DELETE');
+    if (report(result, leaving ? '워크스페이스에서 나왔습니다.' : '멤버를 내보냈습니다.') && leaving) {
+      await loadOrganizations();
+      router.replace('/workspace');
+      return;
+    }
+    await loadDetail();
+  };
+
+  const deleteResource = async (id: string) => {
+    if (!confirm('공유 자료를 삭제하시겠습니까?')) return;
+    report(await api(`/api/orgs/${selectedId}/resources?id=${id}`, 'DELETE'), '공유 자료를 삭제했습니다.');
+    await loadDetail();
+  };
+
+  const canManageMembers = detail ? hasOrgPermission(detail.myRole, 'members:manage') : false;
+  const canManageResources = detail ? hasOrgPermission(detail.myRole, 'resources:manage') : false;
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-5xl mx-auto px-4 space-y-6">
+        <h1 className="text-3xl font-bold text-gray-900">👥 팀 워크스페이스</h1>
+
+        {upgradePrompt && (
+          <UpgradeBanner
+            trigger={upgradePrompt.trigger}
+            featureName={upgradePrompt.featureName}
+            onClose={() => setUpgradePrompt(null)}
+          />
+        )}
+        {notice && <p className="p-3 rounded bg-green-50 text-green-700">{notice}</p>}
+        {error && <p className="p-3 rounded bg-red-50 text-red-700">{error}</p>}
+
+        <div className="bg-white rounded-lg shadow p-6">
+          <div className="flex flex-wrap gap-2 mb-4">
+            {organizations.map(org => (
+              <button
+                key={org.id}
+                onClick={() => router.replace(`/workspace?org=${org.id}`)}
+                className={`px-4 py-2 rounded-lg border ${org.id === selectedId ? 'bg-blue-600 text-white' : 'bg-white text-gray-700'}`}
+              >
+                {org.name}
+                <span className="ml-2 text-xs opacity-75">{ORG_ROLE_LABELS[org.myRole]}</span>
+              </button>
+            ))}
+            {organizations.length === 0 && <p className="text-gray-500">참여 중인 워크스페이스가 없습니다.</p>}
+          </div>
+          <div className="flex gap-2">
+            <input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="새 워크스페이스 이름"
+              className="flex-1 p-2 border border-gray-300 rounded-lg"
+            />
+            <button onClick={createOrganization} disabled={!newName.trim()} className="px-4 py-2 bg-blue-600 text-white rounded-lg disabled:opacity-50">
+              만들기
+            </button>
+          </div>
+        </div>
+
+        {detail && (
+          <>
+            <div className="bg-white rounded-lg shadow p-6">
+              <div className="flex justify-between items-center mb-4">
+                <h2 className="text-xl font-semibold">멤버</h2>
+                <p className="text-sm text-gray-600">
+                  좌석 {detail.seats.members + detail.seats.pendingInvites} / {detail.seats.total}
+                  {detail.seats.pendingInvites > 0 && ` (초대 대기 ${detail.seats.pendingInvites})`}
+                </p>
+              </div>
+              <ul className="divide-y">
+                {detail.members.map(member => (
+                  <li key={member.id} className="py-2 flex items-center justify-between">
+                    <span>{member.email}</span>
+                    <span className="flex items-center gap-2">
+                      {canManageMembers && member.role !== 'owner' ? (
+                        <select value={member.role} onChange={(e) => changeRole(member.userId, e.target.value)} className="p-1 border rounded">
+                          {ASSIGNABLE_ORG_ROLES.map(role => <option key={role} value={role}>{ORG_ROLE_LABELS[role]}</option>)}
+                        </select>
+                      ) : (
+                        <span className="text-sm text-gray-600">{ORG_ROLE_LABELS[member.role]}</span>
+                      )}
+                      {member.role !== 'owner' && (canManageMembers || member.userId === session?.user?.id) && (
+                        <button onClick={() => removeMember(member.userId)} className="text-sm text-red-600">
+                          {member.userId === session?.user?.id ? '나가기' : '내보내기'}
+                        </button>
+                      )}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+
+              {canManageMembers && (
+                <div className="mt-4 space-y-3">
+                  <div className="flex gap-2">
+                    <input
+                      type="email"
+                      value={inviteEmail}
+                      onChange={(e) => setInviteEmail(e.target.value)}
+                      placeholder="초대할 이메일"
+                      className="flex-1 p-2 border border-gray-300 rounded-lg"
+                    />
+                    <select value={inviteRole} onChange={(e) => setInviteRole(e.target.value)} className="p-2 border rounded-lg">
+                      {ASSIGNABLE_ORG_ROLES.map(role => <option key={role} value={role}>{ORG_ROLE_LABELS[role]}</option>)}
+                    </select>
+                    <button
+                      onClick={invite}
+                      disabled={!inviteEmail || detail.seats.available <= 0}
+                      className="px-4 py-2 bg-blue-600 text-white rounded-lg disabled:opacity-50"
+                    >
+                      초대
+                    </button>
+                  </div>
+                  {detail.seats.available <= 0 && (
+                    <p className="text-sm text-orange-600">남은 좌석이 없습니다. 구독 좌석을 늘리거나 멤버를 정리해 주세요.</p>
+                  )}
+                  {detail.invites.map(pending => (
+                    <p key={pending.id} className="text-sm text-gray-600 flex justify-between">
+                      <span>{pending.email} · {ORG_ROLE_LABELS[pending.role]} · {new Date(pending.expiresAt).toLocaleDateString()}까지</span>
+                      <button onClick={() => revokeInvite(pending.id)} className="text-red-600">초대 취소</button>
+                    </p>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="bg-white rounded-lg shadow p-6">
+              <div className="flex justify-between items-center mb-4">
+                <h2 className="text-xl font-semibold">공유 자료</h2>
+                <select value={resourceType} onChange={(e) => setResourceType(e.target.value as SharedResourceType | '')} className="p-2 border rounded-lg">
+                  <option value="">전체</option>
+                  {(Object.keys(RESOURCE_LABELS) as SharedResourceType[]).map(type => (
+                    <option key={type} value={type}>{RESOURCE_LABELS[type]}</option>
+                  ))}
+                </select>
+              </div>
+              {resources.length === 0 ? (
+                <p className="text-gray-500">공유된 자료가 없습니다.</p>
+              ) : (
+                <ul className="space-y-4">
+                  {resources.map(resource => (
+                    <li key={resource.id} className="border rounded-lg p-4">
+                      <div className="flex justify-between items-start">
+                        <div>
+                          <span className="text-xs px-2 py-1 rounded bg-gray-100 mr-2">{RESOURCE_LABELS[resource.type]}</span>
+                          <strong>{resource.title}</strong>
+                          <p className="text-xs text-gray-500 mt-1">
+                            {resource.sharedByEmail} · {new Date(resource.createdAt).toLocaleString()}
+                          </p>
+                        </div>
+                        {(canManageResources || resource.sharedBy === session?.user?.id) && (
+                          <button onClick={() => deleteResource(resource.id)} className="text-sm text-red-600">삭제</button>
+                        )}
+                      </div>
+                      <pre className="mt-2 whitespace-pre-wrap text-sm text-gray-700 max-h-40 overflow-y-auto">{resourcePreview(resource)}</pre>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// 로그인하지 않았으면 초대 링크를 그대로 돌아오도록 로그인 화면으로 보낸다
+export const getServerSideProps = withRole(USER_ROLES);
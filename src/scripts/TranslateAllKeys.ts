@@ -1,5 +1,6 @@
 import fs from 'fs';
 import path from 'path';
+import { aiProviders } from '../services/ai-provider-registry';
 
 interface TranslationData {
   [key: string]: string;
@@ -10,20 +11,8 @@ const SUPPORTED_LANGUAGES = ['ja', 'zh'];
 
 // AI 번역 서비스 클래스
 class AITranslator {
-  private apiKey: string;
-
-  constructor(apiKey: string) {
-    this.apiKey = apiKey;
-  }
-
   async translateText(text: string, targetLanguage: string): Promise<string> {
     try {
-      // Claude API 사용
-      const { Anthropic } = await import('@anthropic-ai/sdk');
-      const anthropic = new Anthropic({
-        apiKey: this.apiKey,
-      });
-
       const languageMap: { [key: string]: string } = {
         'ja': '일본어',
         'zh': '중국어 간체'
@@ -35,19 +24,13 @@ class AITranslator {
 
 번역:`;
 
-      const response = await anthropic.messages.create({
-        model: "claude-3-sonnet-20240229",
-        max_tokens: 1000,
-        temperature: 0.3,
-        messages: [
-          {
-            role: "user",
-            content: prompt
-          }
-        ]
+      const response = await aiProviders.generate('claude', {
+        prompt,
+        maxTokens: 1000,
+        temperature: 0.3
       });
 
-      return response.content[0].type === 'text' ? response.content[0].text.trim() : text;
+      return response.text.trim() || text;
 
     } catch (error) {
       console.error(`Translation error for "${text}" to ${targetLanguage}:`, error);
@@ -61,8 +44,8 @@ class TranslationManager {
   private translator: AITranslator;
   private baseTranslation: TranslationData;
 
-  constructor(apiKey: string) {
-    this.translator = new AITranslator(apiKey);
+  constructor() {
+    this.translator = new AITranslator();
     this.baseTranslation = {};
   }
 
@@ -203,14 +186,12 @@ class TranslationManager {
 
 // 메인 실행 함수
 async function main() {
-  const apiKey = process.env.ANTHROPIC_API_KEY || process.env.CLAUDE_API_KEY;
-  
-  if (!apiKey) {
+  if (!aiProviders.get('claude').isConfigured()) {
     console.error('API key not found. Please set ANTHROPIC_API_KEY or CLAUDE_API_KEY environment variable.');
     process.exit(1);
   }
 
-  const manager = new TranslationManager(apiKey);
+  const manager = new TranslationManager();
   
   // 기본 번역 파일 로드
   manager.loadBaseTranslation();
@@ -1,7 +1,15 @@
-import { claudeAPI } from '@/services/claude-api';
-import { perplexityService } from '@/lib/ai/callPerplexity';
-import { geminiService } from '@/lib/ai/callGemini';
-import { openaiService } from '@/lib/ai/callOpenAI';
+import { aiProviders } from '@/services/ai-provider-registry';
+import { estimateCost } from '@/lib/ai/providers/pricing';
+import { AIProviderId } from '@/types/ai-provider';
+
+type CircuitState = 'closed' | 'open' | 'half-open';
+
+interface CircuitBreaker {
+  state: CircuitState;
+  openedAt: Date | null;
+  // half-open 상태에서 시험 요청을 보낸 시각 (한 번에 하나만 보낸다)
+  trialStartedAt: Date | null;
+}
 
 interface ProviderMetrics {
   providerId: string;
@@ -24,7 +32,10 @@ interface ProviderMetrics {
     rateLimit: number;
     dailyQuota: number;
     usedQuota: number;
+    // usedQuota를 세는 날짜(UTC, YYYY-MM-DD). 날짜가 바뀌면 0부터 다시 센다
+    quotaDay: string;
   };
+  circuit: CircuitBreaker;
 }
 
 interface HealthCheckResult {
@@ -45,8 +56,23 @@ interface LoadBalancingDecision {
   alternatives: string[];
   expectedResponseTime: number;
   confidence: number;
+  excluded: Array<{ providerId: string; reason: string }>;
 }
 
+interface RequestOutcome {
+  success: boolean;
+  responseTime: number;
+  tokensUsed?: number;
+  cost?: number;
+}
+
+// 연속 실패가 이 횟수에 이르면 회로를 연다
+const CIRCUIT_FAILURE_THRESHOLD = 3;
+// 회로가 열린 뒤 시험 요청을 허용하기까지 기다리는 시간
+const CIRCUIT_COOLDOWN_MS = 60 * 1000;
+
+const currentQuotaDay = () => new Date().toISOString().slice(0, 10);
+
 class AIProviderMonitor {
   private providers: Map<string, ProviderMetrics> = new Map();
   private healthCheckInterval = 5 * 60 * 1000; // 5 minutes
@@ -55,6 +81,7 @@ class AIProviderMonitor {
 
   constructor() {
     this.initializeProviders();
+    this.subscribeToRequests();
     this.startHealthMonitoring();
     this.startPerformanceTracking();
   }
@@ -81,8 +108,10 @@ class AIProviderMonitor {
           maxTokens: 200000,
           rateLimit: 1000,
           dailyQuota: 100000,
-          usedQuota: 0
-        }
+          usedQuota: 0,
+          quotaDay: currentQuotaDay()
+        },
+        circuit: { state: 'closed', openedAt: null, trialStartedAt: null }
       },
       {
         providerId: 'perplexity',
@@ -104,8 +133,10 @@ class AIProviderMonitor {
           maxTokens: 128000,
           rateLimit: 600,
           dailyQuota: 50000,
-          usedQuota: 0
-        }
+          usedQuota: 0,
+          quotaDay: currentQuotaDay()
+        },
+        circuit: { state: 'closed', openedAt: null, trialStartedAt: null }
       },
       {
         providerId: 'gemini',
@@ -127,8 +158,10 @@ class AIProviderMonitor {
           maxTokens: 1048576,
           rateLimit: 1500,
           dailyQuota: 150000,
-          usedQuota: 0
-        }
+          usedQuota: 0,
+          quotaDay: currentQuotaDay()
+        },
+        circuit: { state: 'closed', openedAt: null, trialStartedAt: null }
       },
       {
         providerId: 'openai',
@@ -150,8 +183,10 @@ class AIProviderMonitor {
           maxTokens: 128000,
           rateLimit: 500,
           dailyQuota: 75000,
-          usedQuota: 0
-        }
+          usedQuota: 0,
+          quotaDay: currentQuotaDay()
+        },
+        circuit: { state: 'closed', openedAt: null, trialStartedAt: null }
       }
     ];
 
@@ -161,6 +196,19 @@ class AIProviderMonitor {
     });
   }
 
+  // 헬스 체크뿐 아니라 실제 호출 결과도 지표와 회로 차단기에 반영한다
+  private subscribeToRequests(): void {
+    aiProviders.onRequest(event => {
+      if (event.aborted) return;
+      this.recordRequestResult(event.provider, {
+        success: event.success,
+        responseTime: event.latencyMs,
+        tokensUsed: event.result?.usage.totalTokens,
+        cost: event.result ? estimateCost(event.provider, event.result.usage) : 0
+      });
+    });
+  }
+
   private startHealthMonitoring(): void {
     setInterval(async () => {
       await this.performHealthChecks();
@@ -201,37 +249,18 @@ class AIProviderMonitor {
     const startTime = Date.now();
     
     try {
-      let success = false;
-      let tokensUsed = 0;
-      let cost = 0;
-
-      switch (providerId) {
-        case 'claude':
-          success = await claudeAPI.validateConnection();
-          break;
-        case 'perplexity':
-          success = await perplexityService.healthCheck();
-          break;
-        case 'gemini':
-          success = await geminiService.healthCheck();
-          break;
-        case 'openai':
-          success = await openaiService.healthCheck();
-          break;
-        default:
-          throw new Error(`Unknown provider: ${providerId}`);
-      }
-
+      const health = await aiProviders.healthCheck(providerId as AIProviderId);
       const responseTime = Date.now() - startTime;
       
       return {
         providerId,
-        success,
+        success: health.healthy,
         responseTime,
+        error: health.error,
         timestamp: new Date(),
         metrics: {
-          tokensUsed,
-          cost
+          tokensUsed: 0,
+          cost: 0
         }
       };
     } catch (error) {
@@ -266,6 +295,7 @@ class AIProviderMonitor {
       provider.consecutiveFailures++;
       provider.status = provider.consecutiveFailures > 3 ? 'failed' : 'degraded';
     }
+    this.updateCircuit(provider, result.success);
 
     // Update health score
     provider.healthScore = this.calculateHealthScore(provider);
@@ -284,6 +314,7 @@ class AIProviderMonitor {
     provider.status = 'failed';
     provider.lastHealthCheck = new Date();
     provider.healthScore = Math.max(0, provider.healthScore - 20);
+    this.updateCircuit(provider, false);
 
     console.error(`Health check failed for ${providerId}:`, error);
   }
@@ -318,6 +349,58 @@ class AIProviderMonitor {
     return Math.max(0, Math.round(score));
   }
 
+  private updateCircuit(provider: ProviderMetrics, success: boolean): void {
+    const circuit = provider.circuit;
+
+    if (success) {
+      if (circuit.state !== 'closed') {
+        console.log(`Circuit closed for ${provider.providerId}`);
+      }
+      provider.circuit = { state: 'closed', openedAt: null, trialStartedAt: null };
+      return;
+    }
+
+    // half-open 시험 요청이 실패하면 바로 다시 연다
+    if (circuit.state === 'half-open' || provider.consecutiveFailures >= CIRCUIT_FAILURE_THRESHOLD) {
+      if (circuit.state !== 'open') {
+        console.warn(`Circuit opened for ${provider.providerId} after ${provider.consecutiveFailures} consecutive failures`);
+      }
+      provider.circuit = { state: 'open', openedAt: new Date(), trialStartedAt: null };
+    }
+  }
+
+  // 쿨다운이 지난 open 회로를 half-open으로 전환한다
+  private refreshCircuit(provider: ProviderMetrics): void {
+    const circuit = provider.circuit;
+    if (circuit.state === 'open' && circuit.openedAt && Date.now() - circuit.openedAt.getTime() >= CIRCUIT_COOLDOWN_MS) {
+      provider.circuit = { state: 'half-open', openedAt: circuit.openedAt, trialStartedAt: null };
+    }
+  }
+
+  private refreshQuota(provider: ProviderMetrics): void {
+    const today = currentQuotaDay();
+    if (provider.limits.quotaDay !== today) {
+      provider.limits.usedQuota = 0;
+      provider.limits.quotaDay = today;
+    }
+  }
+
+  private getUnavailableReason(provider: ProviderMetrics): string | null {
+    this.refreshCircuit(provider);
+    this.refreshQuota(provider);
+
+    if (provider.status === 'maintenance') return 'In maintenance';
+    if (!aiProviders.get(provider.providerId as AIProviderId).isConfigured()) return 'Not configured';
+    if (provider.circuit.state === 'open') return 'Circuit open';
+    if (provider.circuit.state === 'half-open' && provider.circuit.trialStartedAt) {
+      // 결과가 기록되지 않은 시험 요청은 쿨다운이 지나면 다시 허용한다
+      const trialAge = Date.now() - provider.circuit.trialStartedAt.getTime();
+      if (trialAge < CIRCUIT_COOLDOWN_MS) return 'Circuit half-open, trial request in flight';
+    }
+    if (provider.limits.usedQuota >= provider.limits.dailyQuota) return 'Daily quota exhausted';
+    return null;
+  }
+
   private calculateMovingAverage(current: number, newValue: number, weight: number): number {
     return (current * (1 - weight)) + (newValue * weight);
   }
@@ -344,7 +427,10 @@ class AIProviderMonitor {
       const totalCount = recentHistory.length;
 
       provider.uptime = (successCount / totalCount) * 100;
-      provider.errorRate = ((totalCount - successCount) / totalCount) * 100;
+      // 실제 호출 기록이 있으면 오류율은 recordRequestResult가 관리한다
+      if (provider.totalRequests === 0) {
+        provider.errorRate = ((totalCount - successCount) / totalCount) * 100;
+      }
       
       // Update throughput based on successful requests
       const recentSuccessful = recentHistory.filter(h => h.success);
@@ -362,27 +448,42 @@ class AIProviderMonitor {
       maxResponseTime?: number;
       minHealthScore?: number;
       excludeProviders?: string[];
+      // 조건을 만족하면 점수와 관계없이 이 제공자를 고른다
+      preferredProvider?: string;
     } = {}
   ): LoadBalancingDecision {
     const {
       capabilities = [],
       maxResponseTime = 5000,
       minHealthScore = 70,
-      excludeProviders = []
+      excludeProviders = [],
+      preferredProvider
     } = requirements;
 
+    const excluded: LoadBalancingDecision['excluded'] = [];
+    const exclude = (providerId: string, reason: string) => {
+      excluded.push({ providerId, reason });
+      return false;
+    };
+
     // Filter providers based on requirements
     const eligibleProviders = Array.from(this.providers.values())
       .filter(provider => {
-        if (excludeProviders.includes(provider.providerId)) return false;
-        if (provider.status === 'failed') return false;
-        if (provider.responseTime > maxResponseTime) return false;
-        if (provider.healthScore < minHealthScore) return false;
+        if (excludeProviders.includes(provider.providerId)) return exclude(provider.providerId, 'Excluded by caller');
+        const unavailableReason = this.getUnavailableReason(provider);
+        if (unavailableReason) return exclude(provider.providerId, unavailableReason);
+        if (provider.status === 'failed') return exclude(provider.providerId, 'Failed health checks');
+        if (provider.responseTime > maxResponseTime) {
+          return exclude(provider.providerId, `Response time ${Math.round(provider.responseTime)}ms exceeds ${maxResponseTime}ms`);
+        }
+        if (provider.healthScore < minHealthScore) {
+          return exclude(provider.providerId, `Health score ${provider.healthScore} below ${minHealthScore}`);
+        }
         if (capabilities.length > 0) {
           const hasRequiredCapabilities = capabilities.every(cap => 
             provider.capabilities.includes(cap)
           );
-          if (!hasRequiredCapabilities) return false;
+          if (!hasRequiredCapabilities) return exclude(provider.providerId, 'Missing required capabilities');
         }
         return true;
       })
@@ -399,30 +500,91 @@ class AIProviderMonitor {
         reason: 'No providers meet the requirements',
         alternatives: [],
         expectedResponseTime: 0,
-        confidence: 0
+        confidence: 0,
+        excluded
       };
     }
 
-    const selectedProvider = eligibleProviders[0];
-    const alternatives = eligibleProviders.slice(1, 3).map(p => p.providerId);
+    const preferred = eligibleProviders.find(p => p.providerId === preferredProvider);
+    const selectedProvider = preferred || eligibleProviders[0];
+    const alternatives = eligibleProviders
+      .filter(p => p !== selectedProvider)
+      .slice(0, 2)
+      .map(p => p.providerId);
+
+    const summary = `health ${selectedProvider.healthScore}, error rate ${selectedProvider.errorRate.toFixed(1)}%, ` +
+      `$${selectedProvider.costPerRequest.toFixed(3)}/request`;
+    const reason = preferred
+      ? `Requested provider (${summary})`
+      : `Best overall score: ${this.calculateProviderScore(selectedProvider)} (${summary})` +
+        (preferredProvider ? `; ${preferredProvider} unavailable` : '');
 
     return {
       selectedProvider: selectedProvider.providerId,
-      reason: `Best overall score: ${this.calculateProviderScore(selectedProvider)}`,
+      reason,
       alternatives,
-      expectedResponseTime: selectedProvider.responseTime,
-      confidence: selectedProvider.healthScore
+      expectedResponseTime: Math.round(selectedProvider.responseTime),
+      confidence: selectedProvider.healthScore,
+      excluded
     };
   }
 
   private calculateProviderScore(provider: ProviderMetrics): number {
-    // Composite score based on health, performance, and cost
+    // Composite score based on health, performance, cost, errors and remaining quota
     const healthFactor = provider.healthScore * 0.4;
     const performanceFactor = (5000 - provider.responseTime) / 50 * 0.3; // Response time factor
     const costFactor = (0.1 - provider.costPerRequest) * 1000 * 0.2; // Cost factor
     const uptimeFactor = provider.uptime * 0.1;
+    const errorPenalty = provider.errorRate * 0.5;
+    const quotaPenalty = provider.limits.usedQuota > provider.limits.dailyQuota * 0.8 ? 10 : 0;
+    // half-open 제공자는 시험 요청용으로만 쓰이도록 뒤로 민다
+    const circuitPenalty = provider.circuit.state === 'half-open' ? 20 : 0;
 
-    return Math.round(healthFactor + performanceFactor + costFactor + uptimeFactor);
+    return Math.round(
+      healthFactor + performanceFactor + costFactor + uptimeFactor - errorPenalty - quotaPenalty - circuitPenalty
+    );
+  }
+
+  /**
+   * 선택한 제공자로 요청을 보내기 직전에 호출한다.
+   * half-open 회로면 이 요청을 시험 요청으로 표시해 다른 요청이 몰리지 않게 한다.
+   */
+  beginRequest(providerId: string): void {
+    const provider = this.providers.get(providerId);
+    if (!provider) return;
+
+    this.refreshCircuit(provider);
+    if (provider.circuit.state === 'half-open') {
+      provider.circuit.trialStartedAt = new Date();
+    }
+  }
+
+  isAvailable(providerId: string): boolean {
+    const provider = this.providers.get(providerId);
+    return !!provider && this.getUnavailableReason(provider) === null;
+  }
+
+  // 실제 호출 결과를 지표에 반영한다 (레지스트리 이벤트로 자동 기록된다)
+  recordRequestResult(providerId: string, outcome: RequestOutcome): void {
+    const provider = this.providers.get(providerId);
+    if (!provider) return;
+
+    provider.errorRate = this.calculateMovingAverage(provider.errorRate, outcome.success ? 0 : 100, 0.1);
+
+    if (outcome.success) {
+      this.updateProviderQuota(providerId, outcome.tokensUsed || 0, outcome.cost || 0);
+      provider.responseTime = this.calculateMovingAverage(provider.responseTime, outcome.responseTime, 0.3);
+      provider.consecutiveFailures = 0;
+    } else {
+      provider.totalRequests++;
+      provider.consecutiveFailures++;
+    }
+
+    this.updateCircuit(provider, outcome.success);
+    provider.healthScore = this.calculateHealthScore(provider);
+    if (provider.status !== 'maintenance') {
+      provider.status = this.determineProviderStatus(provider);
+    }
   }
 
   // Provider management methods
@@ -443,6 +605,7 @@ class AIProviderMonitor {
     if (!provider) return;
 
     provider.totalRequests++;
+    this.refreshQuota(provider);
     provider.limits.usedQuota += tokensUsed;
     provider.successfulRequests++;
     
@@ -499,6 +662,7 @@ class AIProviderMonitor {
   generateProviderReport(providerId: string, days: number = 7): any {
     const provider = this.providers.get(providerId);
     if (!provider) return null;
+    this.refreshQuota(provider);
 
     const history = this.healthCheckHistory.get(providerId) || [];
     const cutoffDate = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
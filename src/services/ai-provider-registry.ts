@@ -0,0 +1,233 @@
+import { claudeProvider } from '../lib/ai/providers/claude';
+import { openaiProvider } from '../lib/ai/providers/openai';
+import { geminiProvider } from '../lib/ai/providers/gemini';
+import { perplexityProvider } from '../lib/ai/providers/perplexity';
+import { mockProvider } from '../lib/ai/providers/mock';
+import { estimateUsage } from '../lib/ai/providers/request';
+import {
+  AIGenerateRequest,
+  AIGenerateResult,
+  AIProvider,
+  AIProviderHealth,
+  AIProviderId,
+  AIProviderUsageStats,
+  AIUsage,
+  AIUsageContext
+} from '../types/ai-provider';
+
+export interface AIRequestEvent {
+  // 호출한 쪽이 요청한 제공자 (모의 모드에서도 원래 ID를 남긴다)
+  provider: AIProviderId;
+  success: boolean;
+  latencyMs: number;
+  result?: AIGenerateResult;
+  error?: string;
+  // 호출자가 취소한 요청은 제공자 장애로 보지 않는다
+  aborted?: boolean;
+  // 취소된 스트림이 그 전까지 보낸 출력 (토큰 수는 추정치). 출력이 없었으면 비어 있다
+  partial?: { model: string; usage: AIUsage };
+  usage?: AIUsageContext;
+}
+
+type RequestListener = (event: AIRequestEvent) => void;
+
+class AIProviderRegistry {
+  private providers: Map<AIProviderId, AIProvider> = new Map();
+  private usage: Map<AIProviderId, AIProviderUsageStats> = new Map();
+  private requestListeners: RequestListener[] = [];
+
+  constructor(providers: AIProvider[]) {
+    providers.forEach(provider => this.register(provider));
+  }
+
+  register(provider: AIProvider): void {
+    this.providers.set(provider.id, provider);
+  }
+
+  // 테스트·로컬 개발에서 외부 API 없이 전체 흐름을 돌릴 때 사용
+  isMockMode(): boolean {
+    return process.env.AI_PROVIDER_MODE === 'mock';
+  }
+
+  get(id: AIProviderId): AIProvider {
+    const provider = this.providers.get(this.isMockMode() ? 'mock' : id);
+    if (!provider) {
+      throw new Error(`Unknown AI provider: ${id}`);
+    }
+    return provider;
+  }
+
+  list(): Array<{ id: AIProviderId; name: string; model: string; configured: boolean }> {
+    return Array.from(this.providers.values()).map(provider => ({
+      id: provider.id,
+      name: provider.name,
+      model: provider.defaultModel,
+      configured: provider.isConfigured()
+    }));
+  }
+
+  async generate(id: AIProviderId, request: AIGenerateRequest): Promise<AIGenerateResult> {
+    return this.track(id, request, () => this.get(id).generate(request));
+  }
+
+  async stream(id: AIProviderId, request: AIGenerateRequest, onDelta: (text: string) => void): Promise<AIGenerateResult> {
+    let output = '';
+    const provider = this.get(id);
+    return this.track(
+      id,
+      request,
+      () => provider.stream(request, text => {
+        output += text;
+        onDelta(text);
+      }),
+      () => (output ? { model: request.model || provider.defaultModel, usage: estimateUsage(request, output) } : undefined)
+    );
+  }
+
+  /**
+   * 순서대로 시도해 처음 성공한 결과를 돌려준다. 설정되지 않은 제공자는 건너뛴다.
+   */
+  async generateWithFallback(ids: AIProviderId[], request: AIGenerateRequest): Promise<AIGenerateResult> {
+    return this.withFallback(ids, request, id => this.generate(id, request));
+  }
+
+  /**
+   * 스트리밍 버전. 이미 토큰을 보낸 뒤 실패하면 다른 제공자로 처음부터 다시 보낼 수 없으므로 그대로 실패한다.
+   */
+  async streamWithFallback(
+    ids: AIProviderId[],
+    request: AIGenerateRequest,
+    onDelta: (text: string) => void
+  ): Promise<AIGenerateResult> {
+    let emitted = false;
+    const emit = (text: string) => {
+      emitted = true;
+      onDelta(text);
+    };
+    return this.withFallback(ids, request, id => this.stream(id, request, emit), () => emitted);
+  }
+
+  async healthCheck(id: AIProviderId): Promise<AIProviderHealth> {
+    const provider = this.get(id);
+    const startTime = Date.now();
+    const base = { provider: id, configured: provider.isConfigured(), checkedAt: new Date().toISOString() };
+
+    try {
+      const healthy = await provider.healthCheck();
+      return { ...base, healthy, latencyMs: Date.now() - startTime };
+    } catch (error) {
+      return {
+        ...base,
+        healthy: false,
+        latencyMs: Date.now() - startTime,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  getUsage(): AIProviderUsageStats[] {
+    return Array.from(this.usage.values()).map(stats => ({ ...stats }));
+  }
+
+  // 성공·실패를 가리지 않고 모든 호출 결과를 받는다 (제공자 모니터가 회로 차단에 사용)
+  onRequest(listener: RequestListener): () => void {
+    this.requestListeners.push(listener);
+    return () => {
+      this.requestListeners = this.requestListeners.filter(candidate => candidate !== listener);
+    };
+  }
+
+  private async withFallback(
+    ids: AIProviderId[],
+    request: AIGenerateRequest,
+    attempt: (id: AIProviderId) => Promise<AIGenerateResult>,
+    committed: () => boolean = () => false
+  ): Promise<AIGenerateResult> {
+    const candidates = ids.filter(id => this.get(id).isConfigured());
+    if (candidates.length === 0) {
+      throw new Error(`No configured AI provider among: ${ids.join(', ')}`);
+    }
+
+    let lastError: unknown;
+    for (const id of candidates) {
+      try {
+        return await attempt(id);
+      } catch (error) {
+        if (request.signal?.aborted || committed()) throw error;
+        console.error(`AI provider ${id} failed:`, error);
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+
+  private async track(
+    id: AIProviderId,
+    request: AIGenerateRequest,
+    call: () => Promise<Omit<AIGenerateResult, 'latencyMs'>>,
+    partial: () => AIRequestEvent['partial'] = () => undefined
+  ): Promise<AIGenerateResult> {
+    const stats = this.getStats(id);
+    const startTime = Date.now();
+    stats.requests++;
+    stats.lastUsedAt = new Date().toISOString();
+
+    try {
+      const result = { ...(await call()), latencyMs: Date.now() - startTime };
+      stats.inputTokens += result.usage.inputTokens;
+      stats.outputTokens += result.usage.outputTokens;
+      stats.totalTokens += result.usage.totalTokens;
+      this.emit({ provider: id, success: true, latencyMs: result.latencyMs, result, usage: request.usage });
+      return result;
+    } catch (error) {
+      stats.failures++;
+      const aborted = !!request.signal?.aborted;
+      this.emit({
+        provider: id,
+        success: false,
+        latencyMs: Date.now() - startTime,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        aborted,
+        partial: aborted ? partial() : undefined,
+        usage: request.usage
+      });
+      throw error;
+    }
+  }
+
+  private emit(event: AIRequestEvent): void {
+    this.requestListeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('AI request listener error:', error);
+      }
+    });
+  }
+
+  private getStats(id: AIProviderId): AIProviderUsageStats {
+    let stats = this.usage.get(id);
+    if (!stats) {
+      stats = {
+        provider: id,
+        requests: 0,
+        failures: 0,
+        inputTokens: 0,
+        outputTokens: 0,
+        totalTokens: 0,
+        lastUsedAt: null
+      };
+      this.usage.set(id, stats);
+    }
+    return stats;
+  }
+}
+
+export const aiProviders = new AIProviderRegistry([
+  claudeProvider,
+  openaiProvider,
+  geminiProvider,
+  perplexityProvider,
+  mockProvider
+]);
+export default AIProviderRegistry;
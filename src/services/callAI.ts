@@ -1,31 +1,16 @@
-export const callAI = async (prompt: string): Promise<string> => {
-  try {
-    // 기본: Claude API 호출
-    return await window.claude.complete(prompt);
-  } catch (err1) {
-    console.warn("Claude 실패 → GPT 시도");
-    try {
-      const res = await fetch('/api/gpt', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ prompt })
-      });
-      const json = await res.json();
-      return json.result;
-    } catch (err2) {
-      console.warn("GPT 실패 → Bedrock 시도");
-      try {
-        const res = await fetch('/api/bedrock', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ prompt })
-        });
-        const json = await res.json();
-        return json.result;
-      } catch (err3) {
-        console.error("모든 AI API 실패");
-        return "❌ AI 응답에 실패했습니다. 다시 시도해 주세요.";
-      }
-    }
+/**
+ * 업로드한 문서의 AI 분석 결과를 받는다. 프롬프트 구성과 제공자 폴백은 서버가 처리한다.
+ */
+export const callAI = async (documentId: string): Promise<string> => {
+  const res = await fetch('/api/ai/generate', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ documentId })
+  });
+  const json = await res.json().catch(() => null);
+
+  if (!res.ok || !json?.success) {
+    throw new Error(json?.error || `AI request failed (${res.status})`);
   }
-};
\ No newline at end of file
+  return json.data.text;
+};
@@ -0,0 +1,208 @@
+import crypto from 'crypto';
+import { ChatRole } from '@/types/chat';
+
+export interface ContextMessage {
+  role: ChatRole;
+  content: string;
+}
+
+export interface ChatContext {
+  // 제공자의 system 파라미터로 전달할 지시사항 (이전 대화 요약 포함)
+  system: string;
+  // user로 시작해 user로 끝나며 역할이 번갈아 나오는 메시지 목록
+  messages: ContextMessage[];
+  estimatedTokens: number;
+  summarizedCount: number;
+  summary: string | null;
+}
+
+export interface ChatContextOptions {
+  systemPrompt: string;
+  history: ContextMessage[];
+  message: string;
+  // system과 메시지를 합친 입력 토큰 상한
+  maxInputTokens?: number;
+  // 오래된 메시지를 요약하는 함수. 없거나 실패하면 발췌 요약을 사용한다
+  summarize?: (messages: ContextMessage[]) => Promise<string>;
+}
+
+const DEFAULT_MAX_INPUT_TOKENS = 6000;
+// 요약이 차지할 수 있는 최대 비율
+const SUMMARY_BUDGET_RATIO = 0.25;
+// 역할 표시 등 메시지 하나당 붙는 토큰
+const MESSAGE_OVERHEAD_TOKENS = 4;
+const SUMMARY_CACHE_LIMIT = 200;
+
+const SUMMARY_HEADER = '\n\n[이전 대화 요약]\n';
+
+/**
+ * 토큰 수 추정. 한글·한자·가나는 글자당 약 1토큰, 그 외는 4글자당 약 1토큰으로 본다.
+ */
+export const estimateTokens = (text: string): number => {
+  const cjk = (text.match(/[\u1100-\u11ff\u3040-\u30ff\u3130-\u318f\u4e00-\u9fff\uac00-\ud7af]/g) || []).length;
+  return cjk + Math.ceil((text.length - cjk) / 4);
+};
+
+const messageTokens = (message: ContextMessage) => estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS;
+
+const truncateToTokens = (text: string, maxTokens: number): string => {
+  if (estimateTokens(text) <= maxTokens) return text;
+  let low = 0;
+  let high = text.length;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (estimateTokens(text.slice(0, mid)) + 1 <= maxTokens) low = mid;
+    else high = mid - 1;
+  }
+  return `${text.slice(0, low)}…`;
+};
+
+/**
+ * Claude와 OpenAI가 함께 쓰는 대화 컨텍스트 구성기.
+ * system 지시사항은 항상 유지하고, 입력 한도를 넘으면 오래된 대화부터 요약으로 대체한다.
+ */
+class ChatContextBuilder {
+  private summaryCache: Map<string, string> = new Map();
+
+  async build({
+    systemPrompt,
+    history,
+    message,
+    maxInputTokens = DEFAULT_MAX_INPUT_TOKENS,
+    summarize
+  }: ChatContextOptions): Promise<ChatContext> {
+    const turns = this.normalize([...history, { role: 'user', content: message }]);
+    const systemTokens = estimateTokens(systemPrompt);
+
+    // 가장 최근 메시지부터 한도 안에 들어가는 만큼 유지
+    let budget = maxInputTokens - systemTokens;
+    let keepFrom = turns.length;
+    while (keepFrom > 0 && messageTokens(turns[keepFrom - 1]) <= budget) {
+      budget -= messageTokens(turns[keepFrom - 1]);
+      keepFrom--;
+    }
+
+    // 새 질문 하나도 들어가지 않으면 질문을 잘라서라도 보낸다
+    if (keepFrom === turns.length) {
+      const last = turns[turns.length - 1];
+      turns[turns.length - 1] = {
+        ...last,
+        content: truncateToTokens(last.content, Math.max(budget - MESSAGE_OVERHEAD_TOKENS, 1))
+      };
+      budget = 0;
+      keepFrom = turns.length - 1;
+    }
+
+    // 유지하는 구간도 user로 시작해야 한다
+    while (keepFrom < turns.length - 1 && turns[keepFrom].role !== 'user') keepFrom++;
+
+    const older = turns.slice(0, keepFrom);
+    const kept = turns.slice(keepFrom);
+
+    let summary: string | null = null;
+    if (older.length > 0) {
+      const summaryBudget = Math.max(
+        Math.max(Math.floor(maxInputTokens * SUMMARY_BUDGET_RATIO), budget) - estimateTokens(SUMMARY_HEADER),
+        1
+      );
+      summary = await this.summarizeOlder(older, summaryBudget, summarize);
+
+      // 요약이 들어갈 자리가 없으면 유지 구간 앞쪽의 한 턴(user+assistant)씩 요약 대상으로 넘긴다
+      while (
+        kept.length > 2
+        && systemTokens + estimateTokens(SUMMARY_HEADER + summary) + kept.reduce((sum, turn) => sum + messageTokens(turn), 0) > maxInputTokens
+      ) {
+        older.push(...kept.splice(0, 2));
+        summary = await this.summarizeOlder(older, summaryBudget, summarize);
+      }
+    }
+
+    const system = summary ? `${systemPrompt}${SUMMARY_HEADER}${summary}` : systemPrompt;
+
+    return {
+      system,
+      messages: kept,
+      estimatedTokens: estimateTokens(system) + kept.reduce((sum, turn) => sum + messageTokens(turn), 0),
+      summarizedCount: older.length,
+      summary
+    };
+  }
+
+  /**
+   * 빈 메시지를 빼고, 연속된 같은 역할 메시지를 합치고, 앞쪽 assistant 메시지를 제거한다.
+   */
+  normalize(messages: ContextMessage[]): ContextMessage[] {
+    const result: ContextMessage[] = [];
+
+    messages.forEach(message => {
+      const content = message.content.trim();
+      if (!content) return;
+      if (result.length === 0 && message.role !== 'user') return;
+
+      const previous = result[result.length - 1];
+      if (previous && previous.role === message.role) {
+        previous.content = `${previous.content}\n\n${content}`;
+      } else {
+        result.push({ role: message.role, content });
+      }
+    });
+
+    return result;
+  }
+
+  private async summarizeOlder(
+    messages: ContextMessage[],
+    maxTokens: number,
+    summarize?: (messages: ContextMessage[]) => Promise<string>
+  ): Promise<string> {
+    const key = crypto
+      .createHash('sha1')
+      .update(messages.map(message => `${message.role}:${message.content}`).join('\u0000'))
+      .digest('hex');
+
+    const cached = this.summaryCache.get(key);
+    if (cached) return truncateToTokens(cached, maxTokens);
+
+    let summary: string | null = null;
+    if (summarize) {
+      try {
+        summary = (await summarize(messages)).trim() || null;
+      } catch (error) {
+        console.error('Conversation summary error:', error);
+      }
+    }
+    summary = summary || this.extractiveSummary(messages, maxTokens);
+
+    if (this.summaryCache.size >= SUMMARY_CACHE_LIMIT) {
+      const oldest = this.summaryCache.keys().next().value;
+      if (oldest) this.summaryCache.delete(oldest);
+    }
+    this.summaryCache.set(key, summary);
+
+    return truncateToTokens(summary, maxTokens);
+  }
+
+  // 각 메시지의 첫 문장만 남긴 요약. 한도를 넘으면 최근 것부터 남긴다
+  private extractiveSummary(messages: ContextMessage[], maxTokens: number): string {
+    const lines = messages
+      .map(message => {
+        const firstLine = message.content.split('\n')[0];
+        const sentence = firstLine.match(/^.*?[.?!。](?=\s|$)/);
+        const firstSentence = (sentence ? sentence[0] : firstLine).trim();
+        return `- ${message.role === 'user' ? '사용자' : '상담사'}: ${truncateToTokens(firstSentence, 60)}`;
+      });
+
+    const kept: string[] = [];
+    let used = 0;
+    for (let i = lines.length - 1; i >= 0; i--) {
+      const tokens = estimateTokens(lines[i]) + 1;
+      if (used + tokens > maxTokens) break;
+      kept.unshift(lines[i]);
+      used += tokens;
+    }
+    return kept.join('\n');
+  }
+}
+
+export const chatContextBuilder = new ChatContextBuilder();
+export default ChatContextBuilder;
@@ -1,10 +1,5 @@
-import { Anthropic } from '@anthropic-ai/sdk';
-
-interface ClaudeConfig {
-  apiKey: string;
-  maxRetries: number;
-  timeout: number;
-}
+import { aiProviders } from '@/services/ai-provider-registry';
+import { AIUsageContext } from '@/types/ai-provider';
 
 interface ClaudeResponse {
   content: string;
@@ -21,59 +16,32 @@ interface RetryOptions {
   maxDelay: number;
 }
 
+/**
+ * 기존 Claude 호출부를 위한 래퍼. 실제 호출과 사용량 집계는 aiProviders의 Claude 어댑터가 맡는다.
+ */
 class ClaudeAPIService {
-  private client: Anthropic;
-  private config: ClaudeConfig;
-
-  constructor() {
-    this.config = {
-      apiKey: process.env.CLAUDE_API_KEY || '',
-      maxRetries: 3,
-      timeout: 30000
-    };
-
-    if (!this.config.apiKey) {
-      throw new Error('CLAUDE_API_KEY is required but not provided');
-    }
-
-    this.client = new Anthropic({
-      apiKey: this.config.apiKey,
-      maxRetries: this.config.maxRetries,
-      timeout: this.config.timeout
-    });
-  }
-
   async generateText(
     prompt: string,
     systemPrompt?: string,
     temperature = 0.7,
-    maxTokens = 4000
+    maxTokens = 4000,
+    usage?: AIUsageContext
   ): Promise<ClaudeResponse> {
     try {
-      const response = await this.client.messages.create({
-        model: 'claude-3-sonnet-20240229',
-        max_tokens: maxTokens,
-        temperature,
+      const response = await aiProviders.generate('claude', {
+        prompt,
         system: systemPrompt,
-        messages: [
-          {
-            role: 'user',
-            content: prompt
-          }
-        ]
+        temperature,
+        maxTokens,
+        usage
       });
 
-      const content = response.content[0];
-      if (content.type !== 'text') {
-        throw new Error('Unexpected response type from Claude API');
-      }
-
       return {
-        content: content.text,
+        content: response.text,
         model: response.model,
         usage: {
-          input_tokens: response.usage.input_tokens,
-          output_tokens: response.usage.output_tokens
+          input_tokens: response.usage.inputTokens,
+          output_tokens: response.usage.outputTokens
         }
       };
     } catch (error) {
@@ -152,4 +120,4 @@ class ClaudeAPIService {
 }
 
 export const claudeAPI = new ClaudeAPIService();
-export type { ClaudeResponse, ClaudeConfig, RetryOptions };
\ No newline at end of file
+export type { ClaudeResponse, RetryOptions };
\ No newline at end of file
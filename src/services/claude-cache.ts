@@ -1,5 +1,6 @@
 import crypto from 'crypto';
 import { claudeAPI, ClaudeResponse } from '@/services/claude-api';
+import { AIUsageContext } from '@/types/ai-provider';
 
 interface CacheEntry {
   id: string;
@@ -161,6 +162,8 @@ class ClaudeCacheService {
       maxTokens?: number;
       forceFresh?: boolean;
       customTTL?: number;
+      // 캐시에서 돌려준 응답은 사용량에 기록하지 않는다
+      usage?: AIUsageContext;
     } = {}
   ): Promise<ClaudeResponse> {
     // Check if we should use cache
@@ -176,7 +179,8 @@ class ClaudeCacheService {
       prompt,
       systemPrompt,
       options.temperature,
-      options.maxTokens
+      options.maxTokens,
+      options.usage
     );
 
     // Cache the response
@@ -0,0 +1,495 @@
+import {
+  ClauseCategory,
+  ClauseFinding,
+  ClauseHeadingStyle,
+  ContractAnalysis,
+  ContractAnalysisOptions,
+  ContractClause,
+  FindingSeverity
+} from '@/types/contract-analysis';
+import { ComplianceCheck, ComplianceSeverity } from '@/types/compliance';
+
+interface CategoryKeyword {
+  pattern: RegExp;
+  weight: number;
+}
+
+interface FindingRule {
+  code: string;
+  category: ClauseCategory;
+  severity: FindingSeverity;
+  message: string;
+  // 'match': 패턴이 발견되면 지적, 'absent': 패턴이 없으면 지적
+  mode: 'match' | 'absent';
+  pattern: RegExp;
+}
+
+interface HeadingMatch {
+  index: number;
+  number: string;
+  style: ClauseHeadingStyle;
+  title: string;
+}
+
+export const CLAUSE_CATEGORY_LABELS: Record<ClauseCategory, string> = {
+  term: '계약 기간',
+  payment: '대금 및 지급',
+  liability: '손해배상 및 책임',
+  termination: '계약 해지',
+  ip: '지적재산권',
+  confidentiality: '비밀유지',
+  governing_law: '준거법',
+  dispute_resolution: '분쟁 해결',
+  other: '기타'
+};
+
+export const DEFAULT_REQUIRED_CATEGORIES: ClauseCategory[] = [
+  'term',
+  'payment',
+  'liability',
+  'termination',
+  'governing_law',
+  'dispute_resolution'
+];
+
+const CATEGORY_KEYWORDS: Record<Exclude<ClauseCategory, 'other'>, CategoryKeyword[]> = {
+  term: [
+    { pattern: /계약\s*기간|유효\s*기간|존속\s*기간|근로\s*계약\s*기간/g, weight: 3 },
+    { pattern: /갱신|연장|효력\s*발생/g, weight: 2 },
+    { pattern: /기간/g, weight: 1 },
+    { pattern: /\bterm\b|duration|effective date|renewal/gi, weight: 3 }
+  ],
+  payment: [
+    { pattern: /대금|급여|임금|보수|용역비|수수료|대가/g, weight: 3 },
+    { pattern: /지급|청구|송금|부가가치세|세금계산서/g, weight: 2 },
+    { pattern: /\bpayment|\bfees?\b|invoice|compensation|salary|price/gi, weight: 3 }
+  ],
+  liability: [
+    { pattern: /손해\s*배상|배상\s*책임|면책|위약금|책임\s*의?\s*제한/g, weight: 3 },
+    { pattern: /책임|배상|보증/g, weight: 1 },
+    { pattern: /liabilit|indemnif|damages|warrant/gi, weight: 3 }
+  ],
+  termination: [
+    { pattern: /해지|해제|해고/g, weight: 3 },
+    { pattern: /계약의?\s*종료|종료\s*사유/g, weight: 2 },
+    { pattern: /terminat|cancell?ation/gi, weight: 3 }
+  ],
+  ip: [
+    { pattern: /지적\s*재산권|지식\s*재산권|저작권|특허권?|상표권?/g, weight: 3 },
+    { pattern: /산출물|결과물|라이선스|사용\s*허락/g, weight: 2 },
+    { pattern: /intellectual property|copyright|patent|trademark|licen[cs]e/gi, weight: 3 }
+  ],
+  confidentiality: [
+    { pattern: /비밀\s*유지|기밀|영업\s*비밀/g, weight: 3 },
+    { pattern: /비밀|누설|제3자에게\s*공개/g, weight: 1 },
+    { pattern: /confidential|non-disclosure|\bnda\b/gi, weight: 3 }
+  ],
+  governing_law: [
+    { pattern: /준거법|적용\s*법률|대한민국\s*법/g, weight: 4 },
+    { pattern: /governing law|governed by|laws of/gi, weight: 4 }
+  ],
+  dispute_resolution: [
+    { pattern: /분쟁|관할\s*법원|중재|조정/g, weight: 3 },
+    { pattern: /법원|소송/g, weight: 1 },
+    { pattern: /dispute|arbitration|jurisdiction|court/gi, weight: 3 }
+  ]
+};
+
+const FINDING_RULES: FindingRule[] = [
+  {
+    code: 'TERM_NO_PERIOD',
+    category: 'term',
+    severity: 'warning',
+    message: '계약 기간이 구체적인 날짜나 기간으로 명시되어 있지 않습니다.',
+    mode: 'absent',
+    pattern: /\d{4}\s*[년.\-/]|\d+\s*(?:년|개월|일간|months?|years?|days)/i
+  },
+  {
+    code: 'TERM_AUTO_RENEWAL',
+    category: 'term',
+    severity: 'info',
+    message: '자동 갱신 조항이 있습니다. 갱신 거절 통지 기한을 확인하세요.',
+    mode: 'match',
+    pattern: /자동\s*(?:으로\s*)?(?:연장|갱신)|automatically renew/i
+  },
+  {
+    code: 'PAYMENT_NO_AMOUNT',
+    category: 'payment',
+    severity: 'info',
+    message: '지급 금액이 조항 내에 명시되어 있지 않습니다.',
+    mode: 'absent',
+    pattern: /\d[\d,]*\s*(?:원|만\s*원|KRW|USD)|금\s*[\d,]+|₩\s*\d|\$\s*\d/i
+  },
+  {
+    code: 'PAYMENT_NO_DUE_DATE',
+    category: 'payment',
+    severity: 'warning',
+    message: '지급 기한이 명시되어 있지 않습니다.',
+    mode: 'absent',
+    pattern: /\d+\s*일\s*(?:이내|내|까지)|매월\s*\d+\s*일|지급일|within \d+ days|net \d+|\bdue\b/i
+  },
+  {
+    code: 'LIABILITY_UNLIMITED',
+    category: 'liability',
+    severity: 'critical',
+    message: '무제한 또는 포괄적인 손해배상 책임이 규정되어 있습니다.',
+    mode: 'match',
+    pattern: /무제한|일체의\s*(?:모든\s*)?손해|모든\s*손해를?\s*배상|unlimited liability|any and all (?:damages|losses)/i
+  },
+  {
+    code: 'LIABILITY_NO_CAP',
+    category: 'liability',
+    severity: 'warning',
+    message: '손해배상 책임의 한도(상한)가 설정되어 있지 않습니다.',
+    mode: 'absent',
+    // '상한'만 찾으면 '…손해를 배상한다'의 '배상한'에 걸리므로 한도를 정하는 표현으로만 찾는다.
+    // 예: '을은 갑에게 발생한 손해를 배상한다.'는 지적하고, '배상액은 계약금액을 한도로 한다.'는 넘어간다
+    pattern: /(?:책임|배상)\s*(?:의\s*)?(?:한도|상한)|상한액|한도액|한도(?:로|\s*내|에서)|상한으로|초과하지\s*(?:않|아니)|\bcap\b|not exceed|limited to/i
+  },
+  {
+    code: 'TERMINATION_NO_NOTICE',
+    category: 'termination',
+    severity: 'warning',
+    message: '해지 시 사전 통지 기간이 명시되어 있지 않습니다.',
+    mode: 'absent',
+    pattern: /\d+\s*일\s*(?:전|이전)|사전\s*(?:에\s*)?(?:서면\s*)?(?:으로\s*)?(?:통지|통보)|prior (?:written )?notice|\d+\s*days'?\s*(?:prior )?notice/i
+  },
+  {
+    code: 'TERMINATION_UNILATERAL',
+    category: 'termination',
+    severity: 'warning',
+    message: '일방 당사자가 임의로 해지할 수 있는 조항이 있습니다.',
+    mode: 'match',
+    pattern: /일방적으로|언제든지|임의로|at any time|sole discretion/i
+  },
+  {
+    code: 'IP_FULL_ASSIGNMENT',
+    category: 'ip',
+    severity: 'warning',
+    message: '모든 지적재산권을 상대방에게 귀속·양도하는 조항입니다.',
+    mode: 'match',
+    pattern: /(?:일체의|모든)\s*(?:권리|지적\s*재산권|지식\s*재산권)[^.。\n]*(?:귀속|양도)|all right, title and interest|assigns? all/i
+  },
+  {
+    code: 'CONFIDENTIALITY_NO_DURATION',
+    category: 'confidentiality',
+    severity: 'warning',
+    message: '비밀유지 의무의 존속 기간이 명시되어 있지 않습니다.',
+    mode: 'absent',
+    pattern: /\d+\s*(?:년|개월|years?|months?)|종료\s*(?:후|이후)|영구|perpetual|after (?:the )?termination/i
+  },
+  {
+    code: 'GOVERNING_LAW_UNSPECIFIED',
+    category: 'governing_law',
+    severity: 'warning',
+    message: '준거법이 특정 국가의 법률로 지정되어 있지 않습니다.',
+    mode: 'absent',
+    pattern: /대한민국|한국|일본|미국|중국|영국|싱가포르|홍콩|Korea|Japan|Singapore|Hong Kong|England|laws? of|State of/i
+  },
+  {
+    code: 'DISPUTE_NO_FORUM',
+    category: 'dispute_resolution',
+    severity: 'warning',
+    message: '분쟁 해결 기관(관할 법원 또는 중재기관)이 지정되어 있지 않습니다.',
+    mode: 'absent',
+    pattern: /법원|중재|court|arbitration|tribunal/i
+  }
+];
+
+// 이 점수를 넘는 분류는 1순위와의 차이와 상관없이 보조 분류로 센다.
+// "준거법 및 관할"처럼 한 조항에 두 주제가 묶이면 두 번째 주제의 점수가 1순위보다 한참 낮을 수 있다
+const SECONDARY_MIN_SCORE = 6;
+
+// 행 첫머리의 조항 제목만 인식 (본문 속 "제3조에 따라" 같은 인용은 제외)
+const HEADING_PATTERN =
+  /^[ \t]*(?:제\s*(\d+)\s*조(?:\s*의\s*(\d+))?(?=[\s(（【[]|$)[ \t]*(?:[(（【[]([^)）】\]\n]{1,40})[)）】\]])?|(?:ARTICLE|Article)\s+(\d+|[IVXLC]+)\b\.?[ \t]*(?:[-–:.][ \t]*)?([^\n]{0,80})|§\s*(\d+(?:\.\d+)*)[ \t]*([^\n]{0,80}))/gm;
+
+class ClauseAnalyzer {
+  analyze(text: string, options: ContractAnalysisOptions = {}): ContractAnalysis {
+    const normalized = text.replace(/\r\n?/g, '\n');
+    const clauses = this.segment(normalized);
+    const findings: ClauseFinding[] = [];
+
+    clauses.forEach(clause => {
+      findings.push(...this.inspect(clause));
+    });
+
+    const coverage: Partial<Record<ClauseCategory, string[]>> = {};
+    clauses.forEach(clause => {
+      [clause.category, ...clause.secondaryCategories].forEach(category => {
+        if (category === 'other') return;
+        coverage[category] = [...(coverage[category] || []), clause.id];
+      });
+    });
+
+    const requiredCategories = options.requiredCategories || DEFAULT_REQUIRED_CATEGORIES;
+    const missingCategories = requiredCategories.filter(category => !coverage[category]);
+
+    return {
+      clauses,
+      findings,
+      coverage,
+      missingCategories,
+      language: this.detectLanguage(normalized),
+      textLength: normalized.length,
+      analyzedAt: new Date().toISOString()
+    };
+  }
+
+  segment(text: string): ContractClause[] {
+    const headings = this.findHeadings(text);
+
+    if (headings.length === 0) {
+      return this.segmentParagraphs(text);
+    }
+
+    const clauses: ContractClause[] = [];
+    const preamble = text.slice(0, headings[0].index);
+    if (preamble.trim()) {
+      clauses.push(this.buildClause(text, 0, headings[0].index, null, 'preamble', ''));
+    }
+
+    headings.forEach((heading, i) => {
+      const end = i + 1 < headings.length ? headings[i + 1].index : text.length;
+      clauses.push(this.buildClause(text, heading.index, end, heading.number, heading.style, heading.title));
+    });
+
+    return clauses;
+  }
+
+  classify(title: string, body: string): Pick<ContractClause, 'category' | 'secondaryCategories' | 'confidence' | 'matchedKeywords'> {
+    const scores: Array<{ category: ClauseCategory; score: number }> = [];
+    const matchedKeywords: string[] = [];
+
+    (Object.keys(CATEGORY_KEYWORDS) as Array<Exclude<ClauseCategory, 'other'>>).forEach(category => {
+      let score = 0;
+      CATEGORY_KEYWORDS[category].forEach(({ pattern, weight }) => {
+        // 제목에 나타난 키워드는 본문보다 가중치를 크게 둔다
+        const titleHits = this.collectMatches(pattern, title);
+        const bodyHits = this.collectMatches(pattern, body);
+        score += titleHits.length * weight * 3 + Math.min(bodyHits.length, 3) * weight;
+        titleHits.concat(bodyHits).forEach(hit => {
+          if (!matchedKeywords.includes(hit)) matchedKeywords.push(hit);
+        });
+      });
+      if (score > 0) scores.push({ category, score });
+    });
+
+    if (scores.length === 0) {
+      return { category: 'other', secondaryCategories: [], confidence: 0, matchedKeywords };
+    }
+
+    scores.sort((a, b) => b.score - a.score);
+    const total = scores.reduce((sum, entry) => sum + entry.score, 0);
+    const top = scores[0];
+
+    return {
+      category: top.category,
+      secondaryCategories: scores
+        .slice(1)
+        .filter(entry => entry.score >= top.score * 0.6 || entry.score >= SECONDARY_MIN_SCORE)
+        .map(entry => entry.category),
+      confidence: Math.round((top.score / total) * 100) / 100,
+      matchedKeywords
+    };
+  }
+
+  private inspect(clause: ContractClause): ClauseFinding[] {
+    const categories = [clause.category, ...clause.secondaryCategories];
+    const findings: ClauseFinding[] = [];
+
+    FINDING_RULES.filter(rule => categories.includes(rule.category)).forEach(rule => {
+      const match = rule.pattern.exec(clause.text);
+
+      if (rule.mode === 'match' && match) {
+        const start = clause.start + match.index;
+        findings.push(this.buildFinding(clause, rule, start, start + match[0].length));
+      }
+
+      if (rule.mode === 'absent' && !match) {
+        findings.push(this.buildFinding(clause, rule, clause.start, clause.end));
+      }
+    });
+
+    return findings;
+  }
+
+  private buildFinding(clause: ContractClause, rule: FindingRule, start: number, end: number): ClauseFinding {
+    const offset = start - clause.start;
+    const excerpt = clause.text.slice(offset, offset + Math.min(end - start, 80)).trim();
+
+    return {
+      id: `${clause.id}:${rule.code}`,
+      clauseId: clause.id,
+      category: rule.category,
+      severity: rule.severity,
+      code: rule.code,
+      message: rule.message,
+      excerpt,
+      start,
+      end
+    };
+  }
+
+  private findHeadings(text: string): HeadingMatch[] {
+    const headings: HeadingMatch[] = [];
+    const pattern = new RegExp(HEADING_PATTERN.source, 'gm');
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(text)) !== null) {
+      if (match[1]) {
+        headings.push({
+          index: match.index,
+          number: match[2] ? `${match[1]}-${match[2]}` : match[1],
+          style: 'ko',
+          title: (match[3] || '').trim()
+        });
+      } else if (match[4]) {
+        headings.push({ index: match.index, number: match[4], style: 'en', title: (match[5] || '').trim() });
+      } else if (match[6]) {
+        headings.push({ index: match.index, number: match[6], style: 'section', title: (match[7] || '').trim() });
+      }
+
+      if (match[0].length === 0) pattern.lastIndex++;
+    }
+
+    return headings;
+  }
+
+  private segmentParagraphs(text: string): ContractClause[] {
+    const clauses: ContractClause[] = [];
+    const pattern = /[^\n]+(?:\n(?!\s*\n)[^\n]*)*/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(text)) !== null) {
+      if (!match[0].trim()) continue;
+      clauses.push(this.buildClause(text, match.index, match.index + match[0].length, null, 'paragraph', ''));
+    }
+
+    return clauses;
+  }
+
+  private buildClause(
+    text: string,
+    start: number,
+    rawEnd: number,
+    number: string | null,
+    headingStyle: ClauseHeadingStyle,
+    title: string
+  ): ContractClause {
+    let end = rawEnd;
+    while (end > start && /\s/.test(text.charAt(end - 1))) end--;
+
+    const clauseText = text.slice(start, end);
+    const classification = this.classify(title, clauseText);
+
+    return {
+      id: number ? `clause-${headingStyle}-${number}` : `clause-${headingStyle}-${start}`,
+      number,
+      headingStyle,
+      title,
+      text: clauseText,
+      start,
+      end,
+      ...classification
+    };
+  }
+
+  private collectMatches(pattern: RegExp, text: string): string[] {
+    if (!text) return [];
+    const regex = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : pattern.flags + 'g');
+    const hits: string[] = [];
+    let match: RegExpExecArray | null;
+
+    while ((match = regex.exec(text)) !== null) {
+      hits.push(match[0]);
+      if (match[0].length === 0) regex.lastIndex++;
+    }
+
+    return hits;
+  }
+
+  private detectLanguage(text: string): ContractAnalysis['language'] {
+    const hangul = (text.match(/[가-힣]/g) || []).length;
+    const latin = (text.match(/[A-Za-z]/g) || []).length;
+    const total = hangul + latin;
+
+    if (total === 0) return 'ko';
+    if (hangul / total > 0.7) return 'ko';
+    if (latin / total > 0.7) return 'en';
+    return 'mixed';
+  }
+}
+
+export function formatClauseNumber(clause: ContractClause): string {
+  if (!clause.number) return clause.headingStyle === 'preamble' ? '전문' : '단락';
+  if (clause.headingStyle === 'en') return `Article ${clause.number}`;
+  if (clause.headingStyle === 'section') return `§${clause.number}`;
+  return `제${clause.number.replace('-', '조의')}조`;
+}
+
+/**
+ * AI 프롬프트에 넣기 위한 조항별 분석 요약 (원문 전체 대신 사용)
+ */
+export function summarizeAnalysis(analysis: ContractAnalysis): string {
+  const clauseLines = analysis.clauses.map(clause => {
+    const label = formatClauseNumber(clause);
+    const title = clause.title ? ` (${clause.title})` : '';
+    return `- ${label}${title}: ${CLAUSE_CATEGORY_LABELS[clause.category]}`;
+  });
+
+  const findingLines = analysis.findings.map(finding =>
+    `- [${finding.severity}] ${CLAUSE_CATEGORY_LABELS[finding.category]}: ${finding.message}`
+  );
+
+  const missing = analysis.missingCategories.map(category => CLAUSE_CATEGORY_LABELS[category]);
+
+  return [
+    '조항 구성:',
+    ...clauseLines,
+    '',
+    '조항별 지적 사항:',
+    ...(findingLines.length > 0 ? findingLines : ['- 없음']),
+    '',
+    `누락된 필수 조항: ${missing.length > 0 ? missing.join(', ') : '없음'}`
+  ].join('\n');
+}
+
+// 필수 조항 누락 시 점수에 반영되는 심각도
+const CLAUSE_CHECK_SEVERITY: Partial<Record<ClauseCategory, ComplianceSeverity>> = {
+  payment: 'critical',
+  liability: 'critical',
+  term: 'major',
+  termination: 'major'
+};
+
+/**
+ * 조항 분석 결과를 ComplianceScore가 사용하는 체크 목록으로 변환
+ */
+export function toComplianceChecks(
+  analysis: ContractAnalysis,
+  categories: ClauseCategory[] = DEFAULT_REQUIRED_CATEGORIES
+): ComplianceCheck[] {
+  return categories.map(category => {
+    const base = {
+      label: CLAUSE_CATEGORY_LABELS[category],
+      category,
+      severity: CLAUSE_CHECK_SEVERITY[category] || 'minor' as const
+    };
+
+    if (analysis.missingCategories.includes(category) || !analysis.coverage[category]) {
+      return { ...base, status: 'fail' as const, message: `${base.label} 조항이 없습니다.` };
+    }
+
+    const issue = analysis.findings.find(finding =>
+      finding.category === category && finding.severity !== 'info'
+    );
+
+    return issue
+      ? { ...base, status: 'warning' as const, message: issue.message }
+      : { ...base, status: 'pass' as const };
+  });
+}
+
+export const clauseAnalyzer = new ClauseAnalyzer();
+export default ClauseAnalyzer;
@@ -0,0 +1,170 @@
+import { getComplianceRegions, getComplianceRules } from './getComplianceRules';
+import { ContractAnalysis } from '../types/contract-analysis';
+import {
+  ComplianceCheck,
+  ComplianceEvaluation,
+  ComplianceEvidence,
+  ComplianceRegion,
+  ComplianceRule
+} from '../types/compliance';
+
+// expect 패턴을 찾을 때 조항 정보가 없으면 탐지 위치 앞뒤로 이 범위만 본다
+const EXPECT_WINDOW = 300;
+
+class ComplianceRuleEngine {
+  private patternCache: Map<string, RegExp | null> = new Map();
+
+  listRegions(): Array<Omit<ComplianceRegion, 'rules'> & { ruleCount: number }> {
+    return getComplianceRegions().map(({ rules, ...region }) => ({ ...region, ruleCount: rules.length }));
+  }
+
+  evaluate(regionCode: string, text: string, analysis?: ContractAnalysis): ComplianceEvaluation | null {
+    const region = getComplianceRules(regionCode);
+    if (!region) return null;
+
+    // 조항 분석 결과와 오프셋을 맞추기 위해 같은 방식으로 줄바꿈을 정규화
+    const normalized = text.replace(/\r\n?/g, '\n');
+    const checks: ComplianceCheck[] = [];
+    const skippedRules: string[] = [];
+
+    region.rules.forEach(rule => {
+      if (rule.appliesWhen && rule.appliesWhen.length > 0 && !this.findFirst(rule.appliesWhen, normalized)) {
+        skippedRules.push(rule.id);
+        return;
+      }
+      checks.push(this.evaluateRule(rule, region.code, normalized, analysis));
+    });
+
+    return {
+      region: {
+        code: region.code,
+        name: region.name,
+        label: region.label,
+        flag: region.flag,
+        law: region.law
+      },
+      checks,
+      skippedRules,
+      summary: {
+        pass: checks.filter(check => check.status === 'pass').length,
+        warning: checks.filter(check => check.status === 'warning').length,
+        fail: checks.filter(check => check.status === 'fail').length
+      },
+      evaluatedAt: new Date().toISOString()
+    };
+  }
+
+  private evaluateRule(rule: ComplianceRule, regionCode: string, text: string, analysis?: ContractAnalysis): ComplianceCheck {
+    const base: ComplianceCheck = {
+      label: rule.label,
+      status: 'pass',
+      ruleId: rule.id,
+      region: regionCode,
+      category: rule.category,
+      severity: rule.severity,
+      citation: rule.citation,
+      remediation: rule.remediation
+    };
+
+    const prohibited = rule.prohibit ? this.findFirst(rule.prohibit, text) : null;
+    if (prohibited) {
+      return {
+        ...base,
+        status: 'fail',
+        message: rule.prohibitMessage || `${rule.label}: 허용되지 않는 문구가 포함되어 있습니다.`,
+        evidence: this.buildEvidence(text, prohibited, analysis)
+      };
+    }
+
+    const detected = this.findFirst(rule.detect, text);
+    if (!detected) {
+      return {
+        ...base,
+        status: 'fail',
+        message: rule.appliesWhen
+          ? `${rule.label}에 필요한 고지 또는 보호 조치가 명시되어 있지 않습니다.`
+          : `${rule.label} 관련 조항이 없습니다.`
+      };
+    }
+
+    const evidence = this.buildEvidence(text, detected, analysis);
+
+    if (rule.expect && rule.expect.length > 0) {
+      const scope = this.expectScope(text, detected, evidence, analysis);
+      if (!this.findFirst(rule.expect, scope)) {
+        return {
+          ...base,
+          status: 'warning',
+          message: rule.expectMessage || `${rule.label} 조항의 내용이 충분하지 않습니다.`,
+          evidence
+        };
+      }
+    }
+
+    return { ...base, evidence };
+  }
+
+  private expectScope(
+    text: string,
+    match: { index: number; length: number },
+    evidence: ComplianceEvidence,
+    analysis?: ContractAnalysis
+  ): string {
+    const clause = evidence.clauseId && analysis
+      ? analysis.clauses.find(candidate => candidate.id === evidence.clauseId)
+      : undefined;
+    if (clause) return clause.text;
+
+    return text.slice(Math.max(0, match.index - EXPECT_WINDOW), match.index + match.length + EXPECT_WINDOW);
+  }
+
+  private buildEvidence(
+    text: string,
+    match: { index: number; length: number },
+    analysis?: ContractAnalysis
+  ): ComplianceEvidence {
+    const start = match.index;
+    const end = match.index + match.length;
+    const clause = analysis?.clauses.find(candidate => start >= candidate.start && start < candidate.end);
+    const lineStart = text.lastIndexOf('\n', start) + 1;
+    const lineEnd = text.indexOf('\n', end);
+
+    return {
+      start,
+      end,
+      excerpt: text.slice(lineStart, lineEnd === -1 ? undefined : lineEnd).trim().slice(0, 120),
+      clauseId: clause?.id
+    };
+  }
+
+  private findFirst(patterns: string[], text: string): { index: number; length: number } | null {
+    let first: { index: number; length: number } | null = null;
+
+    patterns.forEach(source => {
+      const pattern = this.compile(source);
+      if (!pattern) return;
+      const match = pattern.exec(text);
+      if (match && (!first || match.index < first.index)) {
+        first = { index: match.index, length: match[0].length };
+      }
+    });
+
+    return first;
+  }
+
+  private compile(source: string): RegExp | null {
+    if (!this.patternCache.has(source)) {
+      try {
+        this.patternCache.set(source, new RegExp(source, 'i'));
+      } catch (error) {
+        // 잘못된 규칙 데이터 하나 때문에 전체 평가가 실패하지 않도록 해당 패턴만 무시
+        console.error(`Invalid compliance rule pattern: ${source}`, error);
+        this.patternCache.set(source, null);
+      }
+    }
+    return this.patternCache.get(source) || null;
+  }
+}
+
+export const complianceRuleEngine = new ComplianceRuleEngine();
+export default ComplianceRuleEngine;
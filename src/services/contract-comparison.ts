@@ -0,0 +1,444 @@
+import { clauseAnalyzer, CLAUSE_CATEGORY_LABELS, formatClauseNumber } from '@/services/clause-analyzer';
+import { ClauseCategory, ContractAnalysis, ContractClause } from '@/types/contract-analysis';
+import {
+  ClauseComparison,
+  ContractComparison,
+  ObligationChange,
+  RiskShift,
+  TextChange
+} from '@/types/contract-comparison';
+
+interface ValueRule {
+  code: string;
+  category: ClauseCategory;
+  severity: RiskShift['severity'];
+  message: string;
+  pattern: RegExp;
+}
+
+// 조항이 삭제되면 위험이 커지는 유형
+const PROTECTIVE_CATEGORIES: ClauseCategory[] = [
+  'liability',
+  'confidentiality',
+  'ip',
+  'governing_law',
+  'dispute_resolution'
+];
+
+// 매칭된 조항 사이에서 값이 바뀌면 위험 변화로 보는 항목
+const VALUE_RULES: ValueRule[] = [
+  {
+    code: 'GOVERNING_LAW_CHANGED',
+    category: 'governing_law',
+    severity: 'critical',
+    message: '준거법이 변경되었습니다.',
+    pattern: /대한민국|한국|일본|미국|중국|영국|싱가포르|홍콩|Korea|Japan|Singapore|Hong Kong|England|New York|California|Delaware|State of [A-Z][a-z]+/g
+  },
+  {
+    code: 'DISPUTE_FORUM_CHANGED',
+    category: 'dispute_resolution',
+    severity: 'warning',
+    message: '분쟁 해결 기관(관할 법원·중재기관)이 변경되었습니다.',
+    pattern: /[가-힣]+법원|대한상사중재원|[A-Z]{2,}(?= Rules| arbitration)|courts? of [A-Z][a-z]+(?: [A-Z][a-z]+)?|arbitration/g
+  },
+  {
+    code: 'AMOUNT_CHANGED',
+    category: 'payment',
+    severity: 'warning',
+    message: '지급 금액이 변경되었습니다.',
+    pattern: /\d[\d,]*\s*(?:원|만\s*원|KRW|USD)|[₩$]\s*\d[\d,]*/g
+  },
+  {
+    code: 'NOTICE_PERIOD_CHANGED',
+    category: 'termination',
+    severity: 'warning',
+    message: '해지 통지 기간이 변경되었습니다.',
+    pattern: /\d+\s*일\s*(?:전|이전)|\d+\s*days'?\s*(?:prior )?(?:written )?notice/g
+  },
+  {
+    code: 'TERM_PERIOD_CHANGED',
+    category: 'term',
+    severity: 'info',
+    message: '계약 기간이 변경되었습니다.',
+    pattern: /\d{4}\s*[년.\-/]\s*\d{1,2}\s*[월.\-/]\s*\d{1,2}\s*일?|\d+\s*(?:년|개월|years?|months?)/g
+  }
+];
+
+const OBLIGATION_PATTERN =
+  /하여야\s*한다|해야\s*한다|할\s*의무|의무가\s*있다|하지\s*못한다|하여서는\s*아니\s*된다|책임을\s*진다|\bshall\b|\bmust\b|agrees? to|is obligated/i;
+
+const HEADING_PREFIX = /^\s*(?:제\s*\d+\s*조(?:\s*의\s*\d+)?|(?:ARTICLE|Article)\s+\S+|§\s*\S+)/;
+
+const MATCH_THRESHOLD = 0.4;
+
+const MAX_DIFF_CELLS = 4000000;
+
+class ContractComparisonService {
+  compare(originalText: string | ContractAnalysis, revisedText: string | ContractAnalysis): ContractComparison {
+    const original = typeof originalText === 'string' ? clauseAnalyzer.analyze(originalText) : originalText;
+    const revised = typeof revisedText === 'string' ? clauseAnalyzer.analyze(revisedText) : revisedText;
+
+    const matches = this.align(original.clauses, revised.clauses);
+    const matchedOriginals = new Map<number, { revisedIndex: number; similarity: number }>();
+    matches.forEach(match => matchedOriginals.set(match.originalIndex, match));
+
+    const revisedToOriginal = new Map<number, { originalIndex: number; similarity: number }>();
+    matches.forEach(match => revisedToOriginal.set(match.revisedIndex, match));
+
+    const clauses: ClauseComparison[] = [];
+    const emittedOriginals = new Set<number>();
+
+    const emitRemovedBefore = (originalIndex: number) => {
+      for (let i = 0; i < originalIndex; i++) {
+        if (!emittedOriginals.has(i) && !matchedOriginals.has(i)) {
+          clauses.push(this.buildComparison(original, revised, original.clauses[i], null, 0));
+          emittedOriginals.add(i);
+        }
+      }
+    };
+
+    // 수정본 순서를 기준으로 나열하고, 삭제된 조항은 원본에서의 위치에 끼워 넣는다
+    revised.clauses.forEach((revisedClause, revisedIndex) => {
+      const match = revisedToOriginal.get(revisedIndex);
+      if (match) {
+        emitRemovedBefore(match.originalIndex);
+        emittedOriginals.add(match.originalIndex);
+        clauses.push(this.buildComparison(
+          original,
+          revised,
+          original.clauses[match.originalIndex],
+          revisedClause,
+          match.similarity
+        ));
+      } else {
+        clauses.push(this.buildComparison(original, revised, null, revisedClause, 0));
+      }
+    });
+    emitRemovedBefore(original.clauses.length);
+
+    const riskShifts = clauses.reduce<RiskShift[]>((all, clause) => all.concat(clause.riskShifts), []);
+
+    revised.missingCategories
+      .filter(category => !original.missingCategories.includes(category))
+      .forEach(category => {
+        riskShifts.push({
+          code: 'CATEGORY_MISSING',
+          severity: 'warning',
+          direction: 'increased',
+          category,
+          message: `수정본에 ${CLAUSE_CATEGORY_LABELS[category]} 조항이 없습니다.`
+        });
+      });
+
+    return {
+      clauses,
+      riskShifts,
+      summary: {
+        unchanged: clauses.filter(clause => clause.status === 'unchanged').length,
+        modified: clauses.filter(clause => clause.status === 'modified').length,
+        added: clauses.filter(clause => clause.status === 'added').length,
+        removed: clauses.filter(clause => clause.status === 'removed').length,
+        riskIncreased: riskShifts.filter(shift => shift.direction === 'increased').length,
+        riskDecreased: riskShifts.filter(shift => shift.direction === 'decreased').length
+      },
+      original,
+      revised,
+      comparedAt: new Date().toISOString()
+    };
+  }
+
+  diffText(before: string, after: string): TextChange[] {
+    const a = before.match(/\s+|[^\s]+/g) || [];
+    const b = after.match(/\s+|[^\s]+/g) || [];
+
+    if (a.length * b.length > MAX_DIFF_CELLS) {
+      return mergeChanges([
+        { type: 'delete', text: before },
+        { type: 'insert', text: after }
+      ]);
+    }
+
+    // LCS 테이블 (뒤에서부터 채워 앞에서부터 경로를 복원)
+    const width = b.length + 1;
+    const table = new Uint32Array((a.length + 1) * width);
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        table[i * width + j] = a[i] === b[j]
+          ? table[(i + 1) * width + j + 1] + 1
+          : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+      }
+    }
+
+    const changes: TextChange[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+      if (a[i] === b[j]) {
+        changes.push({ type: 'equal', text: a[i] });
+        i++;
+        j++;
+      } else if (table[(i + 1) * width + j] >= table[i * width + j + 1]) {
+        changes.push({ type: 'delete', text: a[i++] });
+      } else {
+        changes.push({ type: 'insert', text: b[j++] });
+      }
+    }
+    while (i < a.length) changes.push({ type: 'delete', text: a[i++] });
+    while (j < b.length) changes.push({ type: 'insert', text: b[j++] });
+
+    return mergeChanges(changes);
+  }
+
+  private align(
+    originals: ContractClause[],
+    revisions: ContractClause[]
+  ): Array<{ originalIndex: number; revisedIndex: number; similarity: number }> {
+    const candidates: Array<{ originalIndex: number; revisedIndex: number; score: number; similarity: number }> = [];
+
+    originals.forEach((originalClause, originalIndex) => {
+      revisions.forEach((revisedClause, revisedIndex) => {
+        const similarity = diceCoefficient(stripHeading(originalClause.text), stripHeading(revisedClause.text));
+        const titleSimilarity = originalClause.title && revisedClause.title
+          ? diceCoefficient(originalClause.title, revisedClause.title)
+          : similarity;
+        const sameCategory = originalClause.category === revisedClause.category ? 1 : 0;
+        const score = similarity * 0.7 + titleSimilarity * 0.15 + sameCategory * 0.15;
+
+        if (score >= MATCH_THRESHOLD) {
+          candidates.push({ originalIndex, revisedIndex, score, similarity });
+        }
+      });
+    });
+
+    // 점수가 높은 쌍부터 1:1로 확정
+    candidates.sort((x, y) => y.score - x.score);
+    const usedOriginals = new Set<number>();
+    const usedRevisions = new Set<number>();
+
+    return candidates.filter(candidate => {
+      if (usedOriginals.has(candidate.originalIndex) || usedRevisions.has(candidate.revisedIndex)) {
+        return false;
+      }
+      usedOriginals.add(candidate.originalIndex);
+      usedRevisions.add(candidate.revisedIndex);
+      return true;
+    });
+  }
+
+  private buildComparison(
+    original: ContractAnalysis,
+    revised: ContractAnalysis,
+    originalClause: ContractClause | null,
+    revisedClause: ContractClause | null,
+    similarity: number
+  ): ClauseComparison {
+    const originalBody = originalClause ? stripHeading(originalClause.text) : '';
+    const revisedBody = revisedClause ? stripHeading(revisedClause.text) : '';
+
+    let status: ClauseComparison['status'];
+    if (!originalClause) status = 'added';
+    else if (!revisedClause) status = 'removed';
+    else status = normalizeWhitespace(originalBody) === normalizeWhitespace(revisedBody) ? 'unchanged' : 'modified';
+
+    return {
+      id: `${originalClause?.id || 'none'}::${revisedClause?.id || 'none'}`,
+      status,
+      original: originalClause,
+      revised: revisedClause,
+      similarity: Math.round(similarity * 100) / 100,
+      renumbered: Boolean(originalClause?.number && revisedClause?.number && originalClause.number !== revisedClause.number),
+      changes: status === 'modified' ? this.diffText(originalClause!.text, revisedClause!.text) : [],
+      obligationChanges: status === 'unchanged' ? [] : this.compareObligations(originalBody, revisedBody),
+      riskShifts: status === 'unchanged' ? [] : this.detectRiskShifts(original, revised, originalClause, revisedClause)
+    };
+  }
+
+  private compareObligations(before: string, after: string): ObligationChange[] {
+    const beforeSentences = extractObligations(before);
+    const afterSentences = extractObligations(after);
+    const beforeKeys = beforeSentences.map(normalizeWhitespace);
+    const afterKeys = afterSentences.map(normalizeWhitespace);
+
+    return [
+      ...beforeSentences
+        .filter((_, i) => !afterKeys.includes(beforeKeys[i]))
+        .map(sentence => ({ type: 'removed' as const, sentence })),
+      ...afterSentences
+        .filter((_, i) => !beforeKeys.includes(afterKeys[i]))
+        .map(sentence => ({ type: 'added' as const, sentence }))
+    ];
+  }
+
+  private detectRiskShifts(
+    original: ContractAnalysis,
+    revised: ContractAnalysis,
+    originalClause: ContractClause | null,
+    revisedClause: ContractClause | null
+  ): RiskShift[] {
+    const shifts: RiskShift[] = [];
+    const originalFindings = originalClause
+      ? original.findings.filter(finding => finding.clauseId === originalClause.id)
+      : [];
+    const revisedFindings = revisedClause
+      ? revised.findings.filter(finding => finding.clauseId === revisedClause.id)
+      : [];
+
+    if (originalClause && !revisedClause) {
+      if (PROTECTIVE_CATEGORIES.includes(originalClause.category)) {
+        shifts.push({
+          code: 'CLAUSE_REMOVED',
+          severity: originalClause.category === 'governing_law' || originalClause.category === 'liability' ? 'critical' : 'warning',
+          direction: 'increased',
+          category: originalClause.category,
+          message: `${formatClauseNumber(originalClause)} ${CLAUSE_CATEGORY_LABELS[originalClause.category]} 조항이 삭제되었습니다.`,
+          before: originalClause.text
+        });
+      }
+      return shifts;
+    }
+
+    // 조항 분석 지적 사항의 증감으로 위험 변화를 판단
+    revisedFindings
+      .filter(finding => !originalFindings.some(existing => existing.code === finding.code))
+      .forEach(finding => {
+        // 원래 조항에는 없던 LIABILITY_NO_CAP이 수정본에 생겼다면 한도 문구가 빠진 것이다
+        // (예: '…배상한다. 다만 배상액은 계약금액을 한도로 한다.' → '…배상한다.')
+        const capRemoved = finding.code === 'LIABILITY_NO_CAP' && originalClause !== null;
+        shifts.push({
+          code: capRemoved ? 'LIABILITY_CAP_REMOVED' : finding.code,
+          severity: capRemoved ? 'critical' : finding.severity,
+          direction: 'increased',
+          category: finding.category,
+          message: capRemoved ? '손해배상 책임 한도(상한) 조항이 삭제되었습니다.' : finding.message,
+          after: finding.excerpt
+        });
+      });
+
+    originalFindings
+      .filter(finding => !revisedFindings.some(existing => existing.code === finding.code))
+      .forEach(finding => {
+        shifts.push({
+          code: `${finding.code}_RESOLVED`,
+          severity: 'info',
+          direction: 'decreased',
+          category: finding.category,
+          message: `해소됨: ${finding.message}`,
+          before: finding.excerpt
+        });
+      });
+
+    if (originalClause && revisedClause) {
+      const categories = [
+        originalClause.category,
+        ...originalClause.secondaryCategories,
+        revisedClause.category,
+        ...revisedClause.secondaryCategories
+      ];
+
+      VALUE_RULES.filter(rule => categories.includes(rule.category)).forEach(rule => {
+        const before = extractValues(rule.pattern, originalClause.text);
+        const after = extractValues(rule.pattern, revisedClause.text);
+        if (before.join('|') === after.join('|')) return;
+
+        shifts.push({
+          code: rule.code,
+          severity: rule.severity,
+          direction: 'increased',
+          category: rule.category,
+          message: rule.message,
+          before: before.join(', ') || undefined,
+          after: after.join(', ') || undefined
+        });
+      });
+    }
+
+    return shifts;
+  }
+}
+
+function stripHeading(text: string): string {
+  return text.replace(HEADING_PREFIX, '');
+}
+
+function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function diceCoefficient(a: string, b: string): number {
+  const left = a.replace(/\s+/g, '');
+  const right = b.replace(/\s+/g, '');
+  if (left === right) return 1;
+  if (left.length < 2 || right.length < 2) return 0;
+
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < left.length - 1; i++) {
+    const bigram = left.substr(i, 2);
+    bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+  }
+
+  let overlap = 0;
+  for (let i = 0; i < right.length - 1; i++) {
+    const bigram = right.substr(i, 2);
+    const count = bigrams.get(bigram) || 0;
+    if (count > 0) {
+      bigrams.set(bigram, count - 1);
+      overlap++;
+    }
+  }
+
+  return (2 * overlap) / (left.length + right.length - 2);
+}
+
+function extractObligations(text: string): string[] {
+  return text
+    .split(/\n|[.。!?]\s+/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence && OBLIGATION_PATTERN.test(sentence));
+}
+
+function extractValues(pattern: RegExp, text: string): string[] {
+  const values = (text.match(new RegExp(pattern.source, 'g')) || []).map(normalizeWhitespace);
+  return values.filter((value, i) => values.indexOf(value) === i).sort();
+}
+
+// 연속된 변경 구간을 삭제 1개 + 추가 1개로 묶는다 (변경 사이의 공백도 구간에 포함)
+function mergeChanges(changes: TextChange[]): TextChange[] {
+  const merged: TextChange[] = [];
+  let deleted = '';
+  let inserted = '';
+
+  const flush = () => {
+    if (deleted) merged.push({ type: 'delete', text: deleted });
+    if (inserted) merged.push({ type: 'insert', text: inserted });
+    deleted = '';
+    inserted = '';
+  };
+
+  changes.forEach((change, i) => {
+    if (!change.text) return;
+
+    if (change.type === 'equal') {
+      const next = changes[i + 1];
+      const inRun = (deleted || inserted) && /^\s+$/.test(change.text) && next && next.type !== 'equal';
+      if (inRun) {
+        deleted += change.text;
+        inserted += change.text;
+        return;
+      }
+      flush();
+      const last = merged[merged.length - 1];
+      if (last && last.type === 'equal') last.text += change.text;
+      else merged.push({ ...change });
+      return;
+    }
+
+    if (change.type === 'delete') deleted += change.text;
+    else inserted += change.text;
+  });
+  flush();
+
+  return merged;
+}
+
+export const contractComparison = new ContractComparisonService();
+export default ContractComparisonService;
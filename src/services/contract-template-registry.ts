@@ -0,0 +1,212 @@
+import { z } from 'zod';
+import templateData from '../types/contractTemplates.json';
+import { buildTemplateSchema } from './contract-template-schema';
+import {
+  ContractTemplateDefinition,
+  ContractTemplateSummary,
+  ContractTemplateVariant,
+  LocalizedText,
+  ResolvedContractTemplate,
+  TemplateField,
+  TemplateFieldDefinition,
+  TemplateFieldValues,
+  TemplateQuery
+} from '../types/contract-template';
+
+export const DEFAULT_JURISDICTION = 'KR';
+export const DEFAULT_LANGUAGE = 'ko';
+
+const localizedTextSchema = z.record(z.string()).refine(text => Boolean(text[DEFAULT_LANGUAGE]), {
+  message: `'${DEFAULT_LANGUAGE}' 문구는 필수입니다.`
+});
+
+const fieldDefinitionSchema = z.object({
+  id: z.string().regex(/^[a-zA-Z][a-zA-Z0-9]*$/),
+  type: z.enum(['text', 'textarea', 'date', 'number', 'krw', 'select', 'email', 'phone', 'businessNumber']),
+  required: z.boolean(),
+  label: localizedTextSchema,
+  placeholder: localizedTextSchema.optional(),
+  options: z.array(z.object({ value: z.string(), label: localizedTextSchema })).optional(),
+  min: z.number().optional(),
+  max: z.number().optional(),
+  maxLength: z.number().int().positive().optional()
+}).refine(field => field.type !== 'select' || (field.options && field.options.length > 0), {
+  message: 'select 항목에는 options가 필요합니다.'
+});
+
+const crossFieldRuleSchema = z.object({
+  type: z.literal('dateOrder'),
+  start: z.string(),
+  end: z.string()
+});
+
+// 규칙이 참조하는 항목이 실제로 있는지 확인
+const rulesReferToFields = (fields: Array<{ id: string }>, rules: Array<{ start: string; end: string }> = []) =>
+  rules.every(rule => fields.some(field => field.id === rule.start) && fields.some(field => field.id === rule.end));
+
+const templateDefinitionSchema = z.object({
+  id: z.string(),
+  name: localizedTextSchema,
+  fields: z.array(fieldDefinitionSchema),
+  rules: z.array(crossFieldRuleSchema).optional(),
+  variants: z.array(z.object({
+    version: z.string().regex(/^\d+\.\d+\.\d+$/),
+    jurisdiction: z.string(),
+    language: z.string(),
+    prompt: z.string().min(1),
+    fields: z.array(fieldDefinitionSchema).optional(),
+    rules: z.array(crossFieldRuleSchema).optional(),
+    deprecated: z.boolean().optional()
+  })).min(1)
+}).refine(
+  template => template.variants.every(variant =>
+    rulesReferToFields(variant.fields || template.fields, variant.rules || template.rules)
+  ),
+  { message: '검증 규칙이 존재하지 않는 항목을 참조합니다.' }
+);
+
+// 프롬프트에서 비어 있는 선택 항목 자리에 넣는 문구
+const EMPTY_VALUE: Record<string, string> = { ko: '없음', en: 'N/A' };
+
+const localize = (text: LocalizedText | undefined, language: string): string | undefined =>
+  text ? text[language] || text[DEFAULT_LANGUAGE] : undefined;
+
+const compareVersions = (a: string, b: string): number => {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+  for (let i = 0; i < 3; i++) {
+    if (left[i] !== right[i]) return left[i] - right[i];
+  }
+  return 0;
+};
+
+const unique = (values: string[]) => values.filter((value, index) => values.indexOf(value) === index);
+
+class ContractTemplateRegistry {
+  private templates: Map<string, ContractTemplateDefinition> = new Map();
+
+  constructor(definitions: unknown[]) {
+    definitions.forEach(definition => this.register(definition));
+  }
+
+  /**
+   * 템플릿 정의를 검증해 등록한다. 같은 id가 있으면 교체된다.
+   */
+  register(definition: unknown): void {
+    const parsed = templateDefinitionSchema.parse(definition) as ContractTemplateDefinition;
+    this.templates.set(parsed.id, parsed);
+  }
+
+  list(query: Omit<TemplateQuery, 'version'> = {}): ContractTemplateSummary[] {
+    return Array.from(this.templates.values())
+      .map(definition => {
+        const template = this.resolveDefinition(definition, query);
+        if (!template) return null;
+        const variants = definition.variants.filter(variant => !variant.deprecated);
+        return {
+          id: template.id,
+          name: template.name,
+          version: template.version,
+          jurisdiction: template.jurisdiction,
+          language: template.language,
+          fields: template.fields,
+          rules: template.rules,
+          versions: unique(
+            variants
+              .filter(variant => variant.jurisdiction === template.jurisdiction && variant.language === template.language)
+              .map(variant => variant.version)
+          ).sort(compareVersions),
+          languages: unique(
+            variants.filter(variant => variant.jurisdiction === template.jurisdiction).map(variant => variant.language)
+          ),
+          jurisdictions: unique(variants.map(variant => variant.jurisdiction))
+        };
+      })
+      .filter((summary): summary is ContractTemplateSummary => summary !== null);
+  }
+
+  /**
+   * 관할은 정확히 일치해야 하고, 언어는 없으면 기본 언어 → 해당 관할의 첫 언어 순으로 대체한다.
+   * 버전을 지정하지 않으면 폐기되지 않은 최신 버전을 사용한다.
+   */
+  resolve(templateId: string, query: TemplateQuery = {}): ResolvedContractTemplate | null {
+    const definition = this.templates.get(templateId);
+    return definition ? this.resolveDefinition(definition, query) : null;
+  }
+
+  /**
+   * 입력값 검증용 zod 스키마
+   */
+  buildSchema(template: ResolvedContractTemplate) {
+    return buildTemplateSchema(template);
+  }
+
+  /**
+   * 검증된 입력값을 프롬프트에 채운다. 선택 항목은 템플릿 언어의 라벨로 바꿔 넣는다.
+   */
+  render(template: ResolvedContractTemplate, values: TemplateFieldValues): string {
+    const empty = EMPTY_VALUE[template.language] || EMPTY_VALUE[DEFAULT_LANGUAGE];
+
+    return template.fields.reduce((prompt, field) => {
+      const value = values[field.id];
+      let text = value === undefined || value === '' ? empty : String(value);
+      if (field.type === 'select') {
+        const option = field.options?.find(candidate => candidate.value === value);
+        if (option) text = option.label;
+      } else if ((field.type === 'number' || field.type === 'krw') && typeof value === 'number') {
+        text = value.toLocaleString('ko-KR');
+      }
+      return prompt.split(`{${field.id}}`).join(text);
+    }, template.prompt);
+  }
+
+  private resolveDefinition(definition: ContractTemplateDefinition, query: TemplateQuery): ResolvedContractTemplate | null {
+    const jurisdiction = query.jurisdiction || DEFAULT_JURISDICTION;
+    const inJurisdiction = definition.variants.filter(variant => variant.jurisdiction === jurisdiction);
+    if (inJurisdiction.length === 0) return null;
+
+    const languages = unique(inJurisdiction.map(variant => variant.language));
+    const language = [query.language, DEFAULT_LANGUAGE, languages[0]]
+      .find(candidate => candidate && languages.includes(candidate)) as string;
+    const candidates = inJurisdiction.filter(variant => variant.language === language);
+
+    let variant: ContractTemplateVariant | undefined;
+    if (query.version) {
+      variant = candidates.find(candidate => candidate.version === query.version);
+    } else {
+      const active = candidates.filter(candidate => !candidate.deprecated);
+      variant = (active.length > 0 ? active : candidates)
+        .slice()
+        .sort((a, b) => compareVersions(b.version, a.version))[0];
+    }
+    if (!variant) return null;
+
+    return {
+      id: definition.id,
+      name: localize(definition.name, language) as string,
+      version: variant.version,
+      jurisdiction,
+      language,
+      fields: (variant.fields || definition.fields).map(field => this.localizeField(field, language)),
+      rules: variant.rules || definition.rules || [],
+      prompt: variant.prompt
+    };
+  }
+
+  private localizeField(field: TemplateFieldDefinition, language: string): TemplateField {
+    return {
+      id: field.id,
+      type: field.type,
+      required: field.required,
+      label: localize(field.label, language) as string,
+      placeholder: localize(field.placeholder, language),
+      options: field.options?.map(option => ({ value: option.value, label: localize(option.label, language) as string })),
+      min: field.min,
+      max: field.max,
+      maxLength: field.maxLength
+    };
+  }
+}
+
+export const contractTemplateRegistry = new ContractTemplateRegistry(templateData.templates);
+export default ContractTemplateRegistry;
@@ -0,0 +1,153 @@
+import { z, ZodTypeAny } from 'zod';
+import { ResolvedContractTemplate, TemplateField } from '../types/contract-template';
+
+type MessageKey =
+  | 'required'
+  | 'number'
+  | 'krw'
+  | 'min'
+  | 'max'
+  | 'maxLength'
+  | 'date'
+  | 'dateOrder'
+  | 'email'
+  | 'phone'
+  | 'businessNumber'
+  | 'option';
+
+const VALIDATION_MESSAGES: Record<string, Record<MessageKey, (label: string, limit?: number | string) => string>> = {
+  ko: {
+    required: label => `${label}은(는) 필수 항목입니다.`,
+    number: label => `${label}은(는) 숫자로 입력해주세요.`,
+    krw: label => `${label}은(는) 원 단위 정수로 입력해주세요.`,
+    min: (label, limit) => `${label}은(는) ${limit} 이상이어야 합니다.`,
+    max: (label, limit) => `${label}은(는) ${limit} 이하여야 합니다.`,
+    maxLength: (label, limit) => `${label}은(는) ${limit}자 이내로 입력해주세요.`,
+    date: label => `${label}의 날짜 형식이 올바르지 않습니다.`,
+    dateOrder: (label, start) => `${label}은(는) ${start}보다 늦어야 합니다.`,
+    email: label => `${label}의 이메일 형식이 올바르지 않습니다.`,
+    phone: label => `${label}의 전화번호 형식이 올바르지 않습니다.`,
+    businessNumber: label => `${label}이(가) 올바른 사업자등록번호가 아닙니다.`,
+    option: label => `${label}에서 목록의 값을 선택해주세요.`
+  },
+  en: {
+    required: label => `${label} is required.`,
+    number: label => `${label} must be a number.`,
+    krw: label => `${label} must be a whole number of won.`,
+    min: (label, limit) => `${label} must be at least ${limit}.`,
+    max: (label, limit) => `${label} must be at most ${limit}.`,
+    maxLength: (label, limit) => `${label} must be ${limit} characters or fewer.`,
+    date: label => `${label} must be a valid date.`,
+    dateOrder: (label, start) => `${label} must be after ${start}.`,
+    email: label => `${label} must be a valid email address.`,
+    phone: label => `${label} must be a valid phone number.`,
+    businessNumber: label => `${label} is not a valid Korean business registration number.`,
+    option: label => `Choose one of the options for ${label}.`
+  }
+};
+
+const BUSINESS_NUMBER_WEIGHTS = [1, 3, 7, 1, 3, 7, 1, 3, 5];
+
+// 휴대전화, 서울(02), 지역번호, 인터넷전화(070), 대표번호(15xx 등)
+const PHONE_PATTERN = /^(01[016789]\d{7,8}|02\d{7,8}|0[3-6][1-5]\d{7,8}|070\d{8}|1[5-9]\d{6})$/;
+
+export const isValidDate = (value: string): boolean => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+};
+
+/**
+ * 사업자등록번호(000-00-00000) 형식과 국세청 검증번호를 확인한다.
+ */
+export const isValidBusinessNumber = (value: string): boolean => {
+  if (!/^\d{3}-?\d{2}-?\d{5}$/.test(value)) return false;
+  const digits = value.replace(/-/g, '').split('').map(Number);
+  const sum = BUSINESS_NUMBER_WEIGHTS.reduce((total, weight, index) => total + digits[index] * weight, 0)
+    + Math.floor((digits[8] * 5) / 10);
+  return (10 - (sum % 10)) % 10 === digits[9];
+};
+
+export const isValidKoreanPhone = (value: string): boolean => PHONE_PATTERN.test(value.replace(/[\s-]/g, ''));
+
+export const formatBusinessNumber = (value: string): string => {
+  const digits = value.replace(/-/g, '');
+  return `${digits.slice(0, 3)}-${digits.slice(3, 5)}-${digits.slice(5)}`;
+};
+
+const emptyToUndefined = (value: unknown) =>
+  typeof value === 'string' && value.trim() === '' ? undefined : value;
+
+const buildFieldSchema = (field: TemplateField, messages: Record<MessageKey, (label: string, limit?: number | string) => string>): ZodTypeAny => {
+  if (field.type === 'number' || field.type === 'krw') {
+    let numberSchema = z.number({
+      required_error: messages.required(field.label),
+      invalid_type_error: messages[field.type === 'krw' ? 'krw' : 'number'](field.label)
+    });
+    if (field.type === 'krw') numberSchema = numberSchema.int(messages.krw(field.label));
+    if (field.min !== undefined) numberSchema = numberSchema.min(field.min, messages.min(field.label, field.min));
+    if (field.max !== undefined) numberSchema = numberSchema.max(field.max, messages.max(field.label, field.max));
+
+    return z.preprocess(value => {
+      if (typeof value !== 'string') return value;
+      // 금액은 1,500,000 이나 1500000원 처럼 입력해도 받는다
+      const normalized = (field.type === 'krw' ? value.replace(/원$/, '') : value).replace(/,/g, '').trim();
+      return normalized === '' ? undefined : Number(normalized);
+    }, field.required ? numberSchema : numberSchema.optional());
+  }
+
+  let stringSchema: ZodTypeAny = z.string({ required_error: messages.required(field.label) }).trim();
+  if (field.type === 'date') {
+    stringSchema = (stringSchema as z.ZodString).refine(isValidDate, messages.date(field.label));
+  } else if (field.type === 'email') {
+    stringSchema = (stringSchema as z.ZodString).email(messages.email(field.label));
+  } else if (field.type === 'phone') {
+    stringSchema = (stringSchema as z.ZodString).refine(isValidKoreanPhone, messages.phone(field.label));
+  } else if (field.type === 'businessNumber') {
+    stringSchema = (stringSchema as z.ZodString)
+      .refine(isValidBusinessNumber, messages.businessNumber(field.label))
+      .transform(formatBusinessNumber);
+  } else if (field.type === 'select') {
+    const values = (field.options || []).map(option => option.value);
+    stringSchema = (stringSchema as z.ZodString).refine(value => values.includes(value), messages.option(field.label));
+  } else if (field.maxLength) {
+    stringSchema = (stringSchema as z.ZodString).max(field.maxLength, messages.maxLength(field.label, field.maxLength));
+  }
+
+  return z.preprocess(emptyToUndefined, field.required ? stringSchema : stringSchema.optional());
+};
+
+/**
+ * 템플릿 항목 정의로 입력값 검증 스키마를 만든다. 서버(generate API)와 폼(react-hook-form)이 같은 스키마를 쓴다.
+ * 빈 문자열은 값이 없는 것으로 보며, 교차 항목 규칙의 오류는 뒤쪽 항목(end)에 표시된다.
+ */
+export const buildTemplateSchema = (template: Pick<ResolvedContractTemplate, 'fields' | 'rules' | 'language'>) => {
+  const messages = VALIDATION_MESSAGES[template.language] || VALIDATION_MESSAGES.ko;
+  const shape: Record<string, ZodTypeAny> = {};
+  template.fields.forEach(field => {
+    shape[field.id] = buildFieldSchema(field, messages);
+  });
+
+  const labelOf = (id: string) => template.fields.find(field => field.id === id)?.label || id;
+
+  // 항목 오류가 있으면 object의 refine은 실행되지 않으므로 원본 값에서 먼저 검사해 오류를 함께 돌려준다
+  return z.preprocess((values, ctx) => {
+    if (!values || typeof values !== 'object') return values;
+    const raw = values as Record<string, unknown>;
+    template.rules.forEach(rule => {
+      if (rule.type !== 'dateOrder') return;
+      const start = typeof raw[rule.start] === 'string' ? (raw[rule.start] as string).trim() : '';
+      const end = typeof raw[rule.end] === 'string' ? (raw[rule.end] as string).trim() : '';
+      // 각 날짜의 형식 오류는 항목 스키마가 보고한다
+      if (!isValidDate(start) || !isValidDate(end)) return;
+      if (end <= start) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [rule.end],
+          message: messages.dateOrder(labelOf(rule.end), labelOf(rule.start))
+        });
+      }
+    });
+    return values;
+  }, z.object(shape));
+};
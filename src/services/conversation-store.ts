@@ -0,0 +1,170 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { Conversation, ConversationMessage, ConversationSummary } from '@/types/chat';
+
+const CONVERSATION_DIR = path.join(process.cwd(), 'data', 'chat-conversations');
+const TITLE_MAX_LENGTH = 40;
+const PREVIEW_MAX_LENGTH = 80;
+export const DEFAULT_CONVERSATION_TITLE = '새 대화';
+
+const truncate = (text: string, maxLength: number) => {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > maxLength ? `${singleLine.slice(0, maxLength)}…` : singleLine;
+};
+
+/**
+ * 법률 상담 대화 저장소. 대화마다 JSON 파일 하나로 저장하고, 처음 접근할 때 전체를 메모리로 읽어온다.
+ */
+class ConversationStore {
+  private conversations: Map<string, Conversation> = new Map();
+  private loading: Promise<void> | null = null;
+
+  async create(userId: string, title?: string): Promise<Conversation> {
+    await this.ensureLoaded();
+
+    const now = new Date().toISOString();
+    const conversation: Conversation = {
+      id: this.generateId('conv'),
+      userId,
+      title: title ? truncate(title, TITLE_MAX_LENGTH) : DEFAULT_CONVERSATION_TITLE,
+      messages: [],
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.conversations.set(conversation.id, conversation);
+    await this.persist(conversation);
+    return conversation;
+  }
+
+  async get(id: string, userId: string): Promise<Conversation | null> {
+    await this.ensureLoaded();
+
+    const conversation = this.conversations.get(id);
+    if (!conversation || conversation.userId !== userId) {
+      return null;
+    }
+    return conversation;
+  }
+
+  async listByUser(userId: string): Promise<ConversationSummary[]> {
+    await this.ensureLoaded();
+
+    return Array.from(this.conversations.values())
+      .filter(conversation => conversation.userId === userId)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .map(toConversationSummary);
+  }
+
+  async rename(id: string, userId: string, title: string): Promise<Conversation | null> {
+    const conversation = await this.get(id, userId);
+    if (!conversation) {
+      return null;
+    }
+
+    conversation.title = truncate(title, TITLE_MAX_LENGTH);
+    conversation.updatedAt = new Date().toISOString();
+    await this.persist(conversation);
+    return conversation;
+  }
+
+  async delete(id: string, userId: string): Promise<boolean> {
+    const conversation = await this.get(id, userId);
+    if (!conversation) {
+      return false;
+    }
+
+    this.conversations.delete(id);
+    try {
+      await fs.unlink(this.filePath(id));
+    } catch (error) {
+      console.error(`Failed to delete conversation file ${id}:`, error);
+    }
+    return true;
+  }
+
+  async appendMessage(
+    id: string,
+    userId: string,
+    message: Omit<ConversationMessage, 'id' | 'createdAt'>
+  ): Promise<ConversationMessage | null> {
+    const conversation = await this.get(id, userId);
+    if (!conversation) {
+      return null;
+    }
+
+    const record: ConversationMessage = {
+      ...message,
+      id: this.generateId('msg'),
+      createdAt: new Date().toISOString()
+    };
+
+    // 제목을 정하지 않은 대화는 첫 질문을 제목으로 쓴다
+    if (record.role === 'user' && conversation.title === DEFAULT_CONVERSATION_TITLE
+      && !conversation.messages.some(existing => existing.role === 'user')) {
+      conversation.title = truncate(record.content, TITLE_MAX_LENGTH);
+    }
+
+    conversation.messages.push(record);
+    conversation.updatedAt = record.createdAt;
+    await this.persist(conversation);
+    return record;
+  }
+
+  private async ensureLoaded(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.load();
+    }
+    return this.loading;
+  }
+
+  private async load(): Promise<void> {
+    try {
+      await fs.mkdir(CONVERSATION_DIR, { recursive: true });
+      const files = (await fs.readdir(CONVERSATION_DIR)).filter(file => file.endsWith('.json'));
+
+      for (const file of files) {
+        try {
+          const conversation = JSON.parse(await fs.readFile(path.join(CONVERSATION_DIR, file), 'utf-8')) as Conversation;
+          this.conversations.set(conversation.id, conversation);
+        } catch (error) {
+          // 손상된 파일 하나 때문에 다른 대화를 못 읽는 일이 없도록 건너뛴다
+          console.error(`Failed to read conversation file ${file}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to load conversations:', error);
+    }
+  }
+
+  private async persist(conversation: Conversation): Promise<void> {
+    try {
+      await fs.mkdir(CONVERSATION_DIR, { recursive: true });
+      await fs.writeFile(this.filePath(conversation.id), JSON.stringify(conversation, null, 2), 'utf-8');
+    } catch (error) {
+      console.error(`Failed to save conversation ${conversation.id}:`, error);
+    }
+  }
+
+  private filePath(id: string): string {
+    // id는 generateId로만 만들어지지만 경로 조작을 막기 위해 파일명으로 쓸 수 있는 문자만 남긴다
+    return path.join(CONVERSATION_DIR, `${id.replace(/[^a-zA-Z0-9_]/g, '')}.json`);
+  }
+
+  private generateId(prefix: string): string {
+    return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
+
+export function toConversationSummary(conversation: Conversation): ConversationSummary {
+  const { messages, ...rest } = conversation;
+  const last = messages[messages.length - 1];
+  return {
+    ...rest,
+    messageCount: messages.length,
+    lastMessagePreview: last ? truncate(last.content, PREVIEW_MAX_LENGTH) : ''
+  };
+}
+
+export const conversationStore = new ConversationStore();
+export default ConversationStore;
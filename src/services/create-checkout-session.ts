@@ -1,37 +0,0 @@
-// /pages/api/create-checkout-session.ts
-import type { NextApiRequest, NextApiResponse } from 'next';
-import Stripe from 'stripe';
-
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY as string, {
-  apiVersion: '2023-08-16',
-});
-
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
-  if (req.method !== 'POST') return res.status(405).end();
-
-  const { contractType, price } = JSON.parse(req.body);
-
-  try {
-    const session = await stripe.checkout.sessions.create({
-      payment_method_types: ['card'],
-      line_items: [{
-        price_data: {
-          currency: 'krw',
-          product_data: {
-            name: `계약서 생성 - ${contractType}`,
-          },
-          unit_amount: price,
-        },
-        quantity: 1,
-      }],
-      mode: 'payment',
-      success_url: `${req.headers.origin}/success`,
-      cancel_url: `${req.headers.origin}/cancel`,
-    });
-
-    res.status(200).json({ id: session.id });
-  } catch (err) {
-    console.error(err);
-    res.status(500).json({ error: '결제 세션 생성 실패' });
-  }
-}
\ No newline at end of file
@@ -0,0 +1,204 @@
+import crypto from 'crypto';
+import { userRepository } from '@/services/user-repository';
+import { hashPassword, verifyPassword } from '@/lib/auth/password';
+import { validatePassword } from '@/lib/auth/password-policy';
+import { CredentialAuthError } from '@/lib/auth/credential-errors';
+import { sendTemplateEmail } from '@/lib/email/send';
+import { generatePasswordResetEmail, generateSetPasswordEmail, generateVerificationEmail } from '@/lib/email/auth-templates';
+import { EmailTemplate } from '@/lib/email/growth-template';
+import { AuthTokenType, User } from '@/types/user';
+
+// 연속 실패가 이 횟수에 닿으면 LOCKOUT_MS 동안 로그인을 막는다
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MS = 15 * 60 * 1000;
+
+const TOKEN_TTL_MS: Record<AuthTokenType, number> = {
+  email_verification: 24 * 60 * 60 * 1000,
+  password_reset: 60 * 60 * 1000
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const appUrl = () =>
+  (process.env.NEXTAUTH_URL || process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000').replace(/\/$/, '');
+
+const isLocked = (user: User) => !!user.lockedUntil && new Date(user.lockedUntil).getTime() > Date.now();
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+interface SignUpInput {
+  email: unknown;
+  password: unknown;
+  name?: unknown;
+}
+
+/**
+ * 이메일·비밀번호 계정 관리. 가입, 이메일 인증, 로그인 검증(잠금 포함), 비밀번호 재설정을 맡는다.
+ * 실패는 CredentialAuthError로 던지고 code로 구분한다.
+ */
+class CredentialAuthService {
+  private dummyHash: Promise<string> | null = null;
+
+  async signUp({ email, password, name }: SignUpInput): Promise<User> {
+    if (typeof email !== 'string' || !EMAIL_PATTERN.test(email.trim())) {
+      throw new CredentialAuthError('INVALID_EMAIL');
+    }
+    const passwordError = validatePassword(password);
+    if (passwordError) {
+      throw new CredentialAuthError('WEAK_PASSWORD', passwordError);
+    }
+
+    const existing = await userRepository.findUserByEmail(email);
+    if (existing?.passwordHash) {
+      throw new CredentialAuthError('EMAIL_TAKEN');
+    }
+
+    // 결제 웹훅 등으로 먼저 만들어진 비밀번호 없는 계정에는 요청자가 정한 비밀번호를 저장하지 않는다.
+    // 남이 먼저 가입해 계정을 가로채지 못하도록 메일함 주인에게 비밀번호 설정 링크만 보낸다
+    if (existing) {
+      const token = await this.issueToken(existing, 'password_reset');
+      const setPasswordUrl = `${appUrl()}/auth/reset-password?token=${token}`;
+      await this.deliver(existing.email, generateSetPasswordEmail(setPasswordUrl), setPasswordUrl);
+      return existing;
+    }
+
+    const user = await userRepository.findOrCreateUser(email);
+    const updated = await userRepository.updateUser(user.id, {
+      name: typeof name === 'string' && name.trim() ? name.trim() : user.name,
+      passwordHash: await hashPassword(password as string),
+      emailVerifiedAt: null,
+      failedLoginAttempts: 0,
+      lockedUntil: null
+    });
+
+    await this.sendVerification(updated || user);
+    return updated || user;
+  }
+
+  /**
+   * 로그인 검증. 존재하지 않는 이메일도 같은 시간만큼 해시를 계산해 가입 여부가 드러나지 않게 한다.
+   */
+  async authenticate(email: string, password: string): Promise<User> {
+    const user = await userRepository.findUserByEmail(email);
+    if (!user || !user.passwordHash) {
+      await verifyPassword(password, await this.getDummyHash());
+      throw new CredentialAuthError('INVALID_CREDENTIALS');
+    }
+
+    if (isLocked(user)) {
+      throw new CredentialAuthError('ACCOUNT_LOCKED');
+    }
+
+    const matches = await verifyPassword(password, user.passwordHash);
+    if (!matches) {
+      const updated = await userRepository.incrementFailedLogin(user.id, MAX_FAILED_ATTEMPTS, LOCKOUT_MS);
+      throw new CredentialAuthError(updated && isLocked(updated) ? 'ACCOUNT_LOCKED' : 'INVALID_CREDENTIALS');
+    }
+
+    // 해시를 계산하는 동안 동시에 들어온 다른 시도가 계정을 잠갔을 수 있다
+    const current = await userRepository.findUserById(user.id);
+    if (!current || isLocked(current)) {
+      throw new CredentialAuthError('ACCOUNT_LOCKED');
+    }
+
+    // 비밀번호가 맞을 때만 알려준다. 그 전에 알려주면 가입 여부가 드러난다
+    if (!current.emailVerifiedAt) {
+      throw new CredentialAuthError('EMAIL_NOT_VERIFIED');
+    }
+
+    if (current.failedLoginAttempts || current.lockedUntil) {
+      return (await userRepository.updateUser(current.id, { failedLoginAttempts: 0, lockedUntil: null })) || current;
+    }
+    return current;
+  }
+
+  async verifyEmail(token: string): Promise<User> {
+    const record = await userRepository.findAuthToken(hashToken(token), 'email_verification');
+    if (!record) {
+      throw new CredentialAuthError('INVALID_TOKEN');
+    }
+
+    await userRepository.markAuthTokenUsed(record.id);
+    const user = await userRepository.updateUser(record.userId, { emailVerifiedAt: new Date().toISOString() });
+    if (!user) {
+      throw new CredentialAuthError('INVALID_TOKEN');
+    }
+    return user;
+  }
+
+  // 가입 여부를 드러내지 않도록 대상이 없어도 조용히 끝낸다
+  async resendVerification(email: string): Promise<void> {
+    const user = await userRepository.findUserByEmail(email);
+    if (!user || !user.passwordHash || user.emailVerifiedAt) return;
+    await this.sendVerification(user);
+  }
+
+  // 가입 여부를 드러내지 않도록 대상이 없어도 조용히 끝낸다
+  async requestPasswordReset(email: string): Promise<void> {
+    const user = await userRepository.findUserByEmail(email);
+    if (!user) return;
+
+    const token = await this.issueToken(user, 'password_reset');
+    const resetUrl = `${appUrl()}/auth/reset-password?token=${token}`;
+    await this.deliver(user.email, generatePasswordResetEmail(resetUrl), resetUrl);
+  }
+
+  /**
+   * 재설정 링크는 메일함 소유를 증명하므로 이메일 인증과 계정 잠금도 함께 풀어준다.
+   */
+  async resetPassword(token: string, password: unknown): Promise<void> {
+    const passwordError = validatePassword(password);
+    if (passwordError) {
+      throw new CredentialAuthError('WEAK_PASSWORD', passwordError);
+    }
+
+    const record = await userRepository.findAuthToken(hashToken(token), 'password_reset');
+    const user = record && await userRepository.findUserById(record.userId);
+    if (!record || !user) {
+      throw new CredentialAuthError('INVALID_TOKEN');
+    }
+
+    await userRepository.markAuthTokenUsed(record.id);
+    await userRepository.updateUser(user.id, {
+      passwordHash: await hashPassword(password as string),
+      emailVerifiedAt: user.emailVerifiedAt || new Date().toISOString(),
+      failedLoginAttempts: 0,
+      lockedUntil: null
+    });
+  }
+
+  private async sendVerification(user: User): Promise<void> {
+    const token = await this.issueToken(user, 'email_verification');
+    const verifyUrl = `${appUrl()}/api/auth/verify-email?token=${token}`;
+    await this.deliver(user.email, generateVerificationEmail(verifyUrl), verifyUrl);
+  }
+
+  private async issueToken(user: User, type: AuthTokenType): Promise<string> {
+    const token = crypto.randomBytes(32).toString('hex');
+    await userRepository.createAuthToken({
+      tokenHash: hashToken(token),
+      userId: user.id,
+      type,
+      expiresAt: new Date(Date.now() + TOKEN_TTL_MS[type]).toISOString()
+    });
+    return token;
+  }
+
+  private async deliver(email: string, template: EmailTemplate, link: string): Promise<void> {
+    const result = await sendTemplateEmail(template, email);
+    // SMTP 없이 로컬에서 개발할 때는 링크를 콘솔로 확인한다
+    if (!result.success && process.env.NODE_ENV !== 'production') {
+      console.log(`🔗 [dev] ${template.subject} → ${email}: ${link}`);
+    }
+  }
+
+  private getDummyHash(): Promise<string> {
+    if (!this.dummyHash) {
+      this.dummyHash = hashPassword(crypto.randomBytes(16).toString('hex'));
+    }
+    return this.dummyHash;
+  }
+}
+
+export const credentialAuth = new CredentialAuthService();
+export default CredentialAuthService;
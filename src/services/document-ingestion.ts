@@ -0,0 +1,301 @@
+import * as cheerio from 'cheerio';
+import { clauseAnalyzer } from '@/services/clause-analyzer';
+import { documentStore } from '@/services/document-store';
+import {
+  DocumentEncoding,
+  DocumentFormat,
+  DocumentHeading,
+  DocumentPage,
+  DocumentRecord,
+  DocumentTable
+} from '@/types/document';
+
+interface ExtractedDocument {
+  text: string;
+  encoding: DocumentEncoding;
+  pages: DocumentPage[];
+  headings: DocumentHeading[];
+  tables: DocumentTable[];
+  warnings: string[];
+}
+
+interface PdfTextItem {
+  str: string;
+  transform: number[];
+}
+
+// pdf-parse가 pagerender에 넘기는 pdf.js 페이지 객체 중 쓰는 부분만
+interface PdfPageData {
+  getTextContent(options: { normalizeWhitespace: boolean; disableCombineTextItems: boolean }): Promise<{ items: PdfTextItem[] }>;
+}
+
+interface IngestRequest {
+  buffer: Buffer;
+  fileName: string;
+  mimeType: string;
+  userId: string;
+}
+
+export const MAX_DOCUMENT_SIZE = 10 * 1024 * 1024;
+
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+class DocumentIngestionService {
+  detectFormat(fileName: string, mimeType: string): DocumentFormat | null {
+    const name = fileName.toLowerCase();
+
+    if (mimeType === 'application/pdf' || name.endsWith('.pdf')) return 'pdf';
+    if (mimeType === DOCX_MIME_TYPE || name.endsWith('.docx')) return 'docx';
+    // 한글(HWP) 문서는 "텍스트 문서로 저장"한 결과만 지원 (보통 CP949 인코딩)
+    if (name.endsWith('.hwp.txt') || mimeType === 'application/x-hwp-text') return 'hwp-text';
+    if (mimeType.startsWith('text/plain') || name.endsWith('.txt')) return 'txt';
+
+    return null;
+  }
+
+  async ingest(request: IngestRequest): Promise<DocumentRecord> {
+    const format = this.detectFormat(request.fileName, request.mimeType);
+    if (!format) {
+      throw new Error(`Unsupported document format: ${request.mimeType || request.fileName}`);
+    }
+
+    const extracted = await this.extract(request.buffer, format);
+    if (!extracted.text.trim()) {
+      throw new Error('No extractable text found in document');
+    }
+
+    return documentStore.save({
+      userId: request.userId,
+      fileName: request.fileName,
+      mimeType: request.mimeType,
+      format,
+      size: request.buffer.length,
+      encoding: extracted.encoding,
+      text: extracted.text,
+      pages: extracted.pages,
+      headings: extracted.headings,
+      tables: extracted.tables,
+      analysis: clauseAnalyzer.analyze(extracted.text),
+      warnings: extracted.warnings
+    });
+  }
+
+  async extract(buffer: Buffer, format: DocumentFormat): Promise<ExtractedDocument> {
+    switch (format) {
+      case 'pdf':
+        return this.extractPdf(buffer);
+      case 'docx':
+        return this.extractDocx(buffer);
+      default:
+        return this.extractPlainText(buffer);
+    }
+  }
+
+  decodeText(buffer: Buffer): { text: string; encoding: DocumentEncoding } {
+    if (buffer.length >= 3 && buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+      return { text: new TextDecoder('utf-8').decode(buffer.subarray(3)), encoding: 'utf-8' };
+    }
+    if (buffer.length >= 2 && buffer[0] === 0xff && buffer[1] === 0xfe) {
+      return { text: new TextDecoder('utf-16le').decode(buffer.subarray(2)), encoding: 'utf-16le' };
+    }
+    if (buffer.length >= 2 && buffer[0] === 0xfe && buffer[1] === 0xff) {
+      return { text: new TextDecoder('utf-16be').decode(buffer.subarray(2)), encoding: 'utf-16be' };
+    }
+
+    try {
+      return { text: new TextDecoder('utf-8', { fatal: true }).decode(buffer), encoding: 'utf-8' };
+    } catch {
+      // WHATWG 'euc-kr' 디코더는 CP949(확장 완성형)까지 처리한다
+      return { text: new TextDecoder('euc-kr').decode(buffer), encoding: 'euc-kr' };
+    }
+  }
+
+  private async extractPdf(buffer: Buffer): Promise<ExtractedDocument> {
+    const { default: pdf } = await import('pdf-parse/lib/pdf-parse.js');
+    const pageTexts: string[] = [];
+
+    await pdf(buffer, {
+      pagerender: async (pageData: PdfPageData) => {
+        const content = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+        let lastY: number | undefined;
+        let text = '';
+
+        content.items.forEach(item => {
+          text += lastY === undefined || lastY === item.transform[5] ? item.str : '\n' + item.str;
+          lastY = item.transform[5];
+        });
+
+        pageTexts.push(normalizeText(text));
+        return text;
+      }
+    });
+
+    const pages: DocumentPage[] = [];
+    let text = '';
+    pageTexts.forEach((pageText, index) => {
+      if (index > 0) text += '\n\n';
+      pages.push({ pageNumber: index + 1, start: text.length, end: text.length + pageText.length });
+      text += pageText;
+    });
+
+    const warnings = pageTexts.filter(pageText => !pageText.trim()).length > 0
+      ? ['일부 페이지에서 텍스트를 추출하지 못했습니다. 스캔 이미지 PDF는 OCR이 필요합니다.']
+      : [];
+
+    return {
+      text,
+      encoding: 'binary',
+      pages,
+      headings: this.detectHeadings(text, pages),
+      tables: [],
+      warnings
+    };
+  }
+
+  private async extractDocx(buffer: Buffer): Promise<ExtractedDocument> {
+    const mammoth = await import('mammoth');
+    const result = await mammoth.convertToHtml({ buffer });
+    const $ = cheerio.load(result.value);
+
+    const blocks: string[] = [];
+    const headings: DocumentHeading[] = [];
+    const tables: DocumentTable[] = [];
+    let offset = 0;
+
+    const pushBlock = (block: string) => {
+      blocks.push(block);
+      offset += block.length + 1;
+    };
+
+    $('body').children().each((_, element) => {
+      const tagName = element.tagName.toLowerCase();
+      const node = $(element);
+
+      if (/^h[1-6]$/.test(tagName)) {
+        const text = normalizeText(node.text());
+        headings.push({ level: Number(tagName.charAt(1)), text, offset, pageNumber: 1 });
+        pushBlock(text);
+      } else if (tagName === 'table') {
+        const rows = node.find('tr').toArray().map(row =>
+          $(row).find('th, td').toArray().map(cell => normalizeText($(cell).text()))
+        );
+        tables.push({ rows, offset, pageNumber: 1 });
+        pushBlock(rows.map(row => row.join('\t')).join('\n'));
+      } else if (tagName === 'ul' || tagName === 'ol') {
+        pushBlock(node.find('li').toArray().map(item => `- ${normalizeText($(item).text())}`).join('\n'));
+      } else {
+        pushBlock(normalizeText(node.text()));
+      }
+    });
+
+    const text = blocks.join('\n');
+    const warnings = result.messages.map(message => message.message);
+
+    // DOCX는 페이지 정보를 제공하지 않으므로 전체를 한 페이지로 취급
+    const pages: DocumentPage[] = [{ pageNumber: 1, start: 0, end: text.length }];
+
+    return {
+      text,
+      encoding: 'binary',
+      pages,
+      // 스타일 제목이 없는 문서는 조항 제목으로 구조를 보완
+      headings: headings.length > 0 ? headings : this.detectHeadings(text, pages),
+      tables,
+      warnings
+    };
+  }
+
+  private extractPlainText(buffer: Buffer): ExtractedDocument {
+    const { text: decoded, encoding } = this.decodeText(buffer);
+
+    // 폼 피드(\f)는 한글/워드 텍스트 내보내기에서 페이지 구분자로 쓰인다
+    const pageTexts = decoded.split('\f').map(normalizeText);
+    const pages: DocumentPage[] = [];
+    let text = '';
+    pageTexts.forEach((pageText, index) => {
+      if (index > 0) text += '\n\n';
+      pages.push({ pageNumber: index + 1, start: text.length, end: text.length + pageText.length });
+      text += pageText;
+    });
+
+    return {
+      text,
+      encoding,
+      pages,
+      headings: this.detectHeadings(text, pages),
+      tables: this.detectTextTables(text, pages),
+      warnings: encoding === 'euc-kr' ? ['EUC-KR/CP949 인코딩 문서를 UTF-8로 변환했습니다.'] : []
+    };
+  }
+
+  private detectHeadings(text: string, pages: DocumentPage[]): DocumentHeading[] {
+    const headings: DocumentHeading[] = [];
+
+    const firstLine = /^\s*([^\n]{1,40})\n/.exec(text);
+    if (firstLine && !/[.。]$/.test(firstLine[1].trim())) {
+      const offset = firstLine.index + firstLine[0].indexOf(firstLine[1]);
+      headings.push({ level: 1, text: firstLine[1].trim(), offset, pageNumber: findPageNumber(pages, offset) });
+    }
+
+    clauseAnalyzer.segment(text)
+      .filter(clause => clause.headingStyle === 'ko' || clause.headingStyle === 'en' || clause.headingStyle === 'section')
+      .forEach(clause => {
+        headings.push({
+          level: 2,
+          text: clause.text.split('\n')[0].trim(),
+          offset: clause.start,
+          pageNumber: findPageNumber(pages, clause.start)
+        });
+      });
+
+    return headings;
+  }
+
+  private detectTextTables(text: string, pages: DocumentPage[]): DocumentTable[] {
+    const tables: DocumentTable[] = [];
+    const lines = text.split('\n');
+    let offset = 0;
+    let current: DocumentTable | null = null;
+
+    for (const line of lines) {
+      const separator = line.includes('\t') ? '\t' : line.includes('|') ? '|' : null;
+      const cells = separator
+        ? line.split(separator).map(cell => cell.trim()).filter((cell, i, all) => cell || (i > 0 && i < all.length - 1))
+        : [];
+      const isDivider = /^\s*\|?[\s\-:|+]+\|?\s*$/.test(line) && line.includes('-');
+
+      if (cells.length >= 2 || (current && isDivider)) {
+        if (!current) {
+          current = { rows: [], offset, pageNumber: findPageNumber(pages, offset) };
+        }
+        if (!isDivider) current.rows.push(cells);
+      } else if (current) {
+        if (current.rows.length >= 2) tables.push(current);
+        current = null;
+      }
+
+      offset += line.length + 1;
+    }
+
+    if (current && current.rows.length >= 2) tables.push(current);
+    return tables;
+  }
+}
+
+function normalizeText(text: string): string {
+  return text
+    .normalize('NFC')
+    .replace(/\r\n?/g, '\n')
+    .replace(/\u0000/g, '')
+    .replace(/[ \t]+$/gm, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function findPageNumber(pages: DocumentPage[], offset: number): number | null {
+  const page = pages.find(candidate => offset >= candidate.start && offset <= candidate.end);
+  return page ? page.pageNumber : null;
+}
+
+export const documentIngestion = new DocumentIngestionService();
+export default DocumentIngestionService;
@@ -0,0 +1,68 @@
+import { DocumentRecord, DocumentSummary } from '@/types/document';
+
+class DocumentStore {
+  private documents: Map<string, DocumentRecord> = new Map();
+  private userDocuments: Map<string, string[]> = new Map();
+
+  async save(document: Omit<DocumentRecord, 'id' | 'createdAt'>): Promise<DocumentRecord> {
+    const record: DocumentRecord = {
+      ...document,
+      id: this.generateId(),
+      createdAt: new Date()
+    };
+
+    this.documents.set(record.id, record);
+
+    const userDocumentIds = this.userDocuments.get(record.userId) || [];
+    userDocumentIds.push(record.id);
+    this.userDocuments.set(record.userId, userDocumentIds);
+
+    console.log(`Document stored: ${record.id} (${record.format}) for user ${record.userId}`);
+    return record;
+  }
+
+  async get(id: string, userId: string): Promise<DocumentRecord | null> {
+    const document = this.documents.get(id);
+    if (!document || document.userId !== userId) {
+      return null;
+    }
+    return document;
+  }
+
+  async listByUser(userId: string): Promise<DocumentSummary[]> {
+    const userDocumentIds = this.userDocuments.get(userId) || [];
+    return userDocumentIds
+      .map(id => this.documents.get(id))
+      .filter((document): document is DocumentRecord => document !== undefined)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map(toDocumentSummary);
+  }
+
+  async delete(id: string, userId: string): Promise<boolean> {
+    const document = await this.get(id, userId);
+    if (!document) {
+      return false;
+    }
+
+    this.documents.delete(id);
+    const userDocumentIds = this.userDocuments.get(userId) || [];
+    this.userDocuments.set(userId, userDocumentIds.filter(documentId => documentId !== id));
+    return true;
+  }
+
+  private generateId(): string {
+    return `doc_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
+
+export function toDocumentSummary(document: DocumentRecord): DocumentSummary {
+  const { text, analysis, ...rest } = document;
+  return {
+    ...rest,
+    textLength: text.length,
+    clauseCount: analysis.clauses.length
+  };
+}
+
+export const documentStore = new DocumentStore();
+export default DocumentStore;
@@ -1,5 +1,22 @@
-import regionData from './complianceRegions.json';
+import regionData from '../types/complianceRegions.json';
+import { ComplianceRegion } from '../types/compliance';
 
-export const getComplianceRules = (regionCode: string) => {
-  return regionData[regionCode] || null;
-};
\ No newline at end of file
+type RegionDefinition = Omit<ComplianceRegion, 'code'>;
+
+const regions = regionData as unknown as Record<string, RegionDefinition>;
+
+export const getComplianceRules = (regionCode: string): (ComplianceRegion & { requiredClauses: string[] }) | null => {
+  // 'constructor' 같은 프로토타입 키가 지역으로 잡히지 않게 자기 속성만 본다
+  if (!Object.prototype.hasOwnProperty.call(regions, regionCode)) return null;
+  const region = regions[regionCode];
+
+  return {
+    ...region,
+    code: regionCode,
+    requiredClauses: region.rules.map(rule => rule.label)
+  };
+};
+
+export const getComplianceRegions = (): ComplianceRegion[] => {
+  return Object.keys(regions).map(code => ({ ...regions[code], code }));
+};
@@ -1,22 +0,0 @@
-// /pages/api/gpt.ts
-import type { NextApiRequest, NextApiResponse } from 'next';
-import OpenAI from 'openai';
-
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY! });
-
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
-  if (req.method !== 'POST') return res.status(405).end();
-
-  const { prompt } = req.body;
-
-  try {
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o',
-      messages: [{ role: 'user', content: prompt }],
-    });
-
-    res.status(200).json({ result: completion.choices[0].message.content });
-  } catch (error) {
-    res.status(500).json({ result: 'OpenAI 호출 실패' });
-  }
-}
\ No newline at end of file
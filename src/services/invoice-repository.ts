@@ -0,0 +1,123 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { Invoice } from '@/types/invoice';
+import { PaymentProviderId } from '@/types/payment-provider';
+
+const PAYMENT_DIR = path.join(process.cwd(), 'data', 'payments');
+const INVOICE_FILE = path.join(PAYMENT_DIR, 'invoices.json');
+
+export type NewInvoice = Omit<Invoice, 'id' | 'number' | 'issuedAt'>;
+
+/**
+ * 청구서 저장소. 결제사·결제 ID 한 쌍에 청구서 하나를 둔다.
+ */
+export interface InvoiceRepository {
+  /**
+   * 같은 결제의 청구서가 없을 때만 다음 일련번호를 붙여 만든다. 이미 있으면 그 청구서를 created: false로 돌려준다.
+   * 번호는 발행 연도마다 1부터 빠짐없이 이어진다.
+   */
+  createInvoice(input: NewInvoice, prefix: string): Promise<{ invoice: Invoice; created: boolean }>;
+  findInvoiceById(id: string): Promise<Invoice | null>;
+  findInvoiceByPayment(provider: PaymentProviderId, paymentId: string): Promise<Invoice | null>;
+  // 최신순
+  listInvoices(userId: string): Promise<Invoice[]>;
+}
+
+/**
+ * 로컬 개발용 파일 저장소. data/payments/invoices.json 하나에 저장하고, 처음 접근할 때 전부 메모리로 읽어온다.
+ * 중복 확인과 번호 발급 사이에 await가 없어 같은 결제로 동시에 들어온 요청도 번호 하나만 쓴다.
+ */
+class FileInvoiceRepository implements InvoiceRepository {
+  private invoices: Map<string, Invoice> = new Map();
+  // 연도별 마지막 일련번호
+  private sequences: Map<string, number> = new Map();
+  private loading: Promise<void> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  async createInvoice(input: NewInvoice, prefix: string): Promise<{ invoice: Invoice; created: boolean }> {
+    await this.ensureLoaded();
+
+    const existing = this.findByPayment(input.provider, input.paymentId);
+    if (existing) return { invoice: existing, created: false };
+
+    const issuedAt = new Date().toISOString();
+    const year = issuedAt.slice(0, 4);
+    const sequence = (this.sequences.get(year) || 0) + 1;
+    this.sequences.set(year, sequence);
+
+    const invoice: Invoice = {
+      ...input,
+      id: this.generateId(),
+      number: `${prefix}-${year}-${String(sequence).padStart(6, '0')}`,
+      issuedAt
+    };
+    this.invoices.set(invoice.id, invoice);
+    await this.persist();
+    return { invoice, created: true };
+  }
+
+  async findInvoiceById(id: string): Promise<Invoice | null> {
+    await this.ensureLoaded();
+    return this.invoices.get(id) || null;
+  }
+
+  async findInvoiceByPayment(provider: PaymentProviderId, paymentId: string): Promise<Invoice | null> {
+    await this.ensureLoaded();
+    return this.findByPayment(provider, paymentId);
+  }
+
+  async listInvoices(userId: string): Promise<Invoice[]> {
+    await this.ensureLoaded();
+    return Array.from(this.invoices.values())
+      .filter(invoice => invoice.userId === userId)
+      .sort((a, b) => b.issuedAt.localeCompare(a.issuedAt));
+  }
+
+  private findByPayment(provider: PaymentProviderId, paymentId: string): Invoice | null {
+    return Array.from(this.invoices.values())
+      .find(invoice => invoice.provider === provider && invoice.paymentId === paymentId) || null;
+  }
+
+  private async ensureLoaded(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.load();
+    }
+    return this.loading;
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const invoices = JSON.parse(await fs.readFile(INVOICE_FILE, 'utf-8')) as Invoice[];
+      invoices.forEach(invoice => {
+        this.invoices.set(invoice.id, invoice);
+        const year = invoice.issuedAt.slice(0, 4);
+        const sequence = parseInt(invoice.number.slice(invoice.number.lastIndexOf('-') + 1), 10) || 0;
+        this.sequences.set(year, Math.max(this.sequences.get(year) || 0, sequence));
+      });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Failed to load invoices:', error);
+      }
+    }
+  }
+
+  private async persist(): Promise<void> {
+    const content = JSON.stringify(Array.from(this.invoices.values()), null, 2);
+
+    // 동시에 발행된 청구서가 서로의 파일 쓰기를 덮어쓰지 않도록 순서대로 쓴다
+    this.writing = this.writing
+      .then(async () => {
+        await fs.mkdir(PAYMENT_DIR, { recursive: true });
+        await fs.writeFile(INVOICE_FILE, content, 'utf-8');
+      })
+      .catch(error => console.error('Failed to save invoices:', error));
+    await this.writing;
+  }
+
+  private generateId(): string {
+    return `inv_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
+
+export const invoiceRepository: InvoiceRepository = new FileInvoiceRepository();
+export default FileInvoiceRepository;
@@ -0,0 +1,143 @@
+import { invoiceRepository } from '@/services/invoice-repository';
+import { userRepository } from '@/services/user-repository';
+import { BillingError } from '@/lib/payment/billing-errors';
+import { renderInvoicePdf } from '@/lib/payment/invoice-pdf';
+import { renderTaxInvoiceXml } from '@/lib/payment/tax-invoice-xml';
+import { Invoice, InvoiceFormat, InvoiceParty, InvoiceSummary, IssueInvoiceInput } from '@/types/invoice';
+import { PaymentCurrency, PaymentProviderId } from '@/types/payment-provider';
+
+const VAT_RATE = 0.1;
+
+// 금액을 나눌 최소 단위 (원화는 1원, 달러는 1센트)
+const MINOR_UNITS: Record<PaymentCurrency, number> = { KRW: 1, USD: 100 };
+
+const INTERVAL_LABELS = { monthly: 'Monthly', yearly: 'Yearly' };
+
+export interface InvoiceDocument {
+  filename: string;
+  contentType: string;
+  content: Buffer | string;
+}
+
+// 부가세 포함 금액을 공급가액과 세액으로 나눈다. 끝전은 세액에 남긴다
+function splitVat(totalAmount: number, currency: PaymentCurrency): { supplyAmount: number; vatAmount: number } {
+  const unit = MINOR_UNITS[currency];
+  const total = Math.round(totalAmount * unit);
+  const supply = Math.round(total / (1 + VAT_RATE));
+  return { supplyAmount: supply / unit, vatAmount: (total - supply) / unit };
+}
+
+// 공급자(우리 회사) 정보. 사업자등록번호가 없으면 전자세금계산서를 만들 수 없다
+function supplierParty(): InvoiceParty {
+  return {
+    name: process.env.INVOICE_SUPPLIER_NAME || 'Legal AI',
+    businessNumber: process.env.INVOICE_SUPPLIER_BUSINESS_NUMBER || undefined,
+    representative: process.env.INVOICE_SUPPLIER_REPRESENTATIVE || undefined,
+    address: process.env.INVOICE_SUPPLIER_ADDRESS || undefined,
+    businessType: process.env.INVOICE_SUPPLIER_BUSINESS_TYPE || undefined,
+    businessItem: process.env.INVOICE_SUPPLIER_BUSINESS_ITEM || undefined,
+    email: process.env.INVOICE_SUPPLIER_EMAIL || undefined
+  };
+}
+
+/**
+ * 결제 한 건마다 청구서를 한 번 발행하고 PDF·전자세금계산서 XML로 내보낸다.
+ * 결제사 어댑터가 결제 완료를 반영할 때 issueForPayment를 부르므로 웹훅이 재전송되어도 청구서는 하나다.
+ */
+class InvoiceService {
+  async issueForPayment(input: IssueInvoiceInput): Promise<Invoice> {
+    const user = await userRepository.findUserById(input.userId);
+    if (!user) {
+      throw new Error(`User ${input.userId} for invoice of ${input.provider} payment ${input.paymentId} not found`);
+    }
+
+    // 사업자 정보는 발행할 때의 값을 남긴다. 나중에 바꿔도 이미 발행한 청구서는 그대로다
+    const profile = user.billingProfile;
+    const buyer: InvoiceParty = profile
+      ? {
+          name: profile.companyName,
+          businessNumber: profile.businessNumber,
+          representative: profile.representative,
+          address: profile.address,
+          businessType: profile.businessType,
+          businessItem: profile.businessItem,
+          email: profile.taxEmail || user.email
+        }
+      : { name: user.name || user.email, email: user.email };
+
+    const { invoice, created } = await invoiceRepository.createInvoice({
+      ...input,
+      documentType: buyer.businessNumber && input.currency === 'KRW' ? 'tax_invoice' : 'receipt',
+      itemName: `Legal AI ${input.plan.charAt(0).toUpperCase()}${input.plan.slice(1)} (${INTERVAL_LABELS[input.interval]})`,
+      ...splitVat(input.totalAmount, input.currency),
+      supplier: supplierParty(),
+      buyer
+    }, process.env.INVOICE_NUMBER_PREFIX || 'LAI');
+
+    if (created) {
+      console.log(`🧾 Invoice ${invoice.number} issued for ${input.provider} payment ${input.paymentId}`);
+    }
+    return invoice;
+  }
+
+  async findByPayment(provider: PaymentProviderId, paymentId: string): Promise<Invoice | null> {
+    return invoiceRepository.findInvoiceByPayment(provider, paymentId);
+  }
+
+  async listForUser(userId: string): Promise<InvoiceSummary[]> {
+    return (await invoiceRepository.listInvoices(userId)).map(invoice => ({
+      id: invoice.id,
+      number: invoice.number,
+      documentType: invoice.documentType,
+      plan: invoice.plan,
+      interval: invoice.interval,
+      currency: invoice.currency,
+      supplyAmount: invoice.supplyAmount,
+      vatAmount: invoice.vatAmount,
+      totalAmount: invoice.totalAmount,
+      paidAt: invoice.paidAt,
+      issuedAt: invoice.issuedAt,
+      planChangeLogId: invoice.planChangeLogId,
+      xmlAvailable: this.canExportTaxInvoice(invoice)
+    }));
+  }
+
+  // 다른 사용자의 청구서도 없는 것으로 본다
+  async getForUser(userId: string, invoiceId: string): Promise<Invoice> {
+    const invoice = await invoiceRepository.findInvoiceById(invoiceId);
+    if (!invoice || invoice.userId !== userId) {
+      throw new BillingError('INVOICE_NOT_FOUND');
+    }
+    return invoice;
+  }
+
+  canExportTaxInvoice(invoice: Invoice): boolean {
+    return invoice.documentType === 'tax_invoice' && Boolean(invoice.supplier.businessNumber);
+  }
+
+  render(invoice: Invoice, format: InvoiceFormat): InvoiceDocument {
+    if (format === 'pdf') {
+      return { filename: `${invoice.number}.pdf`, contentType: 'application/pdf', content: renderInvoicePdf(invoice) };
+    }
+
+    if (invoice.documentType !== 'tax_invoice') {
+      throw new BillingError('TAX_INVOICE_UNAVAILABLE');
+    }
+    if (!invoice.supplier.businessNumber) {
+      throw new BillingError('NOT_CONFIGURED');
+    }
+    return { filename: `${invoice.number}.xml`, contentType: 'application/xml', content: renderTaxInvoiceXml(invoice) };
+  }
+
+  // 결제 완료 메일에 붙일 파일. 세금계산서 대상이면 XML도 같이 보낸다
+  attachmentsFor(invoice: Invoice): InvoiceDocument[] {
+    const documents = [this.render(invoice, 'pdf')];
+    if (this.canExportTaxInvoice(invoice)) {
+      documents.push(this.render(invoice, 'xml'));
+    }
+    return documents;
+  }
+}
+
+export const invoiceService = new InvoiceService();
+export default InvoiceService;
@@ -0,0 +1,96 @@
+import { readSSE } from '../utils/sse';
+import { StatuteCitation } from '../types/statute';
+import { UpgradePrompt } from '../types/plan';
+
+export interface LegalChatStreamResult {
+  response: string;
+  provider: string;
+  conversationId: string | null;
+  cancelled: boolean;
+  // 완료된 답변에서만 채워진다
+  citations: StatuteCitation[];
+}
+
+// 서버가 답변 생성 전에 요청을 거절한 경우 (예: 월 사용 한도 초과)
+export class LegalChatRequestError extends Error {
+  constructor(message: string, readonly status: number, readonly code?: string, readonly upgrade?: UpgradePrompt) {
+    super(message);
+    this.name = 'LegalChatRequestError';
+    // ES5로 변환되면 instanceof가 깨지므로 프로토타입을 직접 지정한다
+    Object.setPrototypeOf(this, LegalChatRequestError.prototype);
+  }
+}
+
+interface StreamOptions {
+  // 없으면 서버가 새 대화를 만든다
+  conversationId?: string | null;
+  signal?: AbortSignal;
+  onDelta: (text: string, accumulated: string) => void;
+  // 대화 ID가 정해지는 즉시 호출 (답변을 중단해도 대화는 저장되어 있다)
+  onConversation?: (conversationId: string) => void;
+}
+
+/**
+ * /api/chat/legal 스트리밍 모드를 호출한다. signal로 중단하면 그때까지 받은 답변을 cancelled로 반환한다.
+ */
+export const streamLegalChat = async (
+  message: string,
+  { conversationId = null, signal, onDelta, onConversation }: StreamOptions
+): Promise<LegalChatStreamResult> => {
+  let accumulated = '';
+  let provider = '';
+  let citations: StatuteCitation[] = [];
+  let resolvedConversationId = conversationId;
+  let streamError: string | null = null;
+
+  try {
+    const response = await fetch('/api/chat/legal', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+      body: JSON.stringify({ message, conversationId: conversationId || undefined, stream: true }),
+      signal
+    });
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new LegalChatRequestError(
+        body?.message || `Chat request failed (${response.status})`,
+        response.status,
+        body?.code,
+        body?.upgrade
+      );
+    }
+
+    await readSSE(response, (event, data) => {
+      const payload = data as {
+        text?: string;
+        response?: string;
+        provider?: string;
+        conversationId?: string;
+        citations?: StatuteCitation[];
+        message?: string;
+      };
+      if (event === 'conversation' && payload.conversationId) {
+        resolvedConversationId = payload.conversationId;
+        onConversation?.(payload.conversationId);
+      } else if (event === 'delta' && payload.text) {
+        accumulated += payload.text;
+        onDelta(payload.text, accumulated);
+      } else if (event === 'done') {
+        accumulated = payload.response ?? accumulated;
+        provider = payload.provider || provider;
+        citations = payload.citations || [];
+      } else if (event === 'error') {
+        streamError = payload.message || 'Stream error';
+      }
+    });
+  } catch (error) {
+    if (signal?.aborted) {
+      return { response: accumulated, provider, conversationId: resolvedConversationId, cancelled: true, citations: [] };
+    }
+    throw error;
+  }
+
+  if (streamError) throw new Error(streamError);
+  return { response: accumulated, provider, conversationId: resolvedConversationId, cancelled: false, citations };
+};
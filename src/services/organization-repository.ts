@@ -0,0 +1,303 @@
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  Organization,
+  OrganizationInvite,
+  OrganizationInviteStatus,
+  OrganizationMember,
+  OrgMemberRole,
+  SharedResource,
+  SharedResourceType
+} from '@/types/organization';
+
+const ORGANIZATION_DIR = path.join(process.cwd(), 'data', 'organizations');
+
+type Collection = 'organizations' | 'members' | 'invites' | 'shared-resources';
+
+/**
+ * 조직·멤버·초대·공유 자료 저장소. 권한과 좌석 검사는 organizationService가 맡고 여기서는 저장만 한다.
+ */
+export interface OrganizationRepository {
+  // 만든 사람을 owner 멤버로 함께 넣는다
+  createOrganization(name: string, owner: { id: string; email: string }): Promise<Organization>;
+  findOrganization(id: string): Promise<Organization | null>;
+  renameOrganization(id: string, name: string): Promise<Organization | null>;
+  listMembers(organizationId: string): Promise<OrganizationMember[]>;
+  listMembershipsByUser(userId: string): Promise<OrganizationMember[]>;
+  findMember(organizationId: string, userId: string): Promise<OrganizationMember | null>;
+  // 이미 같은 조직의 멤버면 새로 넣지 않고 기존 멤버를 돌려준다
+  addMember(member: Omit<OrganizationMember, 'id' | 'joinedAt'>): Promise<OrganizationMember>;
+  updateMemberRole(organizationId: string, userId: string, role: OrgMemberRole): Promise<OrganizationMember | null>;
+  removeMember(organizationId: string, userId: string): Promise<boolean>;
+  createInvite(invite: Omit<OrganizationInvite, 'id' | 'status' | 'createdAt'>): Promise<OrganizationInvite>;
+  // 만료되었거나 처리된 초대는 찾지 않는다
+  findPendingInviteByToken(tokenHash: string): Promise<OrganizationInvite | null>;
+  listPendingInvites(organizationId: string): Promise<OrganizationInvite[]>;
+  updateInviteStatus(id: string, status: OrganizationInviteStatus): Promise<OrganizationInvite | null>;
+  // 대기 중인 초대를 수락 처리한다. 이미 처리되었거나 만료되었으면 null (같은 초대는 한 번만 성공한다)
+  claimInvite(id: string): Promise<OrganizationInvite | null>;
+  createSharedResource(resource: Omit<SharedResource, 'id' | 'createdAt'>): Promise<SharedResource>;
+  findSharedResource(id: string): Promise<SharedResource | null>;
+  listSharedResources(organizationId: string, type?: SharedResourceType): Promise<SharedResource[]>;
+  deleteSharedResource(id: string): Promise<boolean>;
+}
+
+/**
+ * 로컬 개발용 파일 저장소. 컬렉션마다 data/organizations/<이름>.json 하나로 저장하고,
+ * 처음 접근할 때 전부 메모리로 읽어온다.
+ */
+class FileOrganizationRepository implements OrganizationRepository {
+  private organizations: Map<string, Organization> = new Map();
+  private members: Map<string, OrganizationMember> = new Map();
+  private invites: Map<string, OrganizationInvite> = new Map();
+  private sharedResources: Map<string, SharedResource> = new Map();
+  private loading: Promise<void> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  async createOrganization(name: string, owner: { id: string; email: string }): Promise<Organization> {
+    await this.ensureLoaded();
+
+    const now = new Date().toISOString();
+    const organization: Organization = {
+      id: this.generateId('org'),
+      name,
+      ownerId: owner.id,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.organizations.set(organization.id, organization);
+
+    const member: OrganizationMember = {
+      id: this.generateId('member'),
+      organizationId: organization.id,
+      userId: owner.id,
+      email: owner.email,
+      role: 'owner',
+      joinedAt: now
+    };
+    this.members.set(member.id, member);
+
+    await Promise.all([this.persist('organizations'), this.persist('members')]);
+    return organization;
+  }
+
+  async findOrganization(id: string): Promise<Organization | null> {
+    await this.ensureLoaded();
+    return this.organizations.get(id) || null;
+  }
+
+  async renameOrganization(id: string, name: string): Promise<Organization | null> {
+    await this.ensureLoaded();
+
+    const existing = this.organizations.get(id);
+    if (!existing) return null;
+
+    const organization: Organization = { ...existing, name, updatedAt: new Date().toISOString() };
+    this.organizations.set(id, organization);
+    await this.persist('organizations');
+    return organization;
+  }
+
+  async listMembers(organizationId: string): Promise<OrganizationMember[]> {
+    await this.ensureLoaded();
+    return Array.from(this.members.values())
+      .filter(member => member.organizationId === organizationId)
+      .sort((a, b) => a.joinedAt.localeCompare(b.joinedAt));
+  }
+
+  async listMembershipsByUser(userId: string): Promise<OrganizationMember[]> {
+    await this.ensureLoaded();
+    return Array.from(this.members.values()).filter(member => member.userId === userId);
+  }
+
+  async findMember(organizationId: string, userId: string): Promise<OrganizationMember | null> {
+    await this.ensureLoaded();
+    return Array.from(this.members.values())
+      .find(member => member.organizationId === organizationId && member.userId === userId) || null;
+  }
+
+  async addMember(input: Omit<OrganizationMember, 'id' | 'joinedAt'>): Promise<OrganizationMember> {
+    await this.ensureLoaded();
+
+    const existing = Array.from(this.members.values())
+      .find(member => member.organizationId === input.organizationId && member.userId === input.userId);
+    if (existing) return existing;
+
+    const member: OrganizationMember = { ...input, id: this.generateId('member'), joinedAt: new Date().toISOString() };
+    this.members.set(member.id, member);
+    await this.persist('members');
+    return member;
+  }
+
+  async updateMemberRole(organizationId: string, userId: string, role: OrgMemberRole): Promise<OrganizationMember | null> {
+    const existing = await this.findMember(organizationId, userId);
+    if (!existing) return null;
+
+    const member: OrganizationMember = { ...existing, role };
+    this.members.set(member.id, member);
+    await this.persist('members');
+    return member;
+  }
+
+  async removeMember(organizationId: string, userId: string): Promise<boolean> {
+    const member = await this.findMember(organizationId, userId);
+    if (!member) return false;
+
+    this.members.delete(member.id);
+    await this.persist('members');
+    return true;
+  }
+
+  async createInvite(input: Omit<OrganizationInvite, 'id' | 'status' | 'createdAt'>): Promise<OrganizationInvite> {
+    await this.ensureLoaded();
+
+    const invite: OrganizationInvite = {
+      ...input,
+      id: this.generateId('invite'),
+      status: 'pending',
+      createdAt: new Date().toISOString()
+    };
+    this.invites.set(invite.id, invite);
+    await this.persist('invites');
+    return invite;
+  }
+
+  async findPendingInviteByToken(tokenHash: string): Promise<OrganizationInvite | null> {
+    await this.ensureLoaded();
+
+    const now = new Date().toISOString();
+    return Array.from(this.invites.values()).find(invite =>
+      invite.tokenHash === tokenHash && invite.status === 'pending' && invite.expiresAt > now
+    ) || null;
+  }
+
+  async listPendingInvites(organizationId: string): Promise<OrganizationInvite[]> {
+    await this.ensureLoaded();
+
+    const now = new Date().toISOString();
+    return Array.from(this.invites.values())
+      .filter(invite => invite.organizationId === organizationId && invite.status === 'pending' && invite.expiresAt > now)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async updateInviteStatus(id: string, status: OrganizationInviteStatus): Promise<OrganizationInvite | null> {
+    await this.ensureLoaded();
+
+    const existing = this.invites.get(id);
+    if (!existing) return null;
+
+    const invite: OrganizationInvite = {
+      ...existing,
+      status,
+      acceptedAt: status === 'accepted' ? new Date().toISOString() : existing.acceptedAt
+    };
+    this.invites.set(id, invite);
+    await this.persist('invites');
+    return invite;
+  }
+
+  async claimInvite(id: string): Promise<OrganizationInvite | null> {
+    await this.ensureLoaded();
+
+    // 확인과 변경 사이에 await가 없어야 동시에 수락해도 한 요청만 초대를 가져간다
+    const existing = this.invites.get(id);
+    const now = new Date().toISOString();
+    if (!existing || existing.status !== 'pending' || existing.expiresAt <= now) return null;
+
+    const invite: OrganizationInvite = { ...existing, status: 'accepted', acceptedAt: now };
+    this.invites.set(id, invite);
+    await this.persist('invites');
+    return invite;
+  }
+
+  async createSharedResource(input: Omit<SharedResource, 'id' | 'createdAt'>): Promise<SharedResource> {
+    await this.ensureLoaded();
+
+    const resource: SharedResource = { ...input, id: this.generateId('shared'), createdAt: new Date().toISOString() };
+    this.sharedResources.set(resource.id, resource);
+    await this.persist('shared-resources');
+    return resource;
+  }
+
+  async findSharedResource(id: string): Promise<SharedResource | null> {
+    await this.ensureLoaded();
+    return this.sharedResources.get(id) || null;
+  }
+
+  async listSharedResources(organizationId: string, type?: SharedResourceType): Promise<SharedResource[]> {
+    await this.ensureLoaded();
+    return Array.from(this.sharedResources.values())
+      .filter(resource => resource.organizationId === organizationId && (!type || resource.type === type))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async deleteSharedResource(id: string): Promise<boolean> {
+    await this.ensureLoaded();
+
+    if (!this.sharedResources.delete(id)) return false;
+    await this.persist('shared-resources');
+    return true;
+  }
+
+  private async ensureLoaded(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.load();
+    }
+    return this.loading;
+  }
+
+  private async load(): Promise<void> {
+    (await this.readCollection<Organization>('organizations'))
+      .forEach(organization => this.organizations.set(organization.id, organization));
+    (await this.readCollection<OrganizationMember>('members'))
+      .forEach(member => this.members.set(member.id, member));
+    (await this.readCollection<OrganizationInvite>('invites'))
+      .forEach(invite => this.invites.set(invite.id, invite));
+    (await this.readCollection<SharedResource>('shared-resources'))
+      .forEach(resource => this.sharedResources.set(resource.id, resource));
+  }
+
+  private async readCollection<T>(collection: Collection): Promise<T[]> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath(collection), 'utf-8')) as T[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Failed to load ${collection}:`, error);
+      }
+      return [];
+    }
+  }
+
+  private async persist(collection: Collection): Promise<void> {
+    const content = JSON.stringify(Array.from(this.collection(collection).values()), null, 2);
+
+    // 동시에 들어온 변경이 서로의 파일 쓰기를 덮어쓰지 않도록 순서대로 쓴다
+    this.writing = this.writing
+      .then(async () => {
+        await fs.mkdir(ORGANIZATION_DIR, { recursive: true });
+        await fs.writeFile(this.filePath(collection), content, 'utf-8');
+      })
+      .catch(error => console.error(`Failed to save ${collection}:`, error));
+    await this.writing;
+  }
+
+  private collection(collection: Collection): Map<string, unknown> {
+    switch (collection) {
+      case 'organizations': return this.organizations;
+      case 'members': return this.members;
+      case 'invites': return this.invites;
+      case 'shared-resources': return this.sharedResources;
+    }
+  }
+
+  private filePath(collection: Collection): string {
+    return path.join(ORGANIZATION_DIR, `${collection}.json`);
+  }
+
+  private generateId(prefix: string): string {
+    return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
+
+export const organizationRepository: OrganizationRepository = new FileOrganizationRepository();
+export default FileOrganizationRepository;
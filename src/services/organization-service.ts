@@ -0,0 +1,313 @@
+import crypto from 'crypto';
+import { organizationRepository } from '@/services/organization-repository';
+import { strategyLogService } from '@/services/strategy-log-service';
+import { userRepository } from '@/services/user-repository';
+import { getPlanFeatures } from '@/services/user-plan';
+import { hasOrgPermission, isAssignableOrgRole } from '@/lib/auth/organization-permissions';
+import { OrganizationError } from '@/lib/auth/organization-errors';
+import { sendTemplateEmail } from '@/lib/email/send';
+import { generateOrganizationInviteEmail } from '@/lib/email/auth-templates';
+import {
+  Organization,
+  OrganizationDetail,
+  OrganizationInvite,
+  OrganizationMember,
+  OrganizationSummary,
+  SeatUsage,
+  SharedResource,
+  SharedResourceType
+} from '@/types/organization';
+
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const NAME_MAX_LENGTH = 60;
+const TITLE_MAX_LENGTH = 200;
+// 클라이언트가 보낸 공유 내용(계약서, 북마크)의 JSON 크기 상한
+const CONTENT_MAX_BYTES = 200 * 1024;
+const SHARED_RESOURCE_TYPES: SharedResourceType[] = ['contract', 'strategy_log', 'bookmark'];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const appUrl = () =>
+  (process.env.NEXTAUTH_URL || process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000').replace(/\/$/, '');
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+// 토큰 해시는 저장소 밖으로 내보내지 않는다
+const withoutTokenHash = (invite: OrganizationInvite): Omit<OrganizationInvite, 'tokenHash'> => ({
+  id: invite.id,
+  organizationId: invite.organizationId,
+  email: invite.email,
+  role: invite.role,
+  invitedBy: invite.invitedBy,
+  status: invite.status,
+  expiresAt: invite.expiresAt,
+  acceptedAt: invite.acceptedAt,
+  createdAt: invite.createdAt
+});
+
+interface ShareResourceInput {
+  type: unknown;
+  title?: unknown;
+  content?: unknown;
+  sourceId?: unknown;
+}
+
+/**
+ * 팀 워크스페이스. 좌석 계산, 초대, 멤버 역할, 공유 자료를 맡는다.
+ * 라우트의 requireOrgPermission이 기본 권한을 확인하고, 본인 자료 삭제나 탈퇴처럼 대상에 따라 달라지는 검사는 여기서 한다.
+ * 실패는 OrganizationError로 던지고 code로 구분한다.
+ */
+class OrganizationService {
+  async createOrganization(user: { id: string; email: string }, name: unknown): Promise<Organization> {
+    const organization = await organizationRepository.createOrganization(this.validateName(name), user);
+
+    // 사이트 역할에도 조직 관리자임을 남긴다. 운영팀 역할은 그대로 둔다
+    const account = await userRepository.findUserById(user.id);
+    if (account && (!account.role || account.role === 'user')) {
+      await userRepository.updateUser(user.id, { role: 'org_admin' });
+    }
+    return organization;
+  }
+
+  async renameOrganization(organizationId: string, name: unknown): Promise<Organization> {
+    const organization = await organizationRepository.renameOrganization(organizationId, this.validateName(name));
+    if (!organization) {
+      throw new OrganizationError('NOT_FOUND');
+    }
+    return organization;
+  }
+
+  async listForUser(userId: string): Promise<OrganizationSummary[]> {
+    const memberships = await organizationRepository.listMembershipsByUser(userId);
+    const summaries = await Promise.all(memberships.map(async membership => {
+      const organization = await organizationRepository.findOrganization(membership.organizationId);
+      return organization ? { ...organization, myRole: membership.role, seats: await this.getSeatUsage(organization) } : null;
+    }));
+    return summaries.filter((summary): summary is OrganizationSummary => summary !== null);
+  }
+
+  async getDetail(organization: Organization, member: OrganizationMember): Promise<OrganizationDetail> {
+    const [members, seats, invites] = await Promise.all([
+      organizationRepository.listMembers(organization.id),
+      this.getSeatUsage(organization),
+      hasOrgPermission(member.role, 'members:manage') ? organizationRepository.listPendingInvites(organization.id) : []
+    ]);
+    return { ...organization, myRole: member.role, seats, members, invites: invites.map(withoutTokenHash) };
+  }
+
+  /**
+   * 좌석은 소유자의 활성 구독을 따른다. 구독에 좌석 수가 따로 있으면 그 값을, 없으면 플랜 기본값을 쓴다.
+   * 대기 중인 초대도 좌석을 차지한다.
+   */
+  async getSeatUsage(organization: Organization): Promise<SeatUsage> {
+    const [subscription, members, invites] = await Promise.all([
+      userRepository.getActiveSubscription(organization.ownerId),
+      organizationRepository.listMembers(organization.id),
+      organizationRepository.listPendingInvites(organization.id)
+    ]);
+
+    const total = subscription?.seats || getPlanFeatures(subscription ? subscription.plan : 'free').teamSeats;
+    return {
+      total,
+      members: members.length,
+      pendingInvites: invites.length,
+      available: Math.max(0, total - members.length - invites.length)
+    };
+  }
+
+  async invite(
+    organization: Organization,
+    inviter: OrganizationMember,
+    email: unknown,
+    role: unknown = 'editor'
+  ): Promise<Omit<OrganizationInvite, 'tokenHash'>> {
+    if (typeof email !== 'string' || !EMAIL_PATTERN.test(email.trim())) {
+      throw new OrganizationError('INVALID_INPUT', '올바른 이메일 주소를 입력해 주세요.');
+    }
+    if (!isAssignableOrgRole(role)) {
+      throw new OrganizationError('INVALID_INPUT', '초대할 역할을 확인해 주세요.');
+    }
+    const normalized = email.trim().toLowerCase();
+
+    const members = await organizationRepository.listMembers(organization.id);
+    if (members.some(member => member.email === normalized)) {
+      throw new OrganizationError('ALREADY_MEMBER');
+    }
+
+    // 같은 이메일로 다시 초대하면 이전 초대를 취소하고 새 링크를 보낸다 (좌석을 두 번 차지하지 않는다)
+    const previous = (await organizationRepository.listPendingInvites(organization.id))
+      .filter(invite => invite.email === normalized);
+    await Promise.all(previous.map(invite => organizationRepository.updateInviteStatus(invite.id, 'revoked')));
+
+    if ((await this.getSeatUsage(organization)).available <= 0) {
+      throw new OrganizationError('NO_SEATS');
+    }
+
+    const token = crypto.randomBytes(32).toString('hex');
+    const invite = await organizationRepository.createInvite({
+      organizationId: organization.id,
+      email: normalized,
+      role,
+      tokenHash: hashToken(token),
+      invitedBy: inviter.userId,
+      expiresAt: new Date(Date.now() + INVITE_TTL_MS).toISOString()
+    });
+
+    const acceptUrl = `${appUrl()}/workspace?invite=${token}`;
+    const result = await sendTemplateEmail(generateOrganizationInviteEmail(organization.name, inviter.email, acceptUrl), normalized);
+    // SMTP 없이 로컬에서 개발할 때는 링크를 콘솔로 확인한다
+    if (!result.success && process.env.NODE_ENV !== 'production') {
+      console.log(`🔗 [dev] Workspace invite → ${normalized}: ${acceptUrl}`);
+    }
+    return withoutTokenHash(invite);
+  }
+
+  async revokeInvite(organizationId: string, inviteId: string): Promise<void> {
+    const invite = (await organizationRepository.listPendingInvites(organizationId)).find(pending => pending.id === inviteId);
+    if (!invite) {
+      throw new OrganizationError('INVALID_INVITE');
+    }
+    await organizationRepository.updateInviteStatus(invite.id, 'revoked');
+  }
+
+  async acceptInvite(token: unknown, user: { id: string; email: string }): Promise<Organization> {
+    const invite = typeof token === 'string' && token
+      ? await organizationRepository.findPendingInviteByToken(hashToken(token))
+      : null;
+    const organization = invite && await organizationRepository.findOrganization(invite.organizationId);
+    if (!invite || !organization) {
+      throw new OrganizationError('INVALID_INVITE');
+    }
+
+    const email = user.email.trim().toLowerCase();
+    if (invite.email !== email) {
+      throw new OrganizationError('INVITE_EMAIL_MISMATCH');
+    }
+    if (await organizationRepository.findMember(organization.id, user.id)) {
+      await organizationRepository.claimInvite(invite.id);
+      throw new OrganizationError('ALREADY_MEMBER');
+    }
+
+    // 초대 뒤에 구독을 낮췄을 수 있으므로 수락할 때 한 번 더 확인한다 (이 초대 몫의 좌석은 이미 잡혀 있다)
+    const seats = await this.getSeatUsage(organization);
+    if (seats.members >= seats.total) {
+      throw new OrganizationError('NO_SEATS');
+    }
+
+    // 같은 초대를 동시에 수락하면 먼저 가져간 요청만 멤버를 추가한다
+    if (!(await organizationRepository.claimInvite(invite.id))) {
+      throw new OrganizationError('INVALID_INVITE');
+    }
+    await organizationRepository.addMember({ organizationId: organization.id, userId: user.id, email, role: invite.role });
+    return organization;
+  }
+
+  async changeMemberRole(organizationId: string, targetUserId: string, role: unknown): Promise<OrganizationMember> {
+    if (!isAssignableOrgRole(role)) {
+      throw new OrganizationError('INVALID_INPUT', '바꿀 역할을 확인해 주세요.');
+    }
+    const target = await this.findTarget(organizationId, targetUserId);
+
+    const updated = await organizationRepository.updateMemberRole(organizationId, target.userId, role);
+    if (!updated) {
+      throw new OrganizationError('NOT_FOUND', '멤버를 찾을 수 없습니다.');
+    }
+    return updated;
+  }
+
+  // 멤버 관리 권한이 있으면 다른 멤버를 내보내고, 없으면 자기 자신만 나갈 수 있다
+  async removeMember(organizationId: string, actor: OrganizationMember, targetUserId: string): Promise<void> {
+    if (actor.userId !== targetUserId && !hasOrgPermission(actor.role, 'members:manage')) {
+      throw new OrganizationError('FORBIDDEN');
+    }
+    const target = await this.findTarget(organizationId, targetUserId);
+    await organizationRepository.removeMember(organizationId, target.userId);
+  }
+
+  /**
+   * 자료를 워크스페이스에 공유한다. 전략 로그는 sourceId로 원본을 찾아 본인 것인지 확인한 뒤 내용을 복사하고,
+   * 계약서와 북마크는 보낸 내용을 그대로 저장한다.
+   */
+  async shareResource(organizationId: string, member: OrganizationMember, input: ShareResourceInput): Promise<SharedResource> {
+    const type = input.type as SharedResourceType;
+    if (SHARED_RESOURCE_TYPES.indexOf(type) < 0) {
+      throw new OrganizationError('INVALID_INPUT', '공유할 자료 종류를 확인해 주세요.');
+    }
+    const sourceId = typeof input.sourceId === 'string' && input.sourceId ? input.sourceId : undefined;
+
+    let title = input.title;
+    let content = input.content;
+    if (type === 'strategy_log') {
+      const log = sourceId ? await strategyLogService.getLog(sourceId) : null;
+      // 전략 로그의 userId에는 사용자 ID나 이메일이 들어간다
+      if (!log || (log.userId !== member.userId && log.userId !== member.email)) {
+        throw new OrganizationError('INVALID_INPUT', '공유할 전략 리포트를 찾을 수 없습니다.');
+      }
+      title = title || log.strategySummary;
+      content = log;
+    } else if (type === 'bookmark' && !sourceId) {
+      throw new OrganizationError('INVALID_INPUT', '공유할 콘텐츠 ID가 필요합니다.');
+    }
+
+    if (typeof title !== 'string' || !title.trim()) {
+      throw new OrganizationError('INVALID_INPUT', '공유할 자료의 제목이 필요합니다.');
+    }
+    if (content === undefined || content === null || content === '') {
+      throw new OrganizationError('INVALID_INPUT', '공유할 자료의 내용이 필요합니다.');
+    }
+    if (type !== 'strategy_log' && Buffer.byteLength(JSON.stringify(content), 'utf8') > CONTENT_MAX_BYTES) {
+      throw new OrganizationError('INVALID_INPUT', '공유할 자료가 너무 큽니다.');
+    }
+
+    return organizationRepository.createSharedResource({
+      organizationId,
+      type,
+      title: title.trim().slice(0, TITLE_MAX_LENGTH),
+      content,
+      sourceId,
+      sharedBy: member.userId,
+      sharedByEmail: member.email
+    });
+  }
+
+  async listResources(organizationId: string, type?: unknown): Promise<SharedResource[]> {
+    const filter = SHARED_RESOURCE_TYPES.indexOf(type as SharedResourceType) >= 0 ? type as SharedResourceType : undefined;
+    return organizationRepository.listSharedResources(organizationId, filter);
+  }
+
+  // 자기가 공유한 자료는 지울 수 있고, 다른 멤버의 자료는 resources:manage 권한이 있어야 한다
+  async deleteResource(organizationId: string, member: OrganizationMember, resourceId: string): Promise<void> {
+    const resource = await organizationRepository.findSharedResource(resourceId);
+    if (!resource || resource.organizationId !== organizationId) {
+      throw new OrganizationError('NOT_FOUND', '공유 자료를 찾을 수 없습니다.');
+    }
+    if (resource.sharedBy !== member.userId && !hasOrgPermission(member.role, 'resources:manage')) {
+      throw new OrganizationError('FORBIDDEN');
+    }
+    await organizationRepository.deleteSharedResource(resource.id);
+  }
+
+  private async findTarget(organizationId: string, userId: string): Promise<OrganizationMember> {
+    const target = await organizationRepository.findMember(organizationId, userId);
+    if (!target) {
+      throw new OrganizationError('NOT_FOUND', '멤버를 찾을 수 없습니다.');
+    }
+    if (target.role === 'owner') {
+      throw new OrganizationError('OWNER_IMMUTABLE');
+    }
+    return target;
+  }
+
+  private validateName(name: unknown): string {
+    if (typeof name !== 'string' || !name.trim()) {
+      throw new OrganizationError('INVALID_INPUT', '워크스페이스 이름을 입력해 주세요.');
+    }
+    if (name.trim().length > NAME_MAX_LENGTH) {
+      throw new OrganizationError('INVALID_INPUT', `워크스페이스 이름은 ${NAME_MAX_LENGTH}자 이내로 입력해 주세요.`);
+    }
+    return name.trim();
+  }
+}
+
+export const organizationService = new OrganizationService();
+export default OrganizationService;
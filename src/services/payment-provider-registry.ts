@@ -0,0 +1,73 @@
+import { stripePaymentProvider } from '@/lib/payment/providers/stripe';
+import { tossPaymentProvider } from '@/lib/payment/providers/toss';
+import { fakePaymentProvider } from '@/lib/payment/providers/fake';
+import { isPaymentCurrency } from '@/lib/payment/plan-prices';
+import { userRepository } from '@/services/user-repository';
+import { PaymentCurrency, PaymentProvider, PaymentProviderId } from '@/types/payment-provider';
+import { User } from '@/types/user';
+
+export const isPaymentProviderId = (id: unknown): id is PaymentProviderId =>
+  id === 'stripe' || id === 'toss' || id === 'fake';
+
+// 통화마다 먼저 고르는 결제사. 설정되지 않았으면 Stripe로 받는다
+const PROVIDER_BY_CURRENCY: Record<PaymentCurrency, PaymentProviderId> = { USD: 'stripe', KRW: 'toss' };
+
+class PaymentProviderRegistry {
+  private providers: Map<PaymentProviderId, PaymentProvider> = new Map();
+
+  constructor(providers: PaymentProvider[]) {
+    providers.forEach(provider => this.register(provider));
+  }
+
+  register(provider: PaymentProvider): void {
+    this.providers.set(provider.id, provider);
+  }
+
+  // 로컬 개발·QA에서 실제 결제 없이 전체 흐름을 돌릴 때 사용
+  isFakeMode(): boolean {
+    return process.env.PAYMENT_PROVIDER_MODE === 'fake';
+  }
+
+  // 웹훅·재처리·환불처럼 이미 정해진 결제사를 쓸 때. fake 모드와 상관없이 요청한 결제사를 돌려준다
+  get(id: PaymentProviderId): PaymentProvider {
+    const provider = this.providers.get(id);
+    if (!provider) {
+      throw new Error(`Unknown payment provider: ${id}`);
+    }
+    return provider;
+  }
+
+  /**
+   * 새 결제를 받을 결제사를 고른다. Stripe 구독 중이면 일할 계산이 되도록 계속 Stripe로 받고,
+   * 그 밖에는 요청한 결제사 → 통화별 결제사 → Stripe 순서로 설정된 것을 쓴다.
+   */
+  async resolveForCheckout(user: User, options: { provider?: unknown; currency?: unknown } = {}): Promise<PaymentProvider> {
+    if (this.isFakeMode()) return this.get('fake');
+
+    const current = await userRepository.getActiveSubscription(user.id);
+    if (current?.provider === 'stripe' && current.externalId) return this.get('stripe');
+
+    const candidates: PaymentProviderId[] = [];
+    if (isPaymentProviderId(options.provider) && options.provider !== 'fake') {
+      candidates.push(options.provider);
+    }
+    if (isPaymentCurrency(options.currency)) {
+      candidates.push(PROVIDER_BY_CURRENCY[options.currency]);
+    }
+
+    const configured = candidates.map(id => this.get(id)).filter(provider => provider.isConfigured())[0];
+    return configured || this.get('stripe');
+  }
+
+  list(): Array<{ id: PaymentProviderId; name: string; currency: PaymentCurrency; configured: boolean }> {
+    return Array.from(this.providers.values()).map(provider => ({
+      id: provider.id,
+      name: provider.name,
+      currency: provider.currency,
+      configured: provider.isConfigured()
+    }));
+  }
+}
+
+export const paymentProviders = new PaymentProviderRegistry([stripePaymentProvider, tossPaymentProvider, fakePaymentProvider]);
+export default PaymentProviderRegistry;
@@ -0,0 +1,215 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { PromoCode, PromoCodeUpdate, PromoRedemption } from '@/types/promotion';
+
+const PAYMENT_DIR = path.join(process.cwd(), 'data', 'payments');
+
+type Collection = 'promo-codes' | 'promo-redemptions';
+
+export type NewPromoCode = Omit<PromoCode, 'id' | 'active' | 'createdAt' | 'updatedAt'>;
+
+export type NewPromoRedemption = Omit<PromoRedemption, 'id' | 'status' | 'createdAt' | 'redeemedAt' | 'releasedAt'>;
+
+export interface ReserveOptions {
+  maxRedemptions?: number | null;
+  // 이 시각보다 먼저 잡은 reserved는 버려진 결제 화면으로 보고 한도에 세지 않는다
+  reservedAfter: string;
+}
+
+/**
+ * 프로모션 코드와 사용 기록 저장소.
+ */
+export interface PromoCodeRepository {
+  // 같은 코드가 이미 있으면 null
+  createCode(input: NewPromoCode): Promise<PromoCode | null>;
+  findCodeById(id: string): Promise<PromoCode | null>;
+  findCodeByCode(code: string): Promise<PromoCode | null>;
+  updateCode(id: string, updates: PromoCodeUpdate): Promise<PromoCode | null>;
+  listCodes(): Promise<PromoCode[]>;
+  /**
+   * 전체 한도와 사용자별 1회 제한을 확인하고 사용을 잡아 둔다.
+   * 한도가 찼으면 exhausted, 이미 쓴 사용자면 already_used, 같은 사용자가 잡아 둔 결제 화면이 아직 살아 있으면 in_checkout을 돌려준다.
+   * (이전 결제 화면을 풀고 새로 잡으면 할인된 결제 화면을 여러 개 열어 모두 결제할 수 있다)
+   */
+  reserveRedemption(
+    input: NewPromoRedemption,
+    options: ReserveOptions
+  ): Promise<{ redemption: PromoRedemption | null; reason?: 'exhausted' | 'already_used' | 'in_checkout' }>;
+  // reserved인 사용만 확정한다. 이미 확정됐으면 그대로, 풀린 사용은 바꾸지 않고 돌려준다
+  redeemRedemption(id: string, paymentId?: string): Promise<PromoRedemption | null>;
+  // reserved만 푼다
+  releaseRedemption(id: string): Promise<PromoRedemption | null>;
+  findRedemptionById(id: string): Promise<PromoRedemption | null>;
+  listRedemptions(promoCodeId?: string): Promise<PromoRedemption[]>;
+}
+
+/**
+ * 로컬 개발용 파일 저장소. 컬렉션마다 data/payments/<이름>.json 하나로 저장하고, 처음 접근할 때 전부 메모리로 읽어온다.
+ * 한도 확인과 사용 기록 사이에 await가 없어 같은 프로세스에 동시에 들어온 결제도 한도를 넘지 않는다.
+ */
+class FilePromoCodeRepository implements PromoCodeRepository {
+  private codes: Map<string, PromoCode> = new Map();
+  private redemptions: Map<string, PromoRedemption> = new Map();
+  private loading: Promise<void> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  async createCode(input: NewPromoCode): Promise<PromoCode | null> {
+    await this.ensureLoaded();
+    if (this.findByCode(input.code)) return null;
+
+    const now = new Date().toISOString();
+    const code: PromoCode = { ...input, id: this.generateId('promo'), active: true, createdAt: now, updatedAt: now };
+    this.codes.set(code.id, code);
+    await this.persist('promo-codes');
+    return code;
+  }
+
+  async findCodeById(id: string): Promise<PromoCode | null> {
+    await this.ensureLoaded();
+    return this.codes.get(id) || null;
+  }
+
+  async findCodeByCode(code: string): Promise<PromoCode | null> {
+    await this.ensureLoaded();
+    return this.findByCode(code);
+  }
+
+  async updateCode(id: string, updates: PromoCodeUpdate): Promise<PromoCode | null> {
+    await this.ensureLoaded();
+
+    const existing = this.codes.get(id);
+    if (!existing) return null;
+
+    const code: PromoCode = { ...existing, ...updates, updatedAt: new Date().toISOString() };
+    this.codes.set(id, code);
+    await this.persist('promo-codes');
+    return code;
+  }
+
+  async listCodes(): Promise<PromoCode[]> {
+    await this.ensureLoaded();
+    return Array.from(this.codes.values()).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async reserveRedemption(
+    input: NewPromoRedemption,
+    options: ReserveOptions
+  ): Promise<{ redemption: PromoRedemption | null; reason?: 'exhausted' | 'already_used' | 'in_checkout' }> {
+    await this.ensureLoaded();
+
+    const now = new Date().toISOString();
+    const live = Array.from(this.redemptions.values()).filter(redemption =>
+      redemption.promoCodeId === input.promoCodeId &&
+      (redemption.status === 'redeemed' || (redemption.status === 'reserved' && redemption.createdAt > options.reservedAfter))
+    );
+    const mine = live.filter(redemption => redemption.userId === input.userId);
+    if (mine.some(redemption => redemption.status === 'redeemed')) {
+      return { redemption: null, reason: 'already_used' };
+    }
+    if (mine.length) {
+      return { redemption: null, reason: 'in_checkout' };
+    }
+    if (options.maxRedemptions && live.length >= options.maxRedemptions) {
+      return { redemption: null, reason: 'exhausted' };
+    }
+
+    const redemption: PromoRedemption = { ...input, id: this.generateId('redeem'), status: 'reserved', createdAt: now };
+    this.redemptions.set(redemption.id, redemption);
+    await this.persist('promo-redemptions');
+    return { redemption };
+  }
+
+  async redeemRedemption(id: string, paymentId?: string): Promise<PromoRedemption | null> {
+    await this.ensureLoaded();
+
+    const existing = this.redemptions.get(id);
+    if (!existing || existing.status !== 'reserved') return existing || null;
+
+    const redemption: PromoRedemption = {
+      ...existing,
+      status: 'redeemed',
+      paymentId: paymentId || existing.paymentId,
+      redeemedAt: new Date().toISOString()
+    };
+    this.redemptions.set(id, redemption);
+    await this.persist('promo-redemptions');
+    return redemption;
+  }
+
+  async releaseRedemption(id: string): Promise<PromoRedemption | null> {
+    await this.ensureLoaded();
+
+    const existing = this.redemptions.get(id);
+    if (!existing || existing.status !== 'reserved') return existing || null;
+
+    const redemption: PromoRedemption = { ...existing, status: 'released', releasedAt: new Date().toISOString() };
+    this.redemptions.set(id, redemption);
+    await this.persist('promo-redemptions');
+    return redemption;
+  }
+
+  async findRedemptionById(id: string): Promise<PromoRedemption | null> {
+    await this.ensureLoaded();
+    return this.redemptions.get(id) || null;
+  }
+
+  async listRedemptions(promoCodeId?: string): Promise<PromoRedemption[]> {
+    await this.ensureLoaded();
+    return Array.from(this.redemptions.values())
+      .filter(redemption => !promoCodeId || redemption.promoCodeId === promoCodeId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  private findByCode(code: string): PromoCode | null {
+    return Array.from(this.codes.values()).find(promo => promo.code === code) || null;
+  }
+
+  private async ensureLoaded(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.load();
+    }
+    return this.loading;
+  }
+
+  private async load(): Promise<void> {
+    ((await this.readCollection<PromoCode>('promo-codes')) || []).forEach(code => this.codes.set(code.id, code));
+    ((await this.readCollection<PromoRedemption>('promo-redemptions')) || [])
+      .forEach(redemption => this.redemptions.set(redemption.id, redemption));
+  }
+
+  private async readCollection<T>(collection: Collection): Promise<T[] | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath(collection), 'utf-8')) as T[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Failed to load ${collection}:`, error);
+      }
+      return null;
+    }
+  }
+
+  private async persist(collection: Collection): Promise<void> {
+    const items = collection === 'promo-codes' ? this.codes : this.redemptions;
+    const content = JSON.stringify(Array.from<unknown>(items.values()), null, 2);
+
+    // 동시에 들어온 변경이 서로의 파일 쓰기를 덮어쓰지 않도록 순서대로 쓴다
+    this.writing = this.writing
+      .then(async () => {
+        await fs.mkdir(PAYMENT_DIR, { recursive: true });
+        await fs.writeFile(this.filePath(collection), content, 'utf-8');
+      })
+      .catch(error => console.error(`Failed to save ${collection}:`, error));
+    await this.writing;
+  }
+
+  private filePath(collection: Collection): string {
+    return path.join(PAYMENT_DIR, `${collection}.json`);
+  }
+
+  private generateId(prefix: string): string {
+    return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
+
+export const promoCodeRepository: PromoCodeRepository = new FilePromoCodeRepository();
+export default FilePromoCodeRepository;
@@ -0,0 +1,283 @@
+import { promoCodeRepository } from '@/services/promo-code-repository';
+import { userRepository } from '@/services/user-repository';
+import { BillingError } from '@/lib/payment/billing-errors';
+import { isBillingInterval, isPaidPlanId, isPaymentCurrency, PLAN_PRICES } from '@/lib/payment/plan-prices';
+import { PaidPlanId } from '@/types/billing';
+import { PaymentCurrency, PaymentProviderId } from '@/types/payment-provider';
+import {
+  AppliedDiscount,
+  CheckoutDiscount,
+  CreatePromoCodeInput,
+  PromoCode,
+  PromoCodeStats,
+  PromoCodeUpdate,
+  PromotionStats
+} from '@/types/promotion';
+import { BillingInterval, User } from '@/types/user';
+
+// 결제 화면을 만들고 이 시간 안에 결제하지 않으면 잡아 둔 사용 한도를 돌려준다.
+// Stripe 결제 화면과 Toss 주문도 같은 시간이 지나면 결제할 수 없다 (Stripe 최소 만료 시간은 30분)
+export const RESERVATION_TTL_MS = 60 * 60 * 1000;
+
+// 할인 금액을 자를 최소 단위 (원화는 1원, 달러는 1센트)
+const MINOR_UNITS: Record<PaymentCurrency, number> = { KRW: 1, USD: 100 };
+
+const CODE_PATTERN = /^[A-Z0-9_-]{3,32}$/;
+
+export const normalizePromoCode = (code: unknown) => (typeof code === 'string' ? code.trim().toUpperCase() : '');
+
+const isDate = (value: unknown) => typeof value === 'string' && !isNaN(new Date(value).getTime());
+
+function computeDiscount(promo: PromoCode, plan: PaidPlanId, interval: BillingInterval, currency: PaymentCurrency): AppliedDiscount {
+  const originalAmount = PLAN_PRICES[currency][plan][interval];
+  const unit = MINOR_UNITS[currency];
+  const discountAmount = promo.discountType === 'percentage'
+    ? Math.round(originalAmount * unit * (promo.percentOff || 0) / 100) / unit
+    : promo.amountOff?.[currency] || 0;
+
+  // 무료 결제는 Toss가 받지 않으므로 정액 할인이 요금 이상이면 쓸 수 없다
+  if (!discountAmount || discountAmount >= originalAmount) {
+    throw new BillingError('PROMO_NOT_APPLICABLE');
+  }
+  return {
+    promoCodeId: promo.id,
+    code: promo.code,
+    discountType: promo.discountType,
+    percentOff: promo.percentOff,
+    currency,
+    originalAmount,
+    discountAmount,
+    finalAmount: Math.round((originalAmount - discountAmount) * unit) / unit
+  };
+}
+
+// 관리자가 보낸 코드 설정을 확인한다. 퍼센트는 1~99(무료 결제 방지), 정액은 통화별 양수
+function parseCreateInput(input: unknown): Omit<CreatePromoCodeInput, 'createdBy'> | null {
+  if (!input || typeof input !== 'object') return null;
+  const body = input as Record<string, unknown>;
+
+  const code = normalizePromoCode(body.code);
+  if (!CODE_PATTERN.test(code)) return null;
+
+  const plans = body.plans === undefined ? [] : body.plans;
+  if (!Array.isArray(plans) || !plans.every(isPaidPlanId)) return null;
+  if (body.startsAt && !isDate(body.startsAt)) return null;
+  if (body.expiresAt && !isDate(body.expiresAt)) return null;
+  const maxRedemptions = body.maxRedemptions === undefined || body.maxRedemptions === null ? null : Number(body.maxRedemptions);
+  if (maxRedemptions !== null && !(Number.isInteger(maxRedemptions) && maxRedemptions > 0)) return null;
+
+  const base = {
+    code,
+    description: typeof body.description === 'string' ? body.description.trim().slice(0, 200) || undefined : undefined,
+    plans: plans as PaidPlanId[],
+    firstPurchaseOnly: body.firstPurchaseOnly === true,
+    maxRedemptions,
+    startsAt: body.startsAt ? new Date(body.startsAt as string).toISOString() : null,
+    expiresAt: body.expiresAt ? new Date(body.expiresAt as string).toISOString() : null
+  };
+
+  if (body.discountType === 'percentage') {
+    const percentOff = Number(body.percentOff);
+    if (!Number.isInteger(percentOff) || percentOff < 1 || percentOff > 99) return null;
+    return { ...base, discountType: 'percentage', percentOff };
+  }
+
+  if (body.discountType === 'fixed' && body.amountOff && typeof body.amountOff === 'object') {
+    const amountOff: Partial<Record<PaymentCurrency, number>> = {};
+    const entries = Object.keys(body.amountOff as object).map(currency => [currency, Number((body.amountOff as Record<string, unknown>)[currency])] as const);
+    for (const [currency, amount] of entries) {
+      if (!isPaymentCurrency(currency) || !(amount > 0)) return null;
+      // 원화는 원 단위, 달러는 센트 단위까지
+      amountOff[currency] = Math.round(amount * MINOR_UNITS[currency]) / MINOR_UNITS[currency];
+    }
+    return entries.length ? { ...base, discountType: 'fixed', amountOff } : null;
+  }
+  return null;
+}
+
+/**
+ * 프로모션 코드 할인. 결제 화면을 만들 때 코드를 확인해 사용 한도를 잡아 두고(reserve),
+ * 결제사 어댑터가 결제 완료를 반영할 때 확정(redeem)하거나 실패·만료 때 푼다(release).
+ */
+class PromoCodeService {
+  async createCode(input: unknown, createdBy?: string): Promise<PromoCode> {
+    const parsed = parseCreateInput(input);
+    if (!parsed) {
+      throw new BillingError('INVALID_PROMO');
+    }
+    const code = await promoCodeRepository.createCode({ ...parsed, createdBy });
+    if (!code) {
+      throw new BillingError('PROMO_CODE_TAKEN');
+    }
+    return code;
+  }
+
+  async updateCode(id: string, input: unknown): Promise<PromoCode> {
+    const body = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+    const updates: PromoCodeUpdate = {};
+    if (typeof body.active === 'boolean') updates.active = body.active;
+    if (typeof body.description === 'string') updates.description = body.description.trim().slice(0, 200);
+    if (body.expiresAt === null || isDate(body.expiresAt)) {
+      updates.expiresAt = body.expiresAt ? new Date(body.expiresAt as string).toISOString() : null;
+    }
+    if (body.maxRedemptions === null || (Number.isInteger(body.maxRedemptions) && (body.maxRedemptions as number) > 0)) {
+      updates.maxRedemptions = body.maxRedemptions as number | null;
+    }
+
+    const code = await promoCodeRepository.updateCode(id, updates);
+    if (!code) {
+      throw new BillingError('PROMO_NOT_FOUND');
+    }
+    return code;
+  }
+
+  async listCodes(): Promise<PromoCode[]> {
+    return promoCodeRepository.listCodes();
+  }
+
+  /**
+   * 코드를 확인하고 할인 금액을 계산한다. 사용 한도는 잡지 않으므로 요금제 화면의 미리보기에 쓴다.
+   */
+  async quote(user: User, code: unknown, plan: unknown, interval: unknown, currency: PaymentCurrency): Promise<AppliedDiscount> {
+    if (!isPaidPlanId(plan) || !isBillingInterval(interval)) {
+      throw new BillingError('INVALID_PLAN');
+    }
+    const promo = await promoCodeRepository.findCodeByCode(normalizePromoCode(code));
+    if (!promo || !promo.active) {
+      throw new BillingError('PROMO_NOT_FOUND');
+    }
+
+    const now = new Date().toISOString();
+    if ((promo.startsAt && promo.startsAt > now) || (promo.expiresAt && promo.expiresAt <= now)) {
+      throw new BillingError('PROMO_EXPIRED');
+    }
+    if (promo.plans && promo.plans.length && promo.plans.indexOf(plan) === -1) {
+      throw new BillingError('PROMO_NOT_APPLICABLE');
+    }
+    if (promo.firstPurchaseOnly && (await this.hasPurchased(user))) {
+      throw new BillingError('PROMO_FIRST_PURCHASE_ONLY');
+    }
+
+    const redemptions = await promoCodeRepository.listRedemptions(promo.id);
+    const reservedAfter = new Date(Date.now() - RESERVATION_TTL_MS).toISOString();
+    const live = redemptions.filter(redemption =>
+      redemption.userId !== user.id &&
+      (redemption.status === 'redeemed' || (redemption.status === 'reserved' && redemption.createdAt > reservedAfter))
+    );
+    if (redemptions.some(redemption => redemption.userId === user.id && redemption.status === 'redeemed')) {
+      throw new BillingError('PROMO_ALREADY_USED');
+    }
+    if (promo.maxRedemptions && live.length >= promo.maxRedemptions) {
+      throw new BillingError('PROMO_EXHAUSTED');
+    }
+    return computeDiscount(promo, plan, interval, currency);
+  }
+
+  // 결제 화면을 만들기 직전에 부른다. 한도 확인과 예약은 저장소에서 한 번에 한다
+  async reserve(
+    user: User,
+    provider: PaymentProviderId,
+    code: unknown,
+    plan: PaidPlanId,
+    interval: BillingInterval,
+    currency: PaymentCurrency
+  ): Promise<CheckoutDiscount> {
+    const discount = await this.quote(user, code, plan, interval, currency);
+    const promo = await promoCodeRepository.findCodeById(discount.promoCodeId);
+
+    const { redemption, reason } = await promoCodeRepository.reserveRedemption(
+      {
+        promoCodeId: discount.promoCodeId,
+        code: discount.code,
+        userId: user.id,
+        provider,
+        plan,
+        interval,
+        currency,
+        originalAmount: discount.originalAmount,
+        discountAmount: discount.discountAmount,
+        finalAmount: discount.finalAmount
+      },
+      { maxRedemptions: promo?.maxRedemptions, reservedAfter: new Date(Date.now() - RESERVATION_TTL_MS).toISOString() }
+    );
+    if (!redemption) {
+      throw new BillingError(
+        reason === 'already_used' ? 'PROMO_ALREADY_USED' : reason === 'in_checkout' ? 'PROMO_IN_CHECKOUT' : 'PROMO_EXHAUSTED'
+      );
+    }
+    return { ...discount, redemptionId: redemption.id };
+  }
+
+  // 결제를 승인하기 전에 부른다. 풀렸거나 만료된 사용의 할인 주문은 결제하지 않는다
+  async isReserved(redemptionId: string): Promise<boolean> {
+    const redemption = await promoCodeRepository.findRedemptionById(redemptionId);
+    return !!redemption && redemption.status === 'reserved' && Date.now() - new Date(redemption.createdAt).getTime() < RESERVATION_TTL_MS;
+  }
+
+  async redeem(redemptionId: string, paymentId?: string): Promise<void> {
+    const redemption = await promoCodeRepository.redeemRedemption(redemptionId, paymentId);
+    if (!redemption) {
+      console.warn(`Promo redemption ${redemptionId} not found`);
+      return;
+    }
+    if (redemption.status !== 'redeemed') {
+      console.error(`Promo redemption ${redemptionId} was ${redemption.status} when payment ${paymentId || ''} completed`);
+      return;
+    }
+    console.log(`🎟️ Promo ${redemption.code} redeemed by ${redemption.userId} (${redemption.provider} ${paymentId || ''})`);
+  }
+
+  async release(redemptionId: string): Promise<void> {
+    await promoCodeRepository.releaseRedemption(redemptionId);
+  }
+
+  // 관리자 성장 지표 화면용 코드별 사용 현황
+  async getStats(): Promise<PromotionStats> {
+    const [codes, redemptions] = await Promise.all([promoCodeRepository.listCodes(), promoCodeRepository.listRedemptions()]);
+    const reservedAfter = new Date(Date.now() - RESERVATION_TTL_MS).toISOString();
+
+    const stats: PromoCodeStats[] = codes.map(promo => {
+      const mine = redemptions.filter(redemption => redemption.promoCodeId === promo.id);
+      const redeemed = mine.filter(redemption => redemption.status === 'redeemed');
+      const discountTotal: Partial<Record<PaymentCurrency, number>> = {};
+      const revenue: Partial<Record<PaymentCurrency, number>> = {};
+      redeemed.forEach(redemption => {
+        discountTotal[redemption.currency] = (discountTotal[redemption.currency] || 0) + redemption.discountAmount;
+        revenue[redemption.currency] = (revenue[redemption.currency] || 0) + redemption.finalAmount;
+      });
+
+      return {
+        id: promo.id,
+        code: promo.code,
+        discountType: promo.discountType,
+        percentOff: promo.percentOff,
+        amountOff: promo.amountOff,
+        active: promo.active,
+        expiresAt: promo.expiresAt,
+        maxRedemptions: promo.maxRedemptions,
+        redeemed: redeemed.length,
+        reserved: mine.filter(redemption => redemption.status === 'reserved' && redemption.createdAt > reservedAfter).length,
+        discountTotal,
+        revenue,
+        lastRedeemedAt: redeemed.map(redemption => redemption.redeemedAt || '').sort().pop() || undefined
+      };
+    });
+
+    const now = new Date().toISOString();
+    return {
+      totalRedemptions: stats.reduce((sum, code) => sum + code.redeemed, 0),
+      activeCodes: codes.filter(promo => promo.active && (!promo.expiresAt || promo.expiresAt > now)).length,
+      codes: stats
+    };
+  }
+
+  // 유료 플랜을 결제해 완료된 이력이 있거나 지금 유료 구독 중이면 첫 구매가 아니다
+  private async hasPurchased(user: User): Promise<boolean> {
+    if (await userRepository.getActiveSubscription(user.id)) return true;
+    const logs = await userRepository.listPlanChangeLogs(user.id);
+    return logs.some(log => log.status === 'completed' && log.toPlan !== 'free');
+  }
+}
+
+export const promoCodes = new PromoCodeService();
+export default PromoCodeService;
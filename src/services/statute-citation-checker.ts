@@ -0,0 +1,147 @@
+import { statuteIndex } from './statute-index';
+import { CitationCheckResult, Statute, StatuteCitation } from '../types/statute';
+
+// 제17조, 제24조의2, 제17조제1항, 제17조 2항
+const ARTICLE_PATTERN = /제\s*(\d+)\s*조(?:\s*의\s*(\d+))?(?:\s*제?\s*(\d+)\s*항)?/g;
+// 앞 인용에 이어지는 나열 (제17조, 제18조 및 제19조 / 제17조부터 제19조까지)
+const CHAIN_PATTERN = /^(?:\s|,|·|~|-|및|와|과|또는|부터|내지)*$/;
+// 같은 법, 동법
+const SAME_LAW_PATTERN = /(?:같은\s*법|동법)/g;
+// 인용 바로 앞의 '…법' 형태 이름 (「상법」 포함). 시행령·시행규칙이면 따로 표시한다
+const TRAILING_LAW_PATTERN = /([가-힣]+법)[」』"']?\s*(시행(?:령|규칙))?\s*$/;
+const SUBORDINATE_PATTERN = /^[」』"']?\s*(시행(?:령|규칙))/;
+// '…법'으로 끝나지만 법령 이름이 아닌 단어
+const NON_LAW_WORDS = ['방법', '불법', '위법', '적법', '합법', '편법', '입법', '용법', '해법', '문법', '어법', '수법'];
+
+interface LawReference {
+  statute: Statute | null;
+  name: string;
+}
+
+interface Mention extends LawReference {
+  index: number;
+}
+
+class StatuteCitationChecker {
+  /**
+   * 답변에서 법령 조문 인용을 찾아 색인과 대조한다.
+   * 법령 이름이 같은 문장에 없거나 '같은 법'으로 이어지지 않는 조문(계약서 조항 등)은 인용으로 보지 않는다.
+   */
+  check(text: string): CitationCheckResult {
+    const citations: StatuteCitation[] = [];
+    let previous: (LawReference & { end: number }) | null = null;
+    let lastLaw: LawReference | null = null;
+
+    ARTICLE_PATTERN.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = ARTICLE_PATTERN.exec(text)) !== null) {
+      const start = match.index;
+      const sentenceStart = this.sentenceStart(text, start);
+
+      let reference: LawReference | null = null;
+      if (previous && previous.end >= sentenceStart && CHAIN_PATTERN.test(text.slice(previous.end, start))) {
+        reference = previous;
+      } else {
+        const mention = this.lastMention(text, sentenceStart, start);
+        if (mention === 'same') {
+          reference = lastLaw;
+        } else if (mention) {
+          reference = mention;
+        }
+      }
+
+      if (!reference) {
+        previous = null;
+        continue;
+      }
+
+      const end = start + match[0].length;
+      citations.push(this.resolve(reference, match, start, end));
+      previous = { ...reference, end };
+      lastLaw = reference;
+    }
+
+    const verifiedCount = citations.filter(citation => citation.status === 'verified').length;
+    return {
+      citations,
+      verifiedCount,
+      unverifiedCount: citations.length - verifiedCount
+    };
+  }
+
+  private resolve(reference: LawReference, match: RegExpExecArray, start: number, end: number): StatuteCitation {
+    const article = match[2] ? `${match[1]}의${match[2]}` : match[1];
+    const base: StatuteCitation = {
+      raw: match[0],
+      start,
+      end,
+      statuteId: reference.statute?.id || null,
+      statuteName: reference.name,
+      article,
+      paragraph: match[3] ? Number(match[3]) : undefined,
+      status: 'unverified'
+    };
+
+    if (!reference.statute) {
+      return { ...base, issue: 'statute_not_indexed' };
+    }
+
+    const indexed = statuteIndex.getArticle(reference.statute.id, article);
+    if (!indexed) {
+      return { ...base, issue: 'article_not_found' };
+    }
+
+    return {
+      ...base,
+      status: 'verified',
+      title: indexed.title,
+      text: indexed.text,
+      url: statuteIndex.articleUrl(reference.statute, article)
+    };
+  }
+
+  // 문장 안에서 인용 직전에 마지막으로 언급된 법령
+  private lastMention(text: string, from: number, to: number): Mention | 'same' | null {
+    const segment = text.slice(from, to);
+    const candidates: Array<Mention | { index: number; same: true }> = [];
+
+    const mentions = statuteIndex.findMentions(segment);
+    mentions.forEach(({ statute, index, length }) => {
+      const subordinate = SUBORDINATE_PATTERN.exec(segment.slice(index + length));
+      candidates.push(subordinate
+        ? { statute: null, name: `${statute.officialName} ${subordinate[1]}`, index }
+        : { statute, name: statute.name, index });
+    });
+
+    SAME_LAW_PATTERN.lastIndex = 0;
+    let same: RegExpExecArray | null;
+    while ((same = SAME_LAW_PATTERN.exec(segment)) !== null) {
+      candidates.push({ index: same.index, same: true });
+    }
+
+    const trailing = TRAILING_LAW_PATTERN.exec(segment);
+    // '개인정보 보호법'의 '보호법'처럼 색인된 법령 이름의 끝부분이면 무시
+    const partOfMention = (end: number) => mentions.some(mention => mention.index + mention.length === end);
+    if (trailing && NON_LAW_WORDS.indexOf(trailing[1]) === -1 && !partOfMention(trailing.index + trailing[1].length)) {
+      const name = trailing[2] ? `${trailing[1]} ${trailing[2]}` : trailing[1];
+      candidates.push({ statute: null, name, index: trailing.index });
+    }
+
+    if (candidates.length === 0) return null;
+    const last = candidates.reduce((latest, candidate) => (candidate.index >= latest.index ? candidate : latest));
+    return 'same' in last ? 'same' : last;
+  }
+
+  private sentenceStart(text: string, index: number): number {
+    const boundary = Math.max(
+      text.lastIndexOf('\n', index - 1),
+      text.lastIndexOf('. ', index - 1),
+      text.lastIndexOf('? ', index - 1),
+      text.lastIndexOf('! ', index - 1)
+    );
+    return boundary + 1;
+  }
+}
+
+export const statuteCitationChecker = new StatuteCitationChecker();
+export default StatuteCitationChecker;
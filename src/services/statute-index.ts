@@ -0,0 +1,70 @@
+import statuteData from '../types/koreanStatutes.json';
+import { Statute, StatuteArticle } from '../types/statute';
+
+const LAW_GO_KR_BASE_URL = 'https://www.law.go.kr/법령';
+
+interface StatuteMatch {
+  statute: Statute;
+  index: number;
+  length: number;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+class StatuteIndex {
+  private statutes: Statute[];
+  private articles: Map<string, Map<string, StatuteArticle>> = new Map();
+  private aliasPattern: RegExp;
+  private aliasLookup: Map<string, Statute> = new Map();
+
+  constructor(statutes: Statute[]) {
+    this.statutes = statutes;
+    statutes.forEach(statute => {
+      this.articles.set(statute.id, new Map(statute.articles.map(article => [article.article, article])));
+      statute.aliases.forEach(alias => this.aliasLookup.set(this.normalizeName(alias), statute));
+    });
+
+    // 긴 이름부터 시도해야 '개인정보 보호법'이 다른 별칭에 부분 일치하지 않는다
+    const aliases = Array.from(this.aliasLookup.keys()).sort((a, b) => b.length - a.length);
+    this.aliasPattern = new RegExp(aliases.map(alias => escapeRegExp(alias).split('').join('\\s*')).join('|'), 'g');
+  }
+
+  list(): Statute[] {
+    return this.statutes;
+  }
+
+  findStatute(name: string): Statute | null {
+    return this.aliasLookup.get(this.normalizeName(name)) || null;
+  }
+
+  getArticle(statuteId: string, article: string): StatuteArticle | null {
+    return this.articles.get(statuteId)?.get(article) || null;
+  }
+
+  /**
+   * 텍스트에서 색인된 법령 이름이 나오는 위치를 모두 찾는다.
+   */
+  findMentions(text: string): StatuteMatch[] {
+    const matches: StatuteMatch[] = [];
+    this.aliasPattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = this.aliasPattern.exec(text)) !== null) {
+      const statute = this.findStatute(match[0]);
+      if (statute) matches.push({ statute, index: match.index, length: match[0].length });
+    }
+    return matches;
+  }
+
+  // 국가법령정보센터 조문 바로가기 주소
+  articleUrl(statute: Statute, article: string): string {
+    const [main, branch] = article.split('의');
+    return encodeURI(`${LAW_GO_KR_BASE_URL}/${statute.officialName}/제${main}조${branch ? `의${branch}` : ''}`);
+  }
+
+  private normalizeName(name: string): string {
+    return name.replace(/\s+/g, '');
+  }
+}
+
+export const statuteIndex = new StatuteIndex((statuteData as { statutes: Statute[] }).statutes);
+export default StatuteIndex;
@@ -0,0 +1,410 @@
+import Stripe from 'stripe';
+import { userRepository } from '@/services/user-repository';
+import { invoiceService } from '@/services/invoice-service';
+import { promoCodes, RESERVATION_TTL_MS } from '@/services/promo-code-service';
+import { BillingError } from '@/lib/payment/billing-errors';
+import { isBillingInterval, isPaidPlanId, isPaymentCurrency } from '@/lib/payment/plan-prices';
+import { sendTemplateEmail } from '@/lib/email/send';
+import { generatePaymentFailedEmail } from '@/lib/email/billing-templates';
+import { BillingStatus, CheckoutResult, PaidPlanId } from '@/types/billing';
+import { Invoice } from '@/types/invoice';
+import { CheckoutDiscount } from '@/types/promotion';
+import { PlanId } from '@/types/plan';
+import { BillingInterval, Subscription, SubscriptionUpdate, User } from '@/types/user';
+
+// 정기 결제가 실패한 뒤 기존 플랜을 유지해 주는 기간. 그 사이 Stripe가 결제를 다시 시도한다
+const DUNNING_GRACE_MS = 7 * 24 * 60 * 60 * 1000;
+
+const PLAN_LEVELS: Record<PlanId, number> = { free: 0, basic: 1, pro: 2, enterprise: 3 };
+
+// Stripe 대시보드의 가격 ID. 환경마다 다르므로 환경 변수로 덮어쓴다
+const STRIPE_PRICE_IDS: Record<PaidPlanId, Record<BillingInterval, string>> = {
+  basic: {
+    monthly: process.env.STRIPE_PRICE_BASIC_MONTHLY || 'price_basic_monthly',
+    yearly: process.env.STRIPE_PRICE_BASIC_YEARLY || 'price_basic_yearly'
+  },
+  pro: {
+    monthly: process.env.STRIPE_PRICE_PRO_MONTHLY || 'price_pro_monthly',
+    yearly: process.env.STRIPE_PRICE_PRO_YEARLY || 'price_pro_yearly'
+  },
+  enterprise: {
+    monthly: process.env.STRIPE_PRICE_ENTERPRISE_MONTHLY || 'price_enterprise_monthly',
+    yearly: process.env.STRIPE_PRICE_ENTERPRISE_YEARLY || 'price_enterprise_yearly'
+  }
+};
+
+export function getPlanFromPriceId(priceId: string): { plan: PaidPlanId; interval: BillingInterval } | null {
+  for (const plan of Object.keys(STRIPE_PRICE_IDS) as PaidPlanId[]) {
+    const interval = (Object.keys(STRIPE_PRICE_IDS[plan]) as BillingInterval[])
+      .find(key => STRIPE_PRICE_IDS[plan][key] === priceId);
+    if (interval) return { plan, interval };
+  }
+  return null;
+}
+
+const appUrl = () =>
+  (process.env.NEXTAUTH_URL || process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000').replace(/\/$/, '');
+
+const toIso = (seconds: number | null | undefined) => (seconds ? new Date(seconds * 1000).toISOString() : undefined);
+
+const idOf = (value: string | { id: string } | null | undefined) => (typeof value === 'string' ? value : value?.id || null);
+
+/**
+ * Stripe 정기 구독. 결제 화면과 고객 포털을 만들고, 웹훅으로 받은 구독·청구서 변경을 저장소의 구독에 반영한다.
+ * 플랜이 바뀌는 변경은 플랜 변경 이력을 남긴 뒤 completed로 처리해 current-plan과 엔타이틀먼트가 바로 따라오게 한다.
+ */
+class StripeBillingService {
+  private stripe: Stripe | null = null;
+
+  /**
+   * 구독이 없으면 Stripe 결제 화면을 만들고, 이미 Stripe 구독이 있으면 가격만 바꿔 일할 계산(proration)한다.
+   * 업그레이드는 차액을 바로 청구하고, 다운그레이드는 남은 금액을 다음 청구서에서 차감한다.
+   * 프로모션 할인은 한 번만 쓰는 Stripe 쿠폰으로 다음 청구서(새 구독이면 첫 결제)에 적용한다.
+   */
+  async createCheckout(user: User, plan: unknown, interval: unknown = 'monthly', discount?: CheckoutDiscount): Promise<CheckoutResult> {
+    if (!isPaidPlanId(plan) || !isBillingInterval(interval)) {
+      throw new BillingError('INVALID_PLAN');
+    }
+    const stripe = this.client();
+    const priceId = STRIPE_PRICE_IDS[plan][interval];
+
+    const current = await userRepository.getActiveSubscription(user.id);
+    if (current?.provider === 'stripe' && current.externalId) {
+      if (current.plan === plan && (current.interval || 'monthly') === interval) {
+        throw new BillingError('ALREADY_SUBSCRIBED');
+      }
+
+      const subscription = await stripe.subscriptions.retrieve(current.externalId);
+      const upgrading = PLAN_LEVELS[plan] > PLAN_LEVELS[current.plan];
+      await stripe.subscriptions.update(subscription.id, {
+        items: [{ id: subscription.items.data[0].id, price: priceId }],
+        proration_behavior: upgrading ? 'always_invoice' : 'create_prorations',
+        coupon: discount ? await this.ensureCoupon(discount) : undefined,
+        metadata: { userId: user.id }
+      });
+      // 결제 화면 없이 바로 청구되므로 할인 사용도 바로 확정한다
+      if (discount) {
+        await promoCodes.redeem(discount.redemptionId, subscription.id);
+      }
+      // 실제 플랜 반영은 customer.subscription.updated 웹훅에서 한다
+      return { type: 'updated', plan, interval };
+    }
+
+    const session = await stripe.checkout.sessions.create({
+      mode: 'subscription',
+      customer: await this.ensureCustomer(user),
+      client_reference_id: user.id,
+      line_items: [{ price: priceId, quantity: 1 }],
+      subscription_data: { metadata: { userId: user.id } },
+      discounts: discount ? [{ coupon: await this.ensureCoupon(discount) }] : undefined,
+      metadata: discount ? { promoRedemptionId: discount.redemptionId } : undefined,
+      // 할인 결제 화면은 프로모션 예약과 함께 만료되어야 한다 (풀린 예약으로 결제되지 않도록)
+      expires_at: discount ? Math.floor((Date.now() + RESERVATION_TTL_MS) / 1000) : undefined,
+      success_url: `${appUrl()}/success?session_id={CHECKOUT_SESSION_ID}`,
+      cancel_url: `${appUrl()}/pricing`
+    });
+    if (!session.url) {
+      throw new Error(`Checkout session ${session.id} has no URL`);
+    }
+    return { type: 'checkout', url: session.url };
+  }
+
+  // 결제 수단 변경, 청구서 조회, 해지는 Stripe 고객 포털에서 한다
+  async createPortalSession(user: User, returnPath = '/mypage'): Promise<string> {
+    if (!user.stripeCustomerId) {
+      throw new BillingError('NO_CUSTOMER');
+    }
+    const session = await this.client().billingPortal.sessions.create({
+      customer: user.stripeCustomerId,
+      return_url: `${appUrl()}${returnPath}`
+    });
+    return session.url;
+  }
+
+  async getBillingStatus(user: User): Promise<BillingStatus> {
+    const subscription = await userRepository.getActiveSubscription(user.id);
+    return {
+      plan: subscription ? subscription.plan : 'free',
+      status: subscription ? subscription.status : null,
+      provider: subscription ? subscription.provider : null,
+      interval: subscription?.interval || null,
+      currentPeriodEnd: subscription?.currentPeriodEnd || null,
+      cancelAtPeriodEnd: !!subscription?.cancelAtPeriodEnd,
+      graceUntil: subscription?.graceUntil || null,
+      canManageBilling: !!user.stripeCustomerId
+    };
+  }
+
+  async retrieveCustomerEmail(customerId: string): Promise<string | null> {
+    const customer = await this.client().customers.retrieve(customerId);
+    return customer.deleted ? null : customer.email;
+  }
+
+  /**
+   * 환불. paymentId는 청구서(in_) 또는 결제(pi_) ID이고, amount는 달러 단위다(없으면 전액).
+   * 환불만 하고 구독은 그대로 둔다. 해지는 고객 포털이나 대시보드에서 한다.
+   */
+  async refund(paymentId: string, amount?: number, reason?: string): Promise<Stripe.Refund> {
+    const stripe = this.client();
+    const paymentIntent = paymentId.indexOf('in_') === 0
+      ? idOf((await stripe.invoices.retrieve(paymentId)).payment_intent)
+      : paymentId;
+    if (!paymentIntent) {
+      throw new BillingError('PAYMENT_NOT_FOUND');
+    }
+
+    return stripe.refunds.create({
+      payment_intent: paymentIntent,
+      amount: amount ? Math.round(amount * 100) : undefined,
+      reason: 'requested_by_customer',
+      metadata: reason ? { reason } : undefined
+    });
+  }
+
+  async getInvoice(invoiceId: string): Promise<Stripe.Invoice | null> {
+    try {
+      return await this.client().invoices.retrieve(invoiceId);
+    } catch (error) {
+      if (error instanceof Stripe.errors.StripeInvalidRequestError && error.code === 'resource_missing') return null;
+      throw error;
+    }
+  }
+
+  constructEvent(payload: string | Buffer, signature: string): Stripe.Event {
+    return this.client().webhooks.constructEvent(payload, signature, process.env.STRIPE_WEBHOOK_SECRET || '');
+  }
+
+  async handleCheckoutCompleted(session: Stripe.Checkout.Session): Promise<void> {
+    const subscriptionId = idOf(session.subscription);
+    if (session.mode !== 'subscription' || !subscriptionId) return;
+    await this.syncSubscription(await this.client().subscriptions.retrieve(subscriptionId));
+    if (session.metadata?.promoRedemptionId) {
+      await promoCodes.redeem(session.metadata.promoRedemptionId, subscriptionId);
+    }
+  }
+
+  // 결제하지 않고 만료된 결제 화면의 프로모션 코드 사용을 푼다
+  async handleCheckoutExpired(session: Stripe.Checkout.Session): Promise<void> {
+    if (session.metadata?.promoRedemptionId) {
+      await promoCodes.release(session.metadata.promoRedemptionId);
+    }
+  }
+
+  /**
+   * customer.subscription.created/updated. 가격이 바뀌었으면 플랜을 바꾸고, 상태·주기·좌석 수·해지 예약을 맞춘다.
+   * Stripe가 재시도를 모두 실패해 unpaid/canceled가 되면 무료 플랜으로 내린다.
+   */
+  async syncSubscription(subscription: Stripe.Subscription): Promise<void> {
+    // 첫 결제가 끝나지 않은 구독은 아직 반영하지 않는다
+    if (subscription.status === 'incomplete') return;
+    if (subscription.status === 'canceled' || subscription.status === 'unpaid' || subscription.status === 'incomplete_expired') {
+      await this.handleSubscriptionDeleted(subscription);
+      return;
+    }
+
+    const item = subscription.items.data[0];
+    const mapped = item && getPlanFromPriceId(item.price.id);
+    if (!mapped) {
+      console.error(`Unknown Stripe price for subscription ${subscription.id}:`, item?.price.id);
+      return;
+    }
+
+    const user = await this.findSubscriber(subscription);
+    let local = await userRepository.findSubscriptionByExternalId(subscription.id);
+    if (!local || local.status === 'canceled' || local.plan !== mapped.plan) {
+      const currentPlan = await userRepository.getCurrentPlan(user.id);
+      await this.completePlanChange(user, currentPlan, mapped.plan, subscription.id, 'Stripe subscription updated', {
+        priceId: item.price.id,
+        interval: mapped.interval,
+        status: subscription.status
+      });
+      local = await userRepository.findSubscriptionByExternalId(subscription.id);
+    }
+    if (!local) return;
+
+    const updates: SubscriptionUpdate = {
+      interval: mapped.interval,
+      currentPeriodEnd: toIso(subscription.current_period_end),
+      cancelAtPeriodEnd: subscription.cancel_at_period_end,
+      // 엔터프라이즈는 Stripe 수량을 워크스페이스 좌석 수로 쓴다
+      seats: item.quantity && item.quantity > 1 ? item.quantity : undefined
+    };
+    if (subscription.status === 'past_due') {
+      updates.status = 'past_due';
+      updates.graceUntil = local.graceUntil || new Date(Date.now() + DUNNING_GRACE_MS).toISOString();
+    } else {
+      updates.status = 'active';
+      updates.graceUntil = null;
+    }
+    await userRepository.updateSubscription(local.id, updates);
+  }
+
+  async handleSubscriptionDeleted(subscription: Stripe.Subscription): Promise<void> {
+    const local = await userRepository.findSubscriptionByExternalId(subscription.id);
+    // 이미 해지했거나 다른 구독으로 바뀐 경우 같은 이벤트를 두 번 반영하지 않는다
+    if (!local || local.status === 'canceled') return;
+
+    const user = await userRepository.findUserById(local.userId);
+    if (!user) return;
+    await this.completePlanChange(user, local.plan, 'free', subscription.id, 'Stripe subscription cancelled', {
+      cancelledAt: subscription.canceled_at,
+      cancelReason: subscription.cancellation_details?.reason
+    });
+  }
+
+  /**
+   * invoice.payment_failed. 구독을 past_due로 두고 유예 기간을 시작한다(이미 시작했으면 그대로 둔다).
+   * 유예 기간 동안은 플랜 기능을 그대로 쓰고, 결제 수단을 바꾸라는 메일을 보낸다.
+   */
+  async handleInvoicePaymentFailed(invoice: Stripe.Invoice): Promise<Subscription | null> {
+    const subscriptionId = idOf(invoice.subscription);
+    const local = subscriptionId ? await userRepository.findSubscriptionByExternalId(subscriptionId) : null;
+    if (!local || local.status === 'canceled') return null;
+
+    const graceUntil = local.graceUntil || new Date(Date.now() + DUNNING_GRACE_MS).toISOString();
+    const updated = await userRepository.updateSubscription(local.id, { status: 'past_due', graceUntil });
+
+    const user = await userRepository.findUserById(local.userId);
+    if (user) {
+      const log = await userRepository.createPlanChangeLog({
+        userId: user.id,
+        userEmail: user.email,
+        fromPlan: local.plan,
+        toPlan: local.plan,
+        paymentMethod: 'stripe',
+        paymentId: invoice.id,
+        reason: 'Stripe recurring payment failed',
+        metadata: { invoiceId: invoice.id, subscriptionId, attemptCount: invoice.attempt_count, graceUntil }
+      });
+      await userRepository.updatePlanChangeLog(log.id, { status: 'failed', reason: 'Recurring payment failed' });
+
+      const result = await sendTemplateEmail(generatePaymentFailedEmail(local.plan, graceUntil, `${appUrl()}/mypage`), user.email);
+      if (!result.success) {
+        console.error(`Failed to send dunning email to ${user.email}:`, result.error);
+      }
+    }
+    return updated;
+  }
+
+  /**
+   * 재시도가 성공하면 유예 상태를 풀고, 실제로 돈을 받은 청구서면 우리 청구서를 발행해 돌려준다.
+   * 첫 결제 청구서는 구독 웹훅보다 먼저 올 수 있어 사용자를 구독 메타데이터나 고객 이메일로도 찾는다.
+   */
+  async handleInvoicePaid(invoice: Stripe.Invoice): Promise<Invoice | null> {
+    const subscriptionId = idOf(invoice.subscription);
+    const local = subscriptionId ? await userRepository.findSubscriptionByExternalId(subscriptionId) : null;
+    if (local?.status === 'past_due') {
+      await userRepository.updateSubscription(local.id, { status: 'active', graceUntil: null });
+    }
+    // 0원 청구서(다운그레이드 차감 등)는 발행하지 않는다
+    if (!invoice.amount_paid) return null;
+
+    // 일할 계산 청구서는 줄이 여러 개라 새 가격이 적힌 마지막 줄을 본다
+    const line = invoice.lines.data.filter(item => item.price).pop();
+    const target = line?.price ? getPlanFromPriceId(line.price.id) : null;
+    const userId = local?.userId || invoice.subscription_details?.metadata?.userId;
+    const user = userId
+      ? await userRepository.findUserById(userId)
+      : invoice.customer_email ? await userRepository.findOrCreateUser(invoice.customer_email) : null;
+    if (!target || !user) {
+      console.warn(`Stripe invoice ${invoice.id} paid without a known plan or user; no invoice issued`);
+      return null;
+    }
+
+    const currency = invoice.currency.toUpperCase();
+    return invoiceService.issueForPayment({
+      userId: user.id,
+      provider: 'stripe',
+      paymentId: invoice.id,
+      plan: target.plan,
+      interval: target.interval,
+      currency: isPaymentCurrency(currency) ? currency : 'USD',
+      // 원화는 Stripe에서 소수점 없는 통화라 최소 단위가 곧 원이다
+      totalAmount: currency === 'KRW' ? invoice.amount_paid : invoice.amount_paid / 100,
+      paidAt: toIso(invoice.status_transitions.paid_at) || new Date().toISOString()
+    });
+  }
+
+  private async completePlanChange(
+    user: User,
+    fromPlan: string,
+    toPlan: string,
+    subscriptionId: string,
+    reason: string,
+    metadata: Record<string, unknown>
+  ): Promise<void> {
+    const log = await userRepository.createPlanChangeLog({
+      userId: user.id,
+      userEmail: user.email,
+      fromPlan,
+      toPlan,
+      paymentMethod: 'stripe',
+      paymentId: subscriptionId,
+      reason,
+      metadata: { ...metadata, subscriptionId }
+    });
+    await userRepository.updatePlanChangeLog(log.id, { status: 'completed', completedAt: new Date().toISOString() });
+  }
+
+  // 결제 화면에서 넘긴 userId를 먼저 쓰고, 없으면(대시보드에서 만든 구독 등) 고객 이메일로 찾는다
+  private async findSubscriber(subscription: Stripe.Subscription): Promise<User> {
+    const customerId = idOf(subscription.customer);
+    const byMetadata = subscription.metadata?.userId ? await userRepository.findUserById(subscription.metadata.userId) : null;
+
+    let user = byMetadata;
+    if (!user) {
+      const email = customerId ? await this.retrieveCustomerEmail(customerId) : null;
+      if (!email) {
+        throw new Error(`Stripe customer ${customerId} has no email`);
+      }
+      user = await userRepository.findOrCreateUser(email);
+    }
+
+    if (customerId && user.stripeCustomerId !== customerId) {
+      user = (await userRepository.updateUser(user.id, { stripeCustomerId: customerId })) || user;
+    }
+    return user;
+  }
+
+  // 프로모션 코드마다 한 번만 쓰는 쿠폰 하나를 만들어 재사용한다. 정액 할인은 달러 금액만 쓴다
+  private async ensureCoupon(discount: CheckoutDiscount): Promise<string> {
+    const couponId = `legalai_${discount.promoCodeId}`;
+    try {
+      return (await this.client().coupons.retrieve(couponId)).id;
+    } catch (error) {
+      if (!(error instanceof Stripe.errors.StripeInvalidRequestError && error.code === 'resource_missing')) throw error;
+    }
+
+    const coupon = await this.client().coupons.create({
+      id: couponId,
+      name: discount.code,
+      duration: 'once',
+      ...(discount.discountType === 'percentage'
+        ? { percent_off: discount.percentOff }
+        : { amount_off: Math.round(discount.discountAmount * 100), currency: 'usd' })
+    });
+    return coupon.id;
+  }
+
+  private async ensureCustomer(user: User): Promise<string> {
+    if (user.stripeCustomerId) return user.stripeCustomerId;
+
+    const customer = await this.client().customers.create({ email: user.email, name: user.name, metadata: { userId: user.id } });
+    await userRepository.updateUser(user.id, { stripeCustomerId: customer.id });
+    return customer.id;
+  }
+
+  private client(): Stripe {
+    const secretKey = process.env.STRIPE_SECRET_KEY;
+    if (!secretKey) {
+      throw new BillingError('NOT_CONFIGURED');
+    }
+    if (!this.stripe) {
+      this.stripe = new Stripe(secretKey, { apiVersion: '2023-10-16' });
+    }
+    return this.stripe;
+  }
+}
+
+export const stripeBilling = new StripeBillingService();
+export default StripeBillingService;
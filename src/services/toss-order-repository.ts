@@ -0,0 +1,128 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { TossOrder, TossOrderUpdate } from '@/types/billing';
+
+const PAYMENT_DIR = path.join(process.cwd(), 'data', 'payments');
+const ORDER_FILE = path.join(PAYMENT_DIR, 'toss-orders.json');
+
+/**
+ * Toss 주문 저장소. 결제창을 띄울 때 만든 주문으로 승인 요청과 웹훅의 금액·플랜을 확인한다.
+ */
+export interface TossOrderRepository {
+  createOrder(order: Omit<TossOrder, 'orderId' | 'status' | 'canceledAmount' | 'createdAt' | 'updatedAt'>): Promise<TossOrder>;
+  findOrder(orderId: string): Promise<TossOrder | null>;
+  findOrderByPaymentKey(paymentKey: string): Promise<TossOrder | null>;
+  updateOrder(orderId: string, updates: TossOrderUpdate): Promise<TossOrder | null>;
+  /**
+   * 지금 저장된 주문을 보고 바꿀 내용을 정한다. change가 null을 돌려주면 바꾸지 않고 null을 돌려준다.
+   * 확인과 변경 사이에 다른 요청이 끼어들지 않으므로 승인 응답과 웹훅이 겹쳐도 한쪽만 상태를 바꾼다.
+   */
+  transitionOrder(
+    orderId: string,
+    change: (current: TossOrder) => TossOrderUpdate | null
+  ): Promise<{ previous: TossOrder; order: TossOrder } | null>;
+}
+
+/**
+ * 로컬 개발용 파일 저장소. data/payments/toss-orders.json 하나에 저장하고, 처음 접근할 때 전부 메모리로 읽어온다.
+ */
+class FileTossOrderRepository implements TossOrderRepository {
+  private orders: Map<string, TossOrder> = new Map();
+  private loading: Promise<void> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  async createOrder(input: Omit<TossOrder, 'orderId' | 'status' | 'canceledAmount' | 'createdAt' | 'updatedAt'>): Promise<TossOrder> {
+    await this.ensureLoaded();
+
+    const now = new Date().toISOString();
+    const order: TossOrder = {
+      ...input,
+      orderId: this.generateOrderId(),
+      status: 'pending',
+      canceledAmount: 0,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.orders.set(order.orderId, order);
+    await this.persist();
+    return order;
+  }
+
+  async findOrder(orderId: string): Promise<TossOrder | null> {
+    await this.ensureLoaded();
+    return this.orders.get(orderId) || null;
+  }
+
+  async findOrderByPaymentKey(paymentKey: string): Promise<TossOrder | null> {
+    await this.ensureLoaded();
+    return Array.from(this.orders.values()).find(order => order.paymentKey === paymentKey) || null;
+  }
+
+  async updateOrder(orderId: string, updates: TossOrderUpdate): Promise<TossOrder | null> {
+    await this.ensureLoaded();
+
+    const existing = this.orders.get(orderId);
+    if (!existing) return null;
+
+    const order: TossOrder = { ...existing, ...updates, updatedAt: new Date().toISOString() };
+    this.orders.set(orderId, order);
+    await this.persist();
+    return order;
+  }
+
+  async transitionOrder(
+    orderId: string,
+    change: (current: TossOrder) => TossOrderUpdate | null
+  ): Promise<{ previous: TossOrder; order: TossOrder } | null> {
+    await this.ensureLoaded();
+
+    const previous = this.orders.get(orderId);
+    if (!previous) return null;
+    const updates = change(previous);
+    if (!updates) return null;
+
+    const order: TossOrder = { ...previous, ...updates, updatedAt: new Date().toISOString() };
+    this.orders.set(orderId, order);
+    await this.persist();
+    return { previous, order };
+  }
+
+  private async ensureLoaded(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.load();
+    }
+    return this.loading;
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const orders = JSON.parse(await fs.readFile(ORDER_FILE, 'utf-8')) as TossOrder[];
+      orders.forEach(order => this.orders.set(order.orderId, order));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Failed to load Toss orders:', error);
+      }
+    }
+  }
+
+  private async persist(): Promise<void> {
+    const content = JSON.stringify(Array.from(this.orders.values()), null, 2);
+
+    // 웹훅과 승인 요청이 동시에 들어와도 파일 쓰기가 서로 덮어쓰지 않도록 순서대로 쓴다
+    this.writing = this.writing
+      .then(async () => {
+        await fs.mkdir(PAYMENT_DIR, { recursive: true });
+        await fs.writeFile(ORDER_FILE, content, 'utf-8');
+      })
+      .catch(error => console.error('Failed to save Toss orders:', error));
+    await this.writing;
+  }
+
+  // Toss 주문번호는 영문·숫자·-_ 6~64자여야 한다
+  private generateOrderId(): string {
+    return `order_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
+
+export const tossOrderRepository: TossOrderRepository = new FileTossOrderRepository();
+export default FileTossOrderRepository;
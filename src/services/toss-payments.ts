@@ -0,0 +1,431 @@
+import crypto from 'crypto';
+import { userRepository } from '@/services/user-repository';
+import { tossOrderRepository } from '@/services/toss-order-repository';
+import { invoiceService } from '@/services/invoice-service';
+import { promoCodes, RESERVATION_TTL_MS } from '@/services/promo-code-service';
+import { isBillingInterval, isPaidPlanId, PLAN_PRICES } from '@/lib/payment/plan-prices';
+import { BILLING_ERROR_MESSAGES, BillingError } from '@/lib/payment/billing-errors';
+import {
+  PaidPlanId,
+  TossCheckoutInfo,
+  TossConfirmResult,
+  TossOrder,
+  TossOrderUpdate,
+  TossPayment
+} from '@/types/billing';
+import { CheckoutDiscount } from '@/types/promotion';
+import { BillingInterval, PlanChangeLog, User } from '@/types/user';
+
+const TOSS_API_URL = 'https://api.tosspayments.com/v1';
+
+// 웹훅 전송 시각이 이보다 오래되었으면 재전송(replay)으로 보고 거절한다
+const WEBHOOK_TOLERANCE_MS = 5 * 60 * 1000;
+
+// 결제창을 띄운 뒤 이 시간이 지난 주문은 승인하지 않는다. 할인 주문이 코드 만료·한도 반환 뒤에도 결제되지 않도록 프로모션 예약과 맞춘다
+const ORDER_TTL_MS = RESERVATION_TTL_MS;
+
+const PLAN_LABELS: Record<PaidPlanId, string> = { basic: 'Basic', pro: 'Pro', enterprise: 'Enterprise' };
+
+const appUrl = () =>
+  (process.env.NEXTAUTH_URL || process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000').replace(/\/$/, '');
+
+function addInterval(from: Date, interval: BillingInterval): string {
+  const end = new Date(from.getTime());
+  if (interval === 'yearly') {
+    end.setFullYear(end.getFullYear() + 1);
+  } else {
+    end.setMonth(end.getMonth() + 1);
+  }
+  return end.toISOString();
+}
+
+function safeEqual(a: Buffer, b: Buffer): boolean {
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+/**
+ * Toss Payments 단건 결제. 결제창을 띄우기 전에 주문(플랜·주기·금액)을 저장해 두고,
+ * 클라이언트 승인 뒤 confirm API를 호출하거나 웹훅을 받으면 그 주문을 기준으로 플랜 변경 이력을 남긴다.
+ * 구독은 자동 갱신되지 않고 결제한 기간(currentPeriodEnd)만큼 이어진다.
+ */
+class TossPaymentsService {
+  async createOrder(user: User, plan: unknown, interval: unknown = 'monthly', discount?: CheckoutDiscount): Promise<TossCheckoutInfo> {
+    if (!isPaidPlanId(plan) || !isBillingInterval(interval)) {
+      throw new BillingError('INVALID_PLAN');
+    }
+    const clientKey = process.env.NEXT_PUBLIC_TOSS_CLIENT_KEY;
+    if (!clientKey || !process.env.TOSS_SECRET_KEY) {
+      throw new BillingError('NOT_CONFIGURED');
+    }
+
+    const order = await tossOrderRepository.createOrder({
+      userId: user.id,
+      plan,
+      interval,
+      amount: discount ? discount.finalAmount : PLAN_PRICES.KRW[plan][interval],
+      promoRedemptionId: discount?.redemptionId,
+      orderName: `LegalAI ${PLAN_LABELS[plan]} 플랜 (${interval === 'yearly' ? '연간' : '월간'})`
+    });
+    return {
+      clientKey,
+      orderId: order.orderId,
+      orderName: order.orderName,
+      amount: order.amount,
+      customerEmail: user.email,
+      customerName: user.name,
+      // Toss가 paymentKey·orderId·amount를 쿼리로 붙여 돌려보낸다
+      successUrl: `${appUrl()}/success?provider=toss`,
+      failUrl: `${appUrl()}/cancel`
+    };
+  }
+
+  /**
+   * 결제창 인증이 끝난 뒤 클라이언트가 넘긴 값으로 결제를 승인한다.
+   * 금액은 클라이언트가 바꿀 수 있으므로 저장한 주문 금액과 다르면 승인하지 않는다.
+   */
+  async confirmPayment(user: User, paymentKey: unknown, orderId: unknown, amount: unknown): Promise<TossConfirmResult> {
+    if (typeof paymentKey !== 'string' || !paymentKey || typeof orderId !== 'string') {
+      throw new BillingError('ORDER_NOT_FOUND');
+    }
+    const order = await tossOrderRepository.findOrder(orderId);
+    if (!order || order.userId !== user.id) {
+      throw new BillingError('ORDER_NOT_FOUND');
+    }
+    if (Number(amount) !== order.amount) {
+      throw new BillingError('AMOUNT_MISMATCH');
+    }
+
+    // 성공 페이지를 새로고침해 같은 승인이 다시 들어온 경우
+    if (order.status !== 'pending') {
+      if (order.paymentKey !== paymentKey) {
+        throw new BillingError('ORDER_NOT_FOUND');
+      }
+      return this.toConfirmResult(order);
+    }
+    if (!(await this.isPayable(order))) {
+      throw new BillingError('ORDER_EXPIRED');
+    }
+
+    const payment = await this.request<TossPayment>('POST', '/payments/confirm', { paymentKey, orderId, amount: order.amount }, orderId);
+    return this.toConfirmResult(await this.applyPayment(order, payment));
+  }
+
+  /**
+   * tosspayments-webhook-signature 헤더("v1:<base64>,v1:<base64>")를 확인한다.
+   * 서명 대상은 `${본문}:${전송 시각}`이고 키는 개발자센터의 웹훅 보안 키다.
+   */
+  verifyWebhookSignature(payload: string, signature: string | undefined, transmissionTime: string | undefined): boolean {
+    const secret = process.env.TOSS_WEBHOOK_SECRET;
+    if (!secret) {
+      throw new BillingError('NOT_CONFIGURED');
+    }
+    if (!signature || !transmissionTime) return false;
+
+    const sentAt = Date.parse(transmissionTime);
+    if (isNaN(sentAt) || Math.abs(Date.now() - sentAt) > WEBHOOK_TOLERANCE_MS) return false;
+
+    const expected = crypto.createHmac('sha256', secret).update(`${payload}:${transmissionTime}`).digest();
+    return signature.split(',').some(part => {
+      const [version, value] = part.trim().split(':');
+      return version === 'v1' && !!value && safeEqual(Buffer.from(value, 'base64'), expected);
+    });
+  }
+
+  // PAYMENT_STATUS_CHANGED. 이 서비스에서 만든 주문이 아니면 무시한다
+  async handlePaymentStatusChanged(payment: TossPayment): Promise<TossOrder | null> {
+    const order = await tossOrderRepository.findOrder(payment.orderId);
+    if (!order) {
+      console.warn(`Unknown Toss order ${payment.orderId}`);
+      return null;
+    }
+    if (payment.totalAmount !== order.amount || (order.paymentKey && order.paymentKey !== payment.paymentKey)) {
+      console.error(`Toss payment ${payment.paymentKey} does not match order ${order.orderId}`);
+      return null;
+    }
+    if ((payment.status === 'DONE' || payment.status === 'WAITING_FOR_DEPOSIT') && !(await this.isPayable(order))) {
+      console.error(`Toss payment ${payment.paymentKey} arrived for expired order ${order.orderId}`);
+      return null;
+    }
+    return this.applyPayment(order, payment);
+  }
+
+  // DEPOSIT_CALLBACK에는 서명이 없어 가상계좌 발급 때 저장한 secret과 같을 때만 믿는다
+  async verifyDepositCallback(orderId: unknown, secret: unknown): Promise<boolean> {
+    if (typeof orderId !== 'string' || typeof secret !== 'string' || !secret) return false;
+    const order = await tossOrderRepository.findOrder(orderId);
+    return !!order && !!order.secret && safeEqual(Buffer.from(secret), Buffer.from(order.secret));
+  }
+
+  // 입금·입금 취소. 콜백 내용 대신 Toss에서 결제를 다시 조회해 반영한다
+  async handleDepositCallback(orderId: string): Promise<TossOrder | null> {
+    const order = await tossOrderRepository.findOrder(orderId);
+    if (!order) return null;
+
+    const payment = await this.request<TossPayment>('GET', `/payments/orders/${encodeURIComponent(orderId)}`);
+    return this.applyPayment(order, payment);
+  }
+
+  /**
+   * 결제 취소(환불). amount가 없으면 남은 금액 전부를 취소한다.
+   * 결과는 웹훅을 기다리지 않고 바로 주문과 플랜 변경 이력에 반영한다(같은 웹훅이 와도 다시 반영되지 않는다).
+   */
+  async refund(paymentKey: string, amount?: number, reason?: string): Promise<{ order: TossOrder; payment: TossPayment }> {
+    const order = await tossOrderRepository.findOrderByPaymentKey(paymentKey);
+    if (!order) {
+      throw new BillingError('PAYMENT_NOT_FOUND');
+    }
+
+    const payment = await this.request<TossPayment>('POST', `/payments/${encodeURIComponent(paymentKey)}/cancel`, {
+      cancelReason: reason || '고객 요청',
+      cancelAmount: amount
+    });
+    return { order: await this.applyPayment(order, payment), payment };
+  }
+
+  // 이 서비스에서 만든 주문의 결제만 조회한다
+  async getPayment(paymentKey: string): Promise<{ order: TossOrder; payment: TossPayment } | null> {
+    const order = await tossOrderRepository.findOrderByPaymentKey(paymentKey);
+    if (!order) return null;
+
+    const payment = await this.request<TossPayment>('GET', `/payments/${encodeURIComponent(paymentKey)}`);
+    return { order, payment };
+  }
+
+  private async applyPayment(order: TossOrder, payment: TossPayment): Promise<TossOrder> {
+    const user = await userRepository.findUserById(order.userId);
+    if (!user) {
+      throw new Error(`User ${order.userId} for Toss order ${order.orderId} not found`);
+    }
+    const base: TossOrderUpdate = { paymentKey: payment.paymentKey, method: payment.method };
+
+    switch (payment.status) {
+      case 'DONE': {
+        // 같은 결제의 승인 응답과 웹훅이 모두 들어와도 주문 상태를 먼저 바꾼 쪽만 반영한다
+        const claimed = await tossOrderRepository.transitionOrder(order.orderId, current =>
+          current.status === 'paid' || current.status === 'partial_canceled' || current.status === 'canceled'
+            ? null
+            : { ...base, status: 'paid', approvedAt: payment.approvedAt || new Date().toISOString() }
+        );
+        if (!claimed) return this.currentOrder(order);
+
+        const log = await this.ensurePlanChangeLog(claimed.previous, user, payment, 'Toss payment succeeded');
+        await userRepository.updatePlanChangeLog(log.id, {
+          status: 'completed',
+          completedAt: new Date().toISOString(),
+          metadata: { ...log.metadata, approvedAt: payment.approvedAt, receiptUrl: payment.receipt?.url }
+        });
+        await this.extendSubscription(order, payment.paymentKey);
+        await invoiceService.issueForPayment({
+          userId: user.id,
+          provider: 'toss',
+          paymentId: payment.paymentKey,
+          planChangeLogId: log.id,
+          plan: order.plan,
+          interval: order.interval,
+          currency: 'KRW',
+          totalAmount: payment.totalAmount,
+          paidAt: payment.approvedAt || new Date().toISOString()
+        });
+        if (order.promoRedemptionId) {
+          await promoCodes.redeem(order.promoRedemptionId, payment.paymentKey);
+        }
+        return this.updateOrder(claimed.order, { planChangeLogId: log.id });
+      }
+
+      case 'WAITING_FOR_DEPOSIT': {
+        const claimed = await tossOrderRepository.transitionOrder(order.orderId, current =>
+          current.status === 'pending'
+            ? {
+              ...base,
+              status: 'waiting_for_deposit',
+              virtualAccount: payment.virtualAccount || undefined,
+              secret: payment.secret || undefined
+            }
+            : null
+        );
+        if (!claimed) return this.currentOrder(order);
+
+        // 입금 전까지는 pending 이력만 남기고 플랜은 바꾸지 않는다
+        const log = await this.ensurePlanChangeLog(claimed.previous, user, payment, 'Toss virtual account issued');
+        return this.updateOrder(claimed.order, { planChangeLogId: log.id });
+      }
+
+      case 'PARTIAL_CANCELED':
+      case 'CANCELED':
+        return this.applyCancel(order, user, payment, base);
+
+      case 'ABORTED':
+      case 'EXPIRED': {
+        const claimed = await tossOrderRepository.transitionOrder(order.orderId, current =>
+          current.status === 'pending' || current.status === 'waiting_for_deposit' ? { ...base, status: 'failed' } : null
+        );
+        if (!claimed) return this.currentOrder(order);
+
+        const log = await this.ensurePlanChangeLog(claimed.previous, user, payment, `Toss payment ${payment.status.toLowerCase()}`);
+        await userRepository.updatePlanChangeLog(log.id, {
+          status: 'failed',
+          reason: payment.failure?.message || `Payment ${payment.status.toLowerCase()}`
+        });
+        if (order.promoRedemptionId) {
+          await promoCodes.release(order.promoRedemptionId);
+        }
+        return this.updateOrder(claimed.order, { planChangeLogId: log.id });
+      }
+
+      default:
+        return order;
+    }
+  }
+
+  /**
+   * 취소·환불. 입금 전 가상계좌 취소는 pending 이력을 cancelled로 닫는다.
+   * 결제가 끝난 주문은 원래 이력에 환불 내역을 남기고, 전액 취소면 그 결제로 받은 플랜을 무료로 되돌린다.
+   */
+  private async applyCancel(order: TossOrder, user: User, payment: TossPayment, base: TossOrderUpdate): Promise<TossOrder> {
+    const canceledAmount = (payment.cancels || []).reduce((sum, cancel) => sum + cancel.cancelAmount, 0);
+    const fullyCanceled = payment.status === 'CANCELED';
+    const status = fullyCanceled ? 'canceled' : 'partial_canceled';
+    const claimed = await tossOrderRepository.transitionOrder(order.orderId, current => {
+      if (current.status === 'canceled' || (current.status === status && current.canceledAmount === canceledAmount)) return null;
+      const beforeDeposit = current.status === 'pending' || current.status === 'waiting_for_deposit';
+      return { ...base, status: beforeDeposit ? 'canceled' : status, canceledAmount };
+    });
+    if (!claimed) return this.currentOrder(order);
+
+    const { previous } = claimed;
+    const log = await this.ensurePlanChangeLog(previous, user, payment, 'Toss payment cancelled');
+    if (previous.status === 'pending' || previous.status === 'waiting_for_deposit') {
+      await userRepository.updatePlanChangeLog(log.id, { status: 'cancelled', reason: 'Payment cancelled before deposit' });
+      if (order.promoRedemptionId) {
+        await promoCodes.release(order.promoRedemptionId);
+      }
+      return this.updateOrder(claimed.order, { planChangeLogId: log.id });
+    }
+
+    await userRepository.updatePlanChangeLog(log.id, {
+      metadata: {
+        ...log.metadata,
+        canceledAmount,
+        balanceAmount: payment.balanceAmount,
+        cancels: payment.cancels
+      }
+    });
+
+    if (fullyCanceled) {
+      const subscription = await userRepository.findSubscriptionByExternalId(payment.paymentKey);
+      // 그 뒤 다른 결제로 갱신·변경된 구독은 건드리지 않는다
+      if (subscription && subscription.status !== 'canceled') {
+        const revoke = await userRepository.createPlanChangeLog({
+          userId: user.id,
+          userEmail: user.email,
+          fromPlan: subscription.plan,
+          toPlan: 'free',
+          paymentMethod: 'toss',
+          paymentId: payment.paymentKey,
+          reason: 'Toss payment refunded',
+          metadata: { orderId: order.orderId, canceledAmount, currency: payment.currency }
+        });
+        await userRepository.updatePlanChangeLog(revoke.id, { status: 'completed', completedAt: new Date().toISOString() });
+      }
+    }
+    return claimed.order;
+  }
+
+  // 주문마다 이력은 하나. 가상계좌 발급 때 만든 pending 이력을 입금·만료·취소 때 이어서 쓴다
+  private async ensurePlanChangeLog(order: TossOrder, user: User, payment: TossPayment, reason: string): Promise<PlanChangeLog> {
+    if (order.planChangeLogId) {
+      const existing = (await userRepository.listPlanChangeLogs(user.id)).find(log => log.id === order.planChangeLogId);
+      if (existing) return existing;
+    }
+
+    return userRepository.createPlanChangeLog({
+      userId: user.id,
+      userEmail: user.email,
+      fromPlan: await userRepository.getCurrentPlan(user.id),
+      toPlan: order.plan,
+      paymentMethod: 'toss',
+      paymentId: payment.paymentKey,
+      reason,
+      metadata: {
+        orderId: order.orderId,
+        amount: order.amount,
+        currency: payment.currency || 'KRW',
+        interval: order.interval,
+        method: payment.method,
+        orderName: order.orderName
+      }
+    });
+  }
+
+  // 같은 플랜을 다시 결제하면 남은 기간 뒤로 이어 붙인다
+  private async extendSubscription(order: TossOrder, paymentKey: string): Promise<void> {
+    const subscription = await userRepository.findSubscriptionByExternalId(paymentKey);
+    if (!subscription || subscription.status === 'canceled') return;
+
+    const now = new Date();
+    const currentEnd = subscription.currentPeriodEnd ? new Date(subscription.currentPeriodEnd) : now;
+    await userRepository.updateSubscription(subscription.id, {
+      interval: order.interval,
+      currentPeriodEnd: addInterval(currentEnd > now ? currentEnd : now, order.interval),
+      cancelAtPeriodEnd: false
+    });
+  }
+
+  // 아직 승인 전인 주문은 만들어진 지 ORDER_TTL_MS 안이고, 할인 주문이면 잡아 둔 프로모션 사용이 살아 있어야 결제할 수 있다
+  private async isPayable(order: TossOrder): Promise<boolean> {
+    if (order.status !== 'pending') return true;
+    if (Date.now() - new Date(order.createdAt).getTime() >= ORDER_TTL_MS) return false;
+    return !order.promoRedemptionId || promoCodes.isReserved(order.promoRedemptionId);
+  }
+
+  // 다른 요청이 먼저 반영한 경우 그 결과를 돌려준다
+  private async currentOrder(order: TossOrder): Promise<TossOrder> {
+    return (await tossOrderRepository.findOrder(order.orderId)) || order;
+  }
+
+  private async updateOrder(order: TossOrder, updates: TossOrderUpdate): Promise<TossOrder> {
+    return (await tossOrderRepository.updateOrder(order.orderId, updates)) || order;
+  }
+
+  private toConfirmResult(order: TossOrder): TossConfirmResult {
+    return {
+      orderId: order.orderId,
+      plan: order.plan,
+      interval: order.interval,
+      amount: order.amount,
+      status: order.status,
+      virtualAccount: order.virtualAccount
+    };
+  }
+
+  private async request<T>(method: 'GET' | 'POST', path: string, body?: unknown, idempotencyKey?: string): Promise<T> {
+    const secretKey = process.env.TOSS_SECRET_KEY;
+    if (!secretKey) {
+      throw new BillingError('NOT_CONFIGURED');
+    }
+
+    const headers: Record<string, string> = {
+      'Authorization': `Basic ${Buffer.from(`${secretKey}:`).toString('base64')}`,
+      'Content-Type': 'application/json'
+    };
+    // 네트워크 오류로 승인을 다시 보내도 두 번 결제되지 않는다
+    if (idempotencyKey) {
+      headers['Idempotency-Key'] = idempotencyKey;
+    }
+
+    const response = await fetch(`${TOSS_API_URL}${path}`, {
+      method,
+      headers,
+      body: body ? JSON.stringify(body) : undefined
+    });
+    const result = await response.json();
+    if (!response.ok) {
+      console.error(`Toss API error ${response.status} ${path}:`, result?.code, result?.message);
+      throw new BillingError('PAYMENT_REJECTED', result?.message || BILLING_ERROR_MESSAGES.PAYMENT_REJECTED);
+    }
+    return result as T;
+  }
+}
+
+export const tossPayments = new TossPaymentsService();
+export default TossPaymentsService;
@@ -0,0 +1,200 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { aiProviders, AIRequestEvent } from '@/services/ai-provider-registry';
+import { getPlanFeatures, resolveUserPlan } from '@/services/user-plan';
+import { estimateCost } from '@/lib/ai/providers/pricing';
+import {
+  QuotaCheckResult,
+  QuotaExceededReason,
+  UsageBreakdown,
+  UsageQuota,
+  UsageRecord,
+  UsageSummary
+} from '@/types/usage';
+
+const USAGE_DIR = path.join(process.cwd(), 'data', 'ai-usage');
+
+export const QUOTA_EXCEEDED_MESSAGES: Record<QuotaExceededReason, string> = {
+  queries: '이번 달 AI 질의 한도를 모두 사용했습니다. 요금제를 업그레이드하면 계속 이용할 수 있습니다.',
+  tokens: '이번 달 AI 토큰 한도를 모두 사용했습니다. 요금제를 업그레이드하면 계속 이용할 수 있습니다.'
+};
+
+// 사용량은 UTC 기준 달력 월 단위로 집계한다
+const toMonthKey = (date: Date) => date.toISOString().slice(0, 7);
+
+const emptyBreakdown = (): UsageBreakdown => ({
+  requests: 0,
+  inputTokens: 0,
+  outputTokens: 0,
+  totalTokens: 0,
+  cost: 0
+});
+
+const addToBreakdown = (breakdown: UsageBreakdown, record: UsageRecord) => {
+  breakdown.requests++;
+  breakdown.inputTokens += record.inputTokens;
+  breakdown.outputTokens += record.outputTokens;
+  breakdown.totalTokens += record.totalTokens;
+  breakdown.cost += record.cost;
+};
+
+const toQuota = (used: number, limit: number): UsageQuota => ({
+  used,
+  limit,
+  remaining: limit < 0 ? -1 : Math.max(0, limit - used)
+});
+
+const roundCost = (cost: number) => Math.round(cost * 10000) / 10000;
+
+const roundBreakdownCosts = (group: Partial<Record<string, UsageBreakdown>>) => {
+  Object.keys(group).forEach(key => {
+    const breakdown = group[key];
+    if (breakdown) breakdown.cost = roundCost(breakdown.cost);
+  });
+};
+
+/**
+ * 사용자별 AI 사용량 미터. 레지스트리 호출 중 usage 컨텍스트가 있는 성공 호출을 기록하고,
+ * 월별 JSONL 파일(data/ai-usage/YYYY-MM.jsonl)에 이어 쓴다.
+ */
+class UsageMeter {
+  private months: Map<string, Promise<UsageRecord[]>> = new Map();
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor() {
+    aiProviders.onRequest(event => this.handleRequest(event));
+  }
+
+  async getSummary(userId: string, month: string = toMonthKey(new Date())): Promise<UsageSummary> {
+    const [records, userPlan] = await Promise.all([this.loadMonth(month), resolveUserPlan(userId)]);
+    const features = getPlanFeatures(userPlan.plan);
+
+    const total = emptyBreakdown();
+    let queries = 0;
+    const byProvider: UsageSummary['byProvider'] = {};
+    const byFeature: UsageSummary['byFeature'] = {};
+
+    records
+      .filter(record => record.userId === userId)
+      .forEach(record => {
+        addToBreakdown(total, record);
+        if (record.countsAsQuery) queries++;
+        addToBreakdown(byProvider[record.provider] || (byProvider[record.provider] = emptyBreakdown()), record);
+        addToBreakdown(byFeature[record.feature] || (byFeature[record.feature] = emptyBreakdown()), record);
+      });
+
+    roundBreakdownCosts(byProvider);
+    roundBreakdownCosts(byFeature);
+
+    const start = new Date(`${month}-01T00:00:00.000Z`);
+    const end = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1));
+
+    return {
+      userId,
+      plan: userPlan.plan,
+      period: { month, start: start.toISOString(), end: end.toISOString() },
+      queries: toQuota(queries, features.monthlyQueries),
+      tokens: {
+        ...toQuota(total.totalTokens, features.monthlyTokens),
+        input: total.inputTokens,
+        output: total.outputTokens
+      },
+      cost: roundCost(total.cost),
+      byProvider,
+      byFeature
+    };
+  }
+
+  /**
+   * AI를 호출하기 전에 이번 달 질의 수와 토큰 한도가 남았는지 확인한다.
+   */
+  async checkQuota(userId: string): Promise<QuotaCheckResult> {
+    const summary = await this.getSummary(userId);
+
+    if (summary.queries.limit >= 0 && summary.queries.used >= summary.queries.limit) {
+      return { allowed: false, reason: 'queries', summary };
+    }
+    if (summary.tokens.limit >= 0 && summary.tokens.used >= summary.tokens.limit) {
+      return { allowed: false, reason: 'tokens', summary };
+    }
+    return { allowed: true, summary };
+  }
+
+  async record(input: Omit<UsageRecord, 'id' | 'createdAt'>): Promise<UsageRecord> {
+    const record: UsageRecord = {
+      ...input,
+      id: `usage_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      createdAt: new Date().toISOString()
+    };
+
+    const month = toMonthKey(new Date(record.createdAt));
+    (await this.loadMonth(month)).push(record);
+
+    // 동시에 들어온 기록이 한 줄씩 온전히 쓰이도록 순서대로 이어 쓴다
+    this.writing = this.writing
+      .then(async () => {
+        await fs.mkdir(USAGE_DIR, { recursive: true });
+        await fs.appendFile(this.filePath(month), `${JSON.stringify(record)}\n`, 'utf-8');
+      })
+      .catch(error => console.error(`Failed to save usage record ${record.id}:`, error));
+    await this.writing;
+
+    return record;
+  }
+
+  // 끝까지 받은 응답과, 출력이 나간 뒤 클라이언트가 끊은 스트림을 센다 (끝나기 직전에 끊어 한도를 피하지 못하게)
+  private handleRequest(event: AIRequestEvent): void {
+    const { usage } = event;
+    const output = event.success ? event.result : event.partial;
+    if (!output || !usage) return;
+
+    this.record({
+      userId: usage.userId,
+      provider: event.provider,
+      model: output.model,
+      feature: usage.feature,
+      countsAsQuery: usage.countsAsQuery !== false,
+      inputTokens: output.usage.inputTokens,
+      outputTokens: output.usage.outputTokens,
+      totalTokens: output.usage.totalTokens,
+      cost: estimateCost(event.provider, output.usage)
+    }).catch(error => console.error('Failed to record AI usage:', error));
+  }
+
+  private loadMonth(month: string): Promise<UsageRecord[]> {
+    let records = this.months.get(month);
+    if (!records) {
+      records = this.readMonth(month);
+      this.months.set(month, records);
+    }
+    return records;
+  }
+
+  private async readMonth(month: string): Promise<UsageRecord[]> {
+    try {
+      const content = await fs.readFile(this.filePath(month), 'utf-8');
+      const records: UsageRecord[] = [];
+      content.split('\n').filter(line => line.trim()).forEach(line => {
+        try {
+          records.push(JSON.parse(line) as UsageRecord);
+        } catch (error) {
+          // 쓰다 끊긴 마지막 줄 하나 때문에 한 달 기록을 잃지 않도록 건너뛴다
+          console.error(`Skipping malformed usage record in ${month}:`, error);
+        }
+      });
+      return records;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Failed to load usage for ${month}:`, error);
+      }
+      return [];
+    }
+  }
+
+  private filePath(month: string): string {
+    return path.join(USAGE_DIR, `${month.replace(/[^0-9-]/g, '')}.jsonl`);
+  }
+}
+
+export const usageMeter = new UsageMeter();
+export default UsageMeter;
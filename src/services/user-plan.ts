@@ -0,0 +1,76 @@
+import { userRepository } from '@/services/user-repository';
+import { PlanFeatures, PlanId, UserPlan } from '@/types/plan';
+
+// 낮은 플랜부터 높은 플랜 순서
+export const PLAN_ORDER: PlanId[] = ['free', 'basic', 'pro', 'enterprise'];
+
+export const PLAN_FEATURES: Record<PlanId, PlanFeatures> = {
+  free: {
+    monthlyQueries: 100,
+    monthlyTokens: 200000,
+    fileUploads: 5,
+    advancedAnalysis: false,
+    contractGeneration: false,
+    prioritySupport: false,
+    apiAccess: false,
+    teamWorkspace: false,
+    teamSeats: 1
+  },
+  basic: {
+    monthlyQueries: 1000,
+    monthlyTokens: 2000000,
+    fileUploads: 50,
+    advancedAnalysis: true,
+    contractGeneration: true,
+    prioritySupport: false,
+    apiAccess: false,
+    teamWorkspace: false,
+    teamSeats: 1
+  },
+  pro: {
+    monthlyQueries: 10000,
+    monthlyTokens: 20000000,
+    fileUploads: 500,
+    advancedAnalysis: true,
+    contractGeneration: true,
+    prioritySupport: true,
+    apiAccess: true,
+    teamWorkspace: false,
+    teamSeats: 1
+  },
+  enterprise: {
+    monthlyQueries: -1, // unlimited
+    monthlyTokens: -1,
+    fileUploads: -1,    // unlimited
+    advancedAnalysis: true,
+    contractGeneration: true,
+    prioritySupport: true,
+    apiAccess: true,
+    teamWorkspace: true,
+    teamSeats: 10
+  }
+};
+
+const isPlanId = (plan: string): plan is PlanId => plan in PLAN_FEATURES;
+
+export function getPlanFeatures(plan: string): PlanFeatures {
+  return isPlanId(plan) ? PLAN_FEATURES[plan] : PLAN_FEATURES.free;
+}
+
+/**
+ * 이메일로 사용자의 현재 플랜을 찾는다. 활성 구독이 없으면 무료 플랜이다.
+ */
+export async function resolveUserPlan(email: string): Promise<UserPlan> {
+  const user = await userRepository.findUserByEmail(email);
+  if (!user) {
+    return { userId: 'new_user', plan: 'free', subscriptionId: null, isNewUser: true };
+  }
+
+  const subscription = await userRepository.getActiveSubscription(user.id);
+  return {
+    userId: user.id,
+    plan: subscription ? subscription.plan : 'free',
+    subscriptionId: subscription ? subscription.externalId || subscription.id : null,
+    isNewUser: false
+  };
+}
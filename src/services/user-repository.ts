@@ -0,0 +1,425 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { PlanId } from '@/types/plan';
+import {
+  AuthToken,
+  AuthTokenType,
+  CreatePlanChangeLogInput,
+  PlanChangeLog,
+  PlanChangeLogUpdate,
+  PaymentMethod,
+  PlanChangeType,
+  Subscription,
+  SubscriptionUpdate,
+  User,
+  UserRole,
+  UserUpdate
+} from '@/types/user';
+
+const ACCOUNT_DIR = path.join(process.cwd(), 'data', 'accounts');
+
+const PLAN_LEVELS: Record<PlanId, number> = { free: 0, basic: 1, pro: 2, enterprise: 3 };
+const PLAN_PRICES: Record<PlanId, number> = { free: 0, basic: 29, pro: 99, enterprise: 299 };
+
+const isPlanId = (plan: string): plan is PlanId => plan in PLAN_LEVELS;
+const levelOf = (plan: string) => (isPlanId(plan) ? PLAN_LEVELS[plan] : 0);
+const priceOf = (plan: string) => (isPlanId(plan) ? PLAN_PRICES[plan] : 0);
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+function determineChangeType(fromPlan: string, toPlan: string): PlanChangeType {
+  if (toPlan === 'free' && fromPlan !== 'free') return 'cancellation';
+  if (fromPlan === 'free' && toPlan !== 'free') return 'reactivation';
+  return levelOf(toPlan) < levelOf(fromPlan) ? 'downgrade' : 'upgrade';
+}
+
+// 저장소 파일이 없을 때 한 번만 넣는 개발용 테스트 계정.
+// 비밀번호 없는 super_admin이 들어 있으므로 운영 환경에서는 넣지 않는다 (운영 관리자는 /api/admin/users/role로 지정한다)
+const SEED_ACCOUNTS: Array<{ id: string; email: string; plan: PlanId; role?: UserRole; subscriptionId?: string }> = [
+  { id: 'user_001', email: 'test1@legalai.com', plan: 'free' },
+  { id: 'user_002', email: 'test2@legalai.com', plan: 'basic', subscriptionId: 'sub_test_002' },
+  { id: 'user_003', email: 'test3@legalai.com', plan: 'pro', subscriptionId: 'sub_test_003' },
+  { id: 'user_004', email: 'test4@legalai.com', plan: 'free' },
+  { id: 'admin_001', email: 'admin@example.com', plan: 'enterprise', role: 'super_admin' },
+  { id: 'dev_001', email: 'developer@legalaisaas.com', plan: 'enterprise', role: 'super_admin' }
+];
+
+const shouldSeed = () => process.env.NODE_ENV !== 'production';
+
+// 자동 갱신되지 않는 결제(Toss 단건 결제 등)는 결제한 기간(currentPeriodEnd)이 지나면 끝난 것으로 본다
+const PREPAID_PROVIDERS: PaymentMethod[] = ['toss', 'fake', 'manual'];
+
+const isPrepaidPeriodOver = (subscription: Subscription, now: string) =>
+  PREPAID_PROVIDERS.indexOf(subscription.provider) !== -1 && !!subscription.currentPeriodEnd && subscription.currentPeriodEnd <= now;
+
+type Collection = 'users' | 'subscriptions' | 'plan-change-logs' | 'auth-tokens';
+
+/**
+ * 사용자·구독·플랜 변경 이력 저장소. 결제 웹훅이 바꾼 플랜을 current-plan과 엔타이틀먼트 검사가 그대로 읽는다.
+ * DB를 붙일 때는 같은 인터페이스로 구현을 바꾸면 된다.
+ */
+export interface UserRepository {
+  findUserById(id: string): Promise<User | null>;
+  findUserByEmail(email: string): Promise<User | null>;
+  findOrCreateUser(email: string, name?: string): Promise<User>;
+  updateUser(id: string, updates: UserUpdate): Promise<User | null>;
+  /**
+   * 로그인 실패를 하나 센다. 지금 저장된 횟수에 더하므로 동시에 틀린 시도도 모두 세어진다.
+   * maxAttempts에 닿으면 횟수를 0으로 돌리고 lockoutMs 동안 잠근다.
+   */
+  incrementFailedLogin(id: string, maxAttempts: number, lockoutMs: number): Promise<User | null>;
+  // 결제 유예 기간(past_due + graceUntil) 중인 구독도 활성으로 본다. 결제한 기간이 끝난 Toss 등 선불 구독은 뺀다
+  getActiveSubscription(userId: string): Promise<Subscription | null>;
+  // 결제사 쪽 구독 ID로 찾는다. 해지되지 않은 구독을 먼저 돌려준다
+  findSubscriptionByExternalId(externalId: string): Promise<Subscription | null>;
+  updateSubscription(id: string, updates: SubscriptionUpdate): Promise<Subscription | null>;
+  getCurrentPlan(userId: string): Promise<PlanId>;
+  createPlanChangeLog(input: CreatePlanChangeLogInput): Promise<PlanChangeLog>;
+  updatePlanChangeLog(id: string, updates: PlanChangeLogUpdate): Promise<PlanChangeLog | null>;
+  listPlanChangeLogs(userId?: string): Promise<PlanChangeLog[]>;
+  createAuthToken(token: Omit<AuthToken, 'id' | 'createdAt'>): Promise<AuthToken>;
+  // 만료되었거나 이미 쓴 토큰은 찾지 않는다
+  findAuthToken(tokenHash: string, type: AuthTokenType): Promise<AuthToken | null>;
+  markAuthTokenUsed(id: string): Promise<void>;
+}
+
+/**
+ * 로컬 개발용 파일 저장소. 컬렉션마다 data/accounts/<이름>.json 하나로 저장하고,
+ * 처음 접근할 때 전부 메모리로 읽어온다.
+ */
+class FileUserRepository implements UserRepository {
+  private users: Map<string, User> = new Map();
+  private subscriptions: Map<string, Subscription> = new Map();
+  private planChangeLogs: Map<string, PlanChangeLog> = new Map();
+  private authTokens: Map<string, AuthToken> = new Map();
+  private loading: Promise<void> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  async findUserById(id: string): Promise<User | null> {
+    await this.ensureLoaded();
+    return this.users.get(id) || null;
+  }
+
+  async findUserByEmail(email: string): Promise<User | null> {
+    await this.ensureLoaded();
+    const normalized = normalizeEmail(email);
+    return Array.from(this.users.values()).find(user => user.email === normalized) || null;
+  }
+
+  async findOrCreateUser(email: string, name?: string): Promise<User> {
+    const existing = await this.findUserByEmail(email);
+    if (existing) return existing;
+
+    const now = new Date().toISOString();
+    const user: User = {
+      id: this.generateId('user'),
+      email: normalizeEmail(email),
+      name,
+      role: 'user',
+      createdAt: now,
+      updatedAt: now
+    };
+    this.users.set(user.id, user);
+    await this.persist('users');
+    return user;
+  }
+
+  async updateUser(id: string, updates: UserUpdate): Promise<User | null> {
+    await this.ensureLoaded();
+
+    const existing = this.users.get(id);
+    if (!existing) return null;
+
+    const user: User = { ...existing, ...updates, updatedAt: new Date().toISOString() };
+    this.users.set(id, user);
+    await this.persist('users');
+    return user;
+  }
+
+  async incrementFailedLogin(id: string, maxAttempts: number, lockoutMs: number): Promise<User | null> {
+    await this.ensureLoaded();
+
+    const existing = this.users.get(id);
+    if (!existing) return null;
+    // 이미 잠긴 계정이면 잠금 기간을 늘리지도, 횟수를 새로 세지도 않는다
+    if (existing.lockedUntil && new Date(existing.lockedUntil).getTime() > Date.now()) return existing;
+
+    const attempts = (existing.failedLoginAttempts || 0) + 1;
+    const user: User = attempts >= maxAttempts
+      ? { ...existing, failedLoginAttempts: 0, lockedUntil: new Date(Date.now() + lockoutMs).toISOString(), updatedAt: new Date().toISOString() }
+      : { ...existing, failedLoginAttempts: attempts, updatedAt: new Date().toISOString() };
+    this.users.set(id, user);
+    await this.persist('users');
+    return user;
+  }
+
+  async getActiveSubscription(userId: string): Promise<Subscription | null> {
+    await this.ensureLoaded();
+
+    const now = new Date().toISOString();
+    return Array.from(this.subscriptions.values()).find(subscription =>
+      subscription.userId === userId && (
+        (subscription.status === 'active' && !isPrepaidPeriodOver(subscription, now)) ||
+        (subscription.status === 'past_due' && !!subscription.graceUntil && subscription.graceUntil > now)
+      )
+    ) || null;
+  }
+
+  async findSubscriptionByExternalId(externalId: string): Promise<Subscription | null> {
+    await this.ensureLoaded();
+
+    const matches = Array.from(this.subscriptions.values())
+      .filter(subscription => subscription.externalId === externalId)
+      .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+    return matches.find(subscription => subscription.status !== 'canceled') || matches[0] || null;
+  }
+
+  async updateSubscription(id: string, updates: SubscriptionUpdate): Promise<Subscription | null> {
+    await this.ensureLoaded();
+
+    const existing = this.subscriptions.get(id);
+    if (!existing) return null;
+
+    const subscription: Subscription = { ...existing, ...updates, updatedAt: new Date().toISOString() };
+    this.subscriptions.set(id, subscription);
+    await this.persist('subscriptions');
+    return subscription;
+  }
+
+  async getCurrentPlan(userId: string): Promise<PlanId> {
+    const subscription = await this.getActiveSubscription(userId);
+    return subscription ? subscription.plan : 'free';
+  }
+
+  async createPlanChangeLog(input: CreatePlanChangeLogInput): Promise<PlanChangeLog> {
+    await this.ensureLoaded();
+
+    const log: PlanChangeLog = {
+      ...input,
+      id: this.generateId('log'),
+      changeType: determineChangeType(input.fromPlan, input.toPlan),
+      amount: priceOf(input.toPlan) - priceOf(input.fromPlan),
+      currency: 'USD',
+      status: 'pending',
+      reason: input.reason || 'Plan change requested',
+      createdAt: new Date().toISOString()
+    };
+
+    this.planChangeLogs.set(log.id, log);
+    await this.persist('plan-change-logs');
+    return log;
+  }
+
+  /**
+   * 이력 상태를 바꾼다. completed가 되는 순간 구독에 반영되어 사용자의 현재 플랜이 바뀐다.
+   */
+  async updatePlanChangeLog(id: string, updates: PlanChangeLogUpdate): Promise<PlanChangeLog | null> {
+    await this.ensureLoaded();
+
+    const existing = this.planChangeLogs.get(id);
+    if (!existing) return null;
+
+    const completing = updates.status === 'completed' && existing.status !== 'completed';
+    const log: PlanChangeLog = {
+      ...existing,
+      ...updates,
+      completedAt: updates.status === 'completed' ? updates.completedAt || new Date().toISOString() : existing.completedAt
+    };
+    this.planChangeLogs.set(id, log);
+
+    if (completing) {
+      this.applyPlanChange(log);
+      await this.persist('subscriptions');
+    }
+    await this.persist('plan-change-logs');
+    return log;
+  }
+
+  async listPlanChangeLogs(userId?: string): Promise<PlanChangeLog[]> {
+    await this.ensureLoaded();
+    return Array.from(this.planChangeLogs.values())
+      .filter(log => !userId || log.userId === userId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async createAuthToken(input: Omit<AuthToken, 'id' | 'createdAt'>): Promise<AuthToken> {
+    await this.ensureLoaded();
+
+    const token: AuthToken = { ...input, id: this.generateId('token'), createdAt: new Date().toISOString() };
+    this.authTokens.set(token.id, token);
+    await this.persist('auth-tokens');
+    return token;
+  }
+
+  async findAuthToken(tokenHash: string, type: AuthTokenType): Promise<AuthToken | null> {
+    await this.ensureLoaded();
+
+    const now = new Date().toISOString();
+    return Array.from(this.authTokens.values()).find(token =>
+      token.tokenHash === tokenHash && token.type === type && !token.usedAt && token.expiresAt > now
+    ) || null;
+  }
+
+  async markAuthTokenUsed(id: string): Promise<void> {
+    await this.ensureLoaded();
+
+    const token = this.authTokens.get(id);
+    if (!token) return;
+    token.usedAt = new Date().toISOString();
+    await this.persist('auth-tokens');
+  }
+
+  private applyPlanChange(log: PlanChangeLog): void {
+    const now = new Date().toISOString();
+    const subscriptionId = log.metadata?.subscriptionId;
+    const externalId = (typeof subscriptionId === 'string' && subscriptionId) || log.paymentId || null;
+    const active = Array.from(this.subscriptions.values())
+      .filter(subscription => subscription.userId === log.userId && subscription.status !== 'canceled');
+
+    // 같은 플랜의 갱신 결제는 기존 구독을 이어간다 (결제 유예 중이었다면 풀린다)
+    const renewing = active.find(subscription => subscription.plan === log.toPlan);
+    if (renewing) {
+      renewing.externalId = externalId || renewing.externalId;
+      renewing.status = 'active';
+      renewing.graceUntil = null;
+      renewing.updatedAt = now;
+      return;
+    }
+
+    active.forEach(subscription => {
+      subscription.status = 'canceled';
+      subscription.canceledAt = now;
+      subscription.updatedAt = now;
+    });
+
+    if (isPlanId(log.toPlan) && log.toPlan !== 'free') {
+      const subscription: Subscription = {
+        id: this.generateId('sub'),
+        userId: log.userId,
+        plan: log.toPlan,
+        provider: log.paymentMethod,
+        externalId,
+        status: 'active',
+        startedAt: now,
+        updatedAt: now
+      };
+      this.subscriptions.set(subscription.id, subscription);
+    }
+  }
+
+  private async ensureLoaded(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.load();
+    }
+    return this.loading;
+  }
+
+  private async load(): Promise<void> {
+    const users = await this.readCollection<User>('users');
+    if (!users) {
+      if (shouldSeed()) this.seed();
+      else this.seedBootstrapAdmin();
+      await Promise.all([this.persist('users'), this.persist('subscriptions'), this.persist('plan-change-logs')]);
+      return;
+    }
+
+    users.forEach(user => {
+      // 역할이 생기기 전에 만들어진 저장소는 시드 계정의 역할만 채워 넣는다
+      const seed = shouldSeed() ? SEED_ACCOUNTS.find(account => account.id === user.id) : undefined;
+      this.users.set(user.id, !user.role && seed?.role ? { ...user, role: seed.role } : user);
+    });
+    ((await this.readCollection<Subscription>('subscriptions')) || [])
+      .forEach(subscription => this.subscriptions.set(subscription.id, subscription));
+    ((await this.readCollection<PlanChangeLog>('plan-change-logs')) || [])
+      .forEach(log => this.planChangeLogs.set(log.id, log));
+    ((await this.readCollection<AuthToken>('auth-tokens')) || [])
+      .forEach(token => this.authTokens.set(token.id, token));
+  }
+
+  private seed(): void {
+    const now = new Date().toISOString();
+    SEED_ACCOUNTS.forEach(account => {
+      this.users.set(account.id, {
+        id: account.id,
+        email: account.email,
+        role: account.role || 'user',
+        emailVerifiedAt: now,
+        createdAt: now,
+        updatedAt: now
+      });
+      if (account.plan === 'free') return;
+
+      const subscription: Subscription = {
+        id: `sub_${account.id}`,
+        userId: account.id,
+        plan: account.plan,
+        provider: account.subscriptionId ? 'stripe' : 'manual',
+        externalId: account.subscriptionId || null,
+        status: 'active',
+        startedAt: now,
+        updatedAt: now
+      };
+      this.subscriptions.set(subscription.id, subscription);
+    });
+  }
+
+  // 운영 첫 실행 때 첫 super_admin 하나만 만든다. 비밀번호가 없으므로 비밀번호 재설정 메일로 정하고 로그인한다
+  private seedBootstrapAdmin(): void {
+    const email = process.env.BOOTSTRAP_SUPER_ADMIN_EMAIL;
+    if (!email || !email.trim()) return;
+
+    const now = new Date().toISOString();
+    const user: User = {
+      id: this.generateId('user'),
+      email: normalizeEmail(email),
+      role: 'super_admin',
+      createdAt: now,
+      updatedAt: now
+    };
+    this.users.set(user.id, user);
+  }
+
+  // 파일이 없으면 null을 돌려줘 처음 실행인지 구분한다
+  private async readCollection<T>(collection: Collection): Promise<T[] | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath(collection), 'utf-8')) as T[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      console.error(`Failed to load ${collection}:`, error);
+      return [];
+    }
+  }
+
+  private async persist(collection: Collection): Promise<void> {
+    const content = JSON.stringify(Array.from(this.collection(collection).values()), null, 2);
+
+    // 동시에 들어온 변경이 서로의 파일 쓰기를 덮어쓰지 않도록 순서대로 쓴다
+    this.writing = this.writing
+      .then(async () => {
+        await fs.mkdir(ACCOUNT_DIR, { recursive: true });
+        await fs.writeFile(this.filePath(collection), content, 'utf-8');
+      })
+      .catch(error => console.error(`Failed to save ${collection}:`, error));
+    await this.writing;
+  }
+
+  private collection(collection: Collection): Map<string, unknown> {
+    switch (collection) {
+      case 'users': return this.users;
+      case 'subscriptions': return this.subscriptions;
+      case 'plan-change-logs': return this.planChangeLogs;
+      case 'auth-tokens': return this.authTokens;
+    }
+  }
+
+  private filePath(collection: Collection): string {
+    return path.join(ACCOUNT_DIR, `${collection}.json`);
+  }
+
+  private generateId(prefix: string): string {
+    return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
+
+export const userRepository: UserRepository = new FileUserRepository();
+export default FileUserRepository;
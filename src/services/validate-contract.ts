@@ -1,5 +1,10 @@
 // /pages/api/validate-contract.ts
 import type { NextApiRequest, NextApiResponse } from 'next';
+import { clauseAnalyzer, CLAUSE_CATEGORY_LABELS } from '@/services/clause-analyzer';
+import { ClauseCategory } from '@/types/contract-analysis';
+
+// 기존 필수 키워드('기간', '급여', '책임', '해지')에 대응하는 조항 유형
+const REQUIRED_CATEGORIES: ClauseCategory[] = ['term', 'payment', 'liability', 'termination'];
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') return res.status(405).end();
@@ -14,15 +19,16 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     return res.status(400).json({ valid: false, message: "회사명이 유효하지 않습니다." });
   }
 
-  const requiredKeywords = ['기간', '급여', '책임', '해지'];
-  const missingKeywords = requiredKeywords.filter(word => !contractContent.includes(word));
+  const analysis = clauseAnalyzer.analyze(contractContent, { requiredCategories: REQUIRED_CATEGORIES });
 
-  if (missingKeywords.length > 0) {
+  if (analysis.missingCategories.length > 0) {
+    const missingLabels = analysis.missingCategories.map(category => CLAUSE_CATEGORY_LABELS[category]);
     return res.status(400).json({
       valid: false,
-      message: `다음 항목이 누락되었습니다: ${missingKeywords.join(', ')}`,
+      message: `다음 항목이 누락되었습니다: ${missingLabels.join(', ')}`,
+      analysis,
     });
   }
 
-  return res.status(200).json({ valid: true, message: "✅ 계약서 형식이 유효합니다." });
-}
\ No newline at end of file
+  return res.status(200).json({ valid: true, message: "✅ 계약서 형식이 유효합니다.", analysis });
+}
@@ -0,0 +1,168 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { WebhookEventRecord, WebhookEventStatus, WebhookProvider } from '@/types/billing';
+
+const PAYMENT_DIR = path.join(process.cwd(), 'data', 'payments');
+const EVENT_FILE = path.join(PAYMENT_DIR, 'webhook-events.json');
+
+export interface WebhookEventInput {
+  provider: WebhookProvider;
+  eventId: string;
+  eventType: string;
+  payload: string;
+}
+
+export interface WebhookEventFilter {
+  provider?: WebhookProvider;
+  status?: WebhookEventStatus;
+  limit?: number;
+}
+
+/**
+ * 결제사 웹훅 이벤트 저장소. 결제사·이벤트 ID 한 쌍에 기록 하나를 둔다.
+ */
+export interface WebhookEventRepository {
+  /**
+   * 처리할 차례를 가져간다. 새 이벤트, 실패한 이벤트, staleBefore보다 오래 processing에 멈춘 이벤트면
+   * processing으로 바꾸고 claimed: true. 이미 처리했거나 다른 요청이 처리 중이면 전송 횟수만 늘린다.
+   */
+  claimEvent(input: WebhookEventInput, staleBefore: string): Promise<{ record: WebhookEventRecord; claimed: boolean }>;
+  // 실패한 이벤트만 processing으로 바꾼다. 다른 상태면 null
+  claimFailedEvent(id: string): Promise<WebhookEventRecord | null>;
+  findEventById(id: string): Promise<WebhookEventRecord | null>;
+  finishEvent(id: string, status: Exclude<WebhookEventStatus, 'processing'>, error?: string): Promise<WebhookEventRecord | null>;
+  listEvents(filter?: WebhookEventFilter): Promise<WebhookEventRecord[]>;
+}
+
+/**
+ * 로컬 개발용 파일 저장소. data/payments/webhook-events.json 하나에 저장하고, 처음 접근할 때 전부 메모리로 읽어온다.
+ * 확인과 변경 사이에 await가 없어 같은 프로세스에 동시에 들어온 재전송은 하나만 처리된다.
+ */
+class FileWebhookEventRepository implements WebhookEventRepository {
+  private events: Map<string, WebhookEventRecord> = new Map();
+  private loading: Promise<void> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  async claimEvent(input: WebhookEventInput, staleBefore: string): Promise<{ record: WebhookEventRecord; claimed: boolean }> {
+    await this.ensureLoaded();
+
+    const now = new Date().toISOString();
+    const existing = Array.from(this.events.values())
+      .find(event => event.provider === input.provider && event.eventId === input.eventId);
+
+    if (!existing) {
+      const record: WebhookEventRecord = {
+        ...input,
+        id: this.generateId(),
+        status: 'processing',
+        attempts: 1,
+        deliveries: 1,
+        receivedAt: now,
+        lastAttemptAt: now
+      };
+      this.events.set(record.id, record);
+      await this.persist();
+      return { record, claimed: true };
+    }
+
+    const busy = existing.status === 'processed' || (existing.status === 'processing' && existing.lastAttemptAt > staleBefore);
+    const record: WebhookEventRecord = busy
+      ? { ...existing, deliveries: existing.deliveries + 1 }
+      : {
+          ...existing,
+          status: 'processing',
+          attempts: existing.attempts + 1,
+          deliveries: existing.deliveries + 1,
+          lastAttemptAt: now
+        };
+    this.events.set(record.id, record);
+    await this.persist();
+    return { record, claimed: !busy };
+  }
+
+  async claimFailedEvent(id: string): Promise<WebhookEventRecord | null> {
+    await this.ensureLoaded();
+
+    const existing = this.events.get(id);
+    if (!existing || existing.status !== 'failed') return null;
+
+    const record: WebhookEventRecord = {
+      ...existing,
+      status: 'processing',
+      attempts: existing.attempts + 1,
+      lastAttemptAt: new Date().toISOString()
+    };
+    this.events.set(id, record);
+    await this.persist();
+    return record;
+  }
+
+  async findEventById(id: string): Promise<WebhookEventRecord | null> {
+    await this.ensureLoaded();
+    return this.events.get(id) || null;
+  }
+
+  async finishEvent(id: string, status: Exclude<WebhookEventStatus, 'processing'>, error?: string): Promise<WebhookEventRecord | null> {
+    await this.ensureLoaded();
+
+    const existing = this.events.get(id);
+    if (!existing) return null;
+
+    const record: WebhookEventRecord = {
+      ...existing,
+      status,
+      error,
+      processedAt: status === 'processed' ? new Date().toISOString() : existing.processedAt
+    };
+    this.events.set(id, record);
+    await this.persist();
+    return record;
+  }
+
+  async listEvents(filter: WebhookEventFilter = {}): Promise<WebhookEventRecord[]> {
+    await this.ensureLoaded();
+
+    const events = Array.from(this.events.values())
+      .filter(event => (!filter.provider || event.provider === filter.provider) && (!filter.status || event.status === filter.status))
+      .sort((a, b) => b.receivedAt.localeCompare(a.receivedAt));
+    return filter.limit ? events.slice(0, filter.limit) : events;
+  }
+
+  private async ensureLoaded(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.load();
+    }
+    return this.loading;
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const events = JSON.parse(await fs.readFile(EVENT_FILE, 'utf-8')) as WebhookEventRecord[];
+      events.forEach(event => this.events.set(event.id, event));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Failed to load webhook events:', error);
+      }
+    }
+  }
+
+  private async persist(): Promise<void> {
+    const content = JSON.stringify(Array.from(this.events.values()), null, 2);
+
+    // 동시에 들어온 웹훅이 서로의 파일 쓰기를 덮어쓰지 않도록 순서대로 쓴다
+    this.writing = this.writing
+      .then(async () => {
+        await fs.mkdir(PAYMENT_DIR, { recursive: true });
+        await fs.writeFile(EVENT_FILE, content, 'utf-8');
+      })
+      .catch(error => console.error('Failed to save webhook events:', error));
+    await this.writing;
+  }
+
+  private generateId(): string {
+    return `whevt_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
+
+export const webhookEventRepository: WebhookEventRepository = new FileWebhookEventRepository();
+export default FileWebhookEventRepository;
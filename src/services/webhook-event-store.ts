@@ -0,0 +1,84 @@
+import { webhookEventRepository, WebhookEventFilter, WebhookEventInput } from '@/services/webhook-event-repository';
+import { paymentProviders } from '@/services/payment-provider-registry';
+import { BillingError } from '@/lib/payment/billing-errors';
+import { WebhookEventRecord, WebhookEventSummary } from '@/types/billing';
+
+// 이보다 오래 processing에 멈춘 이벤트는 처리 중 서버가 죽은 것으로 보고 재전송 때 다시 처리한다
+const STALE_PROCESSING_MS = 5 * 60 * 1000;
+
+export type WebhookProcessResult = { duplicate: boolean; record: WebhookEventSummary };
+
+const toSummary = (record: WebhookEventRecord): WebhookEventSummary => ({
+  id: record.id,
+  provider: record.provider,
+  eventId: record.eventId,
+  eventType: record.eventType,
+  status: record.status,
+  attempts: record.attempts,
+  deliveries: record.deliveries,
+  error: record.error,
+  receivedAt: record.receivedAt,
+  lastAttemptAt: record.lastAttemptAt,
+  processedAt: record.processedAt
+});
+
+/**
+ * 결제사 웹훅을 이벤트 ID로 한 번만 처리한다. 결제사가 재전송한 이벤트는 처리를 건너뛰고,
+ * 실패한 이벤트는 다음 재전송이나 관리자 재처리 때 다시 실행한다.
+ */
+class WebhookEventStore {
+  /**
+   * 서명을 확인한 웹훅을 기록하고 처리한다. 처리 중 예외는 기록에 남긴 뒤 다시 던져
+   * 라우트가 5xx로 응답하고 결제사가 재전송하게 한다.
+   */
+  async process(input: WebhookEventInput): Promise<WebhookProcessResult> {
+    const staleBefore = new Date(Date.now() - STALE_PROCESSING_MS).toISOString();
+    const { record, claimed } = await webhookEventRepository.claimEvent(input, staleBefore);
+    if (!claimed) {
+      console.log(`↩️ Duplicate ${input.provider} webhook skipped: ${input.eventId}`);
+      return { duplicate: true, record: toSummary(record) };
+    }
+    return { duplicate: false, record: await this.run(record) };
+  }
+
+  // 실패한 이벤트만 다시 실행한다. 다시 실패하면 예외 대신 실패한 기록을 돌려준다
+  async replay(id: string): Promise<WebhookEventSummary> {
+    const existing = await webhookEventRepository.findEventById(id);
+    if (!existing) {
+      throw new BillingError('EVENT_NOT_FOUND');
+    }
+    const record = await webhookEventRepository.claimFailedEvent(id);
+    if (!record) {
+      throw new BillingError('EVENT_NOT_REPLAYABLE');
+    }
+
+    try {
+      return await this.run(record);
+    } catch {
+      const failed = await webhookEventRepository.findEventById(id);
+      return toSummary(failed || record);
+    }
+  }
+
+  async list(filter?: WebhookEventFilter): Promise<WebhookEventSummary[]> {
+    return (await webhookEventRepository.listEvents(filter)).map(toSummary);
+  }
+
+  private async run(record: WebhookEventRecord): Promise<WebhookEventSummary> {
+    try {
+      // 저장한 원문을 결제사 어댑터가 다시 파싱하므로 재처리도 처음 받았을 때와 같은 경로를 탄다
+      await paymentProviders.get(record.provider).handleEvent(record.payload);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`${record.provider} webhook ${record.eventId} failed:`, error);
+      await webhookEventRepository.finishEvent(record.id, 'failed', message);
+      throw error;
+    }
+
+    const processed = await webhookEventRepository.finishEvent(record.id, 'processed');
+    return toSummary(processed || record);
+  }
+}
+
+export const webhookEventStore = new WebhookEventStore();
+export default WebhookEventStore;
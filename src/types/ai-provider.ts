@@ -0,0 +1,71 @@
+import { UsageFeature } from './usage';
+
+export type AIProviderId = 'claude' | 'openai' | 'gemini' | 'perplexity' | 'mock';
+
+export interface AIMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// 사용량 미터링 대상 정보. 지정한 호출만 사용자별 사용량에 기록된다
+export interface AIUsageContext {
+  userId: string;
+  feature: UsageFeature;
+  countsAsQuery?: boolean;
+}
+
+export interface AIGenerateRequest {
+  // 단일 질문이면 prompt, 대화 형식이면 messages를 쓴다 (둘 다 있으면 messages 뒤에 prompt를 붙인다)
+  prompt?: string;
+  messages?: AIMessage[];
+  system?: string;
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+  signal?: AbortSignal;
+  usage?: AIUsageContext;
+}
+
+export interface AIUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface AIGenerateResult {
+  text: string;
+  provider: AIProviderId;
+  model: string;
+  usage: AIUsage;
+  latencyMs: number;
+}
+
+export interface AIProviderHealth {
+  provider: AIProviderId;
+  configured: boolean;
+  healthy: boolean;
+  latencyMs: number;
+  error?: string;
+  checkedAt: string;
+}
+
+export interface AIProviderUsageStats extends AIUsage {
+  provider: AIProviderId;
+  requests: number;
+  failures: number;
+  lastUsedAt: string | null;
+}
+
+/**
+ * 모든 AI 제공자 어댑터가 구현하는 인터페이스.
+ * 사용량 집계와 모의 모드 전환은 aiProviders 레지스트리가 맡는다.
+ */
+export interface AIProvider {
+  id: AIProviderId;
+  name: string;
+  defaultModel: string;
+  isConfigured(): boolean;
+  generate(request: AIGenerateRequest): Promise<Omit<AIGenerateResult, 'latencyMs'>>;
+  stream(request: AIGenerateRequest, onDelta: (text: string) => void): Promise<Omit<AIGenerateResult, 'latencyMs'>>;
+  healthCheck(): Promise<boolean>;
+}
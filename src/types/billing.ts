@@ -0,0 +1,179 @@
+import { PlanId } from './plan';
+import { PaymentProviderId } from './payment-provider';
+import { BillingInterval } from './user';
+
+export type PaidPlanId = Exclude<PlanId, 'free'>;
+
+export type BillingErrorCode =
+  | 'INVALID_PLAN'
+  | 'NOT_CONFIGURED'
+  | 'NO_CUSTOMER'
+  | 'ALREADY_SUBSCRIBED'
+  | 'ORDER_NOT_FOUND'
+  | 'AMOUNT_MISMATCH'
+  | 'ORDER_EXPIRED'
+  | 'PAYMENT_REJECTED'
+  | 'EVENT_NOT_FOUND'
+  | 'EVENT_NOT_REPLAYABLE'
+  | 'PAYMENT_NOT_FOUND'
+  | 'INVOICE_NOT_FOUND'
+  | 'INVALID_BILLING_PROFILE'
+  | 'TAX_INVOICE_UNAVAILABLE'
+  | 'PROMO_NOT_FOUND'
+  | 'PROMO_EXPIRED'
+  | 'PROMO_EXHAUSTED'
+  | 'PROMO_ALREADY_USED'
+  | 'PROMO_NOT_APPLICABLE'
+  | 'PROMO_FIRST_PURCHASE_ONLY'
+  | 'INVALID_PROMO'
+  | 'PROMO_CODE_TAKEN'
+  | 'PROMO_IN_CHECKOUT';
+
+// checkout은 결제사 결제 화면으로 이동, updated는 결제 화면 없이 플랜이 바로 바뀐 경우(Stripe 구독 변경, fake),
+// payment_window는 클라이언트가 Toss 결제창을 직접 띄운다
+export type CheckoutResult =
+  | { type: 'checkout'; url: string }
+  | { type: 'updated'; plan: PaidPlanId; interval: BillingInterval }
+  | { type: 'payment_window'; provider: 'toss'; params: TossCheckoutInfo };
+
+// 마이페이지에 보여줄 구독 상태
+export interface BillingStatus {
+  plan: PlanId;
+  status: 'active' | 'past_due' | 'canceled' | null;
+  provider: string | null;
+  interval: BillingInterval | null;
+  currentPeriodEnd: string | null;
+  cancelAtPeriodEnd: boolean;
+  graceUntil: string | null;
+  // Stripe 고객이 있어야 고객 포털을 열 수 있다
+  canManageBilling: boolean;
+}
+
+export type TossOrderStatus =
+  | 'pending'
+  // 가상계좌를 발급하고 입금을 기다리는 중
+  | 'waiting_for_deposit'
+  | 'paid'
+  | 'partial_canceled'
+  | 'canceled'
+  | 'failed';
+
+export interface TossVirtualAccount {
+  accountNumber: string;
+  bankCode: string;
+  customerName: string;
+  dueDate: string;
+}
+
+// Toss 결제창을 띄우기 전에 만드는 주문. 플랜과 금액은 금액으로 추측하지 않고 여기 저장된 값을 쓴다
+export interface TossOrder {
+  orderId: string;
+  userId: string;
+  plan: PaidPlanId;
+  interval: BillingInterval;
+  // 프로모션 할인을 뺀 결제 금액
+  amount: number;
+  orderName: string;
+  status: TossOrderStatus;
+  paymentKey?: string;
+  method?: string;
+  virtualAccount?: TossVirtualAccount;
+  // 가상계좌 입금 콜백이 보내는 secret. 콜백에는 서명이 없어 이 값으로 확인한다
+  secret?: string;
+  canceledAmount: number;
+  planChangeLogId?: string;
+  // 결제가 끝나면 확정하고 실패·만료되면 푸는 프로모션 코드 사용
+  promoRedemptionId?: string;
+  approvedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type TossOrderUpdate = Partial<Pick<
+  TossOrder,
+  'status' | 'paymentKey' | 'method' | 'virtualAccount' | 'secret' | 'canceledAmount' | 'planChangeLogId' | 'approvedAt'
+>>;
+
+// 승인 결과로 클라이언트에 돌려주는 값. 입금 콜백용 secret은 빼고 돌려준다
+export type TossConfirmResult = Pick<TossOrder, 'orderId' | 'plan' | 'interval' | 'amount' | 'status' | 'virtualAccount'>;
+
+export type TossPaymentStatus =
+  | 'READY'
+  | 'IN_PROGRESS'
+  | 'WAITING_FOR_DEPOSIT'
+  | 'DONE'
+  | 'CANCELED'
+  | 'PARTIAL_CANCELED'
+  | 'ABORTED'
+  | 'EXPIRED';
+
+// Toss 결제(Payment) 객체 중 여기서 쓰는 필드
+export interface TossPayment {
+  paymentKey: string;
+  orderId: string;
+  orderName: string;
+  status: TossPaymentStatus;
+  method: string;
+  totalAmount: number;
+  // 부분 취소 후 남은 금액
+  balanceAmount: number;
+  currency: string;
+  approvedAt?: string | null;
+  secret?: string | null;
+  virtualAccount?: TossVirtualAccount | null;
+  cancels?: Array<{
+    cancelAmount: number;
+    cancelReason: string;
+    canceledAt: string;
+    transactionKey: string;
+  }> | null;
+  receipt?: { url: string } | null;
+  failure?: { code: string; message: string } | null;
+}
+
+export type TossWebhookEvent =
+  | { eventType: 'PAYMENT_STATUS_CHANGED'; createdAt: string; data: TossPayment }
+  // 가상계좌 입금·입금 취소. 서명 헤더 없이 오므로 주문에 저장한 secret으로 확인한다
+  | {
+      eventType: 'DEPOSIT_CALLBACK';
+      createdAt: string;
+      data: { orderId: string; secret: string; status: TossPaymentStatus; transactionKey: string; createdAt: string };
+    };
+
+// 클라이언트가 Toss 결제창(requestPayment)에 그대로 넘기는 값
+export interface TossCheckoutInfo {
+  clientKey: string;
+  orderId: string;
+  orderName: string;
+  amount: number;
+  customerEmail: string;
+  customerName?: string;
+  successUrl: string;
+  failUrl: string;
+}
+
+export type WebhookProvider = PaymentProviderId;
+
+// processing이 오래 멈춰 있으면(처리 중 서버가 죽은 경우) 다음 재전송 때 다시 처리한다
+export type WebhookEventStatus = 'processing' | 'processed' | 'failed';
+
+// 결제사 웹훅 한 건. 같은 이벤트가 다시 오면 이 기록을 보고 건너뛴다
+export interface WebhookEventRecord {
+  id: string;
+  provider: WebhookProvider;
+  // Stripe 이벤트 ID. Toss는 이벤트 ID가 없어 결제 키·상태로 만든다
+  eventId: string;
+  eventType: string;
+  // 서명을 확인한 원문. 재처리할 때 이 값을 다시 파싱한다
+  payload: string;
+  status: WebhookEventStatus;
+  attempts: number;
+  // 결제사가 보낸 횟수 (재전송 포함)
+  deliveries: number;
+  error?: string;
+  receivedAt: string;
+  lastAttemptAt: string;
+  processedAt?: string;
+}
+
+export type WebhookEventSummary = Omit<WebhookEventRecord, 'payload'>;
@@ -0,0 +1,46 @@
+import { StatuteCitation } from './statute';
+
+export type ChatRole = 'user' | 'assistant';
+
+export interface ConversationMessage {
+  id: string;
+  role: ChatRole;
+  content: string;
+  createdAt: string;
+  // assistant 메시지를 생성한 AI 제공자
+  provider?: string;
+  // 사용자가 스트리밍을 중단해 일부만 저장된 답변
+  cancelled?: boolean;
+  // 답변에 포함된 법령 조문 인용과 색인 대조 결과
+  citations?: StatuteCitation[];
+}
+
+export interface Conversation {
+  id: string;
+  userId: string;
+  title: string;
+  messages: ConversationMessage[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ConversationSummary = Omit<Conversation, 'messages'> & {
+  messageCount: number;
+  lastMessagePreview: string;
+};
+
+export interface ConversationListResponse {
+  success: boolean;
+  data?: {
+    conversations: ConversationSummary[];
+  };
+  error?: string;
+}
+
+export interface ConversationResponse {
+  success: boolean;
+  data?: {
+    conversation: Conversation;
+  };
+  error?: string;
+}
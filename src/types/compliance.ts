@@ -0,0 +1,103 @@
+export type ComplianceStatus = 'pass' | 'warning' | 'fail';
+
+export type ComplianceSeverity = 'critical' | 'major' | 'minor';
+
+export type ComplianceCategory = 'collection' | 'retention' | 'transfer' | 'rights' | 'security' | 'governance';
+
+/**
+ * complianceRegions.json에 정의되는 규칙. 패턴은 정규식 문자열(대소문자 무시)로 작성한다.
+ */
+export interface ComplianceRule {
+  id: string;
+  label: string;
+  category: ComplianceCategory;
+  severity: ComplianceSeverity;
+  citation: string;
+  remediation: string;
+  // 하나라도 일치해야 규칙을 평가 (없으면 항상 평가)
+  appliesWhen?: string[];
+  // 하나라도 일치하면 조항이 존재하는 것으로 판단, 없으면 fail
+  detect: string[];
+  // 조항은 있으나 이 중 아무것도 일치하지 않으면 warning
+  expect?: string[];
+  expectMessage?: string;
+  // 하나라도 일치하면 fail
+  prohibit?: string[];
+  prohibitMessage?: string;
+}
+
+export interface ComplianceRegion {
+  code: string;
+  name: string;
+  label: string;
+  flag: string;
+  law: string;
+  rules: ComplianceRule[];
+}
+
+export interface ComplianceEvidence {
+  start: number;
+  end: number;
+  excerpt: string;
+  clauseId?: string;
+}
+
+export interface ComplianceCheck {
+  label: string;
+  status: ComplianceStatus;
+  ruleId?: string;
+  region?: string;
+  category?: ComplianceCategory | string;
+  severity?: ComplianceSeverity;
+  citation?: string;
+  remediation?: string;
+  message?: string;
+  evidence?: ComplianceEvidence;
+}
+
+export interface ComplianceEvaluation {
+  region: Omit<ComplianceRegion, 'rules'>;
+  checks: ComplianceCheck[];
+  skippedRules: string[];
+  summary: {
+    pass: number;
+    warning: number;
+    fail: number;
+  };
+  evaluatedAt: string;
+}
+
+export type ComplianceGrade = 'A' | 'B' | 'C';
+
+export interface ComplianceCategoryScore {
+  category: string;
+  label: string;
+  score: number;
+  earned: number;
+  possible: number;
+  checks: number;
+  // 이 분류에서 잃은 점수 (100점 만점 기준)
+  lostPoints: number;
+}
+
+export interface ComplianceScoreContributor {
+  label: string;
+  status: ComplianceStatus;
+  severity: ComplianceSeverity;
+  category: string;
+  ruleId?: string;
+  message?: string;
+  remediation?: string;
+  // 이 항목 때문에 깎인 점수 (100점 만점 기준)
+  lostPoints: number;
+}
+
+export interface ComplianceScoreResult {
+  score: number;
+  grade: ComplianceGrade;
+  // 다음 등급 기준 점수와 부족한 점수, 최고 등급이면 null
+  nextGrade: { grade: ComplianceGrade; threshold: number; pointsNeeded: number } | null;
+  categories: ComplianceCategoryScore[];
+  topContributors: ComplianceScoreContributor[];
+  totalChecks: number;
+}
@@ -0,0 +1,54 @@
+export type ClauseCategory =
+  | 'term'
+  | 'payment'
+  | 'liability'
+  | 'termination'
+  | 'ip'
+  | 'confidentiality'
+  | 'governing_law'
+  | 'dispute_resolution'
+  | 'other';
+
+export type ClauseHeadingStyle = 'ko' | 'en' | 'section' | 'preamble' | 'paragraph';
+
+export type FindingSeverity = 'info' | 'warning' | 'critical';
+
+export interface ContractClause {
+  id: string;
+  number: string | null;
+  headingStyle: ClauseHeadingStyle;
+  title: string;
+  text: string;
+  start: number;
+  end: number;
+  category: ClauseCategory;
+  secondaryCategories: ClauseCategory[];
+  confidence: number;
+  matchedKeywords: string[];
+}
+
+export interface ClauseFinding {
+  id: string;
+  clauseId: string;
+  category: ClauseCategory;
+  severity: FindingSeverity;
+  code: string;
+  message: string;
+  excerpt: string;
+  start: number;
+  end: number;
+}
+
+export interface ContractAnalysis {
+  clauses: ContractClause[];
+  findings: ClauseFinding[];
+  coverage: Partial<Record<ClauseCategory, string[]>>;
+  missingCategories: ClauseCategory[];
+  language: 'ko' | 'en' | 'mixed';
+  textLength: number;
+  analyzedAt: string;
+}
+
+export interface ContractAnalysisOptions {
+  requiredCategories?: ClauseCategory[];
+}
@@ -0,0 +1,69 @@
+import { ClauseCategory, ContractAnalysis, ContractClause, FindingSeverity } from './contract-analysis';
+
+export type ClauseChangeStatus = 'unchanged' | 'modified' | 'added' | 'removed';
+
+export interface TextChange {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+export interface ObligationChange {
+  type: 'added' | 'removed';
+  sentence: string;
+}
+
+export interface RiskShift {
+  code: string;
+  severity: FindingSeverity;
+  direction: 'increased' | 'decreased';
+  category: ClauseCategory;
+  message: string;
+  before?: string;
+  after?: string;
+}
+
+export interface ClauseComparison {
+  id: string;
+  status: ClauseChangeStatus;
+  original: ContractClause | null;
+  revised: ContractClause | null;
+  similarity: number;
+  renumbered: boolean;
+  changes: TextChange[];
+  obligationChanges: ObligationChange[];
+  riskShifts: RiskShift[];
+}
+
+export interface ContractComparison {
+  clauses: ClauseComparison[];
+  riskShifts: RiskShift[];
+  summary: {
+    unchanged: number;
+    modified: number;
+    added: number;
+    removed: number;
+    riskIncreased: number;
+    riskDecreased: number;
+  };
+  original: ContractAnalysis;
+  revised: ContractAnalysis;
+  comparedAt: string;
+}
+
+export interface ContractVersionInput {
+  documentId?: string;
+  text?: string;
+}
+
+export interface ContractCompareRequest {
+  original: ContractVersionInput;
+  revised: ContractVersionInput;
+}
+
+export interface ContractCompareResponse {
+  success: boolean;
+  data?: {
+    comparison: ContractComparison;
+  };
+  error?: string;
+}
@@ -0,0 +1,106 @@
+// 언어 코드(ko, en 등)별 문구
+export type LocalizedText = Record<string, string>;
+
+export type TemplateFieldType =
+  | 'text'
+  | 'textarea'
+  | 'date'
+  | 'number'
+  | 'krw'
+  | 'select'
+  | 'email'
+  | 'phone'
+  | 'businessNumber';
+
+export interface TemplateFieldOption {
+  value: string;
+  label: LocalizedText;
+}
+
+/**
+ * contractTemplates.json에 정의되는 입력 항목. 값 검증 스키마는 레지스트리가 이 정의로부터 만든다.
+ */
+export interface TemplateFieldDefinition {
+  id: string;
+  type: TemplateFieldType;
+  required: boolean;
+  label: LocalizedText;
+  placeholder?: LocalizedText;
+  options?: TemplateFieldOption[];
+  min?: number;
+  max?: number;
+  maxLength?: number;
+}
+
+// 여러 항목에 걸친 검증 규칙. dateOrder는 end가 start보다 늦어야 한다
+export interface TemplateCrossFieldRule {
+  type: 'dateOrder';
+  start: string;
+  end: string;
+}
+
+export interface ContractTemplateVariant {
+  version: string;
+  jurisdiction: string;
+  language: string;
+  // 프롬프트의 {fieldId} 자리에 입력값이 들어간다
+  prompt: string;
+  // 버전별로 항목이 달라질 때만 지정, 없으면 템플릿 공통 항목 사용
+  fields?: TemplateFieldDefinition[];
+  rules?: TemplateCrossFieldRule[];
+  deprecated?: boolean;
+}
+
+export interface ContractTemplateDefinition {
+  id: string;
+  name: LocalizedText;
+  fields: TemplateFieldDefinition[];
+  rules?: TemplateCrossFieldRule[];
+  variants: ContractTemplateVariant[];
+}
+
+export interface TemplateField {
+  id: string;
+  type: TemplateFieldType;
+  required: boolean;
+  label: string;
+  placeholder?: string;
+  options?: Array<{ value: string; label: string }>;
+  min?: number;
+  max?: number;
+  maxLength?: number;
+}
+
+// 버전·관할·언어가 결정된 템플릿
+export interface ResolvedContractTemplate {
+  id: string;
+  name: string;
+  version: string;
+  jurisdiction: string;
+  language: string;
+  fields: TemplateField[];
+  rules: TemplateCrossFieldRule[];
+  prompt: string;
+}
+
+export type ContractTemplateSummary = Omit<ResolvedContractTemplate, 'prompt'> & {
+  versions: string[];
+  languages: string[];
+  jurisdictions: string[];
+};
+
+export interface TemplateQuery {
+  version?: string;
+  jurisdiction?: string;
+  language?: string;
+}
+
+export type TemplateFieldValues = Record<string, string | number | undefined>;
+
+export interface ContractTemplatesResponse {
+  success: boolean;
+  data?: {
+    templates: ContractTemplateSummary[];
+  };
+  error?: string;
+}
@@ -0,0 +1,54 @@
+import { ContractAnalysis } from './contract-analysis';
+
+export type DocumentFormat = 'pdf' | 'docx' | 'hwp-text' | 'txt';
+
+export type DocumentEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'euc-kr' | 'binary';
+
+export interface DocumentPage {
+  pageNumber: number;
+  start: number;
+  end: number;
+}
+
+export interface DocumentHeading {
+  level: number;
+  text: string;
+  offset: number;
+  pageNumber: number | null;
+}
+
+export interface DocumentTable {
+  rows: string[][];
+  offset: number;
+  pageNumber: number | null;
+}
+
+export interface DocumentRecord {
+  id: string;
+  userId: string;
+  fileName: string;
+  mimeType: string;
+  format: DocumentFormat;
+  size: number;
+  encoding: DocumentEncoding;
+  text: string;
+  pages: DocumentPage[];
+  headings: DocumentHeading[];
+  tables: DocumentTable[];
+  analysis: ContractAnalysis;
+  warnings: string[];
+  createdAt: Date;
+}
+
+export type DocumentSummary = Omit<DocumentRecord, 'text' | 'analysis'> & {
+  textLength: number;
+  clauseCount: number;
+};
+
+export interface DocumentUploadResponse {
+  success: boolean;
+  data?: {
+    document: DocumentSummary;
+  };
+  error?: string;
+}
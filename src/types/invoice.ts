@@ -0,0 +1,78 @@
+import { PaidPlanId } from './billing';
+import { PaymentCurrency, PaymentProviderId } from './payment-provider';
+import { BillingInterval } from './user';
+
+// 세금계산서를 받을 사업자 정보. 사용자가 마이페이지에서 입력한다
+export interface BillingProfile {
+  companyName: string;
+  // 하이픈 없는 10자리 사업자등록번호
+  businessNumber: string;
+  representative: string;
+  address: string;
+  // 업태·종목
+  businessType?: string;
+  businessItem?: string;
+  // 세금계산서를 받을 이메일. 없으면 계정 이메일
+  taxEmail?: string;
+}
+
+// 청구서에 찍히는 공급자·공급받는자. 발행할 때의 정보를 그대로 남긴다
+export interface InvoiceParty {
+  name: string;
+  businessNumber?: string;
+  representative?: string;
+  address?: string;
+  businessType?: string;
+  businessItem?: string;
+  email?: string;
+}
+
+// 공급받는자에 사업자등록번호가 있으면 세금계산서, 없으면 일반 영수증
+export type InvoiceDocumentType = 'tax_invoice' | 'receipt';
+
+export type InvoiceFormat = 'pdf' | 'xml';
+
+/**
+ * 결제 한 건에 발행한 청구서. 금액은 부가세 포함가이고 공급가액·세액(10%)으로 나눠 둔다.
+ */
+export interface Invoice {
+  id: string;
+  // 연도별 일련번호로 만든 청구서 번호 (예: LAI-2026-000001)
+  number: string;
+  userId: string;
+  provider: PaymentProviderId;
+  // 결제사 쪽 결제 ID (Stripe 청구서 ID, Toss paymentKey 등)
+  paymentId: string;
+  planChangeLogId?: string;
+  documentType: InvoiceDocumentType;
+  plan: PaidPlanId;
+  interval: BillingInterval;
+  itemName: string;
+  currency: PaymentCurrency;
+  supplyAmount: number;
+  vatAmount: number;
+  totalAmount: number;
+  supplier: InvoiceParty;
+  buyer: InvoiceParty;
+  paidAt: string;
+  issuedAt: string;
+}
+
+export interface IssueInvoiceInput {
+  userId: string;
+  provider: PaymentProviderId;
+  paymentId: string;
+  planChangeLogId?: string;
+  plan: PaidPlanId;
+  interval: BillingInterval;
+  currency: PaymentCurrency;
+  // 부가세 포함 결제 금액 (원화는 원, 달러는 달러 단위)
+  totalAmount: number;
+  paidAt: string;
+}
+
+// 마이페이지 목록용. xmlAvailable이면 전자세금계산서 XML도 내려받을 수 있다
+export type InvoiceSummary = Pick<
+  Invoice,
+  'id' | 'number' | 'documentType' | 'plan' | 'interval' | 'currency' | 'supplyAmount' | 'vatAmount' | 'totalAmount' | 'paidAt' | 'issuedAt'
+> & { planChangeLogId?: string; xmlAvailable: boolean };
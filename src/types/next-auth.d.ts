@@ -0,0 +1,22 @@
+import { DefaultSession } from 'next-auth';
+import { UserRole } from './user';
+
+declare module 'next-auth' {
+  interface Session {
+    user: DefaultSession['user'] & {
+      id: string;
+      role: UserRole;
+    };
+  }
+
+  interface User {
+    role?: UserRole;
+  }
+}
+
+declare module 'next-auth/jwt' {
+  interface JWT {
+    id?: string;
+    role?: UserRole;
+  }
+}
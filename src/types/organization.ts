@@ -0,0 +1,91 @@
+// 조직 안에서의 역할. 사이트 전체 역할(UserRole)과는 별개로 조직마다 따로 정한다
+export type OrgMemberRole = 'owner' | 'admin' | 'editor' | 'viewer';
+
+export type OrgPermission =
+  | 'resources:read'
+  // 계약서·전략 로그·북마크를 워크스페이스에 공유하고 자기가 공유한 것을 지운다
+  | 'resources:share'
+  // 다른 멤버가 공유한 자료도 지운다
+  | 'resources:manage'
+  | 'members:manage'
+  | 'organization:manage';
+
+export interface Organization {
+  id: string;
+  name: string;
+  // 좌석 수는 소유자의 구독을 따른다
+  ownerId: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface OrganizationMember {
+  id: string;
+  organizationId: string;
+  userId: string;
+  email: string;
+  role: OrgMemberRole;
+  joinedAt: string;
+}
+
+export type OrganizationInviteStatus = 'pending' | 'accepted' | 'revoked';
+
+// 초대 메일의 토큰은 원문을 저장하지 않고 SHA-256 해시만 남긴다
+export interface OrganizationInvite {
+  id: string;
+  organizationId: string;
+  email: string;
+  role: Exclude<OrgMemberRole, 'owner'>;
+  tokenHash: string;
+  invitedBy: string;
+  status: OrganizationInviteStatus;
+  expiresAt: string;
+  acceptedAt?: string;
+  createdAt: string;
+}
+
+export type SharedResourceType = 'contract' | 'strategy_log' | 'bookmark';
+
+// 공유 시점의 내용을 복사해 둔다. 원본이 지워지거나 바뀌어도 워크스페이스에서는 그대로 보인다
+export interface SharedResource {
+  id: string;
+  organizationId: string;
+  type: SharedResourceType;
+  title: string;
+  // 계약서는 { contract }, 전략 로그는 StrategyLog, 북마크는 { notes }처럼 종류마다 모양이 다르다
+  content: unknown;
+  // 전략 로그 ID나 북마크한 콘텐츠 ID
+  sourceId?: string;
+  sharedBy: string;
+  sharedByEmail: string;
+  createdAt: string;
+}
+
+export interface SeatUsage {
+  total: number;
+  members: number;
+  pendingInvites: number;
+  // 구독을 낮춰 좌석보다 멤버가 많으면 0
+  available: number;
+}
+
+export interface OrganizationSummary extends Organization {
+  myRole: OrgMemberRole;
+  seats: SeatUsage;
+}
+
+export interface OrganizationDetail extends OrganizationSummary {
+  members: OrganizationMember[];
+  // members:manage 권한이 있을 때만 채운다
+  invites: Array<Omit<OrganizationInvite, 'tokenHash'>>;
+}
+
+export type OrganizationErrorCode =
+  | 'INVALID_INPUT'
+  | 'NOT_FOUND'
+  | 'FORBIDDEN'
+  | 'NO_SEATS'
+  | 'ALREADY_MEMBER'
+  | 'OWNER_IMMUTABLE'
+  | 'INVALID_INVITE'
+  | 'INVITE_EMAIL_MISMATCH';
@@ -0,0 +1,63 @@
+import { CheckoutResult, PaidPlanId } from './billing';
+import { CheckoutDiscount } from './promotion';
+import { BillingInterval, User } from './user';
+
+// fake는 외부 결제 없이 전체 흐름을 돌려 보는 로컬·QA용 결제사
+export type PaymentProviderId = 'stripe' | 'toss' | 'fake';
+
+export type PaymentCurrency = 'USD' | 'KRW';
+
+export type WebhookHeaders = Record<string, string | string[] | undefined>;
+
+// 이벤트 저장소가 중복을 가릴 때 쓰는 값
+export interface ParsedPaymentEvent {
+  eventId: string;
+  eventType: string;
+}
+
+export interface PaymentRefund {
+  id: string;
+  provider: PaymentProviderId;
+  paymentId: string;
+  amount: number;
+  currency: PaymentCurrency;
+  status: 'succeeded' | 'pending' | 'failed';
+}
+
+// 결제사에 남은 결제 한 건. 영수증·세금계산서 발행의 기준이 된다
+export interface PaymentInvoice {
+  id: string;
+  provider: PaymentProviderId;
+  amount: number;
+  // 환불을 뺀 금액
+  netAmount: number;
+  currency: PaymentCurrency;
+  status: 'paid' | 'open' | 'refunded' | 'partially_refunded' | 'void';
+  description: string;
+  customerEmail: string | null;
+  paidAt: string | null;
+  // 결제사가 호스팅하는 영수증·청구서 페이지
+  receiptUrl: string | null;
+}
+
+/**
+ * 모든 결제사 어댑터가 구현하는 인터페이스.
+ * 어느 결제사를 쓸지와 fake 모드 전환은 paymentProviders 레지스트리가 맡는다.
+ */
+export interface PaymentProvider {
+  id: PaymentProviderId;
+  name: string;
+  currency: PaymentCurrency;
+  isConfigured(): boolean;
+  // discount가 있으면 할인한 금액으로 결제를 만들고, 결제가 끝나거나 실패할 때 그 사용을 확정하거나 푼다
+  createCheckout(user: User, plan: PaidPlanId, interval: BillingInterval, discount?: CheckoutDiscount): Promise<CheckoutResult>;
+  // 서명(또는 결제사가 정한 확인 방법)이 맞을 때만 true. 설정이 빠졌으면 BillingError(NOT_CONFIGURED)
+  verifyWebhook(payload: string, headers: WebhookHeaders): Promise<boolean>;
+  // 확인을 마친 원문에서 이벤트 ID와 종류를 꺼낸다. 형식이 틀리면 예외
+  parseEvent(payload: string): ParsedPaymentEvent;
+  // 확인을 마친 원문을 반영한다. 이벤트 저장소가 처음 받을 때와 재처리할 때 같이 부른다
+  handleEvent(payload: string): Promise<void>;
+  // amount가 없으면 전액 환불
+  refund(paymentId: string, amount?: number, reason?: string): Promise<PaymentRefund>;
+  getInvoice(paymentId: string): Promise<PaymentInvoice | null>;
+}
@@ -0,0 +1,5 @@
+// 패키지 진입점(index.js)은 module.parent가 없으면 디버그용 샘플 PDF를 읽으려 해서 lib 파일을 직접 쓴다
+declare module 'pdf-parse/lib/pdf-parse.js' {
+  import pdf from 'pdf-parse';
+  export default pdf;
+}
@@ -0,0 +1,49 @@
+export type PlanId = 'free' | 'basic' | 'pro' | 'enterprise';
+
+export interface PlanFeatures {
+  // -1이면 무제한
+  monthlyQueries: number;
+  monthlyTokens: number;
+  fileUploads: number;
+  advancedAnalysis: boolean;
+  contractGeneration: boolean;
+  prioritySupport: boolean;
+  apiAccess: boolean;
+  // 팀 워크스페이스 생성
+  teamWorkspace: boolean;
+  // 소유자를 포함한 워크스페이스 기본 좌석 수. 구독에 좌석 수가 따로 있으면 그쪽을 쓴다
+  teamSeats: number;
+}
+
+export interface UserPlan {
+  userId: string;
+  plan: PlanId;
+  subscriptionId: string | null;
+  // 사용자 목록에 없는 새 사용자는 무료 플랜으로 본다
+  isNewUser: boolean;
+}
+
+// 플랜에 따라 켜고 끄는 기능
+export type PlanFeatureKey = 'advancedAnalysis' | 'contractGeneration' | 'prioritySupport' | 'apiAccess' | 'teamWorkspace';
+
+export type EntitlementDenialCode = 'FEATURE_NOT_IN_PLAN' | 'QUOTA_EXCEEDED';
+
+// UpgradeBanner에 그대로 넘길 수 있는 업셀 정보
+export interface UpgradePrompt {
+  trigger: 'feature_limit' | 'usage_limit';
+  featureName: string;
+  currentPlan: PlanId;
+  // 더 높은 플랜으로도 풀리지 않으면 null
+  requiredPlan: PlanId | null;
+  currentUsage?: number;
+  usageLimit?: number;
+}
+
+export interface EntitlementDenial {
+  success: false;
+  error: string;
+  // 사용자에게 그대로 보여줄 안내 문구
+  message: string;
+  code: EntitlementDenialCode;
+  upgrade: UpgradePrompt;
+}
@@ -0,0 +1,103 @@
+import { PaidPlanId } from './billing';
+import { PaymentCurrency, PaymentProviderId } from './payment-provider';
+import { BillingInterval } from './user';
+
+export type PromoDiscountType = 'percentage' | 'fixed';
+
+/**
+ * 결제 화면에서 입력하는 프로모션 코드. 할인은 첫 결제(구독 변경이면 그 차액 청구) 한 번에만 적용한다.
+ */
+export interface PromoCode {
+  id: string;
+  // 대문자로 저장하고 입력도 대문자로 바꿔 찾는다
+  code: string;
+  description?: string;
+  discountType: PromoDiscountType;
+  // percentage일 때 1~100
+  percentOff?: number;
+  // fixed일 때 통화별 할인 금액. 금액이 없는 통화로는 쓸 수 없다
+  amountOff?: Partial<Record<PaymentCurrency, number>>;
+  // 비어 있으면 모든 유료 플랜
+  plans?: PaidPlanId[];
+  // 유료 플랜을 한 번도 결제한 적 없는 사용자만
+  firstPurchaseOnly: boolean;
+  // 전체 사용 한도. 없으면 무제한 (사용자마다는 한 번씩)
+  maxRedemptions?: number | null;
+  startsAt?: string | null;
+  expiresAt?: string | null;
+  active: boolean;
+  createdBy?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type CreatePromoCodeInput = Pick<
+  PromoCode,
+  'code' | 'description' | 'discountType' | 'percentOff' | 'amountOff' | 'plans' | 'firstPurchaseOnly' | 'maxRedemptions' | 'startsAt' | 'expiresAt' | 'createdBy'
+>;
+
+export type PromoCodeUpdate = Partial<Pick<PromoCode, 'description' | 'active' | 'maxRedemptions' | 'expiresAt'>>;
+
+// reserved는 결제 화면을 만들 때 잡아 둔 사용 한도. 결제가 끝나면 redeemed, 실패·만료되면 released
+export type PromoRedemptionStatus = 'reserved' | 'redeemed' | 'released';
+
+export interface PromoRedemption {
+  id: string;
+  promoCodeId: string;
+  code: string;
+  userId: string;
+  provider: PaymentProviderId;
+  plan: PaidPlanId;
+  interval: BillingInterval;
+  currency: PaymentCurrency;
+  originalAmount: number;
+  discountAmount: number;
+  finalAmount: number;
+  status: PromoRedemptionStatus;
+  // 결제가 끝난 결제사 쪽 결제 ID
+  paymentId?: string;
+  createdAt: string;
+  redeemedAt?: string;
+  releasedAt?: string;
+}
+
+// 결제 전에 계산한 할인. 결제사 어댑터는 finalAmount로 결제를 만든다
+export interface AppliedDiscount {
+  promoCodeId: string;
+  code: string;
+  discountType: PromoDiscountType;
+  percentOff?: number;
+  currency: PaymentCurrency;
+  originalAmount: number;
+  discountAmount: number;
+  finalAmount: number;
+}
+
+// 결제사 어댑터에 넘기는 할인. 어댑터는 결제가 끝나면 redemptionId로 사용을 확정한다
+export interface CheckoutDiscount extends AppliedDiscount {
+  redemptionId: string;
+}
+
+// 관리자 성장 지표 화면의 코드별 사용 현황
+export interface PromoCodeStats {
+  id: string;
+  code: string;
+  discountType: PromoDiscountType;
+  percentOff?: number;
+  amountOff?: Partial<Record<PaymentCurrency, number>>;
+  active: boolean;
+  expiresAt?: string | null;
+  maxRedemptions?: number | null;
+  redeemed: number;
+  reserved: number;
+  // 통화별 할인 합계와 할인 후 매출
+  discountTotal: Partial<Record<PaymentCurrency, number>>;
+  revenue: Partial<Record<PaymentCurrency, number>>;
+  lastRedeemedAt?: string;
+}
+
+export interface PromotionStats {
+  totalRedemptions: number;
+  activeCodes: number;
+  codes: PromoCodeStats[];
+}
@@ -0,0 +1,43 @@
+export interface StatuteArticle {
+  // 조 번호. 가지번호가 있으면 '24의2' 형식
+  article: string;
+  title: string;
+  text: string;
+}
+
+export interface Statute {
+  id: string;
+  // 답변과 화면에 표시하는 약칭
+  name: string;
+  officialName: string;
+  // 답변에서 법령을 찾을 때 쓰는 이름 (띄어쓰기 변형, 약칭 포함)
+  aliases: string[];
+  articles: StatuteArticle[];
+}
+
+export type CitationStatus = 'verified' | 'unverified';
+
+export type CitationIssue = 'statute_not_indexed' | 'article_not_found';
+
+export interface StatuteCitation {
+  // 답변에 적힌 그대로의 인용 문구
+  raw: string;
+  start: number;
+  end: number;
+  statuteId: string | null;
+  statuteName: string;
+  article: string;
+  paragraph?: number;
+  status: CitationStatus;
+  issue?: CitationIssue;
+  // 색인에서 확인된 조문
+  title?: string;
+  text?: string;
+  url?: string;
+}
+
+export interface CitationCheckResult {
+  citations: StatuteCitation[];
+  verifiedCount: number;
+  unverifiedCount: number;
+}
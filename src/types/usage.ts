@@ -0,0 +1,58 @@
+import { AIProviderId } from './ai-provider';
+
+export type UsageFeature = 'chat' | 'contract_generation' | 'strategic_report' | 'seo' | 'analysis' | 'recommendation';
+
+export interface UsageRecord {
+  id: string;
+  userId: string;
+  provider: AIProviderId;
+  model: string;
+  feature: UsageFeature;
+  // 요약처럼 사용자 요청에 딸린 부가 호출은 질의 수에 넣지 않는다
+  countsAsQuery: boolean;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  // 공개 단가로 추정한 비용 (USD)
+  cost: number;
+  createdAt: string;
+}
+
+export interface UsageBreakdown {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  cost: number;
+}
+
+export interface UsageQuota {
+  used: number;
+  // -1이면 무제한
+  limit: number;
+  remaining: number;
+}
+
+export interface UsageSummary {
+  userId: string;
+  plan: string;
+  period: {
+    month: string;
+    start: string;
+    end: string;
+  };
+  queries: UsageQuota;
+  tokens: UsageQuota & {
+    input: number;
+    output: number;
+  };
+  cost: number;
+  byProvider: Partial<Record<AIProviderId, UsageBreakdown>>;
+  byFeature: Partial<Record<UsageFeature, UsageBreakdown>>;
+}
+
+export type QuotaExceededReason = 'queries' | 'tokens';
+
+export type QuotaCheckResult =
+  | { allowed: true; summary: UsageSummary }
+  | { allowed: false; reason: QuotaExceededReason; summary: UsageSummary };
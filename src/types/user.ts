@@ -0,0 +1,121 @@
+import { PlanId } from './plan';
+import { BillingProfile } from './invoice';
+
+// staff·super_admin은 운영팀, org_admin은 조직(워크스페이스) 관리자
+export type UserRole = 'user' | 'org_admin' | 'staff' | 'super_admin';
+
+export interface User {
+  id: string;
+  // 로그인 세션과 결제 웹훅 모두 이메일로 사용자를 찾는다 (소문자로 저장)
+  email: string;
+  name?: string;
+  // 없으면 'user'
+  role?: UserRole;
+  // bcrypt 해시. 결제 웹훅으로만 만들어진 사용자는 비밀번호가 없다
+  passwordHash?: string;
+  emailVerifiedAt?: string | null;
+  // 연속 로그인 실패 횟수. 한도에 닿으면 lockedUntil까지 잠근다
+  failedLoginAttempts?: number;
+  lockedUntil?: string | null;
+  // 처음 Stripe 결제를 시작할 때 만든 고객 ID. 고객 포털과 구독 변경에 쓴다
+  stripeCustomerId?: string;
+  // 세금계산서 발행용 사업자 정보
+  billingProfile?: BillingProfile | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type UserUpdate = Partial<Pick<
+  User,
+  'name' | 'role' | 'passwordHash' | 'emailVerifiedAt' | 'failedLoginAttempts' | 'lockedUntil' | 'stripeCustomerId' | 'billingProfile'
+>>;
+
+export type AuthTokenType = 'email_verification' | 'password_reset';
+
+// 메일로 보내는 일회용 토큰. 원문은 저장하지 않고 SHA-256 해시만 남긴다
+export interface AuthToken {
+  id: string;
+  tokenHash: string;
+  userId: string;
+  type: AuthTokenType;
+  expiresAt: string;
+  usedAt?: string;
+  createdAt: string;
+}
+
+export type PaymentMethod = 'stripe' | 'toss' | 'fake' | 'manual';
+
+// past_due는 정기 결제가 실패해 graceUntil까지 기존 플랜을 유지하는 상태
+export type SubscriptionStatus = 'active' | 'past_due' | 'canceled';
+
+export type BillingInterval = 'monthly' | 'yearly';
+
+export interface Subscription {
+  id: string;
+  userId: string;
+  plan: PlanId;
+  provider: PaymentMethod;
+  // Stripe 구독 ID나 Toss paymentKey 같은 결제사 쪽 식별자
+  externalId: string | null;
+  // 추가로 구매한 워크스페이스 좌석 수. 없으면 플랜 기본값(teamSeats)
+  seats?: number;
+  status: SubscriptionStatus;
+  interval?: BillingInterval;
+  currentPeriodEnd?: string;
+  // 기간이 끝나면 해지되도록 예약됨 (고객 포털에서 해지한 경우)
+  cancelAtPeriodEnd?: boolean;
+  // 결제 실패 뒤 이 시각까지는 플랜 기능을 그대로 쓸 수 있다
+  graceUntil?: string | null;
+  startedAt: string;
+  canceledAt?: string;
+  updatedAt: string;
+}
+
+export type SubscriptionUpdate = Partial<Pick<
+  Subscription,
+  'status' | 'seats' | 'interval' | 'currentPeriodEnd' | 'cancelAtPeriodEnd' | 'graceUntil'
+>>;
+
+export type PlanChangeType = 'upgrade' | 'downgrade' | 'cancellation' | 'reactivation';
+
+export type PlanChangeStatus = 'pending' | 'completed' | 'failed' | 'cancelled';
+
+export interface PlanChangeLog {
+  id: string;
+  userId: string;
+  userEmail: string;
+  fromPlan: string;
+  toPlan: string;
+  changeType: PlanChangeType;
+  paymentMethod: PaymentMethod;
+  paymentId?: string;
+  amount: number;
+  currency: string;
+  status: PlanChangeStatus;
+  reason?: string;
+  metadata?: Record<string, unknown>;
+  createdAt: string;
+  completedAt?: string;
+}
+
+export interface CreatePlanChangeLogInput {
+  userId: string;
+  userEmail: string;
+  fromPlan: string;
+  toPlan: string;
+  paymentMethod: PaymentMethod;
+  paymentId?: string;
+  reason?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export type PlanChangeLogUpdate = Partial<Pick<PlanChangeLog, 'status' | 'completedAt' | 'reason' | 'metadata'>>;
+
+export type CredentialAuthErrorCode =
+  | 'INVALID_EMAIL'
+  | 'WEAK_PASSWORD'
+  | 'EMAIL_TAKEN'
+  | 'INVALID_CREDENTIALS'
+  | 'EMAIL_NOT_VERIFIED'
+  | 'ACCOUNT_LOCKED'
+  | 'INVALID_TOKEN';
@@ -0,0 +1,28 @@
+import type { NextApiRequest } from 'next';
+
+/**
+ * bodyParser가 꺼진 API 라우트에서 요청 본문을 Buffer로 읽는다.
+ * maxBytes를 넘으면 null을 반환한다.
+ */
+export const readRawBody = (req: NextApiRequest, maxBytes = Infinity): Promise<Buffer | null> => {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let received = 0;
+    let exceeded = false;
+
+    req.on('data', (chunk: Buffer) => {
+      if (exceeded) return;
+      received += chunk.length;
+      if (received > maxBytes) {
+        exceeded = true;
+        resolve(null);
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      if (!exceeded) resolve(Buffer.concat(chunks));
+    });
+    req.on('error', reject);
+  });
+};
@@ -0,0 +1,65 @@
+import type { NextApiResponse } from 'next';
+
+/**
+ * Server-Sent Events 응답을 시작한다. 프록시 버퍼링을 꺼서 토큰이 바로 전달되게 한다.
+ */
+export const initSSE = (res: NextApiResponse) => {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders?.();
+};
+
+export const sendSSE = (res: NextApiResponse, event: string, data: unknown) => {
+  if (res.writableEnded) return;
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  // compression 미들웨어가 있으면 버퍼를 비워야 클라이언트에 바로 도착한다
+  (res as NextApiResponse & { flush?: () => void }).flush?.();
+};
+
+/**
+ * fetch 응답 본문을 SSE 이벤트 단위로 읽는다. 브라우저에서 사용한다.
+ */
+export const readSSE = async (
+  response: Response,
+  onEvent: (event: string, data: unknown) => void
+): Promise<void> => {
+  if (!response.body) throw new Error('Empty stream');
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const dispatch = (block: string) => {
+    let event = 'message';
+    const dataLines: string[] = [];
+    block.split('\n').forEach(line => {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) dataLines.push(line.slice(5).trim());
+    });
+    if (dataLines.length === 0) return;
+    try {
+      onEvent(event, JSON.parse(dataLines.join('\n')));
+    } catch {
+      onEvent(event, dataLines.join('\n'));
+    }
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      dispatch(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+
+  if (buffer.trim()) dispatch(buffer);
+};